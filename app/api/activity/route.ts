@@ -0,0 +1,29 @@
+/**
+ * Activity Feed API Route
+ * GET /api/activity - Recent changes for the signed-in user, newest first
+ *
+ * Covers the user's own changes to todos, subtasks, tags and templates, and
+ * everyone's changes to todos in shared lists they belong to (including
+ * deleted todos). Query: ?before=<event id> for the next page,
+ * ?limit=<n> (default 50, max 200).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoEventDB } from '@/lib/db';
+import { readEventPage } from '@/lib/history';
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const page = readEventPage(request.nextUrl.searchParams);
+  const events = todoEventDB.findFeedForUser(session.userId, page);
+
+  return NextResponse.json({
+    events,
+    next_before: events.length === page.limit ? events[events.length - 1].id : null,
+  });
+}
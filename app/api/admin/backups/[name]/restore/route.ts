@@ -0,0 +1,43 @@
+/**
+ * Admin Backup API Routes - Restore
+ * POST /api/admin/backups/[name]/restore - Replace the live database with a snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { userDB } from '@/lib/db';
+import { getSnapshotPath, restoreSnapshot } from '@/lib/backup';
+
+/**
+ * POST /api/admin/backups/[name]/restore
+ * Restore a snapshot (a pre-restore snapshot of the current data is taken first)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!userDB.isAdmin(session.userId)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  if (!getSnapshotPath(name)) {
+    return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+  }
+
+  try {
+    const result = await restoreSnapshot(name);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore snapshot' },
+      { status: 500 }
+    );
+  }
+}
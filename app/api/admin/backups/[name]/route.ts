@@ -0,0 +1,52 @@
+/**
+ * Admin Backup API Routes - Download
+ * GET /api/admin/backups/[name] - Download a snapshot file
+ */
+
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { userDB } from '@/lib/db';
+import { getSnapshotPath } from '@/lib/backup';
+
+/**
+ * GET /api/admin/backups/[name]
+ * Download a snapshot as a SQLite database file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!userDB.isAdmin(session.userId)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  const snapshotPath = getSnapshotPath(name);
+  if (!snapshotPath) {
+    return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+  }
+
+  try {
+    const file = fs.readFileSync(snapshotPath);
+    return new NextResponse(file, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.sqlite3',
+        'Content-Length': String(file.length),
+        'Content-Disposition': `attachment; filename="${name}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error reading snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to download snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Admin Backup API Routes
+ * GET /api/admin/backups - List database snapshots
+ * POST /api/admin/backups - Take a snapshot now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { userDB } from '@/lib/db';
+import { createSnapshot, listSnapshots } from '@/lib/backup';
+
+/**
+ * GET /api/admin/backups
+ * List all snapshots, newest first
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!userDB.isAdmin(session.userId)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ snapshots: listSnapshots() });
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to list snapshots' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/backups
+ * Take a verified snapshot of the live database
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!userDB.isAdmin(session.userId)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  try {
+    const snapshot = await createSnapshot('manual');
+    return NextResponse.json({ snapshot }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to create snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,9 +6,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { db } from '@/lib/db';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
-import { getSingaporeNow } from '@/lib/timezone';
+import { db, userDB, ACCESSIBLE_TODO_SQL } from '@/lib/db';
+import { format, addMonths } from 'date-fns';
+import { formatInZone, getTodayInZone, toUTC } from '@/lib/timezone';
 
 export async function GET(request: NextRequest) {
   const session = await getSession();
@@ -18,33 +18,38 @@ export async function GET(request: NextRequest) {
 
   const { searchParams } = new URL(request.url);
   const monthParam = searchParams.get('month'); // Format: 2026-02
+  const timeZone = userDB.getTimezone(session.userId);
+  const today = getTodayInZone(timeZone);
 
-  // Default to current month if not specified
+  // Default to current month (in the user's timezone) if not specified
   let targetDate: Date;
   if (monthParam) {
     const [year, month] = monthParam.split('-').map(Number);
     targetDate = new Date(year, month - 1, 1);
   } else {
-    targetDate = getSingaporeNow();
+    const [year, month] = today.split('-').map(Number);
+    targetDate = new Date(year, month - 1, 1);
   }
 
-  const monthStart = format(startOfMonth(targetDate), 'yyyy-MM-dd');
-  const monthEnd = format(endOfMonth(targetDate), 'yyyy-MM-dd');
+  // Month boundaries are midnight in the user's timezone, compared in UTC
+  const monthStart = toUTC(`${format(targetDate, 'yyyy-MM')}-01T00:00`, timeZone);
+  const monthEnd = toUTC(`${format(addMonths(targetDate, 1), 'yyyy-MM')}-01T00:00`, timeZone);
 
   try {
     // Get todos for this month
     const todos = db
       .prepare(
         `
-      SELECT id, title, due_date, priority, completed
-      FROM todos
-      WHERE user_id = ?
-        AND date(due_date) >= ?
-        AND date(due_date) <= ?
+      SELECT id, title, due_date, priority, completed, list_id
+      FROM todos t
+      WHERE ${ACCESSIBLE_TODO_SQL}
+        AND deleted_at IS NULL
+        AND due_date >= ?
+        AND due_date < ?
       ORDER BY due_date
     `
       )
-      .all(session.userId, monthStart, monthEnd);
+      .all(session.userId, session.userId, monthStart, monthEnd);
 
     // Get holidays for this year
     const year = targetDate.getFullYear();
@@ -58,10 +63,10 @@ export async function GET(request: NextRequest) {
       )
       .all(year);
 
-    // Group todos by date
+    // Group todos by date in the user's timezone
     const todosByDate: Record<string, any[]> = {};
     (todos as any[]).forEach((todo) => {
-      const dateKey = todo.due_date.split('T')[0]; // Extract YYYY-MM-DD
+      const dateKey = formatInZone(todo.due_date, timeZone, 'yyyy-MM-dd');
       if (!todosByDate[dateKey]) {
         todosByDate[dateKey] = [];
       }
@@ -70,6 +75,8 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       month: format(targetDate, 'yyyy-MM'),
+      timezone: timeZone,
+      today,
       todosByDate,
       holidays: (holidays as any[]).map((h) => ({
         date: h.date,
@@ -0,0 +1,27 @@
+/**
+ * Email API - Daily digest
+ * GET /api/email/digest - Preview today's digest (content plus rendered email)
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { buildDigest } from '@/lib/email';
+import { renderDigestEmail } from '@/lib/emailTemplates';
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const digest = buildDigest(session.userId);
+    return NextResponse.json({ digest, email: renderDigestEmail(digest) });
+  } catch (error) {
+    console.error('Error building digest:', error);
+    return NextResponse.json(
+      { error: 'Failed to build digest' },
+      { status: 500 }
+    );
+  }
+}
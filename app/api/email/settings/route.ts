@@ -0,0 +1,103 @@
+/**
+ * Email API - Settings
+ * GET /api/email/settings - Get the user's email address and email preferences
+ * PUT /api/email/settings - Update them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { emailSettingsDB, EmailSettings } from '@/lib/db';
+import { isEmailConfigured } from '@/lib/email';
+
+// Deliberately loose - the SMTP server is the real judge of an address
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toResponse(settings: EmailSettings) {
+  return {
+    settings: {
+      email: settings.email,
+      reminders_enabled: settings.reminders_enabled === 1,
+      digest_enabled: settings.digest_enabled === 1,
+      digest_hour: settings.digest_hour,
+    },
+    // Lets the UI explain why nothing arrives when the server has no SMTP setup
+    configured: isEmailConfigured(),
+  };
+}
+
+/**
+ * GET /api/email/settings
+ */
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  return NextResponse.json(toResponse(emailSettingsDB.get(session.userId)));
+}
+
+/**
+ * PUT /api/email/settings
+ * Body (all optional): { email: string | null, reminders_enabled: boolean,
+ *                        digest_enabled: boolean, digest_hour: 0-23 }
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const updates: Parameters<typeof emailSettingsDB.update>[1] = {};
+
+    if (body.email !== undefined) {
+      const email = typeof body.email === 'string' ? body.email.trim() : body.email;
+      if (email !== null && email !== '' && (typeof email !== 'string' || !EMAIL_PATTERN.test(email) || email.length > 254)) {
+        return NextResponse.json(
+          { error: 'Invalid email address' },
+          { status: 400 }
+        );
+      }
+      updates.email = email || null;
+    }
+
+    for (const field of ['reminders_enabled', 'digest_enabled'] as const) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== 'boolean') {
+        return NextResponse.json(
+          { error: `${field} must be true or false` },
+          { status: 400 }
+        );
+      }
+      updates[field] = body[field] ? 1 : 0;
+    }
+
+    if (body.digest_hour !== undefined) {
+      if (!Number.isInteger(body.digest_hour) || body.digest_hour < 0 || body.digest_hour > 23) {
+        return NextResponse.json(
+          { error: 'Digest hour must be a whole number from 0 to 23' },
+          { status: 400 }
+        );
+      }
+      updates.digest_hour = body.digest_hour;
+    }
+
+    const merged = { ...emailSettingsDB.get(session.userId), ...updates };
+    if (!merged.email && (merged.reminders_enabled || merged.digest_enabled)) {
+      return NextResponse.json(
+        { error: 'An email address is required to turn on email' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(toResponse(emailSettingsDB.update(session.userId, updates)));
+  } catch (error) {
+    console.error('Error updating email settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update email settings' },
+      { status: 500 }
+    );
+  }
+}
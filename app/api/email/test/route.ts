@@ -0,0 +1,59 @@
+/**
+ * Email API - Test message
+ * POST /api/email/test - Send a test email to the user's address
+ *
+ * The address isn't verified, so test emails are rate-limited per user
+ * (TEST_EMAIL_LIMIT an hour) to keep the endpoint from mailing arbitrary people.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { emailSettingsDB } from '@/lib/db';
+import { isEmailConfigured, sendEmail, takeTestEmailSlot } from '@/lib/email';
+
+export async function POST() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!isEmailConfigured()) {
+    return NextResponse.json(
+      { error: 'Email is not configured on this server' },
+      { status: 503 }
+    );
+  }
+
+  const { email } = emailSettingsDB.get(session.userId);
+  if (!email) {
+    return NextResponse.json(
+      { error: 'Add an email address first' },
+      { status: 400 }
+    );
+  }
+
+  const retryAfter = takeTestEmailSlot(session.userId);
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { error: 'Too many test emails. Try again later.' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  try {
+    await sendEmail({
+      to: email,
+      subject: 'Test email from Todo App',
+      text: 'Email notifications are working.',
+      html: '<p>Email notifications are working.</p>',
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error sending test email:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test email' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * List Invite Acceptance API Routes
+ * GET /api/invites/[token] - What the invite is for (shown before joining)
+ * POST /api/invites/[token] - Accept the invite and join the list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listDB, listInviteDB, userDB, ListInvite } from '@/lib/db';
+
+/**
+ * Look up an invite, or the error response for one that can't be used
+ */
+function findUsableInvite(token: string): { invite: ListInvite } | { response: NextResponse } {
+  const invite = listInviteDB.findByToken(token);
+  if (!invite) {
+    return { response: NextResponse.json({ error: 'Invite not found' }, { status: 404 }) };
+  }
+
+  if (!listInviteDB.isUsable(invite)) {
+    return {
+      response: NextResponse.json(
+        { error: invite.accepted_at ? 'This invite has already been used' : 'This invite has expired' },
+        { status: 410 }
+      ),
+    };
+  }
+
+  return { invite };
+}
+
+/**
+ * GET /api/invites/[token]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = findUsableInvite(token);
+  if ('response' in found) return found.response;
+
+  const { invite } = found;
+  const list = listDB.findById(invite.list_id)!;
+  const inviter = userDB.findById(invite.created_by);
+
+  return NextResponse.json({
+    invite: { role: invite.role, expires_at: invite.expires_at },
+    list: { id: list.id, name: list.name },
+    invited_by: inviter?.display_name || inviter?.username || null,
+    current_role: listDB.getRole(list.id, session.userId),
+  });
+}
+
+/**
+ * POST /api/invites/[token]
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = findUsableInvite(token);
+  if ('response' in found) return found.response;
+
+  const { invite } = found;
+
+  // Existing members keep their role and leave the invite for someone else
+  const currentRole = listDB.getRole(invite.list_id, session.userId);
+  if (!currentRole) {
+    listInviteDB.accept(invite, session.userId);
+  }
+
+  const list = listDB.findById(invite.list_id)!;
+  return NextResponse.json({
+    list: { ...list, role: listDB.getRole(list.id, session.userId) },
+  });
+}
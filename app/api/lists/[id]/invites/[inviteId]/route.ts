@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listDB, listInviteDB } from '@/lib/db';
+
+/**
+ * DELETE /api/lists/[id]/invites/[inviteId]
+ * Revoke an invite link (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; inviteId: string }> }
+) {
+  const { id, inviteId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can revoke invites' }, { status: 403 });
+  }
+
+  const invite = listInviteDB.findPendingByList(list.id).find(i => i.id === Number(inviteId));
+  if (!invite) {
+    return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+  }
+
+  listInviteDB.delete(invite.id);
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,83 @@
+/**
+ * Shared List Invites API Routes
+ * GET /api/lists/[id]/invites - Pending invites (owner only)
+ * POST /api/lists/[id]/invites - Create an invite link (owner only)
+ *
+ * An invite is a single-use link (/invite/[token]) that adds whoever accepts
+ * it to the list with the invite's role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listDB, listInviteDB } from '@/lib/db';
+import { INVITE_ROLES, ListRole } from '@/lib/constants';
+
+/**
+ * GET /api/lists/[id]/invites
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can see invites' }, { status: 403 });
+  }
+
+  return NextResponse.json({ invites: listInviteDB.findPendingByList(list.id) });
+}
+
+/**
+ * POST /api/lists/[id]/invites
+ * Body: { role: 'editor' | 'viewer' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can invite people' }, { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!INVITE_ROLES.includes(body?.role)) {
+    return NextResponse.json(
+      { error: `Role must be one of: ${INVITE_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const invite = listInviteDB.create(list.id, body.role as ListRole, session.userId);
+
+  return NextResponse.json({ invite }, { status: 201 });
+}
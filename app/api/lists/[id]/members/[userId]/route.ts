@@ -0,0 +1,114 @@
+/**
+ * Shared List Members API Routes
+ * PUT /api/lists/[id]/members/[userId] - Change a member's role (owner only)
+ * DELETE /api/lists/[id]/members/[userId] - Remove a member (owner), or leave the list (yourself)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listDB } from '@/lib/db';
+import { INVITE_ROLES, ListRole } from '@/lib/constants';
+import { recordChangesSince, snapshotListTodos } from '@/lib/history';
+
+/**
+ * PUT /api/lists/[id]/members/[userId]
+ * Body: { role: 'editor' | 'viewer' }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const { id, userId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can change roles' }, { status: 403 });
+  }
+
+  const memberRole = listDB.getRole(list.id, Number(userId));
+  if (!memberRole) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  // A list always has exactly one owner
+  if (memberRole === 'owner') {
+    return NextResponse.json({ error: "The owner's role can't be changed" }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!INVITE_ROLES.includes(body?.role)) {
+    return NextResponse.json(
+      { error: `Role must be one of: ${INVITE_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  // Demoting to viewer unassigns the member's todos
+  const todosBefore = snapshotListTodos(list.id, session.userId);
+  listDB.updateMemberRole(list.id, Number(userId), body.role as ListRole);
+  recordChangesSince(session.userId, todosBefore);
+
+  return NextResponse.json({ members: listDB.getMembers(list.id) });
+}
+
+/**
+ * DELETE /api/lists/[id]/members/[userId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const { id, userId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  const memberId = Number(userId);
+  const isSelf = memberId === session.userId;
+
+  if (!isSelf && role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can remove members' }, { status: 403 });
+  }
+
+  const memberRole = listDB.getRole(list.id, memberId);
+  if (!memberRole) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  if (memberRole === 'owner') {
+    return NextResponse.json(
+      { error: "The owner can't leave the list; delete it instead" },
+      { status: 400 }
+    );
+  }
+
+  // Their todos stay in the list, unassigned
+  const todosBefore = snapshotListTodos(list.id, session.userId);
+  listDB.removeMember(list.id, memberId);
+  recordChangesSince(session.userId, todosBefore);
+
+  return NextResponse.json({ success: true });
+}
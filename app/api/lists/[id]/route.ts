@@ -0,0 +1,119 @@
+/**
+ * Shared List API Routes - Individual List Operations
+ * GET /api/lists/[id] - The list with its members (and pending invites, for the owner)
+ * PUT /api/lists/[id] - Rename the list (owner only)
+ * DELETE /api/lists/[id] - Delete the list and its todos (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { attachmentDB, listDB, listInviteDB } from '@/lib/db';
+import { MAX_LIST_NAME_LENGTH } from '@/lib/constants';
+import { deleteStoredFiles } from '@/lib/attachments';
+import { recordChangesSince, snapshotListTodos } from '@/lib/history';
+
+/**
+ * GET /api/lists/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  // Non-members can't tell whether the list exists
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    list: { ...list, role },
+    members: listDB.getMembers(list.id),
+    current_user_id: session.userId,
+    invites: role === 'owner' ? listInviteDB.findPendingByList(list.id) : [],
+  });
+}
+
+/**
+ * PUT /api/lists/[id]
+ * Body: { name }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can rename it' }, { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const name = body?.name;
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_LIST_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `List name must be 1-${MAX_LIST_NAME_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ list: { ...listDB.update(list.id, name), role } });
+}
+
+/**
+ * DELETE /api/lists/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const list = listDB.findById(Number(id));
+  const role = list ? listDB.getRole(list.id, session.userId) : null;
+
+  if (!list || !role) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 });
+  }
+
+  if (role !== 'owner') {
+    return NextResponse.json({ error: 'Only the list owner can delete it' }, { status: 403 });
+  }
+
+  // CASCADE removes the list's todos, members, invites and attachment records
+  const storageKeys = attachmentDB.findStorageKeysByList(list.id);
+  const todosBefore = snapshotListTodos(list.id, session.userId);
+  listDB.delete(list.id);
+  recordChangesSince(session.userId, todosBefore);
+  await deleteStoredFiles(storageKeys);
+
+  return NextResponse.json({ success: true });
+}
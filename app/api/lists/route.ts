@@ -0,0 +1,60 @@
+/**
+ * Shared Lists API Routes
+ * GET /api/lists - Lists the user belongs to, with their role and members
+ * POST /api/lists - Create a list owned by the user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listDB } from '@/lib/db';
+import { MAX_LIST_NAME_LENGTH } from '@/lib/constants';
+
+/**
+ * GET /api/lists
+ */
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const lists = listDB.findByUser(session.userId).map(list => ({
+    ...list,
+    members: listDB.getMembers(list.id),
+  }));
+
+  return NextResponse.json({ lists });
+}
+
+/**
+ * POST /api/lists
+ * Body: { name }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const name = body?.name;
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_LIST_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `List name must be 1-${MAX_LIST_NAME_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const list = listDB.create(name, session.userId);
+
+  return NextResponse.json(
+    { list: { ...list, role: 'owner', member_count: 1 } },
+    { status: 201 }
+  );
+}
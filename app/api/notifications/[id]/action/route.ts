@@ -0,0 +1,76 @@
+/**
+ * Notifications API - Act on a reminder
+ * POST /api/notifications/[id]/action - Mark the todo done or snooze the reminder
+ *
+ * Called by the service worker when a notification button is clicked, so it
+ * works without the app open.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { notificationDB, todoDB } from '@/lib/db';
+import { canEditTodos, NOTIFICATION_ACTIONS, NotificationAction } from '@/lib/constants';
+import { applyNotificationAction } from '@/lib/notifications';
+
+/**
+ * POST /api/notifications/[id]/action
+ * Body: { action: 'done' | 'snooze-10m' | 'snooze-tomorrow' }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const notificationId = parseInt(id, 10);
+
+    if (isNaN(notificationId)) {
+      return NextResponse.json({ error: 'Invalid notification ID' }, { status: 400 });
+    }
+
+    const notification = notificationDB.findById(notificationId);
+
+    // Don't reveal other users' notifications
+    if (!notification || notification.user_id !== session.userId) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const action = body.action as NotificationAction;
+    if (!NOTIFICATION_ACTIONS.some(option => option.action === action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${NOTIFICATION_ACTIONS.map(o => o.action).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!notification.todo_id) {
+      return NextResponse.json(
+        { error: 'This notification has no todo to act on' },
+        { status: 400 }
+      );
+    }
+
+    // The user may have lost edit access to the todo's shared list since
+    const todo = todoDB.findById(notification.todo_id);
+    if (todo && !canEditTodos(todoDB.getRole(todo, session.userId))) {
+      return NextResponse.json(
+        { error: 'You no longer have edit access to this todo' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(applyNotificationAction(notification, action));
+  } catch (error) {
+    console.error('Error applying notification action:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply notification action' },
+      { status: 500 }
+    );
+  }
+}
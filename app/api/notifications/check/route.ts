@@ -1,16 +1,21 @@
 /**
- * Notifications API - Check for due reminders
- * GET /api/notifications/check - Get todos needing reminders
+ * Notifications API - Unread reminders and mentions for the open app
+ * GET /api/notifications/check - Get in-app notifications not yet shown
+ *
+ * Read-only: reminders are found and recorded by the server-side scheduler
+ * (lib/notifications.ts). The client acknowledges the ones it has shown with
+ * POST /api/notifications/read.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { todoDB } from '@/lib/db';
-import { getSingaporeNow, formatSingaporeDate } from '@/lib/timezone';
+import { notificationDB, todoDB } from '@/lib/db';
+import { IN_APP_CHANNEL } from '@/lib/notifications';
 
 /**
  * GET /api/notifications/check
- * Check for todos that need reminder notifications
+ * Unread in-app reminders whose todo is still open, and comment mentions,
+ * for todos the user can still see
  */
 export async function GET(request: NextRequest) {
   const session = await getSession();
@@ -19,51 +24,25 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const now = getSingaporeNow();
-    const todos = todoDB.findByUser(session.userId);
-
-    const reminders = todos
-      .filter(todo => {
-        // Skip completed todos
-        if (todo.completed) return false;
-
-        // Skip todos without reminders
-        if (!todo.reminder_minutes) return false;
-
-        // Calculate reminder trigger time
-        const dueTime = new Date(todo.due_date);
-        const reminderTime = new Date(dueTime.getTime() - (todo.reminder_minutes * 60 * 1000));
-
-        // Check if within reminder window (now >= reminderTime && now < dueTime)
-        const isInWindow = now >= reminderTime && now < dueTime;
-        if (!isInWindow) return false;
-
-        // Prevent duplicate notifications (check last_notification_sent)
-        if (todo.last_notification_sent) {
-          const lastSent = new Date(todo.last_notification_sent);
-          // Don't resend if already sent within last 5 minutes
-          const minutesSinceLastSent = (now.getTime() - lastSent.getTime()) / (60 * 1000);
-          if (minutesSinceLastSent < 5) return false;
-        }
+    const now = new Date();
+    const notifications = notificationDB.findByUser(session.userId, {
+      channel: IN_APP_CHANNEL,
+      unreadOnly: true,
+    });
 
-        return true;
+    const reminders = notifications
+      .map(notification => {
+        const todo = notification.todo_id ? todoDB.findById(notification.todo_id) : null;
+        // The user may have been removed from the todo's shared list since
+        return { notification, todo: todo && todoDB.getRole(todo, session.userId) ? todo : null };
       })
-      .map(todo => {
-        const dueTime = new Date(todo.due_date);
-        const minutesUntilDue = Math.round((dueTime.getTime() - now.getTime()) / (60 * 1000));
-
-        return {
-          todo,
-          minutesUntilDue,
-        };
-      });
-
-    // Update last_notification_sent for returned todos
-    reminders.forEach(({ todo }) => {
-      todoDB.update(todo.id, {
-        last_notification_sent: formatSingaporeDate(now),
-      });
-    });
+      // Skip reminders for todos completed since the reminder fired
+      .filter(({ notification, todo }) => todo && (notification.type !== 'reminder' || !todo.completed))
+      .map(({ notification, todo }) => ({
+        notification,
+        todo: todo!,
+        minutesUntilDue: Math.round((new Date(todo!.due_date).getTime() - now.getTime()) / (60 * 1000)),
+      }));
 
     return NextResponse.json({ reminders });
   } catch (error) {
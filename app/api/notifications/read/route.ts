@@ -0,0 +1,40 @@
+/**
+ * Notifications API - Mark as read
+ * POST /api/notifications/read - Body: { ids: number[] } or { all: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { notificationDB } from '@/lib/db';
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    if (body.all === true) {
+      const updated = notificationDB.markAllRead(session.userId);
+      return NextResponse.json({ updated });
+    }
+
+    if (!Array.isArray(body.ids) || !body.ids.every((id: unknown) => Number.isInteger(id))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of notification IDs' },
+        { status: 400 }
+      );
+    }
+
+    const updated = notificationDB.markRead(session.userId, body.ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Notifications API - Inbox
+ * GET /api/notifications - List the user's in-app notifications (?unread=true for unread only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { notificationDB } from '@/lib/db';
+import { IN_APP_CHANNEL } from '@/lib/notifications';
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const unreadOnly = searchParams.get('unread') === 'true';
+
+  const notifications = notificationDB.findByUser(session.userId, {
+    channel: IN_APP_CHANNEL,
+    unreadOnly,
+  });
+
+  return NextResponse.json({ notifications });
+}
@@ -0,0 +1,95 @@
+/**
+ * User Preferences API
+ * GET /api/preferences - Get the authenticated user's preferences
+ * PUT /api/preferences - Update preferences (timezone, keyboard shortcuts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { userDB } from '@/lib/db';
+import { SHORTCUT_CONFIGS } from '@/lib/constants';
+import { findShortcutConflict, parseShortcutOverrides, resolveShortcuts } from '@/lib/shortcuts';
+import { isValidTimeZone } from '@/lib/timezone';
+
+function getPreferences(userId: number) {
+  return {
+    timezone: userDB.getTimezone(userId),
+    // Every action's shortcut, the user's own bindings over the defaults
+    shortcuts: resolveShortcuts(userDB.getShortcuts(userId)),
+  };
+}
+
+function shortcutLabel(action: string): string {
+  return SHORTCUT_CONFIGS.find(config => config.action === action)?.label ?? action;
+}
+
+/**
+ * GET /api/preferences
+ */
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  return NextResponse.json({ preferences: getPreferences(session.userId) });
+}
+
+/**
+ * PUT /api/preferences
+ * Body: { timezone?: string, shortcuts?: { [action]: string | null } }
+ *   timezone - IANA timezone, e.g. "Europe/London"
+ *   shortcuts - the user's key bindings, replacing any they had before;
+ *               actions left out or null use their defaults
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    if (body.timezone !== undefined && !isValidTimeZone(body.timezone)) {
+      return NextResponse.json(
+        { error: 'Invalid timezone' },
+        { status: 400 }
+      );
+    }
+
+    let shortcuts: ReturnType<typeof parseShortcutOverrides> = null;
+    if (body.shortcuts !== undefined) {
+      shortcuts = parseShortcutOverrides(body.shortcuts);
+      if (!shortcuts) {
+        return NextResponse.json(
+          { error: 'Invalid shortcuts' },
+          { status: 400 }
+        );
+      }
+      const conflict = findShortcutConflict(resolveShortcuts(shortcuts));
+      if (conflict) {
+        return NextResponse.json(
+          { error: `"${shortcutLabel(conflict[0])}" and "${shortcutLabel(conflict[1])}" can't use the same shortcut` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Nothing is saved unless everything is valid
+    if (body.timezone !== undefined) {
+      userDB.updateTimezone(session.userId, body.timezone);
+    }
+    if (shortcuts) {
+      userDB.updateShortcuts(session.userId, shortcuts);
+    }
+
+    return NextResponse.json({ preferences: getPreferences(session.userId) });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
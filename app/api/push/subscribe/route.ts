@@ -0,0 +1,54 @@
+/**
+ * Web Push API - Subscribe
+ * POST /api/push/subscribe - Save this browser's push subscription
+ * Body: { subscription: PushSubscriptionJSON }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { pushSubscriptionDB } from '@/lib/db';
+import { isAllowedEndpoint } from '@/lib/push';
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const { subscription } = await request.json();
+    const endpoint = subscription?.endpoint;
+    const p256dh = subscription?.keys?.p256dh;
+    const auth = subscription?.keys?.auth;
+
+    if (typeof endpoint !== 'string' || typeof p256dh !== 'string' || typeof auth !== 'string') {
+      return NextResponse.json(
+        { error: 'subscription must include endpoint and keys.p256dh / keys.auth' },
+        { status: 400 }
+      );
+    }
+
+    if (!isAllowedEndpoint(endpoint)) {
+      return NextResponse.json(
+        { error: 'Push endpoint must belong to a browser push service' },
+        { status: 400 }
+      );
+    }
+
+    const saved = pushSubscriptionDB.upsert({
+      user_id: session.userId,
+      endpoint,
+      p256dh,
+      auth,
+      user_agent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.json({ subscription: { id: saved.id, endpoint: saved.endpoint } }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Web Push API - Test message
+ * POST /api/push/test - Send a test push to all of the user's devices
+ *
+ * Rate-limited per user (TEST_PUSH_LIMIT an hour), like test emails.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { sendPushToUser, takeTestPushSlot } from '@/lib/push';
+
+export async function POST() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const retryAfter = takeTestPushSlot(session.userId);
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { error: 'Too many test notifications. Try again later.' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  try {
+    const result = await sendPushToUser(session.userId, {
+      title: '🔔 Test notification',
+      body: 'Push notifications are working',
+      tag: 'push-test',
+      data: { url: '/' },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sending test push:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test push' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Web Push API - Unsubscribe
+ * POST /api/push/unsubscribe - Remove a push subscription
+ * Body: { endpoint: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { pushSubscriptionDB } from '@/lib/db';
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const { endpoint } = await request.json();
+    if (typeof endpoint !== 'string') {
+      return NextResponse.json({ error: 'endpoint is required' }, { status: 400 });
+    }
+
+    const removed = pushSubscriptionDB.deleteByEndpoint(session.userId, endpoint);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove push subscription' },
+      { status: 500 }
+    );
+  }
+}
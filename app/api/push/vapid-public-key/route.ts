@@ -0,0 +1,17 @@
+/**
+ * Web Push API - Application server key
+ * GET /api/push/vapid-public-key - Public VAPID key for PushManager.subscribe()
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { getVapidKeys } from '@/lib/push';
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  return NextResponse.json({ publicKey: getVapidKeys().publicKey });
+}
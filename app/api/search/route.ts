@@ -0,0 +1,65 @@
+/**
+ * Search API Route
+ * GET /api/search - Full-text search over the todos the user can see
+ *
+ * Matches todo titles, descriptions, subtask titles and tag names (see the
+ * todo_search index, migration 016), best match first. Every word matches as
+ * a prefix; "quoted phrases" match as written.
+ *
+ * Query: ?q=<text>, ?limit=<n> (default 20, max 100), ?offset=<n> for the
+ * next page, ?include_completed=false to leave out completed todos.
+ * Highlights are HTML: the text escaped, matched terms in <mark>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoSearchDB, TodoSearchRow } from '@/lib/db';
+import { DEFAULT_SEARCH_PAGE_SIZE, MAX_SEARCH_PAGE_SIZE } from '@/lib/constants';
+import { hasHighlight, highlightToHtml, toFtsQuery } from '@/lib/search';
+
+function toResult(row: TodoSearchRow) {
+  const { rank, title_highlight, description_snippet, subtasks_snippet, tags_highlight, ...todo } = row;
+
+  // Only the fields that matched, apart from the title
+  const highlights: Record<string, string> = { title: highlightToHtml(title_highlight) };
+  if (hasHighlight(description_snippet)) highlights.description = highlightToHtml(description_snippet);
+  if (hasHighlight(subtasks_snippet)) highlights.subtasks = highlightToHtml(subtasks_snippet);
+  if (hasHighlight(tags_highlight)) highlights.tags = highlightToHtml(tags_highlight);
+
+  return { todo, rank, highlights };
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const limit = Number(searchParams.get('limit'));
+  const offset = Number(searchParams.get('offset'));
+  const page = {
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_SEARCH_PAGE_SIZE) : DEFAULT_SEARCH_PAGE_SIZE,
+    offset: Number.isInteger(offset) && offset > 0 ? offset : 0,
+    includeCompleted: searchParams.get('include_completed') !== 'false',
+  };
+
+  const query = toFtsQuery(searchParams.get('q') ?? '');
+  if (!query) {
+    return NextResponse.json({ results: [], total: 0, next_offset: null });
+  }
+
+  try {
+    const { rows, total } = todoSearchDB.search(session.userId, query, page);
+    const nextOffset = page.offset + rows.length;
+
+    return NextResponse.json({
+      results: rows.map(toResult),
+      total,
+      next_offset: nextOffset < total ? nextOffset : null,
+    });
+  } catch (error) {
+    console.error('Error searching todos:', error);
+    return NextResponse.json({ error: 'Failed to search todos' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Smart List API Routes
+ * PUT /api/smart-lists/[id] - Rename a smart list or replace its filters
+ * DELETE /api/smart-lists/[id] - Delete a smart list (its todos are untouched)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { smartListDB } from '@/lib/db';
+import { MAX_SMART_LIST_NAME_LENGTH } from '@/lib/constants';
+import { parseFilterState, parseSavedSearchOptions, FilterState, SavedSearchOptions } from '@/lib/search';
+
+/**
+ * The user's smart list, or null if it doesn't exist or is someone else's
+ */
+async function findOwnSmartList(params: Promise<{ id: string }>, userId: number) {
+  const { id } = await params;
+  const smartList = smartListDB.findById(parseInt(id, 10));
+  return smartList && smartList.user_id === userId ? smartList : null;
+}
+
+/**
+ * PUT /api/smart-lists/[id]
+ * Body: { name?, filters?, search_options? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const smartList = await findOwnSmartList(params, session.userId);
+  if (!smartList) {
+    return NextResponse.json({ error: 'Smart list not found' }, { status: 404 });
+  }
+
+  const body = await request.json();
+  const updates: { name?: string; filters?: FilterState; search_options?: SavedSearchOptions } = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0 || body.name.trim().length > MAX_SMART_LIST_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Smart list name must be 1-${MAX_SMART_LIST_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    updates.name = body.name;
+  }
+
+  if (body.filters !== undefined) {
+    const filters = parseFilterState(body.filters);
+    if (!filters) {
+      return NextResponse.json({ error: 'Invalid filters' }, { status: 400 });
+    }
+    updates.filters = filters;
+  }
+
+  if (body.search_options !== undefined) {
+    const searchOptions = parseSavedSearchOptions(body.search_options);
+    if (!searchOptions) {
+      return NextResponse.json({ error: 'Invalid filters' }, { status: 400 });
+    }
+    updates.search_options = searchOptions;
+  }
+
+  const updated = smartListDB.update(smartList.id, updates);
+
+  return NextResponse.json({ smart_list: updated });
+}
+
+/**
+ * DELETE /api/smart-lists/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const smartList = await findOwnSmartList(params, session.userId);
+  if (!smartList) {
+    return NextResponse.json({ error: 'Smart list not found' }, { status: 404 });
+  }
+
+  smartListDB.delete(smartList.id);
+
+  return NextResponse.json({ success: true });
+}
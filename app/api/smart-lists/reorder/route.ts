@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { smartListDB } from '@/lib/db';
+
+/**
+ * POST /api/smart-lists/reorder
+ * Move a smart list to a new position in the user's sidebar
+ * Body: { smart_list_id, new_position }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { smart_list_id, new_position } = await request.json();
+
+  if (typeof smart_list_id !== 'number' || !Number.isInteger(new_position)) {
+    return NextResponse.json(
+      { error: 'Invalid smart_list_id or new_position' },
+      { status: 400 }
+    );
+  }
+
+  const smartList = smartListDB.findById(smart_list_id);
+  if (!smartList || smartList.user_id !== session.userId) {
+    return NextResponse.json({ error: 'Smart list not found' }, { status: 404 });
+  }
+
+  const count = smartListDB.findByUser(session.userId).length;
+  if (new_position < 0 || new_position >= count) {
+    return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
+  }
+
+  smartListDB.move(smart_list_id, new_position);
+
+  return NextResponse.json({ smart_lists: smartListDB.findByUser(session.userId) });
+}
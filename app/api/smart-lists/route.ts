@@ -0,0 +1,73 @@
+/**
+ * Smart Lists API Routes
+ * GET /api/smart-lists - The user's saved searches in sidebar order, each
+ *   with the number of todos it currently matches
+ * POST /api/smart-lists - Save filters and search options as a smart list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { smartListDB, todoDB, userDB } from '@/lib/db';
+import { MAX_SMART_LIST_NAME_LENGTH } from '@/lib/constants';
+import { parseFilterState, parseSavedSearchOptions, searchTodos } from '@/lib/search';
+
+/**
+ * GET /api/smart-lists
+ */
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Counts cover completed todos too, for smart lists that show them
+  const todos = todoDB.findByUser(session.userId, { includeCompleted: true });
+  const timeZone = userDB.getTimezone(session.userId);
+
+  const smartLists = smartListDB.findByUser(session.userId).map(smartList => ({
+    ...smartList,
+    count: searchTodos(todos, smartList.filters, {
+      ...smartList.search_options,
+      timeZone,
+      currentUserId: session.userId,
+    }).length,
+  }));
+
+  return NextResponse.json({ smart_lists: smartLists });
+}
+
+/**
+ * POST /api/smart-lists
+ * Body: { name, filters, search_options? }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { name } = body;
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_SMART_LIST_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Smart list name must be 1-${MAX_SMART_LIST_NAME_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const filters = parseFilterState(body.filters);
+  const searchOptions = parseSavedSearchOptions(body.search_options ?? {});
+  if (!filters || !searchOptions) {
+    return NextResponse.json({ error: 'Invalid filters' }, { status: 400 });
+  }
+
+  const smartList = smartListDB.create({
+    user_id: session.userId,
+    name,
+    filters,
+    search_options: searchOptions,
+  });
+
+  return NextResponse.json({ smart_list: smartList }, { status: 201 });
+}
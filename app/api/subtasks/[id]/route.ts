@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { subtaskDB, todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { recordChanges, recordDeleted, snapshotSubtask } from '@/lib/history';
 
 /**
  * PUT /api/subtasks/[id]
- * Update a subtask (title, completed, position)
+ * Update a subtask (title, completed, position, assignee)
  */
 export async function PUT(
   request: NextRequest,
@@ -23,11 +25,14 @@ export async function PUT(
     return NextResponse.json({ error: 'Subtask not found' }, { status: 404 });
   }
 
-  // Verify ownership via parent todo
+  // Verify access via parent todo
   const todo = todoDB.findById(subtask.todo_id);
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
   }
+  if (!canEditTodos(todoDB.getRole(todo, session.userId))) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
 
   // Validate title if provided
   if (body.title !== undefined) {
@@ -49,8 +54,25 @@ export async function PUT(
     }
   }
 
+  // Validate assignee if provided: someone who can edit the parent todo
+  if (body.assignee_id !== undefined && body.assignee_id !== null) {
+    if (typeof body.assignee_id !== 'number' || !todoDB.canAssign(todo, body.assignee_id)) {
+      return NextResponse.json(
+        { error: 'Assignee must be a member of the list who can edit todos' },
+        { status: 400 }
+      );
+    }
+  }
+
   // Update subtask
-  const updated = subtaskDB.update(Number(id), body);
+  const updateData: Parameters<typeof subtaskDB.update>[1] = {};
+  if (body.title !== undefined) updateData.title = body.title;
+  if (body.completed !== undefined) updateData.completed = body.completed;
+  if (body.position !== undefined) updateData.position = body.position;
+  if (body.assignee_id !== undefined) updateData.assignee_id = body.assignee_id;
+  const before = snapshotSubtask(Number(id))!;
+  const updated = subtaskDB.update(Number(id), updateData);
+  recordChanges(session.userId, before, snapshotSubtask(Number(id)));
 
   return NextResponse.json({ subtask: updated });
 }
@@ -74,16 +96,21 @@ export async function DELETE(
     return NextResponse.json({ error: 'Subtask not found' }, { status: 404 });
   }
 
-  // Verify ownership
+  // Verify access
   const todo = todoDB.findById(subtask.todo_id);
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
   }
+  if (!canEditTodos(todoDB.getRole(todo, session.userId))) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
 
   const todoId = subtask.todo_id;
 
   // Delete subtask
+  const before = snapshotSubtask(Number(id));
   subtaskDB.delete(Number(id));
+  recordDeleted(session.userId, before);
 
   // Reorder remaining subtasks (close gaps in position)
   const remaining = subtaskDB.findByTodo(todoId);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { subtaskDB, todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { recordChanges, snapshotSubtask } from '@/lib/history';
 
 /**
  * POST /api/subtasks/reorder
@@ -28,11 +30,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Subtask not found' }, { status: 404 });
   }
 
-  // Verify ownership
+  // Verify access
   const todo = todoDB.findById(subtask.todo_id);
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
   }
+  if (!canEditTodos(todoDB.getRole(todo, session.userId))) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
 
   // Get all subtasks for this todo
   const allSubtasks = subtaskDB.findByTodo(subtask.todo_id);
@@ -52,6 +57,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true });
   }
 
+  // Only the moved subtask's change is recorded, not the shifted ones
+  const before = snapshotSubtask(subtask_id)!;
+
   // Reorder algorithm: shift all subtasks between old and new position
   if (oldPosition < new_position) {
     // Moving down: shift items up
@@ -72,6 +80,7 @@ export async function POST(request: NextRequest) {
       }
     });
   }
+  recordChanges(session.userId, before, snapshotSubtask(subtask_id));
 
   return NextResponse.json({ success: true });
 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { subtaskDB, todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { recordCreated, snapshotSubtask } from '@/lib/history';
 
 /**
  * POST /api/subtasks
@@ -31,11 +33,14 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Verify todo exists and belongs to user
+  // Verify todo exists and the user can see it (own todo or shared list)
   const todo = todoDB.findById(todo_id);
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
   }
+  if (!canEditTodos(todoDB.getRole(todo, session.userId))) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
 
   // Get next position (0-indexed, so length = next position)
   const existingSubtasks = subtaskDB.findByTodo(todo_id);
@@ -46,6 +51,7 @@ export async function POST(request: NextRequest) {
     title: title.trim(),
     position: nextPosition,
   });
+  recordCreated(session.userId, snapshotSubtask(subtask.id));
 
   return NextResponse.json({ subtask }, { status: 201 });
 }
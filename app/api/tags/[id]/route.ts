@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { tagDB } from '@/lib/db';
+import { recordChanges, recordDeleted, snapshotTag, snapshotTodo, RecordSnapshot } from '@/lib/history';
 
 /**
  * PUT /api/tags/[id]
@@ -54,7 +55,9 @@ export async function PUT(
     }
   }
 
+  const before = snapshotTag(tag.id)!;
   const updated = tagDB.update(Number(id), body);
+  recordChanges(session.userId, before, snapshotTag(tag.id));
 
   return NextResponse.json({ tag: updated });
 }
@@ -78,7 +81,16 @@ export async function DELETE(
     return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
   }
 
+  // Removing the tag changes the todos it was on too
+  const todosBefore = tagDB.getTodoIds(tag.id)
+    .map(todoId => snapshotTodo(todoId))
+    .filter((snapshot): snapshot is RecordSnapshot => snapshot !== null);
+  const before = snapshotTag(tag.id);
+
   tagDB.delete(Number(id));
 
+  recordDeleted(session.userId, before);
+  todosBefore.forEach(todoBefore => recordChanges(session.userId, todoBefore, snapshotTodo(todoBefore.entity_id)));
+
   return NextResponse.json({ success: true });
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { tagDB, getRandomTagColor } from '@/lib/db';
+import { recordCreated, snapshotTag } from '@/lib/history';
 
 /**
  * GET /api/tags
@@ -72,6 +73,7 @@ export async function POST(request: NextRequest) {
     name,
     color,
   });
+  recordCreated(session.userId, snapshotTag(tag.id));
 
   return NextResponse.json({ tag }, { status: 201 });
 }
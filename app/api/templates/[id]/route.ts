@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { templateDB, Priority, TemplateCategory } from '@/lib/db';
+import { recordChanges, recordDeleted, snapshotTemplate } from '@/lib/history';
 
 export async function PUT(
   request: NextRequest,
@@ -56,7 +57,9 @@ export async function PUT(
     updates.due_offset_days = due_offset_days;
   }
 
+  const before = snapshotTemplate(template.id)!;
   const updatedTemplate = templateDB.update(Number(id), updates);
+  recordChanges(session.userId, before, snapshotTemplate(template.id));
   return NextResponse.json({ template: updatedTemplate });
 }
 
@@ -75,6 +78,8 @@ export async function DELETE(
     return NextResponse.json({ error: 'Template not found' }, { status: 404 });
   }
 
+  const before = snapshotTemplate(template.id);
   templateDB.delete(Number(id));
+  recordDeleted(session.userId, before);
   return NextResponse.json({ success: true });
 }
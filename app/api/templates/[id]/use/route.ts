@@ -5,9 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { templateDB, todoDB, subtaskDB } from '@/lib/db';
-import { getSingaporeNow, formatSingaporeDate } from '@/lib/timezone';
-import { addDays } from 'date-fns';
+import { templateDB, todoDB, subtaskDB, userDB } from '@/lib/db';
+import { recordCreated, snapshotSubtask, snapshotTodo } from '@/lib/history';
+import { toUTC } from '@/lib/timezone';
 
 export async function POST(
   request: NextRequest,
@@ -30,12 +30,15 @@ export async function POST(
   // Calculate due date
   let dueDate: string;
   if (due_date_override) {
-    dueDate = due_date_override;
+    try {
+      dueDate = toUTC(String(due_date_override), userDB.getTimezone(session.userId));
+    } catch {
+      return NextResponse.json({ error: 'Invalid due date' }, { status: 400 });
+    }
   } else {
-    const now = getSingaporeNow();
+    // Same time of day, N days from now (a whole day each, so no DST drift)
     const offsetDays = template.due_offset_days || 0;
-    const due = addDays(now, offsetDays);
-    dueDate = formatSingaporeDate(due, 'yyyy-MM-dd HH:mm:ss');
+    dueDate = new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString();
   }
 
   // Create todo
@@ -64,5 +67,7 @@ export async function POST(
 
   // Get todo with subtasks
   const subtasks = subtaskDB.findByTodo(todo.id);
+  recordCreated(session.userId, snapshotTodo(todo.id));
+  subtasks.forEach(subtask => recordCreated(session.userId, snapshotSubtask(subtask.id)));
   return NextResponse.json({ todo: { ...todo, subtasks } }, { status: 201 });
 }
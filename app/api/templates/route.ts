@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { templateDB, todoDB, subtaskDB } from '@/lib/db';
+import { recordCreated, snapshotTemplate } from '@/lib/history';
 
 export async function GET(request: NextRequest) {
   const session = await getSession();
@@ -59,7 +60,7 @@ export async function POST(request: NextRequest) {
 
   // Get source todo
   const todo = todoDB.findById(todo_id);
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
   }
 
@@ -81,6 +82,7 @@ export async function POST(request: NextRequest) {
     due_offset_days,
     subtasks_json,
   });
+  recordCreated(session.userId, snapshotTemplate(template.id));
 
   return NextResponse.json({ template }, { status: 201 });
 }
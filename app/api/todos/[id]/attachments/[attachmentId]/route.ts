@@ -0,0 +1,93 @@
+/**
+ * Attachment API Routes - Download and Delete
+ * GET /api/todos/[id]/attachments/[attachmentId] - Download the file (?inline=1 to view images and PDFs in the browser)
+ * DELETE /api/todos/[id]/attachments/[attachmentId] - Remove it (uploader, or anyone who can edit the todo)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { attachmentDB, todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { contentDisposition, deleteStoredFiles } from '@/lib/attachments';
+import { getStorage } from '@/lib/storage';
+
+type RouteParams = { params: Promise<{ id: string; attachmentId: string }> };
+
+/**
+ * Find an attachment on a todo the user can still see
+ */
+async function findAttachment(userId: number, { params }: RouteParams) {
+  const { id, attachmentId } = await params;
+  const todo = todoDB.findById(Number(id));
+  const role = todo ? todoDB.getRole(todo, userId) : null;
+  if (!todo || !role) return null;
+
+  const attachment = attachmentDB.findById(Number(attachmentId));
+  if (!attachment || attachment.todo_id !== todo.id) return null;
+
+  return { todo, role, attachment };
+}
+
+/**
+ * GET /api/todos/[id]/attachments/[attachmentId]
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = await findAttachment(session.userId, context);
+  if (!found) {
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+  }
+
+  const { attachment } = found;
+  try {
+    const data = await getStorage().get(attachment.storage_key);
+    if (!data) {
+      console.error(`Stored file missing for attachment ${attachment.id} (${attachment.storage_key})`);
+      return NextResponse.json({ error: 'Attachment file is missing' }, { status: 404 });
+    }
+
+    const inline = request.nextUrl.searchParams.get('inline') === '1';
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mime_type,
+        'Content-Length': String(data.length),
+        'Content-Disposition': contentDisposition(attachment.filename, inline ? 'inline' : 'attachment'),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to read attachment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/todos/[id]/attachments/[attachmentId]
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = await findAttachment(session.userId, context);
+  if (!found) {
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+  }
+  if (found.attachment.user_id !== session.userId && !canEditTodos(found.role)) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
+
+  attachmentDB.delete(found.attachment.id);
+  await deleteStoredFiles([found.attachment.storage_key]);
+
+  return NextResponse.json({ success: true });
+}
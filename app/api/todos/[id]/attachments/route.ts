@@ -0,0 +1,144 @@
+/**
+ * Attachment API Routes - List and Upload
+ * GET /api/todos/[id]/attachments - A todo's attachments, oldest first
+ * POST /api/todos/[id]/attachments - Upload a file (multipart/form-data, field "file")
+ *
+ * Anyone who can see the todo can list and download its files; uploading
+ * needs edit access. Files are kept by the storage backend (lib/storage.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { attachmentDB, todoDB } from '@/lib/db';
+import {
+  canEditTodos,
+  formatFileSize,
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  MAX_ATTACHMENTS_PER_TODO,
+} from '@/lib/constants';
+import { createStorageKey, detectMimeType, sanitizeFilename } from '@/lib/attachments';
+import { getStorage } from '@/lib/storage';
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * GET /api/todos/[id]/attachments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findById(Number(id));
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
+    return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ attachments: attachmentDB.findByTodo(todo.id) });
+}
+
+/**
+ * POST /api/todos/[id]/attachments
+ * Body: multipart/form-data with a single "file" field
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findById(Number(id));
+  const role = todo ? todoDB.getRole(todo, session.userId) : null;
+  if (!todo || !role) {
+    return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+  }
+  if (!canEditTodos(role)) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
+
+  const tooLarge = NextResponse.json(
+    { error: `File must be ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)} or smaller` },
+    { status: 413 }
+  );
+  // Reject oversized uploads before reading them
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_ATTACHMENT_SIZE_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    return tooLarge;
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 400 });
+  }
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+  }
+  if (file.size === 0) {
+    return NextResponse.json({ error: 'File is empty' }, { status: 400 });
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    return tooLarge;
+  }
+
+  if (attachmentDB.findByTodo(todo.id).length >= MAX_ATTACHMENTS_PER_TODO) {
+    return NextResponse.json(
+      { error: `A todo can have at most ${MAX_ATTACHMENTS_PER_TODO} attachments` },
+      { status: 400 }
+    );
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  const mimeType = detectMimeType(data);
+  if (!mimeType) {
+    return NextResponse.json(
+      { error: `Only ${Object.values(ATTACHMENT_MIME_TYPES).join(', ')} files can be attached` },
+      { status: 415 }
+    );
+  }
+
+  const storage = getStorage();
+  const storageKey = createStorageKey(todo.id);
+  try {
+    await storage.put(storageKey, data, mimeType);
+  } catch (error) {
+    console.error('Error storing attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to store attachment' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const attachment = attachmentDB.create({
+      todo_id: todo.id,
+      user_id: session.userId,
+      filename: sanitizeFilename(file.name),
+      mime_type: mimeType,
+      size: data.length,
+      storage_key: storageKey,
+    });
+
+    return NextResponse.json({ attachment }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating attachment:', error);
+    // Don't leave an orphaned file behind
+    await storage.delete(storageKey).catch(() => {});
+    return NextResponse.json(
+      { error: 'Failed to create attachment' },
+      { status: 500 }
+    );
+  }
+}
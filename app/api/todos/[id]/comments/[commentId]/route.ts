@@ -0,0 +1,82 @@
+/**
+ * Comment API Routes - Edit and Delete
+ * PUT /api/todos/[id]/comments/[commentId] - Edit your own comment
+ * DELETE /api/todos/[id]/comments/[commentId] - Delete your own comment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { commentDB, todoDB } from '@/lib/db';
+import { MAX_COMMENT_LENGTH } from '@/lib/constants';
+import { notifyMentions } from '@/lib/comments';
+
+type RouteParams = { params: Promise<{ id: string; commentId: string }> };
+
+/**
+ * Find a comment on a todo the user can still see
+ */
+async function findComment(userId: number, { params }: RouteParams) {
+  const { id, commentId } = await params;
+  const todo = todoDB.findById(Number(id));
+  if (!todo || !todoDB.getRole(todo, userId)) return null;
+
+  const comment = commentDB.findById(Number(commentId));
+  if (!comment || comment.todo_id !== todo.id) return null;
+
+  return { todo, comment };
+}
+
+/**
+ * PUT /api/todos/[id]/comments/[commentId]
+ * Body: { body } (markdown)
+ */
+export async function PUT(request: NextRequest, context: RouteParams) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = await findComment(session.userId, context);
+  if (!found) {
+    return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+  }
+  if (found.comment.user_id !== session.userId) {
+    return NextResponse.json({ error: 'You can only edit your own comments' }, { status: 403 });
+  }
+
+  const { body } = await request.json();
+  if (typeof body !== 'string' || body.trim().length === 0 || body.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json(
+      { error: `Comment must be 1-${MAX_COMMENT_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const comment = commentDB.update(found.comment.id, body.trim())!;
+  // Only people added by the edit are notified
+  notifyMentions(found.todo, comment, found.comment.body);
+
+  return NextResponse.json({ comment });
+}
+
+/**
+ * DELETE /api/todos/[id]/comments/[commentId]
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const found = await findComment(session.userId, context);
+  if (!found) {
+    return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+  }
+  if (found.comment.user_id !== session.userId) {
+    return NextResponse.json({ error: 'You can only delete your own comments' }, { status: 403 });
+  }
+
+  commentDB.delete(found.comment.id);
+
+  return NextResponse.json({ success: true });
+}
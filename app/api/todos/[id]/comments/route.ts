@@ -0,0 +1,76 @@
+/**
+ * Comment API Routes - Thread and Post
+ * GET /api/todos/[id]/comments - A todo's comments, oldest first
+ * POST /api/todos/[id]/comments - Add a comment
+ *
+ * Anyone who can see the todo can read and post comments, including viewers
+ * of a shared list. @mentioned users are notified (lib/comments.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { commentDB, todoDB } from '@/lib/db';
+import { MAX_COMMENT_LENGTH } from '@/lib/constants';
+import { notifyMentions } from '@/lib/comments';
+
+/**
+ * GET /api/todos/[id]/comments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findById(Number(id));
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
+    return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ comments: commentDB.findByTodo(todo.id) });
+}
+
+/**
+ * POST /api/todos/[id]/comments
+ * Body: { body } (markdown)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findById(Number(id));
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
+    return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+  }
+
+  const { body } = await request.json();
+  if (typeof body !== 'string' || body.trim().length === 0 || body.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json(
+      { error: `Comment must be 1-${MAX_COMMENT_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const comment = commentDB.create(todo.id, session.userId, body.trim());
+    notifyMentions(todo, comment);
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Todo History API Route
+ * GET /api/todos/[id]/history - Changes to a todo, its subtasks and its tags, newest first
+ *
+ * Query: ?before=<event id> for the next page, ?limit=<n> (default 50, max 200).
+ * Anyone who can see the todo can see its history, except changes made
+ * before they could see it (e.g. private edits before it was shared).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoDB, todoEventDB } from '@/lib/db';
+import { readEventPage } from '@/lib/history';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findById(Number(id));
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
+    return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+  }
+
+  const page = readEventPage(request.nextUrl.searchParams);
+  const events = todoEventDB.findByTodo(todo.id, session.userId, page);
+
+  return NextResponse.json({
+    events,
+    next_before: events.length === page.limit ? events[events.length - 1].id : null,
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Todo Restore API Route
+ * POST /api/todos/[id]/restore - Take a todo out of the trash, with its
+ * subtasks, tags, reminders and attachments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { recordRestored, snapshotTodo } from '@/lib/history';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findByIdIncludingDeleted(Number(id));
+  const role = todo ? todoDB.getRole(todo, session.userId) : null;
+  if (!todo || !todo.deleted_at || !role) {
+    return NextResponse.json({ error: 'Todo not found in trash' }, { status: 404 });
+  }
+  if (!canEditTodos(role)) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
+
+  const restored = todoDB.restore(todo.id)!;
+  recordRestored(session.userId, snapshotTodo(todo.id));
+
+  return NextResponse.json({ todo: restored });
+}
@@ -2,13 +2,17 @@
  * Todo API Routes - Individual Todo Operations
  * GET /api/todos/[id] - Get a specific todo
  * PUT /api/todos/[id] - Update a todo
- * DELETE /api/todos/[id] - Delete a todo
+ * DELETE /api/todos/[id] - Move a todo to the trash
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { todoDB, Priority, RecurrencePattern } from '@/lib/db';
-import { getSingaporeNow, formatSingaporeDate } from '@/lib/timezone';
+import { listDB, subtaskDB, todoDB, todoReminderDB, userDB, Priority, RecurrencePattern, ReminderInput } from '@/lib/db';
+import { canEditTodos, MAX_DESCRIPTION_LENGTH } from '@/lib/constants';
+import { recordChanges, recordChangesSince, recordCreated, recordDeleted, snapshotSubtask, snapshotTodo } from '@/lib/history';
+import { readRemindersFromBody } from '@/lib/reminders';
+import { normalizeRRule, parseRRule, rruleToPattern } from '@/lib/rrule';
+import { toUTC } from '@/lib/timezone';
 
 /**
  * GET /api/todos/[id]
@@ -37,12 +41,12 @@ export async function GET(
       return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
     }
 
-    // Verify ownership
-    if (todo.user_id !== session.userId) {
+    // Verify access (own todo, or member of its list)
+    if (!todoDB.getRole(todo, session.userId)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    return NextResponse.json({ todo });
+    return NextResponse.json({ todo: { ...todo, reminders: todoReminderDB.findByTodo(todoId) } });
   } catch (error) {
     console.error('Error fetching todo:', error);
     return NextResponse.json(
@@ -79,13 +83,18 @@ export async function PUT(
       return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
     }
 
-    // Verify ownership
-    if (todo.user_id !== session.userId) {
+    // Verify access: viewers of a shared list can't change its todos
+    const role = todoDB.getRole(todo, session.userId);
+    if (!role) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
+    if (!canEditTodos(role)) {
+      return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+    }
 
     const body = await request.json();
     const updateData: any = {};
+    const timeZone = userDB.getTimezone(session.userId);
 
     // Validate and prepare update data
     if (body.title !== undefined) {
@@ -104,8 +113,25 @@ export async function PUT(
       updateData.title = body.title.trim();
     }
 
+    if (body.description !== undefined) {
+      if (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH) {
+        return NextResponse.json(
+          { error: `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less` },
+          { status: 400 }
+        );
+      }
+      updateData.description = body.description.trim();
+    }
+
     if (body.due_date !== undefined) {
-      updateData.due_date = body.due_date;
+      try {
+        updateData.due_date = toUTC(String(body.due_date), timeZone);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid due date' },
+          { status: 400 }
+        );
+      }
     }
 
     if (body.priority !== undefined) {
@@ -127,10 +153,75 @@ export async function PUT(
         );
       }
       updateData.recurrence_pattern = body.recurrence_pattern;
+      // Choosing a preset (or no recurrence) replaces any custom rule
+      updateData.recurrence_rule = null;
     }
 
-    if (body.reminder_minutes !== undefined) {
-      updateData.reminder_minutes = body.reminder_minutes;
+    if (body.recurrence_rule !== undefined && body.recurrence_rule !== null) {
+      try {
+        const rule = normalizeRRule(String(body.recurrence_rule));
+        updateData.recurrence_rule = rule;
+        if (rule) {
+          updateData.recurrence_pattern = rruleToPattern(parseRRule(rule));
+        }
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: `Invalid recurrence rule: ${error.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Move to another shared list, or back to the user's personal todos (null)
+    if (body.list_id !== undefined && body.list_id !== todo.list_id) {
+      if (!todoDB.canMoveFromList(todo, session.userId)) {
+        return NextResponse.json(
+          { error: 'Only the list owner or the todo\'s creator can move it out of this list' },
+          { status: 403 }
+        );
+      }
+      if (body.list_id === null) {
+        updateData.list_id = null;
+        updateData.user_id = session.userId;
+      } else {
+        const targetRole = typeof body.list_id === 'number' ? listDB.getRole(body.list_id, session.userId) : null;
+        if (!targetRole) {
+          return NextResponse.json(
+            { error: 'List not found' },
+            { status: 404 }
+          );
+        }
+        if (!canEditTodos(targetRole)) {
+          return NextResponse.json(
+            { error: 'You have view-only access to that list' },
+            { status: 403 }
+          );
+        }
+        updateData.list_id = body.list_id;
+      }
+    }
+
+    // Assignee must be able to edit the todo where it ends up
+    if (body.assignee_id !== undefined) {
+      if (body.assignee_id !== null &&
+          (typeof body.assignee_id !== 'number' || !todoDB.canAssign({ ...todo, ...updateData }, body.assignee_id))) {
+        return NextResponse.json(
+          { error: 'Assignee must be a member of the list who can edit todos' },
+          { status: 400 }
+        );
+      }
+      updateData.assignee_id = body.assignee_id;
+    }
+
+    // Reminders are only replaced when the body includes them
+    let reminders: ReminderInput[] | undefined;
+    try {
+      reminders = readRemindersFromBody(body, timeZone);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
     }
 
     // Handle completion
@@ -142,10 +233,11 @@ export async function PUT(
       
       if (isCompleting) {
         // Set completion timestamp
-        updateData.completed_at = formatSingaporeDate(getSingaporeNow());
+        updateData.completed_at = new Date().toISOString();
 
         // If recurring, create next instance with tags and subtasks
-        if (todo.recurrence_pattern) {
+        // (null when a custom rule's COUNT/UNTIL has been reached)
+        if (todo.recurrence_pattern || todo.recurrence_rule) {
           nextTodo = todoDB.createRecurringInstance(todo);
         }
       } else if (body.completed === 0) {
@@ -155,11 +247,30 @@ export async function PUT(
     }
 
     // Update the todo
-    const updatedTodo = todoDB.update(todoId, updateData);
+    const before = snapshotTodo(todoId)!;
+    // Moving lists can unassign subtasks too
+    const subtasksBefore = updateData.list_id !== undefined
+      ? subtaskDB.findByTodo(todoId).map(subtask => snapshotSubtask(subtask.id)!)
+      : [];
+    let updatedTodo = todoDB.update(todoId, updateData);
+    if (updateData.list_id !== undefined) {
+      // Assignees who aren't members of the new list can't keep it
+      todoDB.unassignIneligible(todoId);
+      updatedTodo = todoDB.findById(todoId);
+    }
+    const updatedReminders = reminders
+      ? todoReminderDB.replaceForTodo(todoId, reminders)
+      : todoReminderDB.findByTodo(todoId);
 
-    const response: any = { todo: updatedTodo };
+    recordChanges(session.userId, before, snapshotTodo(todoId));
+    recordChangesSince(session.userId, subtasksBefore);
     if (nextTodo) {
-      response.next_todo = nextTodo;
+      recordCreated(session.userId, snapshotTodo(nextTodo.id));
+    }
+
+    const response: any = { todo: { ...updatedTodo, reminders: updatedReminders } };
+    if (nextTodo) {
+      response.next_todo = { ...nextTodo, reminders: todoReminderDB.findByTodo(nextTodo.id) };
     }
 
     return NextResponse.json(response);
@@ -174,7 +285,7 @@ export async function PUT(
 
 /**
  * DELETE /api/todos/[id]
- * Delete a todo (cascades to subtasks and tag relationships)
+ * Move a todo to the trash
  */
 export async function DELETE(
   request: NextRequest,
@@ -199,13 +310,19 @@ export async function DELETE(
       return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
     }
 
-    // Verify ownership
-    if (todo.user_id !== session.userId) {
+    // Verify access: viewers of a shared list can't change its todos
+    const role = todoDB.getRole(todo, session.userId);
+    if (!role) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
+    if (!canEditTodos(role)) {
+      return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+    }
 
-    // Delete the todo (CASCADE will handle subtasks and tag relationships)
-    todoDB.delete(todoId);
+    // Subtasks, tags and attachments stay with it until the trash is purged
+    const before = snapshotTodo(todoId);
+    todoDB.delete(todoId, session.userId);
+    recordDeleted(session.userId, before);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { todoDB, tagDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { recordChanges, snapshotTodo } from '@/lib/history';
 
 /**
  * POST /api/todos/[id]/tags
@@ -19,10 +21,14 @@ export async function POST(
   const { tag_ids } = await request.json();
   const todo = todoDB.findById(Number(id));
 
-  if (!todo || todo.user_id !== session.userId) {
+  if (!todo || !todoDB.getRole(todo, session.userId)) {
     return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
   }
 
+  if (!canEditTodos(todoDB.getRole(todo, session.userId))) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
+
   // Validate tag_ids is an array
   if (!Array.isArray(tag_ids)) {
     return NextResponse.json(
@@ -31,10 +37,12 @@ export async function POST(
     );
   }
 
-  // Verify all tags belong to user
+  // Verify all tags belong to user. On shared lists, tags other members
+  // already put on the todo can be kept.
+  const currentTagIds = new Set(todoDB.getTags(todo.id).map(tag => tag.id));
   for (const tagId of tag_ids) {
     const tag = tagDB.findById(tagId);
-    if (!tag || tag.user_id !== session.userId) {
+    if (!tag || (tag.user_id !== session.userId && !currentTagIds.has(tag.id))) {
       return NextResponse.json(
         { error: `Tag ${tagId} not found or not accessible` },
         { status: 404 }
@@ -42,6 +50,8 @@ export async function POST(
     }
   }
 
+  const before = snapshotTodo(todo.id)!;
+
   // Clear existing tags for this todo
   todoDB.removeTag(todo.id, -1); // Remove all tags (hack: if we pass -1, we should clear all)
   
@@ -56,6 +66,8 @@ export async function POST(
     todoDB.addTag(todo.id, tagId);
   });
 
+  recordChanges(session.userId, before, snapshotTodo(todo.id));
+
   // Return todo with tags
   const tags = todoDB.getTags(todo.id);
   return NextResponse.json({ todo: { ...todo, tags } });
@@ -0,0 +1,49 @@
+/**
+ * Bulk Todo API
+ * POST /api/todos/bulk - Apply one action to many todos in one transaction
+ *
+ * Body: { ids: number[], action: { type, ... } } where the action is one of
+ *   complete | uncomplete | delete (to the trash)
+ *   set_priority { priority } | add_tag { tag_id } | remove_tag { tag_id }
+ *   shift_due { days } (on the user's wall clock) | move_to_list { list_id | null }
+ *
+ * Responds with a result per ID: { id, ok, error? }. Todos that are missing,
+ * view-only or (for editors) someone else's to move out of a shared list fail
+ * individually; the others are still changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { applyBulkAction, parseBulkAction, parseBulkIds, BulkRequestError } from '@/lib/bulk';
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const ids = parseBulkIds(body?.ids);
+    const action = parseBulkAction(body?.action, session.userId);
+
+    // All or nothing if something unexpected fails part-way
+    const results = db.transaction(() => applyBulkAction(session.userId, ids, action))();
+    const succeeded = results.filter(result => result.ok).length;
+
+    return NextResponse.json({ results, succeeded, failed: results.length - succeeded });
+  } catch (error) {
+    if (error instanceof BulkRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error applying bulk action:', error);
+    return NextResponse.json({ error: 'Failed to update todos' }, { status: 500 });
+  }
+}
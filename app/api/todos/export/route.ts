@@ -6,9 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { todoDB, subtaskDB, tagDB, templateDB, db } from '@/lib/db';
-import { getSingaporeNow } from '@/lib/timezone';
-import { format } from 'date-fns';
+import { todoDB, tagDB, templateDB, userDB } from '@/lib/db';
+import { getTodayInZone } from '@/lib/timezone';
 
 export async function GET(request: NextRequest) {
   const session = await getSession();
@@ -17,38 +16,21 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Export all todos with relationships
-    const todos = todoDB.findByUser(session.userId, { includeCompleted: true });
+    // Export all personal todos with their subtasks, tags and reminders (loaded
+    // in batches; shared lists belong to their members)
+    const todos = todoDB.findByUser(session.userId, { includeCompleted: true, listId: null });
     const tags = tagDB.findByUser(session.userId);
     const templates = templateDB.findByUser(session.userId);
 
-    // Get all subtasks and tag relationships for todos
-    const subtasksMap: Record<number, any[]> = {};
-    const tagsMap: Record<number, number[]> = {};
-
-    todos.forEach((todo) => {
-      subtasksMap[todo.id] = subtaskDB.findByTodo(todo.id);
-
-      // Get tag IDs for this todo
-      const todoTags = db
-        .prepare(`
-        SELECT tag_id FROM todo_tags WHERE todo_id = ?
-      `)
-        .all(todo.id) as { tag_id: number }[];
-
-      tagsMap[todo.id] = todoTags.map((t) => t.tag_id);
-    });
-
     // Build export structure
     const exportData = {
       version: '1.0',
-      exported_at: getSingaporeNow().toISOString(),
+      exported_at: new Date().toISOString(),
       user_id: session.userId, // For reference only
       data: {
         todos: todos.map((todo) => ({
           ...todo,
-          subtasks: subtasksMap[todo.id] || [],
-          tag_ids: tagsMap[todo.id] || [],
+          tag_ids: (todo.tags ?? []).map((tag) => tag.id),
         })),
         tags,
         templates,
@@ -57,12 +39,12 @@ export async function GET(request: NextRequest) {
         total_todos: todos.length,
         total_tags: tags.length,
         total_templates: templates.length,
-        total_subtasks: Object.values(subtasksMap).flat().length,
+        total_subtasks: todos.reduce((sum, todo) => sum + (todo.subtasks?.length ?? 0), 0),
       },
     };
 
     // Generate filename with date
-    const dateStr = format(getSingaporeNow(), 'yyyy-MM-dd');
+    const dateStr = getTodayInZone(userDB.getTimezone(session.userId));
     const filename = `todos-backup-${dateStr}.json`;
 
     return new NextResponse(JSON.stringify(exportData, null, 2), {
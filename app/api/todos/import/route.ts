@@ -6,13 +6,23 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { todoDB, subtaskDB, tagDB, templateDB, db, Todo, Subtask, Tag } from '@/lib/db';
+import { todoDB, todoReminderDB, subtaskDB, tagDB, templateDB, userDB, db, Todo, TodoReminder, Subtask, Tag } from '@/lib/db';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/constants';
+import { recordCreated, snapshotSubtask, snapshotTag, snapshotTemplate, snapshotTodo } from '@/lib/history';
+import { readRemindersFromBody, toReminderInputs } from '@/lib/reminders';
+import { normalizeRRule } from '@/lib/rrule';
+import { toUTC } from '@/lib/timezone';
 
 interface ExportData {
   version: string;
   exported_at: string;
   data: {
-    todos: (Todo & { subtasks: Subtask[]; tag_ids: number[] })[];
+    todos: (Todo & {
+      subtasks: Subtask[];
+      tag_ids: number[];
+      reminders?: TodoReminder[];
+      reminder_minutes?: number | null;  // Exports from before multiple reminders
+    })[];
     tags: Tag[];
     templates: any[];
   };
@@ -36,102 +46,131 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // ID remapping structures
-    const tagIdMap = new Map<number, number>(); // old ID → new ID
-    const todoIdMap = new Map<number, number>();
-
-    // Import tags first (handle duplicates by name)
-    const existingTags = tagDB.findByUser(session.userId);
-    const existingTagNames = new Map(existingTags.map((t) => [t.name.toLowerCase(), t.id]));
-
-    body.data.tags.forEach((tag) => {
-      const lowerName = tag.name.toLowerCase();
-      if (existingTagNames.has(lowerName)) {
-        // Reuse existing tag
-        tagIdMap.set(tag.id, existingTagNames.get(lowerName)!);
-      } else {
-        // Create new tag
-        const newTag = tagDB.create({
-          name: tag.name,
-          color: tag.color,
-          user_id: session.userId,
-        });
-        tagIdMap.set(tag.id, newTag.id);
-        existingTagNames.set(lowerName, newTag.id);
-      }
-    });
+    // One transaction: a failed import leaves nothing behind, and a large
+    // import doesn't pay for a commit per row
+    db.transaction(() => {
+      // ID remapping structures
+      const tagIdMap = new Map<number, number>(); // old ID → new ID
+      const todoIdMap = new Map<number, number>();
+
+      // Import tags first (handle duplicates by name)
+      const existingTags = tagDB.findByUser(session.userId);
+      const existingTagNames = new Map(existingTags.map((t) => [t.name.toLowerCase(), t.id]));
 
-    // Import todos
-    body.data.todos.forEach((todo) => {
-      // Create new todo (omit old ID, let DB assign new one)
-      const newTodo = todoDB.create({
-        title: todo.title,
-        user_id: session.userId,
-        priority: todo.priority,
-        due_date: todo.due_date,
-        recurrence_pattern: todo.recurrence_pattern,
-        reminder_minutes: todo.reminder_minutes,
+      body.data.tags.forEach((tag) => {
+        const lowerName = tag.name.toLowerCase();
+        if (existingTagNames.has(lowerName)) {
+          // Reuse existing tag
+          tagIdMap.set(tag.id, existingTagNames.get(lowerName)!);
+        } else {
+          // Create new tag
+          const newTag = tagDB.create({
+            name: tag.name,
+            color: tag.color,
+            user_id: session.userId,
+          });
+          tagIdMap.set(tag.id, newTag.id);
+          existingTagNames.set(lowerName, newTag.id);
+          recordCreated(session.userId, snapshotTag(newTag.id));
+        }
       });
 
-      todoIdMap.set(todo.id, newTodo.id);
+      // Exports from before timestamps were stored in UTC contain wall-clock
+      // times; read those in the importing user's timezone
+      const timeZone = userDB.getTimezone(session.userId);
 
-      // Mark as completed if needed (update after creation)
-      if (todo.completed) {
-        db.prepare(`
-          UPDATE todos
-          SET completed = 1, completed_at = ?
-          WHERE id = ?
-        `).run(todo.completed_at || new Date().toISOString(), newTodo.id);
-      }
+      // Import todos
+      body.data.todos.forEach((todo) => {
+        // Create new todo (omit old ID, let DB assign new one)
+        const newTodo = todoDB.create({
+          title: todo.title,
+          description: todo.description ?? '',
+          user_id: session.userId,
+          priority: todo.priority,
+          due_date: toUTC(todo.due_date, timeZone),
+          recurrence_pattern: todo.recurrence_pattern,
+          recurrence_rule: normalizeRRule(todo.recurrence_rule),
+          recurrence_index: todo.recurrence_index,
+        });
 
-      // Import subtasks with remapped todo_id
-      if (todo.subtasks && Array.isArray(todo.subtasks)) {
-        todo.subtasks.forEach((subtask) => {
-          subtaskDB.create({
-            todo_id: newTodo.id,
-            title: subtask.title,
-            position: subtask.position,
-          });
+        todoIdMap.set(todo.id, newTodo.id);
 
-          // Mark subtask as completed if needed
-          if (subtask.completed) {
-            db.prepare(`
-              UPDATE subtasks
-              SET completed = 1
-              WHERE todo_id = ? AND title = ?
-            `).run(newTodo.id, subtask.title);
+        // Reminders start unsent; invalid ones are dropped rather than failing the import
+        try {
+          const reminders = readRemindersFromBody({
+            reminders: todo.reminders ? toReminderInputs(todo.reminders) : undefined,
+            reminder_minutes: todo.reminder_minutes ?? undefined,
+          }, timeZone);
+          if (reminders) {
+            todoReminderDB.replaceForTodo(newTodo.id, reminders);
           }
-        });
-      }
+        } catch (error) {
+          console.warn(`Skipping invalid reminders for imported todo "${todo.title}":`, error);
+        }
+
+        // Mark as completed if needed (update after creation)
+        if (todo.completed) {
+          db.prepare(`
+            UPDATE todos
+            SET completed = 1, completed_at = ?
+            WHERE id = ?
+          `).run(todo.completed_at ? toUTC(todo.completed_at, timeZone) : new Date().toISOString(), newTodo.id);
+        }
+
+        // Import subtasks with remapped todo_id
+        if (todo.subtasks && Array.isArray(todo.subtasks)) {
+          todo.subtasks.forEach((subtask) => {
+            subtaskDB.create({
+              todo_id: newTodo.id,
+              title: subtask.title,
+              position: subtask.position,
+            });
 
-      // Recreate tag relationships with remapped IDs
-      if (todo.tag_ids && Array.isArray(todo.tag_ids)) {
-        todo.tag_ids.forEach((oldTagId) => {
-          const newTagId = tagIdMap.get(oldTagId);
-          if (newTagId) {
-            db.prepare(
+            // Mark subtask as completed if needed
+            if (subtask.completed) {
+              db.prepare(`
+                UPDATE subtasks
+                SET completed = 1
+                WHERE todo_id = ? AND title = ?
+              `).run(newTodo.id, subtask.title);
+            }
+          });
+        }
+
+        // Recreate tag relationships with remapped IDs
+        if (todo.tag_ids && Array.isArray(todo.tag_ids)) {
+          todo.tag_ids.forEach((oldTagId) => {
+            const newTagId = tagIdMap.get(oldTagId);
+            if (newTagId) {
+              db.prepare(
+                `
+                INSERT OR IGNORE INTO todo_tags (todo_id, tag_id)
+                VALUES (?, ?)
               `
-              INSERT OR IGNORE INTO todo_tags (todo_id, tag_id)
-              VALUES (?, ?)
-            `
-            ).run(newTodo.id, newTagId);
-          }
-        });
-      }
-    });
+              ).run(newTodo.id, newTagId);
+            }
+          });
+        }
 
-    // Import templates (independent of todos)
-    body.data.templates.forEach((template) => {
-      templateDB.create({
-        user_id: session.userId,
-        name: template.name,
-        title: template.title,
-        category: template.category,
-        priority: template.priority,
-        due_offset_days: template.due_offset_days,
-        subtasks_json: template.subtasks_json,
+        // Recorded once complete, so the history shows the todo as imported
+        recordCreated(session.userId, snapshotTodo(newTodo.id));
+        subtaskDB.findByTodo(newTodo.id).forEach(subtask => recordCreated(session.userId, snapshotSubtask(subtask.id)));
       });
-    });
+
+      // Import templates (independent of todos)
+      body.data.templates.forEach((template) => {
+        const newTemplate = templateDB.create({
+          user_id: session.userId,
+          name: template.name,
+          title: template.title,
+          category: template.category,
+          priority: template.priority,
+          due_offset_days: template.due_offset_days,
+          subtasks_json: template.subtasks_json,
+        });
+        recordCreated(session.userId, snapshotTemplate(newTemplate.id));
+      });
+    })();
 
     return NextResponse.json({
       success: true,
@@ -177,15 +216,32 @@ function validateExportData(data: any): string[] {
       if (!todo.title || typeof todo.title !== 'string') {
         errors.push(`todos[${index}]: missing or invalid title`);
       }
+      if (todo.description !== undefined &&
+          (typeof todo.description !== 'string' || todo.description.length > MAX_DESCRIPTION_LENGTH)) {
+        errors.push(`todos[${index}]: description must be a string of ${MAX_DESCRIPTION_LENGTH} characters or less`);
+      }
       if (!todo.priority || !['high', 'medium', 'low'].includes(todo.priority)) {
         errors.push(`todos[${index}]: invalid priority`);
       }
+      if (!isValidDate(todo.due_date)) {
+        errors.push(`todos[${index}]: missing or invalid due_date`);
+      }
+      if (todo.completed_at && !isValidDate(todo.completed_at)) {
+        errors.push(`todos[${index}]: invalid completed_at`);
+      }
       if (todo.subtasks !== undefined && !Array.isArray(todo.subtasks)) {
         errors.push(`todos[${index}]: subtasks must be an array`);
       }
       if (todo.tag_ids !== undefined && !Array.isArray(todo.tag_ids)) {
         errors.push(`todos[${index}]: tag_ids must be an array`);
       }
+      if (todo.recurrence_rule) {
+        try {
+          normalizeRRule(todo.recurrence_rule);
+        } catch (error: any) {
+          errors.push(`todos[${index}]: invalid recurrence_rule (${error.message})`);
+        }
+      }
     });
   }
 
@@ -210,3 +266,16 @@ function validateExportData(data: any): string[] {
 
   return errors;
 }
+
+/**
+ * Check that a value is a date the importer can convert to UTC
+ */
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    toUTC(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
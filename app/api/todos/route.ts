@@ -1,17 +1,84 @@
 /**
  * Todo API Routes - List and Create
- * GET /api/todos - Get all todos for authenticated user
+ * GET /api/todos - Get todos for authenticated user, a page at a time if asked
  * POST /api/todos - Create a new todo
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { todoDB, Priority, RecurrencePattern } from '@/lib/db';
-import { getSingaporeNow, isPastDate } from '@/lib/timezone';
+import { listDB, tagDB, todoDB, todoReminderDB, userDB, Priority, RecurrencePattern, ReminderInput, Tag, TodoPageOptions } from '@/lib/db';
+import { canEditTodos, MAX_DESCRIPTION_LENGTH, MAX_TODO_PAGE_SIZE, TODO_SORT_OPTIONS } from '@/lib/constants';
+import { recordCreated, snapshotTag, snapshotTodo } from '@/lib/history';
+import { createQueryMatcher, parseQuery, QuerySyntaxError } from '@/lib/query';
+import { readRemindersFromBody } from '@/lib/reminders';
+import { normalizeRRule, parseRRule, rruleToPattern } from '@/lib/rrule';
+import { isPastDate, toUTC } from '@/lib/timezone';
+
+/**
+ * Whether a value is a yyyy-MM-dd day
+ */
+function isDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+/**
+ * The user's tags with these names (any case), creating the ones they don't have
+ */
+function findOrCreateTags(userId: number, names: string[]): Tag[] {
+  const existing = tagDB.findByUser(userId);
+  const tags = new Map<number, Tag>();
+  for (const name of names) {
+    let tag = existing.find(t => t.name.toLowerCase() === name.toLowerCase());
+    if (!tag) {
+      tag = tagDB.create({ user_id: userId, name });
+      existing.push(tag);
+      recordCreated(userId, snapshotTag(tag.id));
+    }
+    tags.set(tag.id, tag);
+  }
+  return [...tags.values()];
+}
+
+/**
+ * Opaque cursor for the page after a todo: its sort key, plus the sort it
+ * belongs to so it can't be replayed against another one
+ */
+function encodeCursor(sort: string, order: string, key: unknown[]): string {
+  return Buffer.from(JSON.stringify({ sort, order, key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: string, order: string): unknown[] | null {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const validKey = Array.isArray(data.key) &&
+      data.key.every((value: unknown) => typeof value === 'string' || typeof value === 'number');
+    return data.sort === sort && data.order === order && validKey ? data.key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The day after a yyyy-MM-dd day
+ */
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
 
 /**
  * GET /api/todos
- * Retrieve all todos for the authenticated user with optional filters
+ * Retrieve todos for the authenticated user with optional filters
+ *
+ * Filters: ?status=incomplete|complete|all (default incomplete; the older
+ *   ?include_completed=true means all), ?priority=, ?tag_id=,
+ *   ?list_id=<id>|personal, ?due_from= and ?due_to= (yyyy-MM-dd days in the
+ *   user's timezone, inclusive), ?q= (the search query language, see lib/query.ts)
+ * Sorting: ?sort=priority|due_date|created_at|title (default priority:
+ *   incomplete first, then by priority, then due date), ?order=asc|desc
+ * Pages: ?limit=<n> (max 500; default everything) and ?cursor=<next_cursor>
+ *   from the previous page. `total` counts the matches across all pages.
  */
 export async function GET(request: NextRequest) {
   // Check authentication
@@ -23,13 +90,32 @@ export async function GET(request: NextRequest) {
   try {
     // Parse query parameters
     const { searchParams } = new URL(request.url);
-    const includeCompleted = searchParams.get('include_completed') === 'true';
     const priorityFilter = searchParams.get('priority') as Priority | null;
     const tagIdFilter = searchParams.get('tag_id');
+    const listIdFilter = searchParams.get('list_id');
+    const timezone = userDB.getTimezone(session.userId);
+
+    const status = searchParams.get('status') ??
+      (searchParams.get('include_completed') === 'true' ? 'all' : 'incomplete');
+    if (status !== 'all' && status !== 'incomplete' && status !== 'complete') {
+      return NextResponse.json({ error: 'status must be incomplete, complete or all' }, { status: 400 });
+    }
+
+    const sort = searchParams.get('sort') ?? 'priority';
+    const order = searchParams.get('order') ?? 'asc';
+    const sortOption = TODO_SORT_OPTIONS.find(option => option.value === sort);
+    if (!sortOption || (order !== 'asc' && order !== 'desc')) {
+      return NextResponse.json(
+        { error: `sort must be one of ${TODO_SORT_OPTIONS.map(o => o.value).join(', ')}, order asc or desc` },
+        { status: 400 }
+      );
+    }
 
     // Build filter options
-    const options: any = {
-      includeCompleted,
+    const options: TodoPageOptions = {
+      completed: status,
+      sort: sortOption.value,
+      order,
     };
 
     if (priorityFilter && ['high', 'medium', 'low'].includes(priorityFilter)) {
@@ -40,14 +126,62 @@ export async function GET(request: NextRequest) {
       options.tagId = parseInt(tagIdFilter, 10);
     }
 
-    // Fetch todos with relations (subtasks and tags)
-    const todos = todoDB.findByUser(session.userId, options);
+    // list_id=personal for personal todos only, or a shared list's ID
+    if (listIdFilter) {
+      options.listId = listIdFilter === 'personal' ? null : parseInt(listIdFilter, 10);
+    }
+
+    // Due days are the user's calendar days
+    const dueFrom = searchParams.get('due_from');
+    const dueTo = searchParams.get('due_to');
+    if ((dueFrom && !isDay(dueFrom)) || (dueTo && !isDay(dueTo))) {
+      return NextResponse.json({ error: 'due_from and due_to must be yyyy-MM-dd' }, { status: 400 });
+    }
+    if (dueFrom) options.dueFrom = toUTC(`${dueFrom}T00:00`, timezone);
+    if (dueTo) options.dueBefore = toUTC(`${nextDay(dueTo)}T00:00`, timezone);
+
+    const limit = searchParams.get('limit');
+    if (limit !== null) {
+      const value = Number(limit);
+      if (!Number.isInteger(value) || value < 1 || value > MAX_TODO_PAGE_SIZE) {
+        return NextResponse.json({ error: `limit must be 1-${MAX_TODO_PAGE_SIZE}` }, { status: 400 });
+      }
+      options.limit = value;
+    }
+
+    const cursor = searchParams.get('cursor');
+    if (cursor) {
+      const key = decodeCursor(cursor, sort, order);
+      if (!key) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+      options.after = key;
+    }
+
+    // e.g. ?q=tag:work priority:high due:<7d
+    const query = parseQuery(searchParams.get('q') ?? '');
+    if (query) {
+      options.filter = createQueryMatcher(query, { timeZone: timezone });
+    }
+
+    // Fetch todos with relations (subtasks, tags and reminders)
+    const page = todoDB.findPage(session.userId, options);
 
     return NextResponse.json({ 
-      todos, 
-      username: session.username 
+      todos: page.todos,
+      total: page.total,
+      next_cursor: page.nextKey ? encodeCursor(sort, order, page.nextKey) : null,
+      username: session.username,
+      user_id: session.userId,
+      timezone,
     });
   } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return NextResponse.json({ error: error.message, position: error.position }, { status: 400 });
+    }
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
     console.error('Error fetching todos:', error);
     return NextResponse.json(
       { error: 'Failed to fetch todos' },
@@ -59,6 +193,9 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/todos
  * Create a new todo for the authenticated user
+ *
+ * tag_names: ["work", ...] tags it by name (quick add); names the user has no
+ * tag for (in any case) become new tags
  */
 export async function POST(request: NextRequest) {
   // Check authentication
@@ -69,7 +206,8 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { title, due_date, priority, recurrence_pattern, reminder_minutes } = body;
+    const { title, description, due_date, priority, recurrence_pattern, recurrence_rule, list_id, assignee_id, tag_names } = body;
+    const timeZone = userDB.getTimezone(session.userId);
 
     // Validation: Title is required
     if (!title || typeof title !== 'string' || title.trim().length === 0) {
@@ -86,6 +224,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validation: Description (optional markdown)
+    if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      return NextResponse.json(
+        { error: `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
     // Validation: Due date is required
     if (!due_date || typeof due_date !== 'string') {
       return NextResponse.json(
@@ -94,8 +240,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validation: Due date cannot be in the past (Singapore time)
-    if (isPastDate(due_date)) {
+    // Wall-clock input (e.g. from datetime-local) is in the user's timezone; stored in UTC
+    let dueDate: string;
+    try {
+      dueDate = toUTC(due_date, timeZone);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid due date' },
+        { status: 400 }
+      );
+    }
+
+    // Validation: Due date cannot be in the past
+    if (isPastDate(dueDate)) {
       return NextResponse.json(
         { error: 'Due date cannot be in the past' },
         { status: 400 }
@@ -118,28 +275,92 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validation: Reminder minutes must be positive
-    if (reminder_minutes !== null && reminder_minutes !== undefined) {
-      const reminderNum = parseInt(reminder_minutes, 10);
-      if (isNaN(reminderNum) || reminderNum <= 0) {
+    // Validation: Custom recurrence rule must be a supported RRULE
+    let recurrenceRule: string | null = null;
+    if (recurrence_rule !== null && recurrence_rule !== undefined) {
+      try {
+        recurrenceRule = normalizeRRule(String(recurrence_rule));
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: `Invalid recurrence rule: ${error.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validation: Shared list must be one the user can add todos to
+    if (list_id !== undefined && list_id !== null) {
+      const role = typeof list_id === 'number' ? listDB.getRole(list_id, session.userId) : null;
+      if (!role) {
+        return NextResponse.json(
+          { error: 'List not found' },
+          { status: 404 }
+        );
+      }
+      if (!canEditTodos(role)) {
+        return NextResponse.json(
+          { error: 'You have view-only access to this list' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Validation: Assignee must be able to edit the todo (a list owner or editor)
+    if (assignee_id !== undefined && assignee_id !== null) {
+      if (typeof assignee_id !== 'number' || !todoDB.canAssign({ user_id: session.userId, list_id: list_id ?? null }, assignee_id)) {
         return NextResponse.json(
-          { error: 'Reminder minutes must be a positive number' },
+          { error: 'Assignee must be a member of the list who can edit todos' },
           { status: 400 }
         );
       }
     }
 
+    // Validation: Reminders (offsets before the due date and/or absolute times)
+    let reminders: ReminderInput[];
+    try {
+      reminders = readRemindersFromBody(body, timeZone) ?? [];
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    // Validation: Tags by name (from quick add), created if the user doesn't have them
+    if (tag_names !== undefined && (!Array.isArray(tag_names) || !tag_names.every(
+      (name: unknown) => typeof name === 'string' && name.trim().length > 0 && name.trim().length <= 30
+    ))) {
+      return NextResponse.json(
+        { error: 'Tag names must be 1-30 characters' },
+        { status: 400 }
+      );
+    }
+
     // Create the todo
+    const tags = findOrCreateTags(session.userId, (tag_names ?? []).map((name: string) => name.trim()));
     const todo = todoDB.create({
       user_id: session.userId,
+      list_id: list_id ?? null,
+      assignee_id: assignee_id ?? null,
       title,
-      due_date,
+      description: description?.trim() ?? '',
+      due_date: dueDate,
       priority: priority || 'medium',
-      recurrence_pattern: recurrence_pattern || null,
-      reminder_minutes: reminder_minutes || null,
+      // A custom rule sets the matching pattern so badges and filters keep working
+      recurrence_pattern: recurrenceRule
+        ? rruleToPattern(parseRRule(recurrenceRule))
+        : recurrence_pattern || null,
+      recurrence_rule: recurrenceRule,
     });
 
-    return NextResponse.json({ todo }, { status: 201 });
+    tags.forEach(tag => todoDB.addTag(todo.id, tag.id));
+    const savedReminders = todoReminderDB.replaceForTodo(todo.id, reminders);
+    recordCreated(session.userId, snapshotTodo(todo.id));
+
+    return NextResponse.json(
+      { todo: { ...todo, reminders: savedReminders, tags } },
+      { status: 201 }
+    );
   } catch (error) {
     console.error('Error creating todo:', error);
     return NextResponse.json(
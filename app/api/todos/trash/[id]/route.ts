@@ -0,0 +1,38 @@
+/**
+ * Trash API Route - Individual Todo
+ * DELETE /api/todos/trash/[id] - Delete a trashed todo for good
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { purgeTodos } from '@/lib/trash';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todo = todoDB.findByIdIncludingDeleted(Number(id));
+  const role = todo ? todoDB.getRole(todo, session.userId) : null;
+  if (!todo || !todo.deleted_at || !role) {
+    return NextResponse.json({ error: 'Todo not found in trash' }, { status: 404 });
+  }
+  if (!canEditTodos(role)) {
+    return NextResponse.json({ error: 'You have view-only access to this list' }, { status: 403 });
+  }
+
+  try {
+    await purgeTodos(session.userId, [todo]);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error purging todo:', error);
+    return NextResponse.json({ error: 'Failed to delete todo' }, { status: 500 });
+  }
+}
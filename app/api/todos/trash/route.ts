@@ -0,0 +1,46 @@
+/**
+ * Trash API Routes
+ * GET /api/todos/trash - Deleted todos the user can see, most recently deleted first
+ * DELETE /api/todos/trash - Empty the trash (the todos the user can edit)
+ *
+ * Trashed todos are purged automatically after TRASH_RETENTION_DAYS (see lib/trash.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { todoDB } from '@/lib/db';
+import { canEditTodos } from '@/lib/constants';
+import { getTrashRetentionDays, purgeTodos } from '@/lib/trash';
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const todos = todoDB.findTrash(session.userId).map(todo => ({
+    ...todo,
+    can_edit: canEditTodos(todoDB.getRole(todo, session.userId)),
+  }));
+
+  return NextResponse.json({ todos, retention_days: getTrashRetentionDays() });
+}
+
+export async function DELETE() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    // Viewers' copies of a shared list's trash are left for its editors
+    const todos = todoDB.findTrash(session.userId)
+      .filter(todo => canEditTodos(todoDB.getRole(todo, session.userId)));
+    await purgeTodos(session.userId, todos);
+
+    return NextResponse.json({ purged: todos.length });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json({ error: 'Failed to empty trash' }, { status: 500 });
+  }
+}
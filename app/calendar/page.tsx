@@ -3,7 +3,6 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { format, addMonths, subMonths } from 'date-fns';
-import { getSingaporeNow } from '@/lib/timezone';
 import {
   generateCalendarDays,
   getTodoIntensityClass,
@@ -27,6 +26,8 @@ interface Holiday {
 
 interface CalendarData {
   month: string;
+  timezone: string;
+  today: string; // YYYY-MM-DD in the user's timezone
   todosByDate: Record<string, Todo[]>;
   holidays: Holiday[];
 }
@@ -40,8 +41,9 @@ export default function CalendarPage() {
     if (monthParam) {
       return parseMonthString(monthParam);
     }
-    return getSingaporeNow();
+    return new Date();
   });
+  const [today, setToday] = useState<string | null>(null);
 
   const [calendarDays, setCalendarDays] = useState<CalendarDay[]>([]);
   const [selectedDate, setSelectedDate] = useState<CalendarDay | null>(null);
@@ -63,7 +65,8 @@ export default function CalendarPage() {
       const year = currentDate.getFullYear();
       const month = currentDate.getMonth();
 
-      const days = generateCalendarDays(year, month, data.todosByDate, data.holidays);
+      setToday(data.today);
+      const days = generateCalendarDays(year, month, data.todosByDate, data.holidays, data.today);
       setCalendarDays(days);
     } catch (error) {
       console.error('Failed to fetch calendar:', error);
@@ -85,9 +88,9 @@ export default function CalendarPage() {
   };
 
   const handleTodayClick = () => {
-    const today = getSingaporeNow();
-    setCurrentDate(today);
-    router.push(`/calendar?month=${getMonthString(today)}`);
+    const todayDate = today ? parseMonthString(today.slice(0, 7)) : new Date();
+    setCurrentDate(todayDate);
+    router.push(`/calendar?month=${getMonthString(todayDate)}`);
   };
 
   const handleDayClick = (day: CalendarDay) => {
@@ -0,0 +1,118 @@
+'use client';
+
+/**
+ * Shared List Invite Page
+ * Shows what an invite link is for and lets the signed-in user join the list
+ */
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { LIST_ROLE_CONFIGS, ListRole } from '@/lib/constants';
+
+interface InvitePreview {
+  invite: { role: ListRole; expires_at: string };
+  list: { id: number; name: string };
+  invited_by: string | null;
+  current_role: ListRole | null;
+}
+
+export default function InvitePage() {
+  const router = useRouter();
+  const { token } = useParams<{ token: string }>();
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    async function fetchInvite() {
+      try {
+        const res = await fetch(`/api/invites/${token}`);
+        const data = await res.json();
+        if (res.ok) {
+          setPreview(data);
+        } else {
+          setError(data.error || 'Invite not found');
+        }
+      } catch (err) {
+        console.error('Error fetching invite:', err);
+        setError('Failed to load invite');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchInvite();
+  }, [token]);
+
+  async function handleJoin() {
+    try {
+      setJoining(true);
+      setError('');
+      const res = await fetch(`/api/invites/${token}`, { method: 'POST' });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to join list');
+      }
+
+      router.push('/');
+    } catch (err: any) {
+      console.error('Error accepting invite:', err);
+      setError(err.message || 'Failed to join list');
+      setJoining(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-800 via-slate-900 to-slate-950">
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl shadow-2xl border border-slate-700/50 p-10 text-center">
+          <h2 className="text-3xl font-bold text-white mb-6">Join a Shared List</h2>
+
+          {loading ? (
+            <p className="text-slate-300">Loading invite...</p>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="rounded-lg bg-red-900/30 border border-red-600/50 p-4">
+                  <p className="text-sm text-red-200">{error}</p>
+                </div>
+              )}
+
+              {preview && (
+                preview.current_role ? (
+                  <p className="text-slate-300">
+                    You&apos;re already a member of <span className="font-semibold text-white">{preview.list.name}</span>{' '}
+                    ({LIST_ROLE_CONFIGS[preview.current_role].label}).
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-slate-300">
+                      {preview.invited_by ? `${preview.invited_by} invited you to ` : "You've been invited to "}
+                      <span className="font-semibold text-white">{preview.list.name}</span>{' '}
+                      as {LIST_ROLE_CONFIGS[preview.invite.role].label.toLowerCase()}.
+                    </p>
+                    <p className="text-sm text-slate-400">{LIST_ROLE_CONFIGS[preview.invite.role].description}.</p>
+                    <button
+                      type="button"
+                      onClick={handleJoin}
+                      disabled={joining}
+                      className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                      {joining ? 'Joining...' : 'Join List'}
+                    </button>
+                  </>
+                )
+              )}
+
+              <a href="/" className="inline-block text-sm text-blue-400 hover:text-blue-300">
+                Go to my todos
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,24 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { startRegistration, startAuthentication } from '@simplewebauthn/browser';
 
+/**
+ * Where to go after signing in: the ?next= path set by middleware for
+ * invite links, but only paths on this site. Resolved the way the browser
+ * would, so tricks like /\evil.com (read as //evil.com) are caught.
+ */
+function getRedirectPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (!next) return '/';
+
+  try {
+    const url = new URL(next, window.location.origin);
+    if (url.origin !== window.location.origin) return '/';
+    return url.pathname + url.search + url.hash;
+  } catch {
+    return '/';
+  }
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const [username, setUsername] = useState('');
@@ -56,8 +74,8 @@ export default function LoginPage() {
         throw new Error(data.error || 'Registration failed');
       }
 
-      // Redirect to main app
-      router.push('/');
+      // Redirect to main app (or back to the invite link that sent us here)
+      router.push(getRedirectPath());
     } catch (err: any) {
       console.error('Registration error:', err);
       setError(err.message || 'Registration failed');
@@ -106,8 +124,8 @@ export default function LoginPage() {
         throw new Error(data.error || 'Login failed');
       }
 
-      // Redirect to main app
-      router.push('/');
+      // Redirect to main app (or back to the invite link that sent us here)
+      router.push(getRedirectPath());
     } catch (err: any) {
       console.error('Login error:', err);
       setError(err.message || 'Login failed');
@@ -9,13 +9,53 @@
  * Implements PRP-05: Subtasks & Progress Tracking
  * Implements PRP-06: Tag System
  * Implements PRP-08: Search & Filtering
+ * Smart lists: saved filters in a sidebar; the URL carries the current filters
+ * Bulk actions: multi-select mode (shift-click for a range) with an action bar
+ * Keyboard: Ctrl/Cmd+K command palette and per-user shortcuts (j/k, x, e, #...)
+ * Quick add: due date, recurrence, priority, tags and reminders typed into the title
+ * Shared lists: todos from lists the user belongs to, editable per their role
  */
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Priority, TodoWithRelations, RecurrencePattern } from '@/lib/db';
-import { PRIORITY_CONFIGS } from '@/lib/constants';
-import { FilterState, defaultFilters, searchTodos, hasActiveFilters, getActiveFilterCount } from '@/lib/search';
+import { Priority, TodoWithRelations, RecurrencePattern, ReminderInput, ListWithRole, ListMember, SmartList, Tag } from '@/lib/db';
+import {
+  PRIORITY_CONFIGS,
+  LIST_ROLE_CONFIGS,
+  MAX_DESCRIPTION_LENGTH,
+  TODO_PAGE_SIZE,
+  TODO_SORT_OPTIONS,
+  ListRole,
+  ShortcutAction,
+  TodoSort,
+  canEditTodos,
+} from '@/lib/constants';
+import {
+  FilterState,
+  SavedSearchOptions,
+  defaultFilters,
+  defaultSearchOptions,
+  searchTodos,
+  getActiveFilterCount,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+} from '@/lib/search';
+import { DEFAULT_TIMEZONE, formatInZone, toDateTimeLocal, toUTC } from '@/lib/timezone';
+import { toReminderInputs } from '@/lib/reminders';
+import { parseQuickAdd } from '@/lib/quickAdd';
+import { parseRRule, rruleToPattern } from '@/lib/rrule';
+import { validateQuery } from '@/lib/query';
+import type { BulkAction, BulkResult } from '@/lib/bulk';
+import {
+  ShortcutMap,
+  findShortcutAction,
+  formatShortcut,
+  hasModifier,
+  isMacPlatform,
+  isTypingTarget,
+  resolveShortcuts,
+  shortcutFromEvent,
+} from '@/lib/shortcuts';
 import { PriorityBadge } from '@/components/PriorityBadge';
 import { PrioritySelect } from '@/components/PrioritySelect';
 import { PriorityFilter } from '@/components/PriorityFilter';
@@ -31,29 +71,50 @@ import { TagBadge } from '@/components/TagBadge';
 import { TagSelector } from '@/components/TagSelector';
 import { TagFilter } from '@/components/TagFilter';
 import { TagManagementModal } from '@/components/TagManagementModal';
+import { EmailSettingsModal } from '@/components/EmailSettingsModal';
+import { ListsModal } from '@/components/ListsModal';
+import { TrashModal } from '@/components/TrashModal';
+import { CommentThread } from '@/components/CommentThread';
+import { AttachmentList } from '@/components/AttachmentList';
+import { TodoHistory } from '@/components/TodoHistory';
+import { TodoDescription } from '@/components/TodoDescription';
 import { SearchBar } from '@/components/SearchBar';
 import { FilterPanel } from '@/components/FilterPanel';
+import { SmartListSidebar } from '@/components/SmartListSidebar';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { QuickAddPreview } from '@/components/QuickAddPreview';
+import { CommandPalette, PaletteCommand } from '@/components/CommandPalette';
+import { KeyboardShortcutsModal } from '@/components/KeyboardShortcutsModal';
 import { TemplateBrowser } from '@/components/TemplateBrowser';
 import { SaveAsTemplateButton } from '@/components/SaveAsTemplateButton';
 import { ExportButton } from '@/components/ExportButton';
 import { ImportModal } from '@/components/ImportModal';
+import { TimezoneSelect } from '@/components/TimezoneSelect';
 
 export default function HomePage() {
   const router = useRouter();
   const [todos, setTodos] = useState<TodoWithRelations[]>([]);
+  const [totalTodos, setTotalTodos] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [username, setUsername] = useState('');
+  const [userId, setUserId] = useState<number | null>(null);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
 
-  // Initialize notification hook (starts polling when permission granted)
-  useNotifications();
+  // Shared lists: 'all' shows personal and shared todos together
+  const [lists, setLists] = useState<ListWithRole[]>([]);
+  const [listFilter, setListFilter] = useState<'all' | 'personal' | number>('all');
 
   // Form state
   const [newTitle, setNewTitle] = useState('');
+  const [newDescription, setNewDescription] = useState('');
   const [newDueDate, setNewDueDate] = useState('');
   const [newPriority, setNewPriority] = useState<Priority>('medium');
   const [newRecurrence, setNewRecurrence] = useState<RecurrencePattern | null>(null);
-  const [newReminder, setNewReminder] = useState<number | null>(null);
+  const [newRecurrenceRule, setNewRecurrenceRule] = useState<string | null>(null);
+  const [newReminders, setNewReminders] = useState<ReminderInput[]>([]);
   const [newTagIds, setNewTagIds] = useState<number[]>([]);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
@@ -63,8 +124,24 @@ export default function HomePage() {
   const [editDueDate, setEditDueDate] = useState('');
   const [editPriority, setEditPriority] = useState<Priority>('medium');
   const [editRecurrence, setEditRecurrence] = useState<RecurrencePattern | null>(null);
-  const [editReminder, setEditReminder] = useState<number | null>(null);
+  const [editRecurrenceRule, setEditRecurrenceRule] = useState<string | null>(null);
+  const [editReminders, setEditReminders] = useState<ReminderInput[]>([]);
   const [editTagIds, setEditTagIds] = useState<number[]>([]);
+  const [editListId, setEditListId] = useState<number | null>(null);
+  const [editAssigneeId, setEditAssigneeId] = useState<number | null>(null);
+
+  // Todo whose comment thread is open
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Todo whose attachments are open
+  const [attachmentsOpenId, setAttachmentsOpenId] = useState<number | null>(null);
+  // Todo whose change history is open
+  const [historyOpenId, setHistoryOpenId] = useState<number | null>(null);
+
+  // Multi-select mode for bulk actions; shift-click selects the range from the last todo clicked
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const selectionAnchor = useRef<number | null>(null);
 
   // Filter state
   const [priorityFilter, setPriorityFilter] = useState<Priority | null>(null);
@@ -72,7 +149,12 @@ export default function HomePage() {
   
   // Search & Filter state
   const [filters, setFilters] = useState<FilterState>(defaultFilters);
+  const [sortBy, setSortBy] = useState<TodoSort>('priority');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [searchOptions, setSearchOptions] = useState<SavedSearchOptions>(defaultSearchOptions);
   const [showFilters, setShowFilters] = useState(false);
+  // Bumped to reset SearchBar when filters are replaced (smart list, shared URL)
+  const [searchBarKey, setSearchBarKey] = useState(0);
   
   // Tag management modal
   const [showTagModal, setShowTagModal] = useState(false);
@@ -82,23 +164,78 @@ export default function HomePage() {
   
   // Import modal
   const [showImportModal, setShowImportModal] = useState(false);
+
+  // Email settings modal
+  const [showEmailModal, setShowEmailModal] = useState(false);
+
+  // Shared lists modal
+  const [showListsModal, setShowListsModal] = useState(false);
+
+  // Trash modal
+  const [showTrashModal, setShowTrashModal] = useState(false);
+
+  // Keyboard: the command palette (its tag mode tags the todos shortcuts act
+  // on), the shortcut cheat sheet and the todo j/k moves between
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(() => resolveShortcuts());
+  const [isMac, setIsMac] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [paletteMode, setPaletteMode] = useState<'commands' | 'tag'>('commands');
+  const [paletteTags, setPaletteTags] = useState<Tag[]>([]);
+  const [paletteSmartLists, setPaletteSmartLists] = useState<SmartList[]>([]);
+  const [showShortcutsModal, setShowShortcutsModal] = useState(false);
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const newTitleInput = useRef<HTMLInputElement>(null);
   
-  // Toast state
-  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  // Toast state (with an optional action button, e.g. Undo)
+  const [toast, setToast] = useState<{
+    message: string;
+    type: 'success' | 'error';
+    action?: { label: string; onClick: () => void };
+  } | null>(null);
+  const toastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Toast helper function
-  const showToast = useCallback((message: string, type: 'success' | 'error') => {
-    setToast({ message, type });
-    setTimeout(() => setToast(null), 5000);
+  const showToast = useCallback((
+    message: string,
+    type: 'success' | 'error',
+    action?: { label: string; onClick: () => void }
+  ) => {
+    // A newer toast gets its full time on screen
+    if (toastTimer.current) clearTimeout(toastTimer.current);
+    setToast({ message, type, action });
+    toastTimer.current = setTimeout(() => setToast(null), 5000);
   }, []);
 
-  // Fetch todos and user info on mount
+  // Merge old filter state with new filter state for compatibility
+  const mergedFilters = useMemo((): FilterState => ({
+    ...filters,
+    priority: filters.priority || priorityFilter,
+    tagId: filters.tagId || tagFilter,
+  }), [filters, priorityFilter, tagFilter]);
+
+  // The server filters by status, due dates, priority, tag and list and sorts;
+  // search text and the assignee filter are applied client-side
+  const todoQuery = useMemo(() => {
+    const params = new URLSearchParams({
+      status: mergedFilters.completed,
+      sort: sortBy,
+      order: sortOrder,
+      limit: String(TODO_PAGE_SIZE),
+    });
+    if (mergedFilters.dateRange?.start && mergedFilters.dateRange?.end) {
+      params.set('due_from', mergedFilters.dateRange.start.slice(0, 10));
+      params.set('due_to', mergedFilters.dateRange.end.slice(0, 10));
+    }
+    if (mergedFilters.priority) params.set('priority', mergedFilters.priority);
+    if (mergedFilters.tagId) params.set('tag_id', String(mergedFilters.tagId));
+    if (listFilter !== 'all') params.set('list_id', String(listFilter));
+    return params.toString();
+  }, [mergedFilters, sortBy, sortOrder, listFilter]);
+
+  // Fetch the first page of todos and user info (again whenever the server-side filters change)
   const fetchTodos = useCallback(async () => {
     try {
-      setLoading(true);
-      
-      // Fetch all todos (filtering done client-side)
-      const res = await fetch('/api/todos');
+      const res = await fetch(`/api/todos?${todoQuery}`);
       
       if (res.status === 401) {
         router.push('/login');
@@ -111,50 +248,164 @@ export default function HomePage() {
 
       const data = await res.json();
       setTodos(data.todos || []);
+      setTotalTodos(data.total ?? 0);
+      setNextCursor(data.next_cursor ?? null);
       
       // Get username from session if available
       if (data.username) {
         setUsername(data.username);
       }
+      if (data.user_id) {
+        setUserId(data.user_id);
+      }
+
+      // Due dates are stored in UTC and shown in the user's timezone
+      const userTimezone = data.timezone || DEFAULT_TIMEZONE;
+      setTimezone(userTimezone);
+
+      // Default new todos to tomorrow 9:00 AM in the user's timezone
+      setNewDueDate(prev => prev || formatInZone(
+        new Date(Date.now() + 24 * 60 * 60 * 1000),
+        userTimezone,
+        "yyyy-MM-dd'T'09:00"
+      ));
     } catch (err: any) {
       console.error('Error fetching todos:', err);
       setError(err.message || 'Failed to load todos');
     } finally {
       setLoading(false);
     }
-  }, [router]);
+  }, [router, todoQuery]);
+
+  async function loadMoreTodos() {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const res = await fetch(`/api/todos?${todoQuery}&cursor=${encodeURIComponent(nextCursor)}`);
+      if (!res.ok) {
+        throw new Error('Failed to load more todos');
+      }
+      const data = await res.json();
+      // Todos added here since the first page may come round again
+      setTodos(prev => [
+        ...prev,
+        ...(data.todos as TodoWithRelations[]).filter(todo => !prev.some(t => t.id === todo.id)),
+      ]);
+      setTotalTodos(data.total);
+      setNextCursor(data.next_cursor);
+    } catch (err: any) {
+      console.error('Error loading more todos:', err);
+      showToast(err.message || 'Failed to load more todos', 'error');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const fetchLists = useCallback(async () => {
+    try {
+      const res = await fetch('/api/lists');
+      if (!res.ok) return;
+      const data = await res.json();
+      const nextLists: ListWithRole[] = data.lists || [];
+      setLists(nextLists);
+      // The selected list may have been deleted or left
+      setListFilter(prev => typeof prev === 'number' && !nextLists.some(l => l.id === prev) ? 'all' : prev);
+    } catch (err) {
+      console.error('Error fetching lists:', err);
+    }
+  }, []);
 
   useEffect(() => {
     fetchTodos();
   }, [fetchTodos]);
 
+  useEffect(() => {
+    fetchLists();
+  }, [fetchLists]);
+
+  // The user's keyboard shortcuts (the timezone comes with the todos)
+  const fetchShortcuts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/preferences');
+      if (!res.ok) return;
+      const data = await res.json();
+      setShortcuts(data.preferences.shortcuts);
+    } catch (err) {
+      console.error('Error fetching shortcuts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsMac(isMacPlatform());
+    fetchShortcuts();
+  }, [fetchShortcuts]);
+
+  // The user's role for a todo: owner of personal todos, their membership role for shared ones
+  const getTodoRole = useCallback((todo: TodoWithRelations): ListRole | null => {
+    if (todo.list_id === null) return 'owner';
+    return lists.find(list => list.id === todo.list_id)?.role ?? null;
+  }, [lists]);
+
+  // New todos go into the selected list, if any
+  const activeList = typeof listFilter === 'number' ? lists.find(l => l.id === listFilter) ?? null : null;
+  const canAddTodos = !activeList || canEditTodos(activeList.role);
+
+  // What quick add recognises in the new todo's title (see lib/quickAdd.ts)
+  const quickAdd = useMemo(() => parseQuickAdd(newTitle, { timeZone: timezone }), [newTitle, timezone]);
+
+  // Who a shared list's todos can be assigned to (members who can edit); personal todos have no assignees
+  const getAssignees = useCallback((listId: number | null): ListMember[] => {
+    if (listId === null) return [];
+    const members = lists.find(list => list.id === listId)?.members ?? [];
+    return members.filter(member => canEditTodos(member.role));
+  }, [lists]);
+
+  // Initialize notification hook (starts polling when permission granted);
+  // notification actions (mark done, snooze) refresh the list
+  useNotifications({ onTodosChanged: fetchTodos });
+
   async function handleAddTodo(e: React.FormEvent) {
     e.preventDefault();
     
-    const title = newTitle.trim();
+    // Whatever quick add recognised in the title wins over the form's fields
+    const parsed = parseQuickAdd(newTitle, { timeZone: timezone });
+    const title = parsed.title;
     if (!title) {
       setError('Title is required');
       return;
     }
 
-    if (!newDueDate) {
+    const dueDate = parsed.due_date ?? newDueDate;
+    if (!dueDate) {
       setError('Due date is required');
       return;
     }
 
+    const priority = parsed.priority ?? newPriority;
+    const recurrenceRule = parsed.recurrence_rule ?? newRecurrenceRule;
+    const recurrencePattern = parsed.recurrence_rule ? rruleToPattern(parseRRule(parsed.recurrence_rule)) : newRecurrence;
+    const reminders = [...newReminders, ...parsed.reminders.map(minutes => ({ offset_minutes: minutes }))];
+    const tagIds = newTagIds;
+
     // Create temporary todo for optimistic update
     const tempId = Date.now();
     const tempTodo: TodoWithRelations = {
       id: tempId,
-      user_id: 0,
+      user_id: userId ?? 0,
+      list_id: activeList?.id ?? null,
+      assignee_id: null,
       title,
-      due_date: newDueDate,
-      priority: newPriority,
+      description: newDescription.trim(),
+      due_date: toUTC(dueDate, timezone),
+      priority,
       completed: 0,
       completed_at: null,
-      recurrence_pattern: newRecurrence,
-      reminder_minutes: newReminder,
-      last_notification_sent: null,
+      recurrence_pattern: recurrencePattern,
+      recurrence_rule: recurrenceRule,
+      recurrence_index: 1,
+      deleted_at: null,
+      deleted_by: null,
       created_at: new Date().toISOString(),
       subtasks: [],
       tags: [],
@@ -166,10 +417,12 @@ export default function HomePage() {
 
     // Clear form
     setNewTitle('');
+    setNewDescription('');
     setNewDueDate('');
     setNewPriority('medium');
     setNewRecurrence(null);
-    setNewReminder(null);
+    setNewRecurrenceRule(null);
+    setNewReminders([]);
     setNewTagIds([]);
     setShowAdvanced(false);
 
@@ -179,10 +432,14 @@ export default function HomePage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           title,
-          due_date: newDueDate,
-          priority: newPriority,
-          recurrence_pattern: newRecurrence,
-          reminder_minutes: newReminder,
+          description: newDescription,
+          due_date: dueDate,
+          priority,
+          recurrence_pattern: recurrencePattern,
+          recurrence_rule: recurrenceRule,
+          reminders,
+          tag_names: parsed.tags,
+          list_id: activeList?.id ?? null,
         }),
       });
 
@@ -193,12 +450,13 @@ export default function HomePage() {
 
       const data = await res.json();
       
-      // Assign tags if any selected
-      if (newTagIds.length > 0) {
+      // Assign tags if any selected, keeping the ones named in the title
+      if (tagIds.length > 0) {
+        const namedTagIds = data.todo.tags.map((tag: Tag) => tag.id);
         await fetch(`/api/todos/${data.todo.id}/tags`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ tag_ids: newTagIds }),
+          body: JSON.stringify({ tag_ids: [...new Set([...tagIds, ...namedTagIds])] }),
         });
       }
       
@@ -244,10 +502,13 @@ export default function HomePage() {
         const nextDate = new Date(data.next_todo.due_date).toLocaleString('en-SG', {
           dateStyle: 'medium',
           timeStyle: 'short',
-          timeZone: 'Asia/Singapore',
+          timeZone: timezone,
         });
         setToast({ message: `Recurring todo completed. Next instance created for ${nextDate}`, type: 'success' });
         setTimeout(() => setToast(null), 5000);
+      } else if (newCompleted && todo.recurrence_rule) {
+        setToast({ message: 'Recurring todo completed. This was the last occurrence in the series', type: 'success' });
+        setTimeout(() => setToast(null), 5000);
       }
     } catch (err: any) {
       console.error('Error updating todo:', err);
@@ -264,11 +525,37 @@ export default function HomePage() {
     }
   }
 
-  async function handleDeleteTodo(id: number) {
-    if (!confirm('Are you sure you want to delete this todo?')) {
-      return;
+  // Inline notes edits (and checklist ticks) save on their own
+  async function handleUpdateDescription(id: number, description: string): Promise<boolean> {
+    const oldTodo = todos.find(t => t.id === id);
+    setTodos(prev => prev.map(t => t.id === id ? { ...t, description } : t));
+
+    try {
+      const res = await fetch(`/api/todos/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ description }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to save notes');
+      }
+
+      const data = await res.json();
+      setTodos(prev => prev.map(t => t.id === id ? { ...t, description: data.todo.description } : t));
+      return true;
+    } catch (err: any) {
+      console.error('Error saving notes:', err);
+      showToast(err.message || 'Failed to save notes', 'error');
+      if (oldTodo) {
+        setTodos(prev => prev.map(t => t.id === id ? oldTodo : t));
+      }
+      return false;
     }
+  }
 
+  async function handleDeleteTodo(id: number) {
     // Find todo for potential revert
     const todoToDelete = todos.find(t => t.id === id);
 
@@ -283,6 +570,9 @@ export default function HomePage() {
       if (!res.ok) {
         throw new Error('Failed to delete todo');
       }
+
+      // Deleting moves it to the trash, so it can be brought straight back
+      showToast('Todo moved to trash', 'success', { label: 'Undo', onClick: () => handleRestoreTodo(id) });
     } catch (err: any) {
       console.error('Error deleting todo:', err);
       setError(err.message || 'Failed to delete todo');
@@ -294,14 +584,35 @@ export default function HomePage() {
     }
   }
 
+  async function handleRestoreTodo(id: number) {
+    setToast(null);
+
+    try {
+      const res = await fetch(`/api/todos/${id}/restore`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to restore todo');
+      }
+
+      await fetchTodos();
+      showToast('Todo restored', 'success');
+    } catch (err: any) {
+      console.error('Error restoring todo:', err);
+      showToast(err.message || 'Failed to restore todo', 'error');
+    }
+  }
+
   function startEdit(todo: TodoWithRelations) {
     setEditingId(todo.id);
     setEditTitle(todo.title);
-    setEditDueDate(todo.due_date.slice(0, 16)); // Format for datetime-local
+    setEditDueDate(toDateTimeLocal(todo.due_date, timezone)); // Format for datetime-local
     setEditPriority(todo.priority);
     setEditRecurrence(todo.recurrence_pattern);
-    setEditReminder(todo.reminder_minutes);
+    setEditRecurrenceRule(todo.recurrence_rule);
+    setEditReminders(toReminderInputs(todo.reminders));
     setEditTagIds(todo.tags?.map(t => t.id) || []);
+    setEditListId(todo.list_id);
+    setEditAssigneeId(todo.assignee_id);
   }
 
   function cancelEdit() {
@@ -310,8 +621,11 @@ export default function HomePage() {
     setEditDueDate('');
     setEditPriority('medium');
     setEditRecurrence(null);
-    setEditReminder(null);
+    setEditRecurrenceRule(null);
+    setEditReminders([]);
     setEditTagIds([]);
+    setEditListId(null);
+    setEditAssigneeId(null);
   }
 
   async function handleUpdateTodo(id: number) {
@@ -333,7 +647,7 @@ export default function HomePage() {
     setTodos(prev =>
       prev.map(t =>
         t.id === id
-          ? { ...t, title, due_date: editDueDate, priority: editPriority, recurrence_pattern: editRecurrence, reminder_minutes: editReminder }
+          ? { ...t, title, due_date: toUTC(editDueDate, timezone), priority: editPriority, recurrence_pattern: editRecurrence, recurrence_rule: editRecurrenceRule }
           : t
       )
     );
@@ -350,7 +664,11 @@ export default function HomePage() {
           due_date: editDueDate,
           priority: editPriority,
           recurrence_pattern: editRecurrence,
-          reminder_minutes: editReminder,
+          recurrence_rule: editRecurrenceRule,
+          reminders: editReminders,
+          // Only sent when moving, so editors can save without access to another list
+          ...(editListId !== oldTodo?.list_id ? { list_id: editListId } : {}),
+          ...(editAssigneeId !== oldTodo?.assignee_id ? { assignee_id: editAssigneeId } : {}),
         }),
       });
 
@@ -381,6 +699,30 @@ export default function HomePage() {
     }
   }
 
+  async function handleTimezoneChange(nextTimezone: string) {
+    const previous = timezone;
+    setTimezone(nextTimezone);
+
+    try {
+      const res = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: nextTimezone }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update timezone');
+      }
+
+      showToast(`Timezone set to ${nextTimezone}`, 'success');
+    } catch (err: any) {
+      console.error('Error updating timezone:', err);
+      setTimezone(previous);
+      showToast(err.message || 'Failed to update timezone', 'error');
+    }
+  }
+
   async function handleLogout() {
     try {
       await fetch('/api/auth/logout', { method: 'POST' });
@@ -480,6 +822,27 @@ export default function HomePage() {
     }
   }
 
+  async function handleAssignSubtask(subtaskId: number, assigneeId: number | null) {
+    try {
+      const res = await fetch(`/api/subtasks/${subtaskId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignee_id: assigneeId }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to assign subtask');
+      }
+
+      // Refetch to get the assignee's username
+      await fetchTodos();
+    } catch (err: any) {
+      console.error('Error assigning subtask:', err);
+      showToast(err.message || 'Failed to assign subtask', 'error');
+    }
+  }
+
   async function handleReorderSubtask(subtaskId: number, newPosition: number) {
     try {
       const res = await fetch('/api/subtasks/reorder', {
@@ -502,14 +865,379 @@ export default function HomePage() {
 
   // Apply filters to todos using client-side search
   const filteredTodos = useMemo(() => {
-    // Merge old filter state with new filter state for compatibility
-    const mergedFilters: FilterState = {
-      ...filters,
-      priority: filters.priority || priorityFilter,
-      tagId: filters.tagId || tagFilter,
-    };
-    return searchTodos(todos, mergedFilters);
-  }, [todos, filters, priorityFilter, tagFilter]);
+    const listTodos = listFilter === 'all'
+      ? todos
+      : todos.filter(t => listFilter === 'personal' ? t.list_id === null : t.list_id === listFilter);
+    return searchTodos(listTodos, mergedFilters, {
+      ...searchOptions,
+      timeZone: timezone,
+      currentUserId: userId ?? undefined,
+    });
+  }, [todos, mergedFilters, searchOptions, timezone, listFilter, userId]);
+
+  // Only visible todos the user can edit can be selected, so filtering
+  // something out also takes it out of the selection
+  const selectableTodos = useMemo(
+    () => filteredTodos.filter(todo => canEditTodos(getTodoRole(todo))),
+    [filteredTodos, getTodoRole]
+  );
+  const selectedTodoIds = useMemo(
+    () => selectableTodos.filter(todo => selectedIds.has(todo.id)).map(todo => todo.id),
+    [selectableTodos, selectedIds]
+  );
+
+  function toggleSelecting() {
+    setSelecting(!selecting);
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  }
+
+  function handleSelectTodo(todoId: number, shiftKey: boolean) {
+    const selected = !selectedIds.has(todoId);
+    const order = selectableTodos.map(todo => todo.id);
+    const anchor = selectionAnchor.current;
+
+    // Shift-click gives everything between the last todo clicked and this one its new state
+    let ids = [todoId];
+    if (shiftKey && anchor !== null && order.includes(anchor)) {
+      const [from, to] = [order.indexOf(anchor), order.indexOf(todoId)].sort((a, b) => a - b);
+      ids = order.slice(from, to + 1);
+    }
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    selectionAnchor.current = todoId;
+  }
+
+  async function handleBulkAction(action: BulkAction, ids: number[] = selectedTodoIds) {
+    if (ids.length === 0) return;
+
+    try {
+      setBulkBusy(true);
+      const res = await fetch('/api/todos/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update todos');
+      }
+
+      const results: BulkResult[] = data.results;
+      const done = results.filter(result => result.ok).map(result => result.id);
+      const failed = results.filter(result => !result.ok);
+      if (action.type === 'delete') {
+        setSelectedIds(prev => new Set([...prev].filter(id => !done.includes(id))));
+      }
+      await fetchTodos();
+
+      const count = `${done.length} todo${done.length !== 1 ? 's' : ''}`;
+      const message = (action.type === 'delete' ? `${count} moved to trash` : `${count} updated`)
+        + (failed.length > 0 ? `, ${failed.length} skipped (${failed[0].error})` : '');
+      showToast(
+        message,
+        done.length === 0 ? 'error' : 'success',
+        action.type === 'delete' && done.length > 0 ? { label: 'Undo', onClick: () => handleRestoreTodos(done) } : undefined
+      );
+    } catch (err: any) {
+      console.error('Error applying bulk action:', err);
+      showToast(err.message || 'Failed to update todos', 'error');
+    } finally {
+      setBulkBusy(false);
+    }
+  }
+
+  // Undo for a bulk delete
+  async function handleRestoreTodos(ids: number[]) {
+    setToast(null);
+
+    try {
+      for (const id of ids) {
+        const res = await fetch(`/api/todos/${id}/restore`, { method: 'POST' });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Failed to restore todos');
+        }
+      }
+      showToast(`${ids.length} todo${ids.length !== 1 ? 's' : ''} restored`, 'success');
+    } catch (err: any) {
+      console.error('Error restoring todos:', err);
+      showToast(err.message || 'Failed to restore todos', 'error');
+    } finally {
+      await fetchTodos();
+    }
+  }
+
+  // The todo keyboard shortcuts act on
+  const focusedTodo = filteredTodos.find(todo => todo.id === focusedId) ?? null;
+  const canEditFocused = focusedTodo !== null && canEditTodos(getTodoRole(focusedTodo));
+
+  // Tags go on the selected todos in multi-select mode, otherwise the focused one
+  const tagTargetIds = selecting && selectedTodoIds.length > 0
+    ? selectedTodoIds
+    : canEditFocused ? [focusedTodo!.id] : [];
+
+  function moveFocus(step: number) {
+    const ids = filteredTodos.map(todo => todo.id);
+    if (ids.length === 0) return;
+    const index = focusedId === null ? -1 : ids.indexOf(focusedId);
+    const next = index === -1
+      ? (step > 0 ? 0 : ids.length - 1)
+      : Math.min(Math.max(index + step, 0), ids.length - 1);
+    setFocusedId(ids[next]);
+  }
+
+  useEffect(() => {
+    if (focusedId !== null) {
+      document.querySelector(`[data-todo-id="${focusedId}"]`)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedId]);
+
+  function openPalette(mode: 'commands' | 'tag') {
+    setPaletteMode(mode);
+    setShowCommandPalette(true);
+  }
+
+  useEffect(() => {
+    if (showCommandPalette) {
+      fetchPaletteData();
+    }
+  }, [showCommandPalette]);
+
+  async function fetchPaletteData() {
+    try {
+      const [tagsRes, smartListsRes] = await Promise.all([fetch('/api/tags'), fetch('/api/smart-lists')]);
+      if (tagsRes.ok) setPaletteTags((await tagsRes.json()).tags || []);
+      if (smartListsRes.ok) setPaletteSmartLists((await smartListsRes.json()).smart_lists || []);
+    } catch (err) {
+      console.error('Error fetching command palette data:', err);
+    }
+  }
+
+  // A todo typed into the command palette, read by quick add; without a due
+  // date it's due tomorrow 9:00 AM like the form's default
+  async function handleQuickCreate(text: string) {
+    const parsed = parseQuickAdd(text, { timeZone: timezone });
+    if (!parsed.title) {
+      showToast('Title is required', 'error');
+      return;
+    }
+    try {
+      const res = await fetch('/api/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: parsed.title,
+          due_date: parsed.due_date ?? formatInZone(new Date(Date.now() + 24 * 60 * 60 * 1000), timezone, "yyyy-MM-dd'T'09:00"),
+          priority: parsed.priority ?? 'medium',
+          recurrence_rule: parsed.recurrence_rule,
+          reminders: parsed.reminders.map(minutes => ({ offset_minutes: minutes })),
+          tag_names: parsed.tags,
+          list_id: activeList?.id ?? null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to create todo');
+      }
+      await fetchTodos();
+      showToast('Todo created', 'success');
+    } catch (err: any) {
+      console.error('Error creating todo:', err);
+      showToast(err.message || 'Failed to create todo', 'error');
+    }
+  }
+
+  function getPaletteCommands(): PaletteCommand[] {
+    const hint = (action: ShortcutAction) => formatShortcut(shortcuts[action], isMac);
+
+    if (paletteMode === 'tag') {
+      const targets = todos.filter(todo => tagTargetIds.includes(todo.id));
+      return paletteTags.flatMap(tag => [
+        {
+          id: `add-tag-${tag.id}`,
+          label: `Add tag: ${tag.name}`,
+          section: 'Tags',
+          run: () => handleBulkAction({ type: 'add_tag', tag_id: tag.id }, tagTargetIds),
+        },
+        ...(targets.some(todo => todo.tags?.some(t => t.id === tag.id)) ? [{
+          id: `remove-tag-${tag.id}`,
+          label: `Remove tag: ${tag.name}`,
+          section: 'Tags',
+          run: () => handleBulkAction({ type: 'remove_tag', tag_id: tag.id }, tagTargetIds),
+        }] : []),
+      ]);
+    }
+
+    const commands: PaletteCommand[] = [];
+
+    if (canEditFocused) {
+      const todo = focusedTodo!;
+      const title = `"${todo.title}"`;
+      commands.push({
+        id: 'todo-complete',
+        label: `${todo.completed ? 'Reopen' : 'Complete'} ${title}`,
+        section: 'Todo',
+        shortcut: hint('complete_todo'),
+        run: () => handleToggleComplete(todo),
+      });
+      if (!todo.completed) {
+        commands.push({ id: 'todo-edit', label: `Edit ${title}`, section: 'Todo', shortcut: hint('edit_todo'), run: () => startEdit(todo) });
+      }
+      commands.push(
+        { id: 'todo-tag', label: `Tag ${title}`, section: 'Todo', shortcut: hint('tag_todo'), run: () => openPalette('tag') },
+        { id: 'todo-delete', label: `Delete ${title}`, section: 'Todo', run: () => handleDeleteTodo(todo.id) },
+      );
+    }
+
+    commands.push(
+      { id: 'go-new-todo', label: 'New todo', section: 'Go to', keywords: 'add create form', shortcut: hint('new_todo'), run: () => newTitleInput.current?.focus() },
+      { id: 'go-calendar', label: 'Calendar', section: 'Go to', keywords: 'month view', run: () => router.push('/calendar') },
+    );
+
+    paletteSmartLists.forEach(smartList => commands.push({
+      id: `smart-list-${smartList.id}`,
+      label: smartList.name,
+      section: 'Smart lists',
+      keywords: 'saved filter',
+      run: () => applyFilters(smartList.filters, smartList.search_options),
+    }));
+    if (filterQuery !== '') {
+      commands.push({ id: 'clear-filters', label: 'Clear all filters', section: 'Smart lists', keywords: 'reset', run: clearAllFilters });
+    }
+
+    commands.push(
+      { id: 'open-templates', label: 'Templates', section: 'Open', keywords: 'template browser', run: () => setShowTemplateModal(true) },
+      { id: 'open-tags', label: 'Manage tags', section: 'Open', run: () => setShowTagModal(true) },
+      { id: 'open-lists', label: 'Shared lists', section: 'Open', keywords: 'members invite', run: () => setShowListsModal(true) },
+      { id: 'open-trash', label: 'Trash', section: 'Open', keywords: 'deleted restore', run: () => setShowTrashModal(true) },
+      { id: 'open-shortcuts', label: 'Keyboard shortcuts', section: 'Open', keywords: 'help cheat sheet keys', shortcut: hint('shortcut_help'), run: () => setShowShortcutsModal(true) },
+    );
+
+    commands.push(
+      { id: 'bulk-mode', label: selecting ? 'Cancel selection' : 'Select todos', section: 'Bulk actions', keywords: 'multi-select', run: toggleSelecting },
+      {
+        id: 'bulk-select-all',
+        label: `Select all (${selectableTodos.length})`,
+        section: 'Bulk actions',
+        keywords: 'multi-select',
+        run: () => {
+          setSelecting(true);
+          setSelectedIds(new Set(selectableTodos.map(todo => todo.id)));
+        },
+      },
+    );
+    if (selectedTodoIds.length > 0) {
+      const bulk = (id: string, label: string, action: BulkAction) => commands.push({
+        id: `bulk-${id}`,
+        label: `${label} (${selectedTodoIds.length} selected)`,
+        section: 'Bulk actions',
+        keywords: 'selected',
+        run: () => handleBulkAction(action),
+      });
+      bulk('complete', 'Complete', { type: 'complete' });
+      bulk('uncomplete', 'Reopen', { type: 'uncomplete' });
+      Object.values(PRIORITY_CONFIGS).forEach(config => {
+        bulk(`priority-${config.value}`, `Set priority: ${config.label}`, { type: 'set_priority', priority: config.value });
+      });
+      [1, 7, -1].forEach(days => {
+        bulk(`shift-${days}`, `Shift due dates ${days > 0 ? '+' : ''}${days} day${Math.abs(days) !== 1 ? 's' : ''}`, { type: 'shift_due', days });
+      });
+      paletteTags.forEach(tag => {
+        bulk(`add-tag-${tag.id}`, `Add tag: ${tag.name}`, { type: 'add_tag', tag_id: tag.id });
+        bulk(`remove-tag-${tag.id}`, `Remove tag: ${tag.name}`, { type: 'remove_tag', tag_id: tag.id });
+      });
+      bulk('move-personal', 'Move to Personal', { type: 'move_to_list', list_id: null });
+      lists.filter(list => canEditTodos(list.role)).forEach(list => {
+        bulk(`move-${list.id}`, `Move to ${list.name}`, { type: 'move_to_list', list_id: list.id });
+      });
+      bulk('delete', 'Delete', { type: 'delete' });
+    }
+
+    return commands;
+  }
+
+  function handleShortcut(e: KeyboardEvent) {
+    const shortcut = shortcutFromEvent(e);
+    const action = shortcut ? findShortcutAction(shortcuts, shortcut) : null;
+    if (!shortcut || !action) return;
+
+    // Single keys are for typing while a text field has focus, and other
+    // dialogs keep their keys to themselves
+    if (!hasModifier(shortcut) && isTypingTarget(e.target)) return;
+    if (showTagModal || showTemplateModal || showImportModal || showEmailModal ||
+        showListsModal || showTrashModal || showShortcutsModal) return;
+
+    if (action === 'command_palette') {
+      e.preventDefault();
+      if (showCommandPalette) {
+        setShowCommandPalette(false);
+      } else {
+        openPalette('commands');
+      }
+      return;
+    }
+    if (showCommandPalette) return;
+
+    e.preventDefault();
+    switch (action) {
+      case 'next_todo':
+        moveFocus(1);
+        break;
+      case 'previous_todo':
+        moveFocus(-1);
+        break;
+      case 'complete_todo':
+        if (canEditFocused) handleToggleComplete(focusedTodo!);
+        break;
+      case 'edit_todo':
+        if (canEditFocused && !focusedTodo!.completed) startEdit(focusedTodo!);
+        break;
+      case 'tag_todo':
+        if (tagTargetIds.length > 0) openPalette('tag');
+        break;
+      case 'select_todo':
+        if (canEditFocused) {
+          setSelecting(true);
+          handleSelectTodo(focusedTodo!.id, false);
+        }
+        break;
+      case 'new_todo':
+        newTitleInput.current?.focus();
+        break;
+      case 'shortcut_help':
+        setShowShortcutsModal(true);
+        break;
+    }
+  }
+
+  // One listener for the page's lifetime, always calling the latest handler
+  const shortcutHandler = useRef(handleShortcut);
+  useEffect(() => {
+    shortcutHandler.current = handleShortcut;
+  });
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandler.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The filters as URL query parameters, empty when nothing is filtered
+  const filterQuery = useMemo(
+    () => filtersToSearchParams(mergedFilters, searchOptions).toString(),
+    [mergedFilters, searchOptions]
+  );
+
+  // Advanced mode search text is a query (tag:work priority:high ...)
+  const queryError = useMemo(() => {
+    if (filters.searchMode !== 'advanced') return null;
+    const error = validateQuery(filters.searchText);
+    return error ? `${error.message} (at character ${error.position + 1})` : null;
+  }, [filters.searchMode, filters.searchText]);
 
   const updateFilters = useCallback((updates: Partial<FilterState>) => {
     setFilters((prev) => ({ ...prev, ...updates }));
@@ -519,12 +1247,40 @@ export default function HomePage() {
     updateFilters({ searchText: term });
   }, [updateFilters]);
 
+  const updateSearchOptions = useCallback((updates: Partial<SavedSearchOptions>) => {
+    setSearchOptions((prev) => ({ ...prev, ...updates }));
+  }, []);
+
   function clearAllFilters() {
     setFilters(defaultFilters);
+    setSearchOptions(defaultSearchOptions);
     setPriorityFilter(null);
     setTagFilter(null);
   }
 
+  // Replace all filters, e.g. with a smart list's
+  const applyFilters = useCallback((nextFilters: FilterState, nextOptions: SavedSearchOptions) => {
+    setFilters(nextFilters);
+    setSearchOptions(nextOptions);
+    setPriorityFilter(null);
+    setTagFilter(null);
+    setSearchBarKey(key => key + 1);
+  }, []);
+
+  // Filters shared in the URL (a bookmark or smart list link) apply on load
+  useEffect(() => {
+    const shared = filtersFromSearchParams(new URLSearchParams(window.location.search));
+    if (shared) {
+      applyFilters(shared.filters, shared.options);
+    }
+  }, [applyFilters]);
+
+  // ...and the URL follows the filters, so any view can be bookmarked
+  useEffect(() => {
+    const url = filterQuery ? `?${filterQuery}` : window.location.pathname;
+    window.history.replaceState(window.history.state, '', url);
+  }, [filterQuery]);
+
   async function handleDeleteSubtask(subtaskId: number) {
     // Find which todo this subtask belongs to
     let parentTodoId: number | null = null;
@@ -567,17 +1323,6 @@ export default function HomePage() {
     }
   }
 
-  // Set default due date to tomorrow
-  useEffect(() => {
-    if (!newDueDate) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(9, 0, 0, 0);
-      const formatted = tomorrow.toISOString().slice(0, 16);
-      setNewDueDate(formatted);
-    }
-  }, []);
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -591,13 +1336,21 @@ export default function HomePage() {
       {/* Notification Permission Banner */}
       <NotificationBanner />
       
-      <div className="container mx-auto p-6 max-w-5xl">
+      <div className="container mx-auto p-6 max-w-6xl">
         {/* Toast Notifications */}
         {toast && (
           <div className={`fixed top-4 right-4 z-50 px-6 py-3 rounded-lg shadow-lg ${
             toast.type === 'success' ? 'bg-green-500' : 'bg-red-500'
           } text-white flex items-center gap-3`}>
             <span>{toast.message}</span>
+            {toast.action && (
+              <button
+                onClick={toast.action.onClick}
+                className="font-semibold underline hover:no-underline"
+              >
+                {toast.action.label}
+              </button>
+            )}
             <button
               onClick={() => setToast(null)}
               className="ml-2 hover:bg-white hover:bg-opacity-20 rounded px-2"
@@ -614,8 +1367,21 @@ export default function HomePage() {
             {username && (
               <p className="mt-1 text-slate-300">Welcome, {username}</p>
             )}
+            <div className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+              <span>🌐</span>
+              <TimezoneSelect value={timezone} onChange={handleTimezoneChange} />
+            </div>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => openPalette('commands')}
+              className="px-3 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+              type="button"
+              aria-label="Command palette"
+              title="Command palette"
+            >
+              <kbd className="font-mono">{formatShortcut(shortcuts.command_palette, isMac)}</kbd>
+            </button>
             <ExportButton
               onExportComplete={() => {
                 showToast('Data exported successfully!', 'success');
@@ -635,6 +1401,27 @@ export default function HomePage() {
             >
               Templates
             </button>
+            <button
+              onClick={() => setShowListsModal(true)}
+              className="px-4 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+              type="button"
+            >
+              Lists
+            </button>
+            <button
+              onClick={() => setShowTrashModal(true)}
+              className="px-4 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+              type="button"
+            >
+              Trash
+            </button>
+            <button
+              onClick={() => setShowEmailModal(true)}
+              className="px-4 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+              type="button"
+            >
+              Email
+            </button>
             <button
               onClick={handleLogout}
               className="px-4 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
@@ -658,303 +1445,559 @@ export default function HomePage() {
           </div>
         )}
 
-        {/* Search Bar */}
-        <div className="mb-6">
-          <SearchBar
-            onSearch={handleSearch}
-            initialValue={filters.searchText}
-          />
-        </div>
-
-        {/* Advanced Filters Toggle */}
-        <div className="mb-4 flex gap-3 items-center">
-          <PriorityFilter
-            value={priorityFilter}
-            onChange={setPriorityFilter}
-            className="bg-slate-700/50 border-slate-600 text-white"
-          />
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="px-4 py-2 text-sm bg-slate-700/50 border border-slate-600 text-slate-200 rounded-lg hover:bg-slate-600/50 flex items-center gap-2"
-          >
-            <span>▶</span>
-            <span>Advanced</span>
-          </button>
-        </div>
-
-        {/* Filter Panel */}
-        {showFilters && (
-          <div className="mb-6">
-            <FilterPanel
-              filters={filters}
-              onChange={updateFilters}
-              onClear={clearAllFilters}
-              hasActiveFilters={hasActiveFilters(filters) || priorityFilter !== null || tagFilter !== null}
+        <div className="lg:flex lg:gap-6 lg:items-start">
+          {/* Smart Lists Sidebar */}
+          <aside className="mb-6 lg:w-60 lg:shrink-0 lg:sticky lg:top-6">
+            <SmartListSidebar
+              filters={mergedFilters}
+              searchOptions={searchOptions}
+              onApply={applyFilters}
+              canSave={filterQuery !== ''}
+              refreshKey={todos}
             />
-          </div>
-        )}
-
-        {/* Add Todo Form */}
-        <div className="mb-8 bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-2xl border border-slate-700/50">
-          <form onSubmit={handleAddTodo} className="space-y-4">
-            <div className="flex gap-3">
-              <input
-                type="text"
-                value={newTitle}
-                onChange={(e) => setNewTitle(e.target.value)}
-                placeholder="Add a new todo..."
-                className="flex-1 px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                maxLength={500}
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {/* Search Bar */}
+            <div className="mb-6">
+              <SearchBar
+                key={searchBarKey}
+                onSearch={handleSearch}
+                initialValue={filters.searchText}
+                placeholder={filters.searchMode === 'advanced'
+                  ? 'Search or filter, e.g. tag:work priority:high due:<7d'
+                  : undefined}
+                error={queryError}
               />
             </div>
-            <div className="flex gap-3 items-end">
-              <div>
-                <PrioritySelect
-                  value={newPriority}
-                  onChange={setNewPriority}
-                  className="h-[44px] bg-slate-700/50 border-slate-600 text-white"
-                />
-              </div>
-              <div className="flex-1">
-                <input
-                  type="datetime-local"
-                  value={newDueDate}
-                  onChange={(e) => setNewDueDate(e.target.value)}
-                  className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent h-[44px]"
-                />
-              </div>
+
+            {/* Advanced Filters Toggle */}
+            <div className="mb-4 flex gap-3 items-center">
+              <select
+                value={String(listFilter)}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setListFilter(value === 'all' || value === 'personal' ? value : Number(value));
+                }}
+                aria-label="List"
+                className="px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All lists</option>
+                <option value="personal">Personal</option>
+                {lists.map(list => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}{list.role !== 'owner' ? ` (${LIST_ROLE_CONFIGS[list.role].label})` : ''}
+                  </option>
+                ))}
+              </select>
+              <PriorityFilter
+                value={priorityFilter}
+                onChange={setPriorityFilter}
+                className="bg-slate-700/50 border-slate-600 text-white"
+              />
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as TodoSort)}
+                aria-label="Sort by"
+                className="px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TODO_SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>Sort: {option.label}</option>
+                ))}
+              </select>
               <button
-                type="submit"
-                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-800 font-medium h-[44px]"
+                onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                className="px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-slate-200 rounded-lg hover:bg-slate-600/50"
+                aria-label={sortOrder === 'asc' ? 'Sort descending' : 'Sort ascending'}
+                title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
               >
-                Add
+                {sortOrder === 'asc' ? '↑' : '↓'}
               </button>
-            </div>
-            
-            {/* Advanced Options Toggle */}
-            <div>
               <button
-                type="button"
-                onClick={() => setShowAdvanced(!showAdvanced)}
-                className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                onClick={() => setShowFilters(!showFilters)}
+                className="px-4 py-2 text-sm bg-slate-700/50 border border-slate-600 text-slate-200 rounded-lg hover:bg-slate-600/50 flex items-center gap-2"
               >
-                <span>{showAdvanced ? '▼' : '▶'}</span>
-                <span>Advanced Options</span>
+                <span>▶</span>
+                <span>Advanced</span>
               </button>
             </div>
 
-            {/* Advanced Options Section */}
-            {showAdvanced && (
-              <div className="space-y-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
-                <RecurrenceSelect value={newRecurrence} onChange={setNewRecurrence} />
-                <ReminderSelect value={newReminder} onChange={setNewReminder} />
-                <TagSelector selectedTagIds={newTagIds} onChange={setNewTagIds} />
-                <RecurrencePreview dueDate={newDueDate} pattern={newRecurrence} />
+            {/* Filter Panel */}
+            {showFilters && (
+              <div className="mb-6">
+                <FilterPanel
+                  filters={filters}
+                  onChange={updateFilters}
+                  searchOptions={searchOptions}
+                  onSearchOptionsChange={updateSearchOptions}
+                  onClear={clearAllFilters}
+                  hasActiveFilters={filterQuery !== ''}
+                />
               </div>
             )}
-          </form>
-        </div>
-
-        {/* Todo List */}
-        <div className="space-y-3">
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-blue-400">
-              Pending ({filteredTodos.filter(t => !t.completed).length})
-              {filteredTodos.length !== todos.length && (
-                <span className="ml-2 text-sm font-normal text-slate-400">
-                  showing {filteredTodos.length} of {todos.length}
-                </span>
-              )}
-            </h2>
-            {(hasActiveFilters(filters) || priorityFilter || tagFilter) && (
-              <button
-                onClick={clearAllFilters}
-                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
-              >
-                Clear all filters
-              </button>
-            )}
-          </div>
 
-          {todos.length === 0 ? (
-            <div className="text-center py-12 bg-slate-800/30 rounded-lg shadow border border-slate-700/50">
-              <p className="text-slate-400">No todos yet. Add one above!</p>
-            </div>
-          ) : filteredTodos.length === 0 ? (
-            <div className="text-center py-12 bg-slate-800/30 rounded-lg shadow border border-slate-700/50">
-              <p className="text-slate-400 mb-4">No todos found matching your filters.</p>
-              <button
-                onClick={clearAllFilters}
-                className="text-blue-400 hover:text-blue-300 hover:underline"
-              >
-                Clear all filters
-              </button>
-            </div>
-          ) : (
-            filteredTodos.map((todo) => (
-              <div
-                key={todo.id}
-                className={`p-4 bg-slate-800/50 backdrop-blur-sm rounded-lg shadow-md border-l-4 mb-4 ${
-                  todo.completed
-                    ? 'border-l-slate-500 opacity-60'
-                    : todo.priority === 'high'
-                    ? 'border-l-red-500'
-                    : todo.priority === 'medium'
-                    ? 'border-l-yellow-500'
-                    : 'border-l-blue-500'
-                }`}
-              >
-                {editingId === todo.id ? (
-                  /* Edit Mode */
-                  <div className="space-y-3">
+            {/* Add Todo Form */}
+            <div className="mb-8 bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-2xl border border-slate-700/50">
+              {!canAddTodos ? (
+                <p className="text-sm text-slate-400">
+                  You have view-only access to <span className="text-white">{activeList?.name}</span>.
+                </p>
+              ) : (
+                <form onSubmit={handleAddTodo} className="space-y-4">
+                  <div className="flex gap-3">
                     <input
+                      ref={newTitleInput}
                       type="text"
-                      value={editTitle}
-                      onChange={(e) => setEditTitle(e.target.value)}
-                      className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={newTitle}
+                      onChange={(e) => setNewTitle(e.target.value)}
+                      placeholder="Add a new todo..."
+                      className="flex-1 px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       maxLength={500}
                     />
-                    <div className="flex gap-3 flex-wrap">
+                  </div>
+                  <QuickAddPreview result={quickAdd} timeZone={timezone} />
+                  <div className="flex gap-3 items-end">
+                    <div>
+                      <PrioritySelect
+                        value={newPriority}
+                        onChange={setNewPriority}
+                        className="h-[44px] bg-slate-700/50 border-slate-600 text-white"
+                      />
+                    </div>
+                    <div className="flex-1">
                       <input
                         type="datetime-local"
-                        value={editDueDate}
-                        onChange={(e) => setEditDueDate(e.target.value)}
-                        className="px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={newDueDate}
+                        onChange={(e) => setNewDueDate(e.target.value)}
+                        className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent h-[44px]"
                       />
-                      <PrioritySelect
-                        value={editPriority}
-                        onChange={setEditPriority}
+                    </div>
+                    <button
+                      type="submit"
+                      className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-800 font-medium h-[44px]"
+                    >
+                      Add
+                    </button>
+                  </div>
+              
+                  {/* Advanced Options Toggle */}
+                  <div>
+                    <button
+                      type="button"
+                      onClick={() => setShowAdvanced(!showAdvanced)}
+                      className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                    >
+                      <span>{showAdvanced ? '▼' : '▶'}</span>
+                      <span>Advanced Options</span>
+                    </button>
+                  </div>
+
+                  {/* Advanced Options Section */}
+                  {showAdvanced && (
+                    <div className="space-y-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+                      <textarea
+                        value={newDescription}
+                        onChange={(e) => setNewDescription(e.target.value)}
+                        maxLength={MAX_DESCRIPTION_LENGTH}
+                        rows={3}
+                        placeholder="Notes (markdown: **bold**, [links](https://…), - [ ] checklist items)"
+                        aria-label="New todo description"
+                        className="w-full px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
                       <RecurrenceSelect
-                        value={editRecurrence}
-                        onChange={setEditRecurrence}
+                        value={newRecurrence}
+                        onChange={setNewRecurrence}
+                        rule={newRecurrenceRule}
+                        onRuleChange={setNewRecurrenceRule}
+                        dueDate={newDueDate}
                       />
                       <ReminderSelect
-                        value={editReminder}
-                        onChange={setEditReminder}
+                        value={newReminders}
+                        onChange={setNewReminders}
+                        dueDate={newDueDate}
+                        timeZone={timezone}
                       />
+                      <TagSelector selectedTagIds={newTagIds} onChange={setNewTagIds} />
+                      <RecurrencePreview dueDate={newDueDate} pattern={newRecurrence} rule={newRecurrenceRule} timeZone={timezone} />
                     </div>
-                    <div>
-                      <TagSelector selectedTagIds={editTagIds} onChange={setEditTagIds} />
-                    </div>
-                    <div className="flex gap-3">
-                      <button
-                        onClick={() => handleUpdateTodo(todo.id)}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-                        type="button"
-                      >
-                        Save
-                      </button>
-                      <button
-                        onClick={cancelEdit}
-                        className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700"
-                        type="button"
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  /* View Mode */
-                  <div>
-                    <div className="flex items-start gap-4">
-                      <input
-                        type="checkbox"
-                        checked={!!todo.completed}
-                        onChange={() => handleToggleComplete(todo)}
-                        className="mt-1 w-5 h-5 text-blue-600 rounded focus:ring-blue-500 cursor-pointer"
-                      />
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2">
-                          <h3
-                            className={`text-lg font-medium ${
-                              todo.completed ? 'line-through text-slate-500' : 'text-white'
-                            }`}
-                          >
-                            {todo.title}
-                          </h3>
-                          <PriorityBadge priority={todo.priority} />
-                          {todo.subtasks && todo.subtasks.length > 0 && (
-                            <span className="text-xs text-slate-400">
-                              {todo.subtasks.filter(st => st.completed).length}/{todo.subtasks.length} subtasks
-                            </span>
-                          )}
-                        </div>
-                        <div className="flex items-center gap-4 text-sm text-slate-400 flex-wrap">
-                          <span className="text-orange-400">
-                            📅 {new Date(todo.due_date).toLocaleString('en-SG', {
-                              timeZone: 'Asia/Singapore',
-                              year: 'numeric',
-                              month: 'short',
-                              day: 'numeric',
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
-                          </span>
-                          <RecurrenceBadge pattern={todo.recurrence_pattern} />
-                          <ReminderBadge minutes={todo.reminder_minutes} />
-                          {todo.tags && todo.tags.length > 0 && (
-                            <div className="flex gap-2 flex-wrap">
-                              {todo.tags.map(tag => (
-                                <TagBadge key={tag.id} name={tag.name} color={tag.color} size="sm" />
+                  )}
+                  {activeList && (
+                    <p className="text-xs text-slate-400">Adding to shared list: {activeList.name}</p>
+                  )}
+                </form>
+              )}
+            </div>
+
+            {/* Todo List */}
+            <div className="space-y-3">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-blue-400">
+                  Pending ({filteredTodos.filter(t => !t.completed).length})
+                  {filteredTodos.length !== todos.length && (
+                    <span className="ml-2 text-sm font-normal text-slate-400">
+                      showing {filteredTodos.length} of {todos.length}
+                    </span>
+                  )}
+                </h2>
+                <div className="flex items-center gap-4">
+                  {filterQuery !== '' && (
+                    <button
+                      onClick={clearAllFilters}
+                      className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                    >
+                      Clear all filters
+                    </button>
+                  )}
+                  {todos.length > 0 && (
+                    <button
+                      onClick={toggleSelecting}
+                      className="px-3 py-1 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+                      aria-pressed={selecting}
+                    >
+                      {selecting ? 'Cancel selection' : 'Select'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {todos.length === 0 ? (
+                <div className="text-center py-12 bg-slate-800/30 rounded-lg shadow border border-slate-700/50">
+                  <p className="text-slate-400">No todos yet. Add one above!</p>
+                </div>
+              ) : filteredTodos.length === 0 ? (
+                <div className="text-center py-12 bg-slate-800/30 rounded-lg shadow border border-slate-700/50">
+                  <p className="text-slate-400 mb-4">No todos found matching your filters.</p>
+                  <button
+                    onClick={clearAllFilters}
+                    className="text-blue-400 hover:text-blue-300 hover:underline"
+                  >
+                    Clear all filters
+                  </button>
+                </div>
+              ) : (
+                filteredTodos.map((todo) => {
+                  const canEdit = canEditTodos(getTodoRole(todo));
+                  const list = todo.list_id !== null ? lists.find(l => l.id === todo.list_id) : null;
+                  return (
+                    <div
+                      key={todo.id}
+                      data-todo-id={todo.id}
+                      aria-current={focusedId === todo.id ? 'true' : undefined}
+                      className={`p-4 bg-slate-800/50 backdrop-blur-sm rounded-lg shadow-md border-l-4 mb-4 ${
+                        selecting && selectedIds.has(todo.id) ? 'ring-2 ring-blue-500' : ''
+                      } ${focusedId === todo.id ? 'outline-2 outline-offset-2 outline-fuchsia-400' : ''} ${
+                        todo.completed
+                          ? 'border-l-slate-500 opacity-60'
+                          : todo.priority === 'high'
+                          ? 'border-l-red-500'
+                          : todo.priority === 'medium'
+                          ? 'border-l-yellow-500'
+                          : 'border-l-blue-500'
+                      }`}
+                    >
+                      {editingId === todo.id ? (
+                        /* Edit Mode */
+                        <div className="space-y-3">
+                          <input
+                            type="text"
+                            value={editTitle}
+                            onChange={(e) => setEditTitle(e.target.value)}
+                            className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            maxLength={500}
+                          />
+                          <div className="flex gap-3 flex-wrap">
+                            <input
+                              type="datetime-local"
+                              value={editDueDate}
+                              onChange={(e) => setEditDueDate(e.target.value)}
+                              className="px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <PrioritySelect
+                              value={editPriority}
+                              onChange={setEditPriority}
+                            />
+                            <RecurrenceSelect
+                              value={editRecurrence}
+                              onChange={setEditRecurrence}
+                              rule={editRecurrenceRule}
+                              onRuleChange={setEditRecurrenceRule}
+                              dueDate={editDueDate}
+                            />
+                            <ReminderSelect
+                              value={editReminders}
+                              onChange={setEditReminders}
+                              dueDate={editDueDate}
+                              timeZone={timezone}
+                            />
+                            <select
+                              value={editListId ?? ''}
+                              onChange={(e) => {
+                                const listId = e.target.value ? Number(e.target.value) : null;
+                                setEditListId(listId);
+                                // Keep the assignee only if they can edit the list it's moving to
+                                if (!getAssignees(listId).some(member => member.user_id === editAssigneeId)) {
+                                  setEditAssigneeId(null);
+                                }
+                              }}
+                              aria-label="Move to list"
+                              className="px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Personal</option>
+                              {lists.filter(l => canEditTodos(l.role)).map(l => (
+                                <option key={l.id} value={l.id}>{l.name}</option>
                               ))}
+                            </select>
+                            {editListId !== null && (
+                              <select
+                                value={editAssigneeId ?? ''}
+                                onChange={(e) => setEditAssigneeId(e.target.value ? Number(e.target.value) : null)}
+                                aria-label="Assignee"
+                                className="px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              >
+                                <option value="">Unassigned</option>
+                                {getAssignees(editListId).map(member => (
+                                  <option key={member.user_id} value={member.user_id}>{member.username}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                          <div>
+                            <TagSelector selectedTagIds={editTagIds} onChange={setEditTagIds} />
+                          </div>
+                          <div className="flex gap-3">
+                            <button
+                              onClick={() => handleUpdateTodo(todo.id)}
+                              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                              type="button"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={cancelEdit}
+                              className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700"
+                              type="button"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        /* View Mode */
+                        <div>
+                          <div className="flex items-start gap-4">
+                            {selecting && (
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(todo.id)}
+                                onChange={(e) => handleSelectTodo(todo.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                                disabled={!canEdit}
+                                aria-label={`Select ${todo.title}`}
+                                className="mt-1 w-5 h-5 accent-blue-500 cursor-pointer disabled:cursor-not-allowed"
+                              />
+                            )}
+                            <input
+                              type="checkbox"
+                              checked={!!todo.completed}
+                              onChange={() => handleToggleComplete(todo)}
+                              disabled={!canEdit}
+                              className="mt-1 w-5 h-5 text-blue-600 rounded focus:ring-blue-500 cursor-pointer disabled:cursor-not-allowed"
+                            />
+                            <div className="flex-1">
+                              <div className="flex items-center gap-3 mb-2">
+                                <h3
+                                  className={`text-lg font-medium ${
+                                    todo.completed ? 'line-through text-slate-500' : 'text-white'
+                                  }`}
+                                >
+                                  {todo.title}
+                                </h3>
+                                <PriorityBadge priority={todo.priority} />
+                                {list && (
+                                  <span className="px-2 py-0.5 text-xs rounded-full bg-slate-700 text-slate-200" title={`Shared list (${LIST_ROLE_CONFIGS[list.role].label})`}>
+                                    👥 {list.name}
+                                  </span>
+                                )}
+                                {todo.assignee_username && (
+                                  <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-900/60 text-indigo-200" title="Assignee">
+                                    👤 {todo.assignee_id === userId ? 'You' : todo.assignee_username}
+                                  </span>
+                                )}
+                                {todo.subtasks && todo.subtasks.length > 0 && (
+                                  <span className="text-xs text-slate-400">
+                                    {todo.subtasks.filter(st => st.completed).length}/{todo.subtasks.length} subtasks
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-4 text-sm text-slate-400 flex-wrap">
+                                <span className="text-orange-400">
+                                  📅 {new Date(todo.due_date).toLocaleString('en-SG', {
+                                    timeZone: timezone,
+                                    year: 'numeric',
+                                    month: 'short',
+                                    day: 'numeric',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                  })}
+                                </span>
+                                <RecurrenceBadge pattern={todo.recurrence_pattern} rule={todo.recurrence_rule} />
+                                <ReminderBadge reminders={todo.reminders} timeZone={timezone} />
+                                {todo.tags && todo.tags.length > 0 && (
+                                  <div className="flex gap-2 flex-wrap">
+                                    {todo.tags.map(tag => (
+                                      <TagBadge key={tag.id} name={tag.name} color={tag.color} size="sm" />
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                              <TodoDescription
+                                description={todo.description}
+                                canEdit={canEdit}
+                                onSave={(description) => handleUpdateDescription(todo.id, description)}
+                              />
                             </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => setExpandedId(expandedId === todo.id ? null : todo.id)}
+                                className="px-3 py-1 text-sm text-slate-300 hover:bg-slate-700/50 rounded-md"
+                                aria-label="Comments"
+                                aria-expanded={expandedId === todo.id}
+                              >
+                                💬 {todo.comment_count || 0}
+                              </button>
+                              <button
+                                onClick={() => setAttachmentsOpenId(attachmentsOpenId === todo.id ? null : todo.id)}
+                                className="px-3 py-1 text-sm text-slate-300 hover:bg-slate-700/50 rounded-md"
+                                aria-label="Attachments"
+                                aria-expanded={attachmentsOpenId === todo.id}
+                              >
+                                📎 {todo.attachment_count || 0}
+                              </button>
+                              <button
+                                onClick={() => setHistoryOpenId(historyOpenId === todo.id ? null : todo.id)}
+                                className="px-3 py-1 text-sm text-slate-300 hover:bg-slate-700/50 rounded-md"
+                                aria-label="History"
+                                aria-expanded={historyOpenId === todo.id}
+                                title="Change history"
+                              >
+                                🕘
+                              </button>
+                              {canEdit && !todo.completed && (
+                                <button
+                                  onClick={() => startEdit(todo)}
+                                  className="px-3 py-1 text-sm text-blue-400 hover:bg-slate-700/50 rounded-md"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                              {canEdit && (
+                                <button
+                                  onClick={() => handleDeleteTodo(todo.id)}
+                                  className="px-3 py-1 text-sm text-red-400 hover:bg-slate-700/50 rounded-md"
+                                >
+                                  Del
+                                </button>
+                              )}
+                            </div>
+                          </div>
+
+                          {/* Subtasks */}
+                          {!todo.completed && canEdit && (
+                            <SubtaskList
+                              todoId={todo.id}
+                              subtasks={todo.subtasks || []}
+                              onAdd={handleAddSubtask}
+                              onToggle={handleToggleSubtask}
+                              onReorder={handleReorderSubtask}
+                              onDelete={handleDeleteSubtask}
+                              assignees={getAssignees(todo.list_id)}
+                              onAssign={handleAssignSubtask}
+                            />
+                          )}
+
+                          {/* Attachments */}
+                          {attachmentsOpenId === todo.id && (
+                            <AttachmentList
+                              todoId={todo.id}
+                              currentUserId={userId}
+                              canEdit={canEdit}
+                              onCountChange={(count) =>
+                                setTodos(prev => prev.map(t => t.id === todo.id ? { ...t, attachment_count: count } : t))
+                              }
+                            />
+                          )}
+
+                          {/* Change history */}
+                          {historyOpenId === todo.id && (
+                            <TodoHistory todoId={todo.id} timeZone={timezone} />
+                          )}
+
+                          {/* Comments */}
+                          {expandedId === todo.id && (
+                            <CommentThread
+                              todoId={todo.id}
+                              currentUserId={userId}
+                              timeZone={timezone}
+                              mentionable={(list?.members ?? [])
+                                .filter(member => member.user_id !== userId)
+                                .map(member => member.username)}
+                              onCountChange={(count) =>
+                                setTodos(prev => prev.map(t => t.id === todo.id ? { ...t, comment_count: count } : t))
+                              }
+                            />
                           )}
                         </div>
-                      </div>
-                      <div className="flex gap-2">
-                        {!todo.completed && (
-                          <button
-                            onClick={() => startEdit(todo)}
-                            className="px-3 py-1 text-sm text-blue-400 hover:bg-slate-700/50 rounded-md"
-                          >
-                            Edit
-                          </button>
-                        )}
-                        <button
-                          onClick={() => handleDeleteTodo(todo.id)}
-                          className="px-3 py-1 text-sm text-red-400 hover:bg-slate-700/50 rounded-md"
-                        >
-                          Del
-                        </button>
-                      </div>
+                      )}
                     </div>
+                  );
+                })
+              )}
 
-                    {/* Subtasks */}
-                    {!todo.completed && (
-                      <SubtaskList
-                        todoId={todo.id}
-                        subtasks={todo.subtasks || []}
-                        onAdd={handleAddSubtask}
-                        onToggle={handleToggleSubtask}
-                        onReorder={handleReorderSubtask}
-                        onDelete={handleDeleteSubtask}
-                      />
-                    )}
-                  </div>
-                )}
-              </div>
-            ))
-          )}
+              {/* Bulk actions for the selected todos */}
+              {selecting && (
+                <BulkActionBar
+                  selectedCount={selectedTodoIds.length}
+                  selectableCount={selectableTodos.length}
+                  lists={lists}
+                  busy={bulkBusy}
+                  onAction={handleBulkAction}
+                  onSelectAll={() => setSelectedIds(new Set(selectableTodos.map(todo => todo.id)))}
+                  onClearSelection={() => setSelectedIds(new Set())}
+                />
+              )}
+
+              {/* More todos than the first page */}
+              {nextCursor && (
+                <div className="text-center">
+                  <button
+                    onClick={loadMoreTodos}
+                    disabled={loadingMore}
+                    className="px-4 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors font-medium"
+                  >
+                    {loadingMore ? 'Loading...' : `Load more (${Math.max(totalTodos - todos.length, 0)} more)`}
+                  </button>
+                </div>
+              )}
           
-          {/* Statistics Footer */}
-          {todos.length > 0 && (
-            <div className="mt-6 p-4 bg-slate-800/30 rounded-lg border border-slate-700/50 text-center">
-              <div className="flex justify-center gap-6 text-sm">
-                <span className="text-red-400">
-                  {todos.filter(t => !t.completed && new Date(t.due_date) < new Date()).length} Overdue
-                </span>
-                <span className="text-slate-400">|</span>
-                <span className="text-blue-400">
-                  {todos.filter(t => !t.completed && new Date(t.due_date) >= new Date()).length} Pending
-                </span>
-                <span className="text-slate-400">|</span>
-                <span className="text-green-400">
-                  {todos.filter(t => t.completed).length} Completed
-                </span>
-              </div>
+              {/* Statistics Footer */}
+              {todos.length > 0 && (
+                <div className="mt-6 p-4 bg-slate-800/30 rounded-lg border border-slate-700/50 text-center">
+                  <div className="flex justify-center gap-6 text-sm">
+                    <span className="text-red-400">
+                      {todos.filter(t => !t.completed && new Date(t.due_date) < new Date()).length} Overdue
+                    </span>
+                    <span className="text-slate-400">|</span>
+                    <span className="text-blue-400">
+                      {todos.filter(t => !t.completed && new Date(t.due_date) >= new Date()).length} Pending
+                    </span>
+                    <span className="text-slate-400">|</span>
+                    <span className="text-green-400">
+                      {todos.filter(t => t.completed).length} Completed
+                    </span>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </div>
 
@@ -965,6 +2008,54 @@ export default function HomePage() {
         onTagsChanged={fetchTodos}
       />
 
+      {/* Shared Lists Modal */}
+      <ListsModal
+        isOpen={showListsModal}
+        onClose={() => setShowListsModal(false)}
+        onListsChanged={() => {
+          fetchLists();
+          fetchTodos();
+        }}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={showTrashModal}
+        onClose={() => setShowTrashModal(false)}
+        onRestored={fetchTodos}
+        timeZone={timezone}
+      />
+
+      {/* Command Palette */}
+      <CommandPalette
+        key={paletteMode}
+        isOpen={showCommandPalette}
+        onClose={() => setShowCommandPalette(false)}
+        commands={getPaletteCommands()}
+        queryCommands={paletteMode === 'commands' && canAddTodos
+          ? (query) => [{ id: 'create-todo', label: `Create todo "${query}"`, section: 'Create', run: () => handleQuickCreate(query) }]
+          : undefined}
+        placeholder={paletteMode === 'tag'
+          ? `Tag ${tagTargetIds.length === 1 ? `"${todos.find(t => t.id === tagTargetIds[0])?.title}"` : `${tagTargetIds.length} todos`}...`
+          : undefined}
+      />
+
+      {/* Keyboard Shortcuts Modal */}
+      <KeyboardShortcutsModal
+        isOpen={showShortcutsModal}
+        onClose={() => setShowShortcutsModal(false)}
+        shortcuts={shortcuts}
+        isMac={isMac}
+        onSaved={setShortcuts}
+      />
+
+      {/* Email Settings Modal */}
+      <EmailSettingsModal
+        isOpen={showEmailModal}
+        onClose={() => setShowEmailModal(false)}
+        onSaved={() => showToast('Email settings saved', 'success')}
+      />
+
       {/* Template Browser Modal */}
       <TemplateBrowser
         isOpen={showTemplateModal}
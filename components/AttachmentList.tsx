@@ -0,0 +1,179 @@
+/**
+ * AttachmentList Component
+ *
+ * Files attached to a todo, with download links and (for people who can edit
+ * the todo) an upload button. Uploaders can remove their own files; editors
+ * can remove any.
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { AttachmentWithUploader } from '@/lib/db';
+import { ATTACHMENT_MIME_TYPES, MAX_ATTACHMENT_SIZE_BYTES, formatFileSize } from '@/lib/constants';
+
+interface AttachmentListProps {
+  todoId: number;
+  currentUserId: number | null;
+  canEdit: boolean;
+  onCountChange?: (count: number) => void;
+}
+
+export function AttachmentList({ todoId, currentUserId, canEdit, onCountChange }: AttachmentListProps) {
+  const [attachments, setAttachments] = useState<AttachmentWithUploader[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [todoId]);
+
+  async function fetchAttachments() {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/todos/${todoId}/attachments`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load attachments');
+        return;
+      }
+      setAttachments(data.attachments);
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+      setError('Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateAttachments(next: AttachmentWithUploader[]) {
+    setAttachments(next);
+    onCountChange?.(next.length);
+  }
+
+  async function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    // Checked again (by content) on the server
+    if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      setError(`File must be ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)} or smaller`);
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      setError('');
+      setUploading(true);
+      const res = await fetch(`/api/todos/${todoId}/attachments`, { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to upload file');
+        return;
+      }
+      updateAttachments([...attachments, data.attachment]);
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError('Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleDelete(attachment: AttachmentWithUploader) {
+    if (!confirm(`Remove ${attachment.filename}?`)) return;
+
+    try {
+      setError('');
+      const res = await fetch(`/api/todos/${todoId}/attachments/${attachment.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to remove file');
+        return;
+      }
+      updateAttachments(attachments.filter(a => a.id !== attachment.id));
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError('Failed to remove file');
+    }
+  }
+
+  return (
+    <div className="mt-3 ml-9 space-y-2">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-slate-400">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-slate-400">No attachments</p>
+      ) : (
+        <ul className="space-y-1">
+          {attachments.map(attachment => {
+            const url = `/api/todos/${todoId}/attachments/${attachment.id}`;
+            return (
+              <li
+                key={attachment.id}
+                className="flex items-center gap-3 px-3 py-2 rounded-md bg-slate-900/40 border border-slate-700/50 text-sm"
+              >
+                <span aria-hidden>{attachment.mime_type === 'application/pdf' ? '📄' : '🖼️'}</span>
+                <a
+                  href={`${url}?inline=1`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:underline truncate"
+                >
+                  {attachment.filename}
+                </a>
+                <span className="text-xs text-slate-500 whitespace-nowrap">
+                  {formatFileSize(attachment.size)} · {attachment.username}
+                </span>
+                <span className="ml-auto flex gap-3 text-xs">
+                  <a href={url} download={attachment.filename} className="text-slate-300 hover:underline">
+                    Download
+                  </a>
+                  {(canEdit || attachment.user_id === currentUserId) && (
+                    <button
+                      onClick={() => handleDelete(attachment)}
+                      className="text-red-400 hover:underline"
+                      aria-label={`Remove ${attachment.filename}`}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={Object.keys(ATTACHMENT_MIME_TYPES).join(',')}
+            onChange={handleUpload}
+            className="hidden"
+            aria-label="Attach file"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {uploading ? 'Uploading...' : '📎 Attach file'}
+          </button>
+          <span className="text-xs text-slate-500">
+            PDF or image, up to {formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * BulkActionBar Component
+ *
+ * Actions for the todos selected in multi-select mode: complete or reopen,
+ * set priority, add or remove a tag, shift due dates, move to a list or
+ * delete. Each is one request to /api/todos/bulk.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ListWithRole, Priority, Tag } from '@/lib/db';
+import { PRIORITY_CONFIGS, MAX_BULK_SHIFT_DAYS, canEditTodos } from '@/lib/constants';
+import type { BulkAction } from '@/lib/bulk';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  selectableCount: number;
+  lists: ListWithRole[];
+  busy: boolean;
+  onAction: (action: BulkAction) => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+}
+
+const selectClass = 'px-2 py-1.5 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+const buttonClass = 'px-3 py-1.5 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium';
+
+export function BulkActionBar({
+  selectedCount,
+  selectableCount,
+  lists,
+  busy,
+  onAction,
+  onSelectAll,
+  onClearSelection,
+}: BulkActionBarProps) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [shiftDays, setShiftDays] = useState(1);
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  async function fetchTags() {
+    try {
+      const res = await fetch('/api/tags');
+      if (!res.ok) return;
+      const data = await res.json();
+      setTags(data.tags || []);
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+    }
+  }
+
+  const disabled = busy || selectedCount === 0;
+  const validShift = Number.isInteger(shiftDays) && shiftDays !== 0 && Math.abs(shiftDays) <= MAX_BULK_SHIFT_DAYS;
+
+  // Selects apply on change, then go back to their placeholder
+  function onSelect(e: React.ChangeEvent<HTMLSelectElement>, toAction: (value: string) => BulkAction) {
+    const value = e.target.value;
+    e.target.value = '';
+    if (value) onAction(toAction(value));
+  }
+
+  return (
+    <div
+      className="sticky bottom-4 z-40 mb-4 p-3 bg-slate-800/95 backdrop-blur-sm rounded-xl border border-blue-500/50 shadow-2xl flex flex-wrap items-center gap-2"
+      role="toolbar"
+      aria-label="Bulk actions"
+    >
+      <span className="text-sm text-white font-medium mr-1" aria-live="polite">
+        {selectedCount} selected
+      </span>
+      <button
+        type="button"
+        onClick={selectedCount === selectableCount ? onClearSelection : onSelectAll}
+        disabled={busy || selectableCount === 0}
+        className="px-2 py-1.5 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+      >
+        {selectedCount === selectableCount && selectableCount > 0 ? 'Select none' : `Select all (${selectableCount})`}
+      </button>
+
+      <span className="mx-1 h-6 w-px bg-slate-600" aria-hidden="true" />
+
+      <button type="button" onClick={() => onAction({ type: 'complete' })} disabled={disabled} className={buttonClass}>
+        Complete
+      </button>
+      <button type="button" onClick={() => onAction({ type: 'uncomplete' })} disabled={disabled} className={buttonClass}>
+        Reopen
+      </button>
+
+      <select
+        defaultValue=""
+        onChange={(e) => onSelect(e, value => ({ type: 'set_priority', priority: value as Priority }))}
+        disabled={disabled}
+        aria-label="Set priority of selected"
+        className={selectClass}
+      >
+        <option value="">Priority…</option>
+        {Object.values(PRIORITY_CONFIGS).map(config => (
+          <option key={config.value} value={config.value}>{config.label}</option>
+        ))}
+      </select>
+
+      {tags.length > 0 && (
+        <>
+          <select
+            defaultValue=""
+            onChange={(e) => onSelect(e, value => ({ type: 'add_tag', tag_id: Number(value) }))}
+            disabled={disabled}
+            aria-label="Add tag to selected"
+            className={selectClass}
+          >
+            <option value="">+ Tag…</option>
+            {tags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+          <select
+            defaultValue=""
+            onChange={(e) => onSelect(e, value => ({ type: 'remove_tag', tag_id: Number(value) }))}
+            disabled={disabled}
+            aria-label="Remove tag from selected"
+            className={selectClass}
+          >
+            <option value="">− Tag…</option>
+            {tags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          value={Number.isNaN(shiftDays) ? '' : shiftDays}
+          onChange={(e) => setShiftDays(e.target.valueAsNumber)}
+          min={-MAX_BULK_SHIFT_DAYS}
+          max={MAX_BULK_SHIFT_DAYS}
+          aria-label="Days to shift due dates by"
+          className={`${selectClass} w-16`}
+        />
+        <button
+          type="button"
+          onClick={() => onAction({ type: 'shift_due', days: shiftDays })}
+          disabled={disabled || !validShift}
+          className={buttonClass}
+          title="Move due dates by this many days (negative for earlier)"
+        >
+          Shift due
+        </button>
+      </span>
+
+      <select
+        defaultValue=""
+        onChange={(e) => onSelect(e, value => ({ type: 'move_to_list', list_id: value === 'personal' ? null : Number(value) }))}
+        disabled={disabled}
+        aria-label="Move selected to list"
+        className={selectClass}
+      >
+        <option value="">Move to…</option>
+        <option value="personal">Personal</option>
+        {lists.filter(list => canEditTodos(list.role)).map(list => (
+          <option key={list.id} value={list.id}>{list.name}</option>
+        ))}
+      </select>
+
+      <button
+        type="button"
+        onClick={() => onAction({ type: 'delete' })}
+        disabled={disabled}
+        className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
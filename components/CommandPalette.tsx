@@ -0,0 +1,160 @@
+/**
+ * CommandPalette Component
+ *
+ * Searchable list of commands opened with Ctrl/Cmd+K. Every word typed has to
+ * appear in a command's label or keywords; arrow keys move, Enter runs the
+ * highlighted command and Escape closes. Commands made from the text itself
+ * (e.g. creating a todo with it) come first.
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  section: string;
+  keywords?: string;
+  shortcut?: string; // Shown as a hint, already formatted
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: PaletteCommand[];
+  queryCommands?: (query: string) => PaletteCommand[];
+  placeholder?: string;
+}
+
+function matches(command: PaletteCommand, words: string[]): boolean {
+  const text = `${command.section} ${command.label} ${command.keywords ?? ''}`.toLowerCase();
+  return words.every(word => text.includes(word));
+}
+
+export function CommandPalette({ isOpen, onClose, commands, queryCommands, placeholder }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const fromQuery = query.trim() && queryCommands ? queryCommands(query.trim()) : [];
+    return [...fromQuery, ...commands.filter(command => matches(command, words))];
+  }, [commands, queryCommands, query]);
+
+  // Keep the highlighted command in range and in view
+  useEffect(() => {
+    setActiveIndex(index => Math.min(index, Math.max(results.length - 1, 0)));
+  }, [results.length]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  function runCommand(command: PaletteCommand) {
+    onClose();
+    command.run();
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (results.length === 0 ? 0 : (index + 1) % results.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (results.length === 0 ? 0 : (index - 1 + results.length) % results.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) runCommand(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black bg-opacity-50 flex items-start justify-center p-4 pt-[15vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-xl w-full overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder ?? 'Type a command or a new todo...'}
+          className="w-full px-5 py-4 text-lg text-gray-900 border-b border-gray-200 focus:outline-none"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[activeIndex] ? `command-${results[activeIndex].id}` : undefined}
+          aria-label="Command"
+          autoFocus
+        />
+
+        {results.length === 0 ? (
+          <p className="px-5 py-6 text-sm text-gray-500 text-center">No matching commands</p>
+        ) : (
+          <ul
+            ref={listRef}
+            id="command-palette-results"
+            role="listbox"
+            aria-label="Commands"
+            className="max-h-[50vh] overflow-y-auto py-2"
+          >
+            {results.map((command, index) => (
+              <li key={command.id} role="presentation">
+                {(index === 0 || results[index - 1].section !== command.section) && (
+                  <p className="px-5 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400" aria-hidden="true">
+                    {command.section}
+                  </p>
+                )}
+                <div
+                  id={`command-${command.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => runCommand(command)}
+                  className={`mx-2 px-3 py-2 rounded-md flex items-center justify-between gap-3 cursor-pointer text-sm ${
+                    index === activeIndex ? 'bg-blue-600 text-white' : 'text-gray-800'
+                  }`}
+                >
+                  <span className="truncate">{command.label}</span>
+                  {command.shortcut && (
+                    <kbd className={`px-1.5 py-0.5 text-xs rounded border font-mono ${
+                      index === activeIndex ? 'border-blue-300 text-blue-100' : 'border-gray-300 text-gray-500'
+                    }`}>
+                      {command.shortcut}
+                    </kbd>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
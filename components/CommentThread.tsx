@@ -0,0 +1,216 @@
+/**
+ * CommentThread Component
+ *
+ * Discussion on a todo: comments in markdown, oldest first, with a box to
+ * add one. Authors can edit and delete their own comments. @username
+ * mentions notify people who can see the todo.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CommentWithAuthor } from '@/lib/db';
+import { MAX_COMMENT_LENGTH } from '@/lib/constants';
+import { formatInZone } from '@/lib/timezone';
+import { Markdown } from './Markdown';
+
+interface CommentThreadProps {
+  todoId: number;
+  currentUserId: number | null;
+  timeZone: string;
+  /** Usernames that can be @mentioned, shown as a hint */
+  mentionable?: string[];
+  onCountChange?: (count: number) => void;
+}
+
+export function CommentThread({ todoId, currentUserId, timeZone, mentionable = [], onCountChange }: CommentThreadProps) {
+  const [comments, setComments] = useState<CommentWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newBody, setNewBody] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchComments();
+  }, [todoId]);
+
+  async function fetchComments() {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/todos/${todoId}/comments`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load comments');
+        return;
+      }
+      setComments(data.comments);
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+      setError('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Send a comment request; returns the response data, or null after showing the error
+  async function send(url: string, init: RequestInit, fallbackError: string): Promise<any | null> {
+    try {
+      setError('');
+      const res = await fetch(url, {
+        ...init,
+        headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || fallbackError);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error(`${fallbackError}:`, err);
+      setError(fallbackError);
+      return null;
+    }
+  }
+
+  function updateComments(next: CommentWithAuthor[]) {
+    setComments(next);
+    onCountChange?.(next.length);
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newBody.trim()) return;
+
+    const data = await send(`/api/todos/${todoId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body: newBody }),
+    }, 'Failed to add comment');
+
+    if (data) {
+      setNewBody('');
+      updateComments([...comments, data.comment]);
+    }
+  }
+
+  async function handleSaveEdit(commentId: number) {
+    const data = await send(`/api/todos/${todoId}/comments/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ body: editBody }),
+    }, 'Failed to edit comment');
+
+    if (data) {
+      setEditingId(null);
+      updateComments(comments.map(c => c.id === commentId ? data.comment : c));
+    }
+  }
+
+  async function handleDelete(commentId: number) {
+    if (!confirm('Delete this comment?')) return;
+
+    const data = await send(`/api/todos/${todoId}/comments/${commentId}`, {
+      method: 'DELETE',
+    }, 'Failed to delete comment');
+
+    if (data) {
+      updateComments(comments.filter(c => c.id !== commentId));
+    }
+  }
+
+  return (
+    <div className="mt-3 ml-9 space-y-3">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-slate-400">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-slate-400">No comments yet</p>
+      ) : (
+        comments.map(comment => (
+          <div key={comment.id} className="p-3 rounded-md bg-slate-900/40 border border-slate-700/50">
+            <div className="flex items-center gap-2 mb-1 text-xs text-slate-400">
+              <span className="font-medium text-slate-200">{comment.display_name || comment.username}</span>
+              <span>{formatInZone(comment.created_at, timeZone, 'MMM d, HH:mm')}</span>
+              {comment.updated_at && <span title={formatInZone(comment.updated_at, timeZone)}>(edited)</span>}
+              {comment.user_id === currentUserId && editingId !== comment.id && (
+                <span className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditBody(comment.body);
+                    }}
+                    className="text-blue-400 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(comment.id)}
+                    className="text-red-400 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </span>
+              )}
+            </div>
+
+            {editingId === comment.id ? (
+              <div className="space-y-2">
+                <textarea
+                  value={editBody}
+                  onChange={(e) => setEditBody(e.target.value)}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  rows={3}
+                  aria-label="Edit comment"
+                  className="w-full px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSaveEdit(comment.id)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-sm bg-slate-600 text-white rounded-md hover:bg-slate-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <Markdown text={comment.body} className="text-sm text-slate-200" />
+            )}
+          </div>
+        ))
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <textarea
+          value={newBody}
+          onChange={(e) => setNewBody(e.target.value)}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+          placeholder="Add a comment (markdown supported)"
+          aria-label="Add a comment"
+          className="w-full px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={!newBody.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Comment
+          </button>
+          {mentionable.length > 0 && (
+            <span className="text-xs text-slate-400">
+              Mention: {mentionable.map(username => `@${username}`).join(', ')}
+            </span>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
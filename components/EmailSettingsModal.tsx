@@ -0,0 +1,231 @@
+/**
+ * EmailSettingsModal Component
+ *
+ * Modal for the user's email address, reminder emails and the daily digest.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface EmailSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+interface EmailSettingsForm {
+  email: string;
+  reminders_enabled: boolean;
+  digest_enabled: boolean;
+  digest_hour: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+export function EmailSettingsModal({ isOpen, onClose, onSaved }: EmailSettingsModalProps) {
+  const [form, setForm] = useState<EmailSettingsForm>({
+    email: '',
+    reminders_enabled: false,
+    digest_enabled: false,
+    digest_hour: 8,
+  });
+  const [configured, setConfigured] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSettings();
+    }
+  }, [isOpen]);
+
+  async function fetchSettings() {
+    try {
+      setLoading(true);
+      setError('');
+      setMessage('');
+      const res = await fetch('/api/email/settings');
+      const data = await res.json();
+      setForm({ ...data.settings, email: data.settings.email || '' });
+      setConfigured(data.configured);
+    } catch (err) {
+      console.error('Error fetching email settings:', err);
+      setError('Failed to load email settings');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      const res = await fetch('/api/email/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, email: form.email.trim() || null }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        onSaved?.();
+        onClose();
+      } else {
+        setError(data.error || 'Failed to save email settings');
+      }
+    } catch (err) {
+      console.error('Error saving email settings:', err);
+      setError('Failed to save email settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSendTest() {
+    try {
+      setError('');
+      setMessage('');
+      const res = await fetch('/api/email/test', { method: 'POST' });
+      const data = await res.json();
+
+      if (res.ok) {
+        setMessage('Test email sent');
+      } else {
+        setError(data.error || 'Failed to send test email');
+      }
+    } catch (err) {
+      console.error('Error sending test email:', err);
+      setError('Failed to send test email');
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Email Notifications</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 text-3xl leading-none"
+              type="button"
+              aria-label="Close"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSave} className="p-6 overflow-y-auto max-h-[60vh] space-y-5">
+          {!configured && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+              Email isn&apos;t set up on this server yet, so nothing will be sent until an administrator configures SMTP.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading settings...</div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="notification-email" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email address
+                </label>
+                <input
+                  id="notification-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  placeholder="you@example.com"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              </div>
+
+              <label className="flex items-start gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.reminders_enabled}
+                  onChange={(e) => setForm({ ...form, reminders_enabled: e.target.checked })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">Reminder emails</span>
+                  <span className="block text-gray-500">Email me when a todo&apos;s reminder fires</span>
+                </span>
+              </label>
+
+              <div className="flex items-start gap-3 text-sm text-gray-700">
+                <input
+                  id="digest-enabled"
+                  type="checkbox"
+                  checked={form.digest_enabled}
+                  onChange={(e) => setForm({ ...form, digest_enabled: e.target.checked })}
+                  className="mt-1"
+                />
+                <div>
+                  <label htmlFor="digest-enabled" className="font-medium">Daily digest</label>
+                  <span className="block text-gray-500">Today&apos;s todos, overdue ones and upcoming recurring todos</span>
+                  <select
+                    value={form.digest_hour}
+                    onChange={(e) => setForm({ ...form, digest_hour: parseInt(e.target.value, 10) })}
+                    disabled={!form.digest_enabled}
+                    className="mt-2 px-2 py-1 border border-gray-300 rounded-md text-gray-900 disabled:opacity-50"
+                    aria-label="Digest time"
+                  >
+                    {HOURS.map(hour => (
+                      <option key={hour} value={hour}>{formatHour(hour)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex justify-between gap-2 pt-2">
+                <button
+                  type="button"
+                  onClick={handleSendTest}
+                  disabled={!configured}
+                  className="px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Send test email
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Priority, FilterState } from '@/lib/search';
+import { Priority, FilterState, SavedSearchOptions } from '@/lib/search';
 
 interface Tag {
   id: number;
@@ -17,11 +17,20 @@ interface Tag {
 interface FilterPanelProps {
   filters: FilterState;
   onChange: (filters: Partial<FilterState>) => void;
+  searchOptions: SavedSearchOptions;
+  onSearchOptionsChange: (options: Partial<SavedSearchOptions>) => void;
   onClear: () => void;
   hasActiveFilters: boolean;
 }
 
-export function FilterPanel({ filters, onChange, onClear, hasActiveFilters }: FilterPanelProps) {
+export function FilterPanel({
+  filters,
+  onChange,
+  searchOptions,
+  onSearchOptionsChange,
+  onClear,
+  hasActiveFilters,
+}: FilterPanelProps) {
   const [tags, setTags] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -85,9 +94,43 @@ export function FilterPanel({ filters, onChange, onClear, hasActiveFilters }: Fi
         </div>
         {filters.searchMode === 'advanced' && (
           <p className="mt-1 text-xs text-gray-500">
-            Searches in titles, tags, and subtasks
+            Searches in titles, descriptions, tags, and subtasks. Filter with{' '}
+            <code>tag:</code>, <code>-tag:</code>, <code>priority:</code>, <code>due:today</code>,{' '}
+            <code>due:&lt;7d</code>, <code>is:overdue</code>, <code>is:recurring</code>,{' '}
+            <code>has:reminder</code>; combine with <code>OR</code> and parentheses.
           </p>
         )}
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={searchOptions.caseSensitive}
+              onChange={(e) => onSearchOptionsChange({ caseSensitive: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Match case
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={searchOptions.exactMatch}
+              onChange={(e) => onSearchOptionsChange({ exactMatch: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Whole text only
+          </label>
+          {filters.searchMode === 'advanced' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={searchOptions.searchInSubtasks}
+                onChange={(e) => onSearchOptionsChange({ searchInSubtasks: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Search subtasks
+            </label>
+          )}
+        </div>
       </div>
 
       {/* Priority Filter */}
@@ -160,6 +203,18 @@ export function FilterPanel({ filters, onChange, onClear, hasActiveFilters }: Fi
         </select>
       </div>
 
+      {/* Assignee Filter */}
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={filters.assignedToMe}
+          onChange={(e) => onChange({ assignedToMe: e.target.checked })}
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          aria-label="Assigned to me"
+        />
+        👤 Assigned to me
+      </label>
+
       {/* Date Range Filter */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">Due Date Range</label>
@@ -0,0 +1,193 @@
+/**
+ * KeyboardShortcutsModal Component
+ *
+ * The shortcut cheat sheet, where each shortcut can also be rebound: click
+ * Change and press the new keys. Bindings are saved to the user's
+ * preferences, so they follow them to other browsers.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SHORTCUT_CONFIGS, ShortcutAction } from '@/lib/constants';
+import { ShortcutMap, formatShortcut, shortcutFromEvent } from '@/lib/shortcuts';
+
+interface KeyboardShortcutsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shortcuts: ShortcutMap;
+  isMac: boolean;
+  onSaved: (shortcuts: ShortcutMap) => void;
+}
+
+// Keys that always work the same way
+const FIXED_SHORTCUTS = [
+  { keys: '↑ ↓', label: 'Move through commands in the palette' },
+  { keys: 'Enter', label: 'Run the highlighted command' },
+  { keys: 'Esc', label: 'Close the palette or cancel a change' },
+  { keys: 'Shift+click', label: 'Select a range of todos in multi-select mode' },
+];
+
+export function KeyboardShortcutsModal({ isOpen, onClose, shortcuts, isMac, onSaved }: KeyboardShortcutsModalProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setRecording(null);
+      setError('');
+    }
+  }, [isOpen]);
+
+  // While recording, the next key press is the new shortcut (and nothing else sees it)
+  useEffect(() => {
+    if (!recording) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const shortcut = shortcutFromEvent(e);
+      if (shortcut) {
+        setRecording(null);
+        save({ ...shortcuts, [recording]: shortcut });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, shortcuts]);
+
+  // Shortcuts that match the defaults (or are null) aren't stored
+  async function save(next: Partial<Record<ShortcutAction, string | null>>) {
+    try {
+      setSaving(true);
+      setError('');
+      const res = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shortcuts: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save shortcuts');
+        return;
+      }
+      onSaved(data.preferences.shortcuts);
+    } catch (err) {
+      console.error('Error saving shortcuts:', err);
+      setError('Failed to save shortcuts');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!isOpen) return null;
+
+  const changed = SHORTCUT_CONFIGS.some(config => shortcuts[config.action] !== config.defaultKey);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Keyboard Shortcuts</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 text-3xl leading-none"
+              type="button"
+              aria-label="Close"
+            >
+              ×
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Single-key shortcuts act on the highlighted todo and don&apos;t apply while you&apos;re typing.
+          </p>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto max-h-[60vh] space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm" role="alert">
+              {error}
+            </div>
+          )}
+
+          <table className="w-full text-sm" aria-label="Shortcuts">
+            <tbody className="divide-y divide-gray-100">
+              {SHORTCUT_CONFIGS.map(config => {
+                const shortcut = shortcuts[config.action];
+                return (
+                  <tr key={config.action}>
+                    <td className="py-2 pr-3 text-gray-800">{config.label}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {recording === config.action ? (
+                        <span className="text-blue-600" aria-live="polite">Press keys…</span>
+                      ) : (
+                        <kbd className="px-2 py-0.5 text-xs rounded border border-gray-300 bg-gray-50 font-mono text-gray-700">
+                          {formatShortcut(shortcut, isMac)}
+                        </kbd>
+                      )}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => setRecording(recording === config.action ? null : config.action)}
+                        disabled={saving}
+                        className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded-md disabled:opacity-50"
+                        aria-label={`Change shortcut for ${config.label}`}
+                      >
+                        {recording === config.action ? 'Cancel' : 'Change'}
+                      </button>
+                      {shortcut !== config.defaultKey && (
+                        <button
+                          type="button"
+                          onClick={() => save({ ...shortcuts, [config.action]: null })}
+                          disabled={saving}
+                          className="px-2 py-1 text-gray-500 hover:bg-gray-100 rounded-md disabled:opacity-50"
+                          aria-label={`Reset shortcut for ${config.label}`}
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Always</h3>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {FIXED_SHORTCUTS.map(item => (
+                <li key={item.keys} className="flex justify-between gap-3">
+                  <span>{item.label}</span>
+                  <kbd className="px-2 py-0.5 text-xs rounded border border-gray-300 bg-gray-50 font-mono text-gray-700">
+                    {item.keys}
+                  </kbd>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {changed && (
+            <button
+              type="button"
+              onClick={() => save({})}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+            >
+              Reset all to defaults
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+/**
+ * ListsModal Component
+ *
+ * Modal for shared lists: create lists, manage members and their roles,
+ * and hand out invite links. Owners manage everything; other members can
+ * see who else is on a list and leave it.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ListInvite, ListMember, ListWithRole } from '@/lib/db';
+import { INVITE_ROLES, LIST_ROLE_CONFIGS, ListRole, MAX_LIST_NAME_LENGTH } from '@/lib/constants';
+
+interface ListsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onListsChanged?: () => void;
+}
+
+function inviteUrl(invite: ListInvite): string {
+  return `${window.location.origin}/invite/${invite.token}`;
+}
+
+export function ListsModal({ isOpen, onClose, onListsChanged }: ListsModalProps) {
+  const [lists, setLists] = useState<ListWithRole[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [members, setMembers] = useState<ListMember[]>([]);
+  const [invites, setInvites] = useState<ListInvite[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renameValue, setRenameValue] = useState('');
+  const [inviteRole, setInviteRole] = useState<ListRole>('editor');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const selected = lists.find(list => list.id === selectedId) || null;
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchLists();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && selectedId !== null) {
+      fetchListDetails(selectedId);
+    }
+  }, [isOpen, selectedId]);
+
+  async function fetchLists() {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/lists');
+      const data = await res.json();
+      setLists(data.lists || []);
+    } catch (err) {
+      console.error('Error fetching lists:', err);
+      setError('Failed to load lists');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchListDetails(id: number) {
+    try {
+      const res = await fetch(`/api/lists/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load list');
+        return;
+      }
+      setMembers(data.members);
+      setInvites(data.invites);
+      setCurrentUserId(data.current_user_id);
+      setRenameValue(data.list.name);
+    } catch (err) {
+      console.error('Error fetching list:', err);
+      setError('Failed to load list');
+    }
+  }
+
+  // Send a list request; returns the response data, or null after showing the error
+  async function send(url: string, init: RequestInit, fallbackError: string): Promise<any | null> {
+    try {
+      setError('');
+      const res = await fetch(url, {
+        ...init,
+        headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || fallbackError);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error(`${fallbackError}:`, err);
+      setError(fallbackError);
+      return null;
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await send('/api/lists', {
+      method: 'POST',
+      body: JSON.stringify({ name: newName }),
+    }, 'Failed to create list');
+
+    if (data) {
+      setNewName('');
+      await fetchLists();
+      setSelectedId(data.list.id);
+      onListsChanged?.();
+    }
+  }
+
+  async function handleRename() {
+    if (!selected) return;
+    const data = await send(`/api/lists/${selected.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name: renameValue }),
+    }, 'Failed to rename list');
+
+    if (data) {
+      await fetchLists();
+      onListsChanged?.();
+    }
+  }
+
+  async function handleDelete() {
+    if (!selected) return;
+    if (!confirm(`Delete "${selected.name}" and all of its todos for every member?`)) return;
+
+    const data = await send(`/api/lists/${selected.id}`, { method: 'DELETE' }, 'Failed to delete list');
+    if (data) {
+      setSelectedId(null);
+      await fetchLists();
+      onListsChanged?.();
+    }
+  }
+
+  async function handleRoleChange(member: ListMember, role: ListRole) {
+    if (!selected) return;
+    const data = await send(`/api/lists/${selected.id}/members/${member.user_id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    }, 'Failed to change role');
+
+    if (data) {
+      setMembers(data.members);
+    }
+  }
+
+  async function handleRemoveMember(member: ListMember) {
+    if (!selected) return;
+    const leaving = selected.role !== 'owner';
+    if (leaving && !confirm(`Leave "${selected.name}"? You'll need a new invite to rejoin.`)) return;
+
+    const data = await send(`/api/lists/${selected.id}/members/${member.user_id}`, { method: 'DELETE' },
+      leaving ? 'Failed to leave list' : 'Failed to remove member');
+
+    if (data) {
+      if (leaving) {
+        setSelectedId(null);
+        await fetchLists();
+      } else {
+        await fetchListDetails(selected.id);
+        await fetchLists();
+      }
+      onListsChanged?.();
+    }
+  }
+
+  async function handleCreateInvite() {
+    if (!selected) return;
+    const data = await send(`/api/lists/${selected.id}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ role: inviteRole }),
+    }, 'Failed to create invite');
+
+    if (data) {
+      setInvites(prev => [data.invite, ...prev]);
+    }
+  }
+
+  async function handleRevokeInvite(invite: ListInvite) {
+    if (!selected) return;
+    const data = await send(`/api/lists/${selected.id}/invites/${invite.id}`, { method: 'DELETE' }, 'Failed to revoke invite');
+    if (data) {
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    }
+  }
+
+  async function handleCopy(invite: ListInvite) {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+    } catch {
+      // Clipboard access can be blocked; the link is selectable in the field
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Shared Lists</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 text-3xl leading-none"
+              type="button"
+              aria-label="Close"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto max-h-[60vh] space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New list name"
+              aria-label="New list name"
+              maxLength={MAX_LIST_NAME_LENGTH}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              Create List
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading lists...</div>
+          ) : lists.length === 0 ? (
+            <p className="text-center py-4 text-gray-500 text-sm">
+              No shared lists yet. Create one, then invite people with a link.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {lists.map(list => (
+                <li key={list.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(list.id === selectedId ? null : list.id)}
+                    className={`w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 ${
+                      list.id === selectedId ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <span className="font-medium text-gray-900">{list.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {LIST_ROLE_CONFIGS[list.role].label} · {list.member_count} member{list.member_count !== 1 ? 's' : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="space-y-5 border-t border-gray-200 pt-5">
+              {selected.role === 'owner' && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    aria-label="List name"
+                    maxLength={MAX_LIST_NAME_LENGTH}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleRename}
+                    disabled={!renameValue.trim() || renameValue.trim() === selected.name}
+                    className="px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Rename
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Members</h3>
+                <ul className="space-y-2">
+                  {members.map(member => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-gray-900">
+                        {member.display_name || member.username}
+                        <span className="ml-2 text-gray-500">@{member.username}</span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {selected.role === 'owner' && member.role !== 'owner' ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as ListRole)}
+                            aria-label={`Role for ${member.username}`}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                          >
+                            {INVITE_ROLES.map(role => (
+                              <option key={role} value={role}>{LIST_ROLE_CONFIGS[role].label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-500">{LIST_ROLE_CONFIGS[member.role].label}</span>
+                        )}
+                        {selected.role === 'owner' && member.role !== 'owner' && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMember(member)}
+                            className="px-2 py-1 text-red-600 hover:bg-red-50 rounded-md"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {selected.role === 'owner' ? (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Invite links</h3>
+                  <div className="flex gap-2 items-center">
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as ListRole)}
+                      aria-label="Invite role"
+                      className="px-2 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                    >
+                      {INVITE_ROLES.map(role => (
+                        <option key={role} value={role}>{LIST_ROLE_CONFIGS[role].label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleCreateInvite}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                    >
+                      Create Invite Link
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {LIST_ROLE_CONFIGS[inviteRole].description}. Each link works once and expires after a week.
+                  </p>
+                  <ul className="mt-3 space-y-2">
+                    {invites.map(invite => (
+                      <li key={invite.id} className="flex items-center gap-2 text-sm">
+                        <span className="w-14 text-gray-500">{LIST_ROLE_CONFIGS[invite.role].label}</span>
+                        <input
+                          type="text"
+                          readOnly
+                          value={inviteUrl(invite)}
+                          onFocus={(e) => e.target.select()}
+                          aria-label="Invite link"
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-gray-700 bg-gray-50"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleCopy(invite)}
+                          className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded-md"
+                        >
+                          Copy
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRevokeInvite(invite)}
+                          className="px-2 py-1 text-red-600 hover:bg-red-50 rounded-md"
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              <div className="flex justify-end pt-2">
+                {selected.role === 'owner' ? (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    Delete List
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const me = members.find(m => m.user_id === currentUserId);
+                      if (me) handleRemoveMember(me);
+                    }}
+                    className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    Leave List
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
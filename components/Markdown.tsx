@@ -0,0 +1,127 @@
+/**
+ * Markdown Component
+ *
+ * Renders the markdown subset parsed by lib/markdown.ts as React elements
+ * (never raw HTML). @mentions are highlighted; links open in a new tab.
+ * Checklist items can be ticked when onToggleTask is given.
+ */
+
+import { Fragment, ReactNode } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  /** Called with the checklist item's index (see toggleTaskItem); read-only without it */
+  onToggleTask?: (index: number) => void;
+}
+
+interface RenderContext {
+  taskIndex: number;                  // Next checklist item's index, in document order
+  onToggleTask?: (index: number) => void;
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-slate-900/60 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-400 hover:underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'mention':
+        return (
+          <span key={index} className="text-blue-300 font-medium">
+            @{node.username}
+          </span>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], context: RenderContext): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const sizes = { 1: 'text-lg', 2: 'text-base', 3: 'text-sm' };
+        return (
+          <p key={index} className={`${sizes[block.level]} font-semibold`} role="heading" aria-level={block.level}>
+            {renderInline(block.children)}
+          </p>
+        );
+      }
+      case 'code_block':
+        return (
+          <pre key={index} className="p-2 rounded bg-slate-900/60 font-mono text-xs overflow-x-auto">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-2 border-slate-500 text-slate-400 space-y-1">
+            {renderBlocks(block.children, context)}
+          </blockquote>
+        );
+      case 'list': {
+        const isChecklist = block.items.every(item => item.checked !== null);
+        const items = block.items.map((item, itemIndex) => {
+          if (item.checked === null) {
+            return <li key={itemIndex}>{renderInline(item.children)}</li>;
+          }
+          const taskIndex = context.taskIndex++;
+          const { onToggleTask } = context;
+          return (
+            <li key={itemIndex} className={isChecklist ? 'flex items-start gap-2' : ''}>
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!onToggleTask}
+                onChange={() => onToggleTask?.(taskIndex)}
+                className="mt-1 w-3.5 h-3.5 rounded cursor-pointer disabled:cursor-default"
+                aria-label={`Checklist item ${taskIndex + 1}`}
+              />
+              <span className={item.checked ? 'line-through text-slate-500' : ''}>{renderInline(item.children)}</span>
+            </li>
+          );
+        });
+        if (block.ordered) return <ol key={index} className="list-decimal pl-5">{items}</ol>;
+        return <ul key={index} className={isChecklist ? 'space-y-1' : 'list-disc pl-5'}>{items}</ul>;
+      }
+      case 'rule':
+        return <hr key={index} className="border-slate-600" />;
+    }
+  });
+}
+
+export function Markdown({ text, className = '', onToggleTask }: MarkdownProps) {
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {renderBlocks(parseMarkdown(text), { taskIndex: 0, onToggleTask })}
+    </div>
+  );
+}
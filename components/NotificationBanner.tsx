@@ -37,7 +37,7 @@ export function NotificationBanner() {
           <div>
             <p className="font-semibold">Enable notifications?</p>
             <p className="text-sm text-blue-100">
-              Get reminded about upcoming todos
+              Get reminded about upcoming todos, even when the app is closed
             </p>
           </div>
         </div>
@@ -0,0 +1,62 @@
+/**
+ * QuickAddPreview Component
+ *
+ * Shows what quick add understood in the new todo's title as you type: the
+ * due date, recurrence, priority, tags and reminders it will set, and the
+ * title that's left.
+ */
+
+import { PRIORITY_CONFIGS } from '@/lib/constants';
+import { QuickAddResult } from '@/lib/quickAdd';
+import { formatReminderOffset } from '@/lib/reminders';
+import { describeRRule, parseRRule } from '@/lib/rrule';
+import { DEFAULT_TIMEZONE, toUTC } from '@/lib/timezone';
+
+interface QuickAddPreviewProps {
+  result: QuickAddResult;
+  timeZone?: string;
+}
+
+const chipClass = 'px-2 py-0.5 rounded-full text-xs font-medium';
+
+export function QuickAddPreview({ result, timeZone = DEFAULT_TIMEZONE }: QuickAddPreviewProps) {
+  if (result.matched.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm" aria-label="Quick add preview" aria-live="polite">
+      <span className="text-slate-300">
+        {result.title ? <span className="text-white">{result.title}</span> : <em className="text-red-400">No title</em>}
+      </span>
+      {result.due_date && (
+        <span className={`${chipClass} bg-blue-500/20 text-blue-200`}>
+          📅 {new Date(toUTC(result.due_date, timeZone)).toLocaleString('en-SG', {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            timeZone,
+          })}
+        </span>
+      )}
+      {result.recurrence_rule && (
+        <span className={`${chipClass} bg-purple-500/20 text-purple-200`}>
+          🔄 {describeRRule(parseRRule(result.recurrence_rule))}
+        </span>
+      )}
+      {result.priority && (
+        <span className={`${chipClass} bg-slate-600 text-white`}>
+          {PRIORITY_CONFIGS[result.priority].label} priority
+        </span>
+      )}
+      {result.tags.map(tag => (
+        <span key={tag} className={`${chipClass} bg-emerald-500/20 text-emerald-200`}>#{tag}</span>
+      ))}
+      {result.reminders.map(minutes => (
+        <span key={minutes} className={`${chipClass} bg-amber-500/20 text-amber-200`}>
+          🔔 {formatReminderOffset(minutes)} before
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,19 +1,33 @@
 import { RecurrencePattern } from '@/lib/db';
 import { RECURRENCE_CONFIGS } from '@/lib/constants';
+import { describeRRule, parseRRule } from '@/lib/rrule';
 
 interface RecurrenceBadgeProps {
   pattern: RecurrencePattern | null;
+  rule?: string | null;
 }
 
-export function RecurrenceBadge({ pattern }: RecurrenceBadgeProps) {
+function describeRule(rule: string): string | null {
+  try {
+    return describeRRule(parseRRule(rule));
+  } catch {
+    return null;
+  }
+}
+
+export function RecurrenceBadge({ pattern, rule }: RecurrenceBadgeProps) {
   if (!pattern) return null;
 
   const config = RECURRENCE_CONFIGS[pattern];
+  const label = (rule && describeRule(rule)) || config.label;
 
   return (
-    <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium bg-purple-100 text-purple-800 rounded-full border border-purple-300">
+    <span
+      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium bg-purple-100 text-purple-800 rounded-full border border-purple-300"
+      title={rule ?? undefined}
+    >
       <span>{config.icon}</span>
-      <span>{config.label}</span>
+      <span>{label}</span>
     </span>
   );
 }
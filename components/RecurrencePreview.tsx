@@ -1,17 +1,20 @@
 import { RecurrencePattern } from '@/lib/db';
 import { calculateNextOccurrences } from '@/lib/recurrence';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
 
 interface RecurrencePreviewProps {
   dueDate: string;
   pattern: RecurrencePattern | null;
+  rule?: string | null;
+  timeZone?: string;
 }
 
-export function RecurrencePreview({ dueDate, pattern }: RecurrencePreviewProps) {
+export function RecurrencePreview({ dueDate, pattern, rule, timeZone = DEFAULT_TIMEZONE }: RecurrencePreviewProps) {
   if (!pattern || !dueDate) return null;
 
   let occurrences: string[] = [];
   try {
-    occurrences = calculateNextOccurrences(dueDate, pattern, 5);
+    occurrences = calculateNextOccurrences(dueDate, pattern, 5, rule, timeZone);
   } catch (error) {
     return null;
   }
@@ -19,7 +22,7 @@ export function RecurrencePreview({ dueDate, pattern }: RecurrencePreviewProps)
   return (
     <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
       <h4 className="text-sm font-semibold text-blue-900 mb-2">
-        Next 5 occurrences:
+        Next {occurrences.length} occurrences:
       </h4>
       <ul className="space-y-1 text-sm text-blue-800">
         {occurrences.map((date, index) => (
@@ -27,11 +30,14 @@ export function RecurrencePreview({ dueDate, pattern }: RecurrencePreviewProps)
             {index + 1}. {new Date(date).toLocaleString('en-SG', {
               dateStyle: 'medium',
               timeStyle: 'short',
-              timeZone: 'Asia/Singapore',
+              timeZone,
             })}
           </li>
         ))}
       </ul>
+      {occurrences.length < 5 && (
+        <p className="mt-2 text-xs text-blue-700">The series ends here.</p>
+      )}
     </div>
   );
 }
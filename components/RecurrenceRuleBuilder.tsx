@@ -0,0 +1,263 @@
+'use client';
+
+/**
+ * Recurrence Rule Builder Component
+ * Form for building a custom RRULE (interval, weekdays, monthly mode, end condition)
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  RRule,
+  RRuleFrequency,
+  RRuleWeekday,
+  RRULE_WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRRule,
+  formatRRule,
+  parseRRule,
+} from '@/lib/rrule';
+
+interface RecurrenceRuleBuilderProps {
+  rule: string;
+  onChange: (rule: string) => void;
+  dueDate?: string;
+}
+
+type MonthlyMode = 'same-day' | 'nth-weekday' | 'last-day' | 'last-weekday';
+type EndMode = 'never' | 'until' | 'count';
+
+const WORKWEEK: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const UNIT_LABELS: Record<RRuleFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+  YEARLY: 'year(s)',
+};
+
+const inputClass =
+  'px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+/**
+ * Weekday and its position in the month (1-4, or -1 for the last one) of a due date
+ */
+function getDueDateWeekday(dueDate?: string): { weekday: RRuleWeekday; ordinal: number } | null {
+  const match = dueDate && /^(\d{4})-(\d{2})-(\d{2})/.exec(dueDate);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  const weekday = RRULE_WEEKDAYS[(date.getUTCDay() + 6) % 7];
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const day = date.getUTCDate();
+  const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return { weekday, ordinal };
+}
+
+function getMonthlyMode(rule: RRule): MonthlyMode {
+  if (rule.byMonthDay?.length === 1 && rule.byMonthDay[0] === -1) return 'last-day';
+  if (rule.bySetPos?.[0] === -1 && rule.byDay?.length === 5) return 'last-weekday';
+  if (rule.byDay?.length === 1 && rule.byDay[0].ordinal !== undefined) return 'nth-weekday';
+  return 'same-day';
+}
+
+export function RecurrenceRuleBuilder({ rule, onChange, dueDate }: RecurrenceRuleBuilderProps) {
+  const [rawRule, setRawRule] = useState(rule);
+  const [rawError, setRawError] = useState('');
+
+  useEffect(() => {
+    setRawRule(rule);
+    setRawError('');
+  }, [rule]);
+
+  let parsed: RRule;
+  try {
+    parsed = parseRRule(rule);
+  } catch {
+    parsed = { freq: 'WEEKLY', interval: 1 };
+  }
+
+  const dueWeekday = getDueDateWeekday(dueDate);
+  const monthlyMode = getMonthlyMode(parsed);
+  const endMode: EndMode = parsed.count !== undefined ? 'count' : parsed.until ? 'until' : 'never';
+
+  function update(changes: Partial<RRule>) {
+    onChange(formatRRule({ ...parsed, ...changes }));
+  }
+
+  function changeFrequency(freq: RRuleFrequency) {
+    // Day/month selections don't carry over between frequencies
+    onChange(formatRRule({ freq, interval: parsed.interval, count: parsed.count, until: parsed.until }));
+  }
+
+  function toggleWeekday(weekday: RRuleWeekday) {
+    const current = parsed.byDay?.map(d => d.weekday) ?? [];
+    const next = current.includes(weekday)
+      ? current.filter(d => d !== weekday)
+      : [...current, weekday];
+    const ordered = RRULE_WEEKDAYS.filter(d => next.includes(d));
+    update({ byDay: ordered.length ? ordered.map(d => ({ weekday: d })) : undefined });
+  }
+
+  function changeMonthlyMode(mode: MonthlyMode) {
+    const base = { byDay: undefined, byMonthDay: undefined, bySetPos: undefined };
+    switch (mode) {
+      case 'same-day':
+        update(base);
+        break;
+      case 'nth-weekday':
+        update({ ...base, byDay: [dueWeekday ?? { weekday: 'MO', ordinal: 1 }] });
+        break;
+      case 'last-day':
+        update({ ...base, byMonthDay: [-1] });
+        break;
+      case 'last-weekday':
+        update({ ...base, byDay: WORKWEEK.map(d => ({ weekday: d })), bySetPos: [-1] });
+        break;
+    }
+  }
+
+  function changeEndMode(mode: EndMode) {
+    if (mode === 'never') {
+      update({ count: undefined, until: undefined });
+    } else if (mode === 'count') {
+      update({ count: parsed.count ?? 10, until: undefined });
+    } else {
+      const fallback = (dueDate?.slice(0, 10) || new Date().toISOString().slice(0, 10)).replace(/-/g, '');
+      update({ count: undefined, until: parsed.until ?? fallback });
+    }
+  }
+
+  function applyRawRule() {
+    try {
+      onChange(formatRRule(parseRRule(rawRule)));
+      setRawError('');
+    } catch (error: any) {
+      setRawError(error.message);
+    }
+  }
+
+  const untilValue = parsed.until
+    ? `${parsed.until.slice(0, 4)}-${parsed.until.slice(4, 6)}-${parsed.until.slice(6, 8)}`
+    : '';
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg" data-testid="recurrence-rule-builder">
+      <div className="flex items-center gap-2 flex-wrap text-sm text-slate-300">
+        <span>Every</span>
+        <input
+          type="number"
+          min={1}
+          max={1000}
+          value={parsed.interval}
+          onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+          className={`${inputClass} w-20`}
+          aria-label="Repeat interval"
+        />
+        <select
+          value={parsed.freq}
+          onChange={(e) => changeFrequency(e.target.value as RRuleFrequency)}
+          className={inputClass}
+          aria-label="Repeat frequency"
+        >
+          {(Object.keys(UNIT_LABELS) as RRuleFrequency[]).map(freq => (
+            <option key={freq} value={freq}>{UNIT_LABELS[freq]}</option>
+          ))}
+        </select>
+      </div>
+
+      {parsed.freq === 'WEEKLY' && (
+        <div className="flex gap-1 flex-wrap" role="group" aria-label="Repeat on">
+          {RRULE_WEEKDAYS.map(weekday => {
+            const selected = parsed.byDay?.some(d => d.weekday === weekday) ?? false;
+            return (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                aria-pressed={selected}
+                className={`px-3 py-1 text-sm rounded-full border ${
+                  selected
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600/50'
+                }`}
+              >
+                {WEEKDAY_LABELS[weekday]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {parsed.freq === 'MONTHLY' && (
+        <select
+          value={monthlyMode}
+          onChange={(e) => changeMonthlyMode(e.target.value as MonthlyMode)}
+          className={`${inputClass} w-full`}
+          aria-label="Monthly repeat mode"
+        >
+          <option value="same-day">On the same day of the month</option>
+          {dueWeekday && (
+            <option value="nth-weekday">
+              On the {dueWeekday.ordinal === -1 ? 'last' : ['first', 'second', 'third', 'fourth'][dueWeekday.ordinal - 1]}{' '}
+              {WEEKDAY_LABELS[dueWeekday.weekday]}
+            </option>
+          )}
+          <option value="last-day">On the last day of the month</option>
+          <option value="last-weekday">On the last weekday of the month</option>
+        </select>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap text-sm text-slate-300">
+        <span>Ends</span>
+        <select
+          value={endMode}
+          onChange={(e) => changeEndMode(e.target.value as EndMode)}
+          className={inputClass}
+          aria-label="Repeat ends"
+        >
+          <option value="never">Never</option>
+          <option value="until">On date</option>
+          <option value="count">After</option>
+        </select>
+        {endMode === 'until' && (
+          <input
+            type="date"
+            value={untilValue}
+            onChange={(e) => e.target.value && update({ until: e.target.value.replace(/-/g, '') })}
+            className={inputClass}
+            aria-label="Repeat until"
+          />
+        )}
+        {endMode === 'count' && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={parsed.count}
+              onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+              className={`${inputClass} w-20`}
+              aria-label="Number of occurrences"
+            />
+            <span>occurrences</span>
+          </>
+        )}
+      </div>
+
+      <p className="text-sm text-purple-300">🔁 {describeRRule(parsed)}</p>
+
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">RRULE</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={rawRule}
+            onChange={(e) => setRawRule(e.target.value)}
+            onBlur={applyRawRule}
+            className={`${inputClass} flex-1 font-mono text-xs`}
+            aria-label="RRULE"
+          />
+        </div>
+        {rawError && <p className="mt-1 text-xs text-red-400">{rawError}</p>}
+      </div>
+    </div>
+  );
+}
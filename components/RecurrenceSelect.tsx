@@ -1,22 +1,47 @@
 import { RecurrencePattern } from '@/lib/db';
 import { RECURRENCE_CONFIGS } from '@/lib/constants';
+import { parseRRule, rruleToPattern } from '@/lib/rrule';
+import { RecurrenceRuleBuilder } from './RecurrenceRuleBuilder';
+
+const DEFAULT_CUSTOM_RULE = 'FREQ=WEEKLY';
 
 interface RecurrenceSelectProps {
   value: RecurrencePattern | null;
   onChange: (pattern: RecurrencePattern | null) => void;
+  rule?: string | null;
+  onRuleChange?: (rule: string | null) => void;
+  dueDate?: string;
   className?: string;
 }
 
-export function RecurrenceSelect({ value, onChange, className = '' }: RecurrenceSelectProps) {
+export function RecurrenceSelect({
+  value,
+  onChange,
+  rule,
+  onRuleChange,
+  dueDate,
+  className = '',
+}: RecurrenceSelectProps) {
+  function handleRuleChange(nextRule: string) {
+    onRuleChange?.(nextRule);
+    // Keep the simple pattern in sync so badges and filters still work
+    onChange(rruleToPattern(parseRRule(nextRule)));
+  }
+
   return (
     <div className="space-y-2">
       <label className="block text-sm font-medium text-slate-300">
         Repeat
       </label>
       <select
-        value={value || 'none'}
+        value={rule ? 'custom' : value || 'none'}
         onChange={(e) => {
           const val = e.target.value;
+          if (val === 'custom') {
+            handleRuleChange(DEFAULT_CUSTOM_RULE);
+            return;
+          }
+          onRuleChange?.(null);
           onChange(val === 'none' ? null : val as RecurrencePattern);
         }}
         className={`w-full px-4 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none ${className}`}
@@ -27,7 +52,13 @@ export function RecurrenceSelect({ value, onChange, className = '' }: Recurrence
             {config.icon} {config.label} - {config.description}
           </option>
         ))}
+        {onRuleChange && (
+          <option value="custom">🛠️ Custom... - Choose interval, days and end</option>
+        )}
       </select>
+      {rule && onRuleChange && (
+        <RecurrenceRuleBuilder rule={rule} onChange={handleRuleChange} dueDate={dueDate} />
+      )}
     </div>
   );
 }
@@ -1,19 +1,39 @@
-import { REMINDER_OPTIONS } from '@/lib/constants';
+import type { TodoReminder } from '@/lib/db';
+import { formatReminderOffset } from '@/lib/reminders';
+import { formatInZone } from '@/lib/timezone';
 
 interface ReminderBadgeProps {
-  minutes: number | null;
+  reminders?: TodoReminder[];
+  timeZone: string;
 }
 
-export function ReminderBadge({ minutes }: ReminderBadgeProps) {
-  if (!minutes) return null;
+export function ReminderBadge({ reminders, timeZone }: ReminderBadgeProps) {
+  if (!reminders || reminders.length === 0) return null;
 
-  const option = REMINDER_OPTIONS.find(opt => opt.value === minutes);
-  if (!option) return null;
+  const now = Date.now();
 
   return (
-    <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full border border-blue-300">
-      <span>🔔</span>
-      <span>{option.description}</span>
-    </span>
+    <>
+      {reminders.map(reminder => {
+        // A snooze that hasn't fired yet replaces the usual label
+        const snoozed = reminder.snoozed_until && new Date(reminder.snoozed_until).getTime() > now;
+        const label = snoozed
+          ? `💤 ${formatInZone(reminder.snoozed_until!, timeZone, 'h:mm a')}`
+          : reminder.remind_at
+            ? formatInZone(reminder.remind_at, timeZone, 'd MMM, h:mm a')
+            : formatReminderOffset(reminder.offset_minutes ?? 0);
+
+        return (
+          <span
+            key={reminder.id}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full border border-blue-300"
+            title={snoozed ? 'Snoozed reminder' : reminder.remind_at ? 'Reminder' : 'Reminder before due date'}
+          >
+            <span>🔔</span>
+            <span>{label}</span>
+          </span>
+        );
+      })}
+    </>
   );
 }
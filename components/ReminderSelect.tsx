@@ -1,32 +1,173 @@
-import { REMINDER_OPTIONS } from '@/lib/constants';
+import { useState } from 'react';
+import { MAX_REMINDERS_PER_TODO, REMINDER_OPTIONS } from '@/lib/constants';
+import type { ReminderInput } from '@/lib/db';
+import { toDateTimeLocal } from '@/lib/timezone';
 
 interface ReminderSelectProps {
-  value: number | null;
-  onChange: (minutes: number | null) => void;
+  value: ReminderInput[];
+  onChange: (reminders: ReminderInput[]) => void;
+  /** Due date from the form (datetime-local), used as the default for "at a specific time" */
+  dueDate?: string;
+  timeZone: string;
   className?: string;
 }
 
-export function ReminderSelect({ value, onChange, className = '' }: ReminderSelectProps) {
+const UNITS = [
+  { minutes: 10080, label: 'weeks' },
+  { minutes: 1440, label: 'days' },
+  { minutes: 60, label: 'hours' },
+  { minutes: 1, label: 'minutes' },
+];
+
+const isPreset = (minutes?: number | null) =>
+  REMINDER_OPTIONS.some(opt => opt.value !== null && opt.value === minutes);
+
+/**
+ * Largest unit that divides an offset evenly, e.g. 2880 -> 2 days
+ */
+function splitOffset(minutes: number): { amount: number; unit: number } {
+  const unit = UNITS.find(u => minutes % u.minutes === 0)!.minutes;
+  return { amount: minutes / unit, unit };
+}
+
+interface ReminderRowProps {
+  index: number;
+  reminder: ReminderInput | null;
+  onChange: (reminder: ReminderInput | null) => void;
+  dueDate?: string;
+  timeZone: string;
+  className: string;
+}
+
+function ReminderRow({ index, reminder, onChange, dueDate, timeZone, className }: ReminderRowProps) {
+  const [customMode, setCustomMode] = useState(false);
+
+  const offset = reminder?.offset_minutes ?? null;
+  const isCustom = offset !== null && (customMode || !isPreset(offset));
+  const selectValue = !reminder
+    ? 'none'
+    : reminder.remind_at !== undefined && reminder.remind_at !== null
+      ? 'at'
+      : isCustom ? 'custom' : String(offset);
+
+  function handleSelect(val: string) {
+    setCustomMode(val === 'custom');
+    if (val === 'none') {
+      onChange(null);
+    } else if (val === 'at') {
+      onChange({ remind_at: dueDate || toDateTimeLocal(new Date(Date.now() + 60 * 60 * 1000), timeZone) });
+    } else if (val === 'custom') {
+      onChange({ offset_minutes: offset ?? 45 });
+    } else {
+      onChange({ offset_minutes: Number(val) });
+    }
+  }
+
+  const inputClass = 'px-3 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none';
+  const { amount, unit } = splitOffset(offset ?? 45);
+
   return (
-    <div className="space-y-2">
-      <label className="block text-sm font-medium text-slate-300">
-        Reminder
-      </label>
+    <div className="flex flex-wrap gap-2 items-center">
       <select
-        value={value ?? 'none'}
-        onChange={(e) => {
-          const val = e.target.value;
-          onChange(val === 'none' ? null : Number(val));
-        }}
-        className={`w-full px-4 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none ${className}`}
-        aria-label="Reminder"
+        value={selectValue}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={`flex-1 min-w-[12rem] px-4 py-2 bg-slate-700/50 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none ${className}`}
+        aria-label={index === 0 ? 'Reminder' : `Reminder ${index + 1}`}
       >
         {REMINDER_OPTIONS.map((option) => (
           <option key={option.value ?? 'none'} value={option.value ?? 'none'}>
             {option.label}
           </option>
         ))}
+        <option value="custom">Custom…</option>
+        <option value="at">At a specific time…</option>
       </select>
+
+      {selectValue === 'custom' && (
+        <>
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => {
+              const next = parseInt(e.target.value, 10);
+              if (next > 0) onChange({ offset_minutes: next * unit });
+            }}
+            className={`w-20 ${inputClass}`}
+            aria-label="Custom reminder amount"
+          />
+          <select
+            value={unit}
+            onChange={(e) => onChange({ offset_minutes: amount * Number(e.target.value) })}
+            className={inputClass}
+            aria-label="Custom reminder unit"
+          >
+            {UNITS.map(u => (
+              <option key={u.minutes} value={u.minutes}>{u.label}</option>
+            ))}
+          </select>
+          <span className="text-sm text-slate-400">before</span>
+        </>
+      )}
+
+      {selectValue === 'at' && (
+        <input
+          type="datetime-local"
+          value={reminder?.remind_at ? toDateTimeLocal(reminder.remind_at, timeZone) : ''}
+          onChange={(e) => onChange({ remind_at: e.target.value })}
+          className={inputClass}
+          aria-label="Reminder time"
+        />
+      )}
+    </div>
+  );
+}
+
+export function ReminderSelect({ value, onChange, dueDate, timeZone, className = '' }: ReminderSelectProps) {
+  // An empty list still shows one select, set to "No reminder"
+  const rows: (ReminderInput | null)[] = value.length > 0 ? value : [null];
+
+  function updateRow(index: number, reminder: ReminderInput | null) {
+    const next = [...value];
+    if (reminder) {
+      next[index] = reminder;
+    } else {
+      next.splice(index, 1);
+    }
+    onChange(next);
+  }
+
+  function addReminder() {
+    const used = new Set(value.map(r => r.offset_minutes));
+    const preset = REMINDER_OPTIONS.find(opt => opt.value !== null && !used.has(opt.value));
+    onChange([...value, { offset_minutes: preset?.value ?? 15 }]);
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-slate-300">
+        Reminders
+      </label>
+      {rows.map((reminder, index) => (
+        <ReminderRow
+          key={index}
+          index={index}
+          reminder={reminder}
+          onChange={(next) => updateRow(index, next)}
+          dueDate={dueDate}
+          timeZone={timeZone}
+          className={className}
+        />
+      ))}
+      {value.length > 0 && value.length < MAX_REMINDERS_PER_TODO && (
+        <button
+          type="button"
+          onClick={addReminder}
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          + Add another reminder
+        </button>
+      )}
     </div>
   );
 }
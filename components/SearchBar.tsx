@@ -1,6 +1,7 @@
 /**
  * SearchBar Component
- * Real-time search input with debouncing
+ * Real-time search input with debouncing, and the query's syntax error (if
+ * any) underneath
  */
 
 'use client';
@@ -12,12 +13,14 @@ interface SearchBarProps {
   onSearch: (term: string) => void;
   placeholder?: string;
   initialValue?: string;
+  error?: string | null;
 }
 
 export function SearchBar({
   onSearch,
   placeholder = 'Search todos, tags, and subtasks...',
   initialValue = '',
+  error = null,
 }: SearchBarProps) {
   const [searchTerm, setSearchTerm] = useState(initialValue);
   const debouncedSearch = useDebounce(searchTerm, 300);
@@ -27,30 +30,39 @@ export function SearchBar({
   }, [debouncedSearch, onSearch]);
 
   return (
-    <div className="relative">
-      <input
-        type="text"
-        value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
-        placeholder={placeholder}
-        className="w-full px-4 py-2 pl-10 text-base bg-slate-700/50 border border-slate-600 text-white placeholder-slate-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-        aria-label="Search todos"
-      />
-      <span
-        className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg"
-        aria-hidden="true"
-      >
-        🔍
-      </span>
-      {searchTerm && (
-        <button
-          onClick={() => setSearchTerm('')}
-          className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200 transition-colors text-xl font-bold leading-none"
-          aria-label="Clear search"
-          title="Clear search"
+    <div>
+      <div className="relative">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder={placeholder}
+          className="w-full px-4 py-2 pl-10 text-base bg-slate-700/50 border border-slate-600 text-white placeholder-slate-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          aria-label="Search todos"
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? 'search-error' : undefined}
+        />
+        <span
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg"
+          aria-hidden="true"
         >
-          ✕
-        </button>
+          🔍
+        </span>
+        {searchTerm && (
+          <button
+            onClick={() => setSearchTerm('')}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200 transition-colors text-xl font-bold leading-none"
+            aria-label="Clear search"
+            title="Clear search"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {error && (
+        <p id="search-error" role="alert" className="mt-2 text-sm text-red-400">
+          {error}
+        </p>
       )}
     </div>
   );
@@ -0,0 +1,260 @@
+/**
+ * SmartListSidebar Component
+ *
+ * Saved searches: named sets of filters and search options with the number
+ * of todos each matches. Selecting one applies its filters; each has a link
+ * (the same URL query parameters the page keeps in sync) for bookmarking
+ * and sharing.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SmartList } from '@/lib/db';
+import { MAX_SMART_LIST_NAME_LENGTH } from '@/lib/constants';
+import { FilterState, SavedSearchOptions, filtersToSearchParams } from '@/lib/search';
+
+interface SmartListSidebarProps {
+  filters: FilterState;
+  searchOptions: SavedSearchOptions;
+  onApply: (filters: FilterState, searchOptions: SavedSearchOptions) => void;
+  canSave: boolean;
+  refreshKey: unknown; // Counts are refetched whenever this changes (e.g. the todos)
+}
+
+interface SmartListItem extends SmartList {
+  count: number;
+}
+
+function smartListQuery(filters: FilterState, searchOptions: SavedSearchOptions): string {
+  return filtersToSearchParams(filters, searchOptions).toString();
+}
+
+function smartListUrl(smartList: SmartList): string {
+  return `${window.location.origin}/?${smartListQuery(smartList.filters, smartList.search_options)}`;
+}
+
+export function SmartListSidebar({ filters, searchOptions, onApply, canSave, refreshKey }: SmartListSidebarProps) {
+  const [smartLists, setSmartLists] = useState<SmartListItem[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  // Filters that match a smart list's select it
+  const currentQuery = smartListQuery(filters, searchOptions);
+
+  useEffect(() => {
+    fetchSmartLists();
+  }, [refreshKey]);
+
+  async function fetchSmartLists() {
+    try {
+      const res = await fetch('/api/smart-lists');
+      if (!res.ok) return;
+      const data = await res.json();
+      setSmartLists(data.smart_lists || []);
+    } catch (err) {
+      console.error('Error fetching smart lists:', err);
+    }
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      setError('');
+      const res = await fetch('/api/smart-lists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName, filters, search_options: searchOptions }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save smart list');
+        return;
+      }
+      setNewName('');
+      setSaving(false);
+      await fetchSmartLists();
+    } catch (err) {
+      console.error('Error saving smart list:', err);
+      setError('Failed to save smart list');
+    }
+  }
+
+  async function handleMove(smartList: SmartListItem, newPosition: number) {
+    try {
+      setError('');
+      const res = await fetch('/api/smart-lists/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ smart_list_id: smartList.id, new_position: newPosition }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to reorder smart lists');
+        return;
+      }
+      await fetchSmartLists();
+    } catch (err) {
+      console.error('Error reordering smart lists:', err);
+      setError('Failed to reorder smart lists');
+    }
+  }
+
+  async function handleDelete(smartList: SmartListItem) {
+    if (!confirm(`Delete the smart list "${smartList.name}"? Its todos are not affected.`)) return;
+
+    try {
+      setError('');
+      const res = await fetch(`/api/smart-lists/${smartList.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete smart list');
+        return;
+      }
+      setSmartLists(prev => prev.filter(s => s.id !== smartList.id));
+    } catch (err) {
+      console.error('Error deleting smart list:', err);
+      setError('Failed to delete smart list');
+    }
+  }
+
+  async function handleCopy(smartList: SmartListItem) {
+    try {
+      await navigator.clipboard.writeText(smartListUrl(smartList));
+      setCopiedId(smartList.id);
+      setTimeout(() => setCopiedId(prev => (prev === smartList.id ? null : prev)), 2000);
+    } catch {
+      // Clipboard access can be blocked; the name is a link that can be copied
+    }
+  }
+
+  return (
+    <nav
+      className="bg-slate-800/50 backdrop-blur-sm p-4 rounded-2xl border border-slate-700/50"
+      aria-label="Smart lists"
+    >
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400 mb-3">Smart Lists</h2>
+
+      {error && (
+        <p className="mb-3 text-xs text-red-300" role="alert">{error}</p>
+      )}
+
+      {smartLists.length === 0 ? (
+        <p className="text-sm text-slate-400 mb-3">Save your filters to get back to them in one click.</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {smartLists.map((smartList, index) => {
+            const isActive = smartListQuery(smartList.filters, smartList.search_options) === currentQuery;
+            return (
+              <li
+                key={smartList.id}
+                className={`group flex items-center gap-1 rounded-lg px-2 py-1 ${
+                  isActive ? 'bg-blue-600/30' : 'hover:bg-slate-700/50'
+                }`}
+              >
+                <a
+                  href={`/?${smartListQuery(smartList.filters, smartList.search_options)}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    onApply(smartList.filters, smartList.search_options);
+                  }}
+                  className="flex-1 min-w-0 flex items-center justify-between gap-2 text-sm text-slate-200"
+                  aria-current={isActive ? 'true' : undefined}
+                >
+                  <span className="truncate">{smartList.name}</span>
+                  <span className="text-xs text-slate-400" aria-label={`${smartList.count} todos`}>
+                    {smartList.count}
+                  </span>
+                </a>
+                <span className="flex text-xs text-slate-400">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(smartList, index - 1)}
+                    disabled={index === 0}
+                    className="px-1 hover:text-white disabled:opacity-30"
+                    aria-label={`Move ${smartList.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(smartList, index + 1)}
+                    disabled={index === smartLists.length - 1}
+                    className="px-1 hover:text-white disabled:opacity-30"
+                    aria-label={`Move ${smartList.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(smartList)}
+                    className="px-1 hover:text-white"
+                    aria-label={`Copy link to ${smartList.name}`}
+                  >
+                    {copiedId === smartList.id ? '✓' : '🔗'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(smartList)}
+                    className="px-1 hover:text-red-400"
+                    aria-label={`Delete ${smartList.name}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {saving ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Smart list name"
+            maxLength={MAX_SMART_LIST_NAME_LENGTH}
+            className="w-full px-3 py-2 text-sm bg-slate-700/50 border border-slate-600 text-white placeholder-slate-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Smart list name"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="flex-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSaving(false);
+                setNewName('');
+              }}
+              className="px-3 py-1.5 text-sm text-slate-300 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setSaving(true)}
+          disabled={!canSave}
+          className="w-full px-3 py-2 text-sm bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+          title={canSave ? undefined : 'Save the current filters (set some first)'}
+        >
+          + New smart list
+        </button>
+      )}
+    </nav>
+  );
+}
@@ -2,10 +2,11 @@
  * SubtaskItem Component
  * 
  * Individual subtask with checkbox, title, and action buttons.
- * Supports completion toggle, reordering (up/down), and deletion.
+ * Supports completion toggle, reordering (up/down), deletion, and assignment
+ * to a member of the todo's shared list.
  */
 
-import { Subtask } from '@/lib/db';
+import { ListMember, Subtask } from '@/lib/db';
 import { useState } from 'react';
 
 interface SubtaskItemProps {
@@ -16,6 +17,8 @@ interface SubtaskItemProps {
   onMoveUp: (id: number) => void;
   onMoveDown: (id: number) => void;
   onDelete: (id: number) => void;
+  assignees?: ListMember[];
+  onAssign?: (id: number, assigneeId: number | null) => void;
 }
 
 export default function SubtaskItem({
@@ -26,6 +29,8 @@ export default function SubtaskItem({
   onMoveUp,
   onMoveDown,
   onDelete,
+  assignees = [],
+  onAssign,
 }: SubtaskItemProps) {
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -61,6 +66,25 @@ export default function SubtaskItem({
         {subtask.title}
       </span>
 
+      {/* Assignee */}
+      {onAssign && assignees.length > 0 ? (
+        <select
+          value={subtask.assignee_id ?? ''}
+          onChange={(e) => onAssign(subtask.id, e.target.value ? Number(e.target.value) : null)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded text-gray-700"
+          aria-label="Assign subtask"
+        >
+          <option value="">👤 Unassigned</option>
+          {assignees.map((member) => (
+            <option key={member.user_id} value={member.user_id}>
+              👤 {member.username}
+            </option>
+          ))}
+        </select>
+      ) : subtask.assignee_username && (
+        <span className="text-xs text-gray-500">👤 {subtask.assignee_username}</span>
+      )}
+
       {/* Action buttons (visible on hover) */}
       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         {/* Move up button */}
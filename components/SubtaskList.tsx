@@ -6,7 +6,7 @@
  */
 
 import { useState } from 'react';
-import { Subtask } from '@/lib/db';
+import { ListMember, Subtask } from '@/lib/db';
 import { calculateProgress } from '@/lib/constants';
 import ProgressBar from './ProgressBar';
 import SubtaskItem from './SubtaskItem';
@@ -19,6 +19,8 @@ interface SubtaskListProps {
   onToggle: (subtaskId: number, completed: number) => void;
   onReorder: (subtaskId: number, newPosition: number) => void;
   onDelete: (subtaskId: number) => void;
+  assignees?: ListMember[];           // Members subtasks can be assigned to (shared lists only)
+  onAssign?: (subtaskId: number, assigneeId: number | null) => void;
 }
 
 export default function SubtaskList({
@@ -28,6 +30,8 @@ export default function SubtaskList({
   onToggle,
   onReorder,
   onDelete,
+  assignees = [],
+  onAssign,
 }: SubtaskListProps) {
   const [isAdding, setIsAdding] = useState(false);
 
@@ -78,6 +82,8 @@ export default function SubtaskList({
           onMoveUp={handleMoveUp}
           onMoveDown={handleMoveDown}
           onDelete={onDelete}
+          assignees={assignees}
+          onAssign={onAssign}
         />
       ))}
 
@@ -8,7 +8,7 @@
 import { TemplateWithSubtasks } from '@/lib/db';
 import { PriorityBadge } from './PriorityBadge';
 import { addDays } from 'date-fns';
-import { getSingaporeNow, formatSingaporeDate } from '@/lib/timezone';
+import { formatInZone, getLocalTimeZone } from '@/lib/timezone';
 
 interface TemplateCardProps {
   template: TemplateWithSubtasks;
@@ -19,8 +19,8 @@ interface TemplateCardProps {
 
 export function TemplateCard({ template, onUse, onEdit, onDelete }: TemplateCardProps) {
   // Calculate preview due date
-  const calculatedDueDate = addDays(getSingaporeNow(), template.due_offset_days);
-  const dueDateStr = formatSingaporeDate(calculatedDueDate, 'MMM d, yyyy');
+  const calculatedDueDate = addDays(new Date(), template.due_offset_days);
+  const dueDateStr = formatInZone(calculatedDueDate, getLocalTimeZone(), 'MMM d, yyyy');
 
   const offsetText =
     template.due_offset_days === 0
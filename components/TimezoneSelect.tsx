@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * Timezone Select Component
+ * Picker for the user's IANA timezone preference
+ */
+
+import { useMemo } from 'react';
+import { getLocalTimeZone, getSupportedTimeZones } from '@/lib/timezone';
+
+interface TimezoneSelectProps {
+  value: string;
+  onChange: (timezone: string) => void;
+  className?: string;
+}
+
+export function TimezoneSelect({ value, onChange, className = '' }: TimezoneSelectProps) {
+  const options = useMemo(() => {
+    const zones = new Set(getSupportedTimeZones());
+    // Always offer the current value and the browser's zone, even on runtimes with a short list
+    zones.add(value);
+    zones.add(getLocalTimeZone());
+    return [...zones].sort();
+  }, [value]);
+
+  const localZone = getLocalTimeZone();
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-2 py-1 text-sm bg-slate-700/50 border border-slate-600 text-slate-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:outline-none ${className}`}
+      aria-label="Timezone"
+      title="Due dates and reminders are shown in this timezone"
+    >
+      {localZone !== value && (
+        <option value={localZone}>{localZone} (this device)</option>
+      )}
+      {options.map(zone => (
+        <option key={zone} value={zone}>
+          {zone.replace(/_/g, ' ')}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * TodoDescription Component
+ *
+ * A todo's markdown notes, rendered below its title. People who can edit the
+ * todo can edit the notes in place and tick checklist items directly.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/constants';
+import { countTaskItems, toggleTaskItem } from '@/lib/markdown';
+import { Markdown } from './Markdown';
+
+interface TodoDescriptionProps {
+  description: string;
+  canEdit: boolean;
+  /** Save new notes; resolves to false if saving failed */
+  onSave: (description: string) => Promise<boolean>;
+}
+
+export function TodoDescription({ description, canEdit, onSave }: TodoDescriptionProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const tasks = countTaskItems(description);
+
+  function startEditing() {
+    setDraft(description);
+    setIsEditing(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    const saved = await onSave(draft);
+    setSaving(false);
+    if (saved) setIsEditing(false);
+  }
+
+  if (isEditing) {
+    return (
+      <div className="mt-2 space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsEditing(false);
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+          }}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          rows={6}
+          autoFocus
+          placeholder="Notes in markdown: **bold**, [links](https://…), - [ ] checklist items"
+          aria-label="Description"
+          className="w-full px-3 py-2 text-sm font-mono bg-slate-700/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Notes'}
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-3 py-1 text-sm bg-slate-600 text-white rounded-md hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+          <span className="text-xs text-slate-500">
+            {draft.length}/{MAX_DESCRIPTION_LENGTH}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!description) {
+    return canEdit ? (
+      <button
+        onClick={startEditing}
+        className="mt-1 text-xs text-slate-500 hover:text-slate-300 hover:underline"
+      >
+        + Add notes
+      </button>
+    ) : null;
+  }
+
+  return (
+    <div className="mt-2 group">
+      <Markdown
+        text={description}
+        className="text-sm text-slate-300"
+        onToggleTask={canEdit ? (index) => onSave(toggleTaskItem(description, index)) : undefined}
+      />
+      <div className="mt-1 flex items-center gap-3 text-xs text-slate-500">
+        {tasks.total > 0 && (
+          <span>☑ {tasks.done}/{tasks.total} checklist items</span>
+        )}
+        {canEdit && (
+          <button
+            onClick={startEditing}
+            className="hover:text-slate-300 hover:underline"
+          >
+            Edit notes
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
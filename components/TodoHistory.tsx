@@ -0,0 +1,157 @@
+/**
+ * TodoHistory Component
+ *
+ * A todo's change history from the audit log (GET /api/todos/[id]/history):
+ * who changed what, newest first, including its subtasks and tags.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TodoEvent } from '@/lib/db';
+import { formatInZone } from '@/lib/timezone';
+import { formatReminderOffset } from '@/lib/reminders';
+
+interface TodoHistoryProps {
+  todoId: number;
+  timeZone: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  due_date: 'due date',
+  priority: 'priority',
+  recurrence: 'repeat',
+  list: 'list',
+  assignee: 'assignee',
+};
+
+function formatValue(field: string, value: unknown, timeZone: string): string {
+  if (value === null || value === undefined || value === '') {
+    return field === 'list' ? 'Personal' : 'none';
+  }
+  if (field === 'due_date') return formatInZone(String(value), timeZone, 'MMM d, HH:mm');
+  return String(value);
+}
+
+function describeReminders(value: unknown, timeZone: string): string {
+  const reminders = (value as { offset_minutes?: number | null; remind_at?: string | null }[] | null) ?? [];
+  if (reminders.length === 0) return 'none';
+  return reminders
+    .map(r => (r.remind_at ? formatInZone(r.remind_at, timeZone, 'MMM d, HH:mm') : `${formatReminderOffset(r.offset_minutes ?? 0)} before`))
+    .join(', ');
+}
+
+/**
+ * One line describing an event, without the actor
+ */
+export function describeEvent(event: TodoEvent, timeZone: string): string {
+  const noun = event.entity_type === 'subtask' ? `subtask "${event.summary}"` : `"${event.summary}"`;
+
+  if (event.action === 'created') return `created ${noun}`;
+  if (event.action === 'deleted') return `deleted ${noun}`;
+  if (event.action === 'restored') return `restored ${noun} from the trash`;
+  if (event.action === 'purged') return `deleted ${noun} forever`;
+
+  const field = event.field ?? '';
+  const { old_value: oldValue, new_value: newValue } = event;
+
+  switch (field) {
+    case 'completed':
+      return newValue ? `completed ${noun}` : `reopened ${noun}`;
+    case 'description':
+      return newValue ? 'edited the notes' : 'cleared the notes';
+    case 'position':
+      return `moved ${noun}`;
+    case 'tags': {
+      const before = (oldValue as string[] | null) ?? [];
+      const after = (newValue as string[] | null) ?? [];
+      const added = after.filter(tag => !before.includes(tag));
+      const removed = before.filter(tag => !after.includes(tag));
+      return [
+        added.length > 0 ? `added tag${added.length > 1 ? 's' : ''} ${added.join(', ')}` : '',
+        removed.length > 0 ? `removed tag${removed.length > 1 ? 's' : ''} ${removed.join(', ')}` : '',
+      ].filter(Boolean).join(' and ');
+    }
+    case 'reminders':
+      return `changed reminders from ${describeReminders(oldValue, timeZone)} to ${describeReminders(newValue, timeZone)}`;
+    case 'assignee':
+      return newValue
+        ? `assigned ${event.entity_type === 'subtask' ? noun : 'it'} to ${newValue}`
+        : `unassigned ${event.entity_type === 'subtask' ? noun : 'it'}`;
+    default: {
+      const label = FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+      const target = event.entity_type === 'subtask' ? ` of ${noun}` : '';
+      return `changed ${label}${target} from ${formatValue(field, oldValue, timeZone)} to ${formatValue(field, newValue, timeZone)}`;
+    }
+  }
+}
+
+export function TodoHistory({ todoId, timeZone }: TodoHistoryProps) {
+  const [events, setEvents] = useState<TodoEvent[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setEvents([]);
+    fetchEvents();
+  }, [todoId]);
+
+  async function fetchEvents(before?: number) {
+    try {
+      setLoading(true);
+      const query = before ? `?before=${before}` : '';
+      const res = await fetch(`/api/todos/${todoId}/history${query}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load history');
+        return;
+      }
+      setEvents(prev => (before ? [...prev, ...data.events] : data.events));
+      setNextBefore(data.next_before);
+    } catch (err) {
+      console.error('Error fetching history:', err);
+      setError('Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 ml-9 space-y-2">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {events.length === 0 && !loading && !error && (
+        <p className="text-sm text-slate-400">No changes recorded yet</p>
+      )}
+
+      {events.length > 0 && (
+        <ol className="space-y-1 text-sm" aria-label="Change history">
+          {events.map(event => (
+            <li key={event.id} className="flex gap-3 text-slate-300">
+              <span className="text-xs text-slate-500 whitespace-nowrap pt-0.5">
+                {formatInZone(event.created_at, timeZone, 'MMM d, HH:mm')}
+              </span>
+              <span>
+                <span className="font-medium text-slate-200">{event.username ?? 'System'}</span>{' '}
+                {describeEvent(event, timeZone)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-400">Loading history...</p>
+      ) : nextBefore && (
+        <button
+          onClick={() => fetchEvents(nextBefore)}
+          className="text-xs text-blue-400 hover:underline"
+        >
+          Show older changes
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * TrashModal Component
+ *
+ * Deleted todos, which can be restored (with their subtasks and tags) or
+ * deleted for good until they are purged automatically.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TrashedTodo } from '@/lib/db';
+import { formatInZone } from '@/lib/timezone';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+  timeZone: string;
+}
+
+interface TrashItem extends TrashedTodo {
+  can_edit: boolean;
+}
+
+export function TrashModal({ isOpen, onClose, onRestored, timeZone }: TrashModalProps) {
+  const [todos, setTodos] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchTrash();
+    }
+  }, [isOpen]);
+
+  async function fetchTrash() {
+    try {
+      setLoading(true);
+      setError('');
+      const res = await fetch('/api/todos/trash');
+      const data = await res.json();
+      setTodos(data.todos);
+      setRetentionDays(data.retention_days);
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      setError('Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleRestore(todo: TrashItem) {
+    try {
+      setError('');
+      const res = await fetch(`/api/todos/${todo.id}/restore`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to restore todo');
+        return;
+      }
+      setTodos(prev => prev.filter(t => t.id !== todo.id));
+      onRestored();
+    } catch (err) {
+      console.error('Error restoring todo:', err);
+      setError('Failed to restore todo');
+    }
+  }
+
+  async function handlePurge(todo: TrashItem) {
+    if (!confirm(`Delete "${todo.title}" forever? This can't be undone.`)) return;
+
+    try {
+      setError('');
+      const res = await fetch(`/api/todos/trash/${todo.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete todo');
+        return;
+      }
+      setTodos(prev => prev.filter(t => t.id !== todo.id));
+    } catch (err) {
+      console.error('Error deleting todo:', err);
+      setError('Failed to delete todo');
+    }
+  }
+
+  async function handleEmpty() {
+    if (!confirm('Delete everything in the trash forever? This can\'t be undone.')) return;
+
+    try {
+      setError('');
+      const res = await fetch('/api/todos/trash', { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to empty trash');
+        return;
+      }
+      await fetchTrash();
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      setError('Failed to empty trash');
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Trash</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 text-3xl leading-none"
+              type="button"
+              aria-label="Close"
+            >
+              ×
+            </button>
+          </div>
+          {retentionDays > 0 && (
+            <p className="mt-1 text-sm text-gray-500">
+              Todos are deleted forever after {retentionDays} day{retentionDays !== 1 ? 's' : ''} in the trash.
+            </p>
+          )}
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto max-h-[60vh] space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading trash...</div>
+          ) : todos.length === 0 ? (
+            <p className="text-center py-4 text-gray-500 text-sm">The trash is empty</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg" aria-label="Deleted todos">
+                {todos.map(todo => (
+                  <li key={todo.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{todo.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {todo.list_name ?? 'Personal'}
+                        {todo.subtask_count > 0 && ` · ${todo.subtask_count} subtask${todo.subtask_count !== 1 ? 's' : ''}`}
+                        {' · '}deleted {formatInZone(todo.deleted_at!, timeZone, 'MMM d, HH:mm')}
+                        {todo.deleted_by_username && ` by ${todo.deleted_by_username}`}
+                      </p>
+                    </div>
+                    {todo.can_edit && (
+                      <span className="flex gap-2 text-sm whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(todo)}
+                          className="px-3 py-1 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          aria-label={`Restore ${todo.title}`}
+                        >
+                          Restore
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handlePurge(todo)}
+                          className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          aria-label={`Delete ${todo.title} forever`}
+                        >
+                          Delete forever
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {todos.some(todo => todo.can_edit) && (
+                <button
+                  type="button"
+                  onClick={handleEmpty}
+                  className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+                >
+                  Empty trash
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
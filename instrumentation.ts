@@ -0,0 +1,25 @@
+/**
+ * Server Instrumentation
+ * Runs once when the Next.js server starts - used to start background jobs
+ */
+
+export async function register() {
+  // Background jobs need Node APIs (better-sqlite3, fs), not the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startBackupScheduler } = await import('./lib/backup');
+  startBackupScheduler();
+
+  const { startTrashPurgeScheduler } = await import('./lib/trash');
+  startTrashPurgeScheduler();
+
+  // Channels must be registered before the first scheduler pass
+  const { registerPushChannel } = await import('./lib/push');
+  registerPushChannel();
+  const { registerEmailChannel, startDigestScheduler } = await import('./lib/email');
+  registerEmailChannel();
+
+  const { startReminderScheduler } = await import('./lib/notifications');
+  startReminderScheduler();
+  startDigestScheduler();
+}
@@ -0,0 +1,81 @@
+/**
+ * Attachment Uploads
+ *
+ * Checks files attached to todos and keeps storage in step with the database:
+ * a file's type is detected from its content (the browser's claimed type and
+ * the file extension are ignored), and stored files are removed when their
+ * attachment, todo or list is deleted.
+ */
+
+import crypto from 'crypto';
+import { ATTACHMENT_MIME_TYPES } from './constants';
+import { getStorage } from './storage';
+
+const MAX_FILENAME_LENGTH = 200;
+
+// Leading bytes of each allowed type
+const SIGNATURES: { mimeType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { mimeType: 'application/pdf', matches: bytes => bytes.subarray(0, 5).toString('latin1') === '%PDF-' },
+  { mimeType: 'image/png', matches: bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: bytes => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimeType: 'image/gif', matches: bytes => /^GIF8[79]a$/.test(bytes.subarray(0, 6).toString('latin1')) },
+  {
+    mimeType: 'image/webp',
+    matches: bytes => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+];
+
+/**
+ * Detect an allowed file type from the file's content
+ * @returns The MIME type, or null if the file isn't one of ATTACHMENT_MIME_TYPES
+ */
+export function detectMimeType(data: Buffer): string | null {
+  const match = SIGNATURES.find(signature => signature.matches(data));
+  return match && match.mimeType in ATTACHMENT_MIME_TYPES ? match.mimeType : null;
+}
+
+/**
+ * Make an uploaded file name safe to store and send back in headers
+ * (no directories or control characters, bounded length)
+ */
+export function sanitizeFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  if (!cleaned || cleaned === '.' || cleaned === '..') return 'attachment';
+  if (cleaned.length <= MAX_FILENAME_LENGTH) return cleaned;
+
+  // Keep the extension when shortening
+  const dot = cleaned.lastIndexOf('.');
+  const extension = dot > 0 && cleaned.length - dot <= 10 ? cleaned.slice(dot) : '';
+  return cleaned.slice(0, MAX_FILENAME_LENGTH - extension.length) + extension;
+}
+
+/**
+ * A new, unguessable storage key for a todo's file
+ */
+export function createStorageKey(todoId: number): string {
+  return `todos/${todoId}/${crypto.randomUUID()}`;
+}
+
+/**
+ * Content-Disposition header for downloading a file under its original name
+ */
+export function contentDisposition(filename: string, disposition: 'attachment' | 'inline' = 'attachment'): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, '_').replace(/[\\"]/g, '_');
+  return `${disposition}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Remove stored files whose records have been deleted. Failures are logged,
+ * not thrown: the records are already gone, so a leftover file is only wasted space.
+ */
+export async function deleteStoredFiles(keys: string[]): Promise<void> {
+  const storage = getStorage();
+  await Promise.all(keys.map(async key => {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete stored attachment ${key}:`, error);
+    }
+  }));
+}
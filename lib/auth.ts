@@ -3,6 +3,11 @@
  * 
  * Handles JWT session management for WebAuthn authentication.
  * Sessions stored as HTTP-only cookies with 7-day expiry.
+ *
+ * Admin rights are deliberately not derived from the session or username:
+ * anyone can register an unused name, so a username-based admin list would
+ * hand /api/admin (backup download and restore) to whoever claims it first.
+ * Admin routes check the stored flag with userDB.isAdmin() instead.
  */
 
 import { SignJWT, jwtVerify } from 'jose';
@@ -0,0 +1,235 @@
+/**
+ * Database Snapshots
+ *
+ * Point-in-time copies of the whole SQLite database using better-sqlite3's
+ * online backup API, so snapshots can be taken while the app is serving
+ * requests. Every snapshot is verified with PRAGMA integrity_check before it
+ * is kept, and old snapshots are rotated out.
+ *
+ *   BACKUP_DIR               Snapshot directory (default: backups/ next to the database)
+ *   BACKUP_INTERVAL_MINUTES  Scheduled snapshot interval, 0 disables (default: 360)
+ *   BACKUP_RETENTION         Number of snapshots to keep (default: 7)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { db, dbConfig } from './db';
+import { assertSchemaNotAhead, getMigrationStatus, runMigrations } from './migrate';
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'pre-restore';
+
+export interface SnapshotInfo {
+  name: string;
+  size: number;
+  created_at: string;
+  reason: SnapshotReason;
+}
+
+// todos-20261019T080300123Z-manual.db
+const SNAPSHOT_PATTERN = /^todos-(\d{8}T\d{9}Z)-(scheduled|manual|pre-restore)\.db$/;
+
+const DEFAULT_INTERVAL_MINUTES = 360;
+const DEFAULT_RETENTION = 7;
+
+/**
+ * Directory where snapshots are written
+ */
+export function getBackupDir(): string {
+  if (process.env.BACKUP_DIR) return path.resolve(process.env.BACKUP_DIR);
+  const base = dbConfig.inMemory ? process.cwd() : path.dirname(dbConfig.path);
+  return path.join(base, 'backups');
+}
+
+function getNonNegativeIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Run PRAGMA integrity_check against a database file
+ * @returns 'ok' or the list of problems SQLite reported
+ */
+export function checkIntegrity(filePath: string): string {
+  const snapshot = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const rows = snapshot.pragma('integrity_check') as Array<{ integrity_check: string }>;
+    return rows.map(row => row.integrity_check).join('; ');
+  } finally {
+    snapshot.close();
+  }
+}
+
+/**
+ * Resolve a snapshot name to its path, rejecting anything that isn't a snapshot
+ * (guards the admin routes against path traversal)
+ */
+export function getSnapshotPath(name: string): string | null {
+  if (!SNAPSHOT_PATTERN.test(name)) return null;
+  const filePath = path.join(getBackupDir(), name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+function toSnapshotInfo(name: string): SnapshotInfo | null {
+  const match = SNAPSHOT_PATTERN.exec(name);
+  if (!match) return null;
+
+  const stamp = match[1];
+  const createdAt = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+    `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}.${stamp.slice(15, 18)}Z`;
+  const stats = fs.statSync(path.join(getBackupDir(), name));
+
+  return {
+    name,
+    size: stats.size,
+    created_at: createdAt,
+    reason: match[2] as SnapshotReason,
+  };
+}
+
+/**
+ * List snapshots, newest first
+ */
+export function listSnapshots(): SnapshotInfo[] {
+  const dir = getBackupDir();
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .map(toSnapshotInfo)
+    .filter((info): info is SnapshotInfo => info !== null)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Delete the oldest snapshots beyond the retention limit.
+ * Pre-restore snapshots are rotated like any other; names in `keep` are never deleted.
+ */
+export function rotateSnapshots(
+  retention: number = getNonNegativeIntEnv('BACKUP_RETENTION', DEFAULT_RETENTION),
+  keep: string[] = []
+): string[] {
+  if (retention === 0) return [];
+
+  const removed: string[] = [];
+  listSnapshots()
+    .slice(retention)
+    .filter(snapshot => !keep.includes(snapshot.name))
+    .forEach(snapshot => {
+      fs.unlinkSync(path.join(getBackupDir(), snapshot.name));
+      removed.push(snapshot.name);
+    });
+  return removed;
+}
+
+/**
+ * Take a snapshot of the live database, verify it and rotate old snapshots.
+ * Throws (and discards the file) if the integrity check fails.
+ */
+export async function createSnapshot(
+  reason: SnapshotReason = 'manual',
+  options: { keep?: string[] } = {}
+): Promise<SnapshotInfo> {
+  const dir = getBackupDir();
+  fs.mkdirSync(dir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+  const name = `todos-${stamp}-${reason}.db`;
+  const finalPath = path.join(dir, name);
+  const tempPath = `${finalPath}.partial`;
+
+  try {
+    await db.backup(tempPath);
+
+    const integrity = checkIntegrity(tempPath);
+    if (integrity !== 'ok') {
+      throw new Error(`Snapshot failed integrity check: ${integrity}`);
+    }
+
+    fs.renameSync(tempPath, finalPath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  rotateSnapshots(undefined, options.keep);
+
+  console.log(`Database snapshot created: ${name}`);
+  return toSnapshotInfo(name)!;
+}
+
+/**
+ * Replace the live database with a snapshot.
+ * Takes a pre-restore snapshot first so a bad restore can itself be undone,
+ * then brings the restored schema up to date.
+ */
+export async function restoreSnapshot(name: string): Promise<{ restored: SnapshotInfo; safetySnapshot: SnapshotInfo }> {
+  if (dbConfig.inMemory) {
+    throw new Error('Restore is not supported for in-memory databases');
+  }
+
+  const snapshotPath = getSnapshotPath(name);
+  if (!snapshotPath) {
+    throw new Error(`Snapshot not found: ${name}`);
+  }
+
+  const integrity = checkIntegrity(snapshotPath);
+  if (integrity !== 'ok') {
+    throw new Error(`Snapshot failed integrity check: ${integrity}`);
+  }
+
+  const source = new Database(snapshotPath, { readonly: true, fileMustExist: true });
+  try {
+    // Never restore data written by a newer build than this one
+    assertSchemaNotAhead(source);
+
+    const safetySnapshot = await createSnapshot('pre-restore', { keep: [name] });
+
+    // The backup API copies page-by-page into the live file under SQLite's own
+    // locking, so the app's open connection sees the restored data
+    await source.backup(dbConfig.path);
+
+    if (getMigrationStatus(db).pending.length > 0) {
+      runMigrations(db).applied.forEach(m => {
+        console.log(`Applied migration ${m.version}: ${m.name}`);
+      });
+    }
+
+    console.log(`Database restored from snapshot: ${name}`);
+    return { restored: toSnapshotInfo(name)!, safetySnapshot };
+  } finally {
+    source.close();
+  }
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForBackup = globalThis as unknown as { backupTimer?: NodeJS.Timeout };
+
+/**
+ * Start taking scheduled snapshots (called once from instrumentation.ts)
+ */
+export function startBackupScheduler(): void {
+  if (globalForBackup.backupTimer) return;
+
+  const intervalMinutes = getNonNegativeIntEnv('BACKUP_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+  if (intervalMinutes === 0) {
+    console.log('Scheduled database snapshots disabled');
+    return;
+  }
+
+  globalForBackup.backupTimer = setInterval(() => {
+    createSnapshot('scheduled').catch(error => {
+      console.error('Scheduled snapshot failed:', error);
+    });
+  }, intervalMinutes * 60 * 1000);
+
+  // Don't keep the process alive just for backups
+  globalForBackup.backupTimer.unref();
+
+  console.log(`Scheduled database snapshots every ${intervalMinutes} minutes to ${getBackupDir()}`);
+}
@@ -0,0 +1,197 @@
+/**
+ * Bulk Operations
+ *
+ * One action applied to many todos at once (POST /api/todos/bulk). Each todo
+ * is checked and changed the way the single-todo routes would, with the same
+ * history events, and gets its own result: todos that are missing or view-only
+ * fail on their own without stopping the rest. The route runs the whole batch
+ * in one transaction.
+ */
+
+import { listDB, subtaskDB, tagDB, todoDB, userDB, Priority, Todo } from './db';
+import { BULK_ACTION_TYPES, MAX_BULK_SHIFT_DAYS, MAX_BULK_TODOS, BulkActionType, canEditTodos } from './constants';
+import { recordChanges, recordChangesSince, recordCreated, recordDeleted, snapshotSubtask, snapshotTodo } from './history';
+import { shiftDueDate } from './recurrence';
+
+export type BulkAction =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'delete' }
+  | { type: 'set_priority'; priority: Priority }
+  | { type: 'add_tag'; tag_id: number }
+  | { type: 'remove_tag'; tag_id: number }
+  | { type: 'shift_due'; days: number }
+  | { type: 'move_to_list'; list_id: number | null };
+
+export interface BulkResult {
+  id: number;
+  ok: boolean;
+  error?: string;
+  next_todo_id?: number; // Completing a recurring todo creates its next instance
+}
+
+/**
+ * A request that can't be applied to any of the todos
+ */
+export class BulkRequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BulkRequestError';
+  }
+}
+
+/**
+ * Validate the todo IDs of a bulk request (duplicates are dropped)
+ * @throws BulkRequestError
+ */
+export function parseBulkIds(raw: unknown): number[] {
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every(id => Number.isInteger(id) && id > 0)) {
+    throw new BulkRequestError('ids must be a non-empty array of todo IDs');
+  }
+  const ids = [...new Set(raw as number[])];
+  if (ids.length > MAX_BULK_TODOS) {
+    throw new BulkRequestError(`At most ${MAX_BULK_TODOS} todos can be changed at once`);
+  }
+  return ids;
+}
+
+/**
+ * Validate a bulk action, including that its tag or target list can be used
+ * by the user
+ * @throws BulkRequestError
+ */
+export function parseBulkAction(raw: unknown, userId: number): BulkAction {
+  const action = (raw ?? {}) as Record<string, unknown>;
+  const type = action.type as BulkActionType;
+  if (!BULK_ACTION_TYPES.includes(type)) {
+    throw new BulkRequestError(`action.type must be one of: ${BULK_ACTION_TYPES.join(', ')}`);
+  }
+
+  switch (type) {
+    case 'complete':
+    case 'uncomplete':
+    case 'delete':
+      return { type };
+
+    case 'set_priority':
+      if (!['high', 'medium', 'low'].includes(action.priority as string)) {
+        throw new BulkRequestError('Invalid priority value');
+      }
+      return { type, priority: action.priority as Priority };
+
+    case 'add_tag':
+    case 'remove_tag': {
+      // Only the user's own tags can be added; a tag another list member put
+      // on a shared todo can still be taken off
+      const tag = Number.isInteger(action.tag_id) ? tagDB.findById(action.tag_id as number) : null;
+      if (!tag || (type === 'add_tag' && tag.user_id !== userId)) {
+        throw new BulkRequestError('Tag not found', 404);
+      }
+      return { type, tag_id: tag.id };
+    }
+
+    case 'shift_due': {
+      const days = action.days;
+      if (!Number.isInteger(days) || days === 0 || Math.abs(days as number) > MAX_BULK_SHIFT_DAYS) {
+        throw new BulkRequestError(`days must be a whole number of days between -${MAX_BULK_SHIFT_DAYS} and ${MAX_BULK_SHIFT_DAYS}, other than 0`);
+      }
+      return { type, days: days as number };
+    }
+
+    case 'move_to_list': {
+      if (action.list_id === null) return { type, list_id: null };
+      const role = Number.isInteger(action.list_id) ? listDB.getRole(action.list_id as number, userId) : null;
+      if (!role) {
+        throw new BulkRequestError('List not found', 404);
+      }
+      if (!canEditTodos(role)) {
+        throw new BulkRequestError('You have view-only access to that list', 403);
+      }
+      return { type, list_id: action.list_id as number };
+    }
+  }
+}
+
+/**
+ * Apply an action to each todo the user can edit, recording history
+ * @returns One result per ID, in the order given
+ */
+export function applyBulkAction(userId: number, ids: number[], action: BulkAction): BulkResult[] {
+  const timeZone = userDB.getTimezone(userId);
+
+  return ids.map(id => {
+    const todo = todoDB.findById(id);
+    const role = todo ? todoDB.getRole(todo, userId) : null;
+    if (!todo || !role) {
+      return { id, ok: false, error: 'Todo not found' };
+    }
+    if (!canEditTodos(role)) {
+      return { id, ok: false, error: 'You have view-only access to this list' };
+    }
+    if (action.type === 'move_to_list' && action.list_id !== todo.list_id && !todoDB.canMoveFromList(todo, userId)) {
+      return { id, ok: false, error: 'Only the list owner or the todo\'s creator can move it out of this list' };
+    }
+    return { id, ok: true, ...applyToTodo(userId, todo, action, timeZone) };
+  });
+}
+
+function applyToTodo(userId: number, todo: Todo, action: BulkAction, timeZone: string): Partial<BulkResult> {
+  const before = snapshotTodo(todo.id)!;
+
+  switch (action.type) {
+    case 'complete': {
+      // Already completed todos are left alone (no second recurring instance)
+      if (todo.completed) return {};
+      todoDB.update(todo.id, { completed: 1, completed_at: new Date().toISOString() });
+      const nextTodo = todo.recurrence_pattern || todo.recurrence_rule
+        ? todoDB.createRecurringInstance(todo)
+        : null;
+      recordChanges(userId, before, snapshotTodo(todo.id));
+      if (!nextTodo) return {};
+      recordCreated(userId, snapshotTodo(nextTodo.id));
+      return { next_todo_id: nextTodo.id };
+    }
+
+    case 'uncomplete':
+      if (!todo.completed) return {};
+      todoDB.update(todo.id, { completed: 0, completed_at: null });
+      break;
+
+    case 'delete':
+      todoDB.delete(todo.id, userId);
+      recordDeleted(userId, before);
+      return {};
+
+    case 'set_priority':
+      todoDB.update(todo.id, { priority: action.priority });
+      break;
+
+    case 'add_tag':
+      todoDB.addTag(todo.id, action.tag_id);
+      break;
+
+    case 'remove_tag':
+      todoDB.removeTag(todo.id, action.tag_id);
+      break;
+
+    case 'shift_due':
+      todoDB.update(todo.id, { due_date: shiftDueDate(todo.due_date, action.days, timeZone) });
+      break;
+
+    case 'move_to_list': {
+      if (action.list_id === todo.list_id) return {};
+      // Moving lists can unassign subtasks too
+      const subtasksBefore = subtaskDB.findByTodo(todo.id).map(subtask => snapshotSubtask(subtask.id)!);
+      todoDB.update(todo.id, action.list_id === null
+        ? { list_id: null, user_id: userId }
+        : { list_id: action.list_id });
+      todoDB.unassignIneligible(todo.id);
+      recordChanges(userId, before, snapshotTodo(todo.id));
+      recordChangesSince(userId, subtasksBefore);
+      return {};
+    }
+  }
+
+  recordChanges(userId, before, snapshotTodo(todo.id));
+  return {};
+}
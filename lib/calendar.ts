@@ -11,9 +11,8 @@ import {
   eachDayOfInterval,
   format,
   isSameMonth,
-  isSameDay,
 } from 'date-fns';
-import { getSingaporeNow } from './timezone';
+import { getLocalTimeZone, getTodayInZone } from './timezone';
 
 export interface CalendarDay {
   date: Date;
@@ -29,12 +28,14 @@ export interface CalendarDay {
 /**
  * Generate calendar grid for a given month
  * Returns array of days including previous/next month days to fill weeks
+ * @param today - Today's date (YYYY-MM-DD) in the user's timezone
  */
 export function generateCalendarDays(
   year: number,
   month: number, // 1-12
   todosByDate: Record<string, any[]>,
-  holidays: { date: string; name: string }[]
+  holidays: { date: string; name: string }[],
+  today: string = getTodayInZone(getLocalTimeZone())
 ): CalendarDay[] {
   const targetDate = new Date(year, month - 1, 1);
   const monthStart = startOfMonth(targetDate);
@@ -46,7 +47,6 @@ export function generateCalendarDays(
 
   const allDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
-  const today = getSingaporeNow();
   const holidayMap = new Map(holidays.map((h) => [h.date, h.name]));
 
   return allDays.map((date) => {
@@ -57,7 +57,7 @@ export function generateCalendarDays(
       date,
       dateString,
       isCurrentMonth: isSameMonth(date, targetDate),
-      isToday: isSameDay(date, today),
+      isToday: dateString === today,
       isHoliday: holidayMap.has(dateString),
       holidayName: holidayMap.get(dateString),
       todoCount: todos.length,
@@ -0,0 +1,56 @@
+/**
+ * Comment Mentions
+ *
+ * Comments on a todo can @mention anyone who can see it (for shared lists,
+ * any member). Mentioned users get a 'mention' notification; mentioning
+ * yourself, someone without access or an unknown username does nothing.
+ */
+
+import { todoDB, userDB, CommentWithAuthor, Notification, Todo, User } from './db';
+import { extractMentions, toPlainText } from './markdown';
+import { notifyUser, processRemindersSoon } from './notifications';
+
+// Notification bodies quote the start of the comment
+const MENTION_SNIPPET_LENGTH = 120;
+
+/**
+ * Users @mentioned in a comment body who can see the todo, excluding the author
+ */
+export function getMentionedUsers(todo: Todo, body: string, authorId: number): User[] {
+  return extractMentions(body)
+    .map(username => userDB.findByUsername(username))
+    .filter((user): user is User =>
+      user !== null && user.id !== authorId && todoDB.getRole(todo, user.id) !== null
+    );
+}
+
+/**
+ * Notify users newly @mentioned in a comment. On edits, pass the previous body
+ * so people who were already mentioned aren't notified again.
+ * @returns Notifications created
+ */
+export function notifyMentions(
+  todo: Todo,
+  comment: CommentWithAuthor,
+  previousBody?: string
+): Notification[] {
+  const alreadyMentioned = new Set(
+    previousBody === undefined ? [] : getMentionedUsers(todo, previousBody, comment.user_id).map(user => user.id)
+  );
+
+  const text = toPlainText(comment.body);
+  const snippet = text.length > MENTION_SNIPPET_LENGTH ? `${text.slice(0, MENTION_SNIPPET_LENGTH - 1)}…` : text;
+
+  const created = getMentionedUsers(todo, comment.body, comment.user_id)
+    .filter(user => !alreadyMentioned.has(user.id))
+    .flatMap(user => notifyUser(user.id, {
+      type: 'mention',
+      todo_id: todo.id,
+      title: `💬 ${comment.display_name || comment.username} mentioned you on "${todo.title}"`,
+      body: snippet,
+    }));
+
+  // Deliver now rather than on the next scheduler tick
+  if (created.length > 0) processRemindersSoon();
+  return created;
+}
@@ -176,3 +176,181 @@ export const REMINDER_OPTIONS: ReminderOption[] = [
   { value: 2880, label: '2 days before', description: '2 days' },
   { value: 10080, label: '1 week before', description: '1 wk' },
 ];
+
+// Custom offsets can be any whole number of minutes up to this far ahead
+export const MAX_REMINDER_OFFSET_MINUTES = 365 * 24 * 60;
+export const MAX_REMINDERS_PER_TODO = 5;
+
+// ============================================================================
+// Notification Actions
+// ============================================================================
+
+export type NotificationAction = 'done' | 'snooze-10m' | 'snooze-tomorrow';
+
+export interface NotificationActionOption {
+  action: NotificationAction;
+  title: string;
+}
+
+// Buttons on reminder notifications, in order of importance: browsers show
+// only as many as they support (Notification.maxActions, often 2)
+export const NOTIFICATION_ACTIONS: NotificationActionOption[] = [
+  { action: 'done', title: 'Mark done' },
+  { action: 'snooze-10m', title: 'Snooze 10 min' },
+  { action: 'snooze-tomorrow', title: 'Tomorrow 9am' },
+];
+
+export const SNOOZE_MINUTES = 10;
+export const SNOOZE_TOMORROW_HOUR = 9;
+
+// ============================================================================
+// Shared List Roles
+// ============================================================================
+
+export type ListRole = 'owner' | 'editor' | 'viewer';
+
+export interface ListRoleConfig {
+  value: ListRole;
+  label: string;
+  description: string;
+}
+
+export const LIST_ROLE_CONFIGS: Record<ListRole, ListRoleConfig> = {
+  owner: { value: 'owner', label: 'Owner', description: 'Manages members, invites and the list itself' },
+  editor: { value: 'editor', label: 'Editor', description: 'Adds, edits, completes and deletes todos' },
+  viewer: { value: 'viewer', label: 'Viewer', description: 'Sees todos but cannot change them' },
+};
+
+// Roles an invite can grant (a list has exactly one owner)
+export const INVITE_ROLES: ListRole[] = ['editor', 'viewer'];
+export const INVITE_TTL_DAYS = 7;
+export const MAX_LIST_NAME_LENGTH = 100;
+
+// ============================================================================
+// Comments
+// ============================================================================
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Todo descriptions are markdown too (lib/markdown.ts)
+export const MAX_DESCRIPTION_LENGTH = 10000;
+
+/**
+ * Whether a role may change a list's todos (and their subtasks and tags)
+ */
+export function canEditTodos(role: ListRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TODO = 20;
+
+// PDFs and screenshots; uploads are checked against their content, not just the name
+export const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'image/png': 'PNG image',
+  'image/jpeg': 'JPEG image',
+  'image/gif': 'GIF image',
+  'image/webp': 'WebP image',
+};
+
+/**
+ * Human-readable file size, e.g. "1.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ============================================================================
+// Full-Text Search
+// ============================================================================
+
+// Control characters can't occur in todo text, so they safely mark matches
+// in FTS5 highlights until they're turned into <mark> tags
+export const SEARCH_MARK_START = '\u0002';
+export const SEARCH_MARK_END = '\u0003';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+// ============================================================================
+// Smart Lists
+// ============================================================================
+
+export const MAX_SMART_LIST_NAME_LENGTH = 100;
+
+// ============================================================================
+// Todo Sorting & Pages
+// ============================================================================
+
+export type TodoSort = 'priority' | 'due_date' | 'created_at' | 'title';
+
+export const TODO_SORT_OPTIONS: { value: TodoSort; label: string }[] = [
+  { value: 'priority', label: 'Priority' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'created_at', label: 'Created' },
+  { value: 'title', label: 'Title' },
+];
+
+export const TODO_PAGE_SIZE = 100;
+export const MAX_TODO_PAGE_SIZE = 500;
+
+// ============================================================================
+// Bulk Operations
+// ============================================================================
+
+export type BulkActionType =
+  | 'complete'
+  | 'uncomplete'
+  | 'delete'
+  | 'set_priority'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'shift_due'
+  | 'move_to_list';
+
+export const BULK_ACTION_TYPES: BulkActionType[] = [
+  'complete', 'uncomplete', 'delete', 'set_priority', 'add_tag', 'remove_tag', 'shift_due', 'move_to_list',
+];
+
+export const MAX_BULK_TODOS = 500;
+export const MAX_BULK_SHIFT_DAYS = 3650;
+
+// ============================================================================
+// Keyboard Shortcuts
+// ============================================================================
+
+export type ShortcutAction =
+  | 'command_palette'
+  | 'next_todo'
+  | 'previous_todo'
+  | 'complete_todo'
+  | 'edit_todo'
+  | 'tag_todo'
+  | 'select_todo'
+  | 'new_todo'
+  | 'shortcut_help';
+
+export interface ShortcutConfig {
+  action: ShortcutAction;
+  label: string;
+  defaultKey: string; // See lib/shortcuts.ts for the format, e.g. 'mod+k', 'j', '#'
+}
+
+export const SHORTCUT_CONFIGS: ShortcutConfig[] = [
+  { action: 'command_palette', label: 'Open the command palette', defaultKey: 'mod+k' },
+  { action: 'next_todo', label: 'Next todo', defaultKey: 'j' },
+  { action: 'previous_todo', label: 'Previous todo', defaultKey: 'k' },
+  { action: 'complete_todo', label: 'Complete or reopen the todo', defaultKey: 'x' },
+  { action: 'edit_todo', label: 'Edit the todo', defaultKey: 'e' },
+  { action: 'tag_todo', label: 'Tag the todo', defaultKey: '#' },
+  { action: 'select_todo', label: 'Select the todo for bulk actions', defaultKey: 's' },
+  { action: 'new_todo', label: 'New todo', defaultKey: 'n' },
+  { action: 'shortcut_help', label: 'Show keyboard shortcuts', defaultKey: '?' },
+];
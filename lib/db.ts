@@ -3,29 +3,33 @@
  * 
  * This file contains all database interfaces and CRUD operations.
  * Uses better-sqlite3 (synchronous SQLite library - no async/await needed).
- * Database file: todos.db in project root.
+ * Database file: todos.db in project root by default (configurable, see lib/dbConfig.ts).
  */
 
-import Database from 'better-sqlite3';
-import { getSingaporeNow, formatSingaporeDate } from './timezone';
-import type { Priority, PriorityConfig } from './constants';
-import { getRandomTagColor } from './constants';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from './timezone';
+import { randomBytes } from 'crypto';
+import type { Statement } from 'better-sqlite3';
+import type { ListRole, Priority, PriorityConfig, TodoSort } from './constants';
+import { canEditTodos, getRandomTagColor, INVITE_TTL_DAYS, SEARCH_MARK_END, SEARCH_MARK_START } from './constants';
+import { runMigrations } from './migrate';
+import { loadDatabaseConfig, openDatabase, warnIfEphemeral } from './dbConfig';
+import { isValidReminderOffset, reminderKey } from './reminders';
+import type { FilterState, SavedSearchOptions } from './search';
+import type { ShortcutMap } from './shortcuts';
 
-// Use /tmp for Railway deployment, fallback to local for development
-const dbPath = process.env.NODE_ENV === 'production' ? '/tmp/todos.db' : 'todos.db';
-const db = new Database(dbPath);
+// Location, WAL mode and busy timeout come from env (see lib/dbConfig.ts)
+const dbConfig = loadDatabaseConfig();
+const db = openDatabase(dbConfig);
 
-console.log('Database initialized at:', dbPath);
-
-// Enable foreign keys
-db.pragma('foreign_keys = ON');
+console.log('Database initialized at:', dbConfig.path);
+warnIfEphemeral(dbConfig);
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
 // Re-export types for external use
-export type { Priority, PriorityConfig };
+export type { ListRole, Priority, PriorityConfig, TodoSort };
 export type RecurrencePattern = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type TemplateCategory = 'work' | 'personal' | 'other';
 
@@ -33,6 +37,9 @@ export interface User {
   id: number;
   username: string;
   display_name: string;
+  timezone: string;                   // IANA timezone, e.g. Asia/Singapore
+  keyboard_shortcuts: string;         // JSON: the user's own key bindings (lib/shortcuts.ts)
+  is_admin: number;                   // 0 or 1 - may use /api/admin (granted with scripts/admin.ts)
   created_at: string;
 }
 
@@ -48,21 +55,30 @@ export interface Authenticator {
 
 export interface Todo {
   id: number;
-  user_id: number;
+  user_id: number;                    // Creator; for personal todos also the only one with access
+  list_id: number | null;             // Shared list, or null for a personal todo
+  assignee_id: number | null;         // User responsible for it (gets its reminders)
   title: string;
-  due_date: string;
+  description: string;                // Markdown notes ('' when none)
+  due_date: string;                   // UTC ISO 8601, rendered in the user's timezone
   priority: Priority;
   completed: number;
   completed_at: string | null;
   recurrence_pattern: RecurrencePattern | null;
-  reminder_minutes: number | null;
-  last_notification_sent: string | null;
+  recurrence_rule: string | null;     // RFC 5545 RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH
+  recurrence_index: number;           // 1-based position in the series (for COUNT)
+  deleted_at: string | null;          // UTC ISO; set while the todo is in the trash
+  deleted_by: number | null;          // Who moved it to the trash
   created_at: string;
 }
 
 export interface TodoWithRelations extends Todo {
+  assignee_username?: string | null;
+  comment_count?: number;
+  attachment_count?: number;
   subtasks?: Subtask[];
   tags?: Tag[];
+  reminders?: TodoReminder[];
   progress?: {
     completed: number;
     total: number;
@@ -70,12 +86,158 @@ export interface TodoWithRelations extends Todo {
   };
 }
 
+export interface TrashedTodo extends Todo {
+  deleted_by_username: string | null;
+  list_name: string | null;
+  subtask_count: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+// Filters shared by todoDB.findByUser() and todoDB.findPage()
+export interface TodoFilterOptions {
+  completed?: 'all' | 'incomplete' | 'complete'; // Default: incomplete
+  priority?: Priority;
+  tagId?: number;
+  listId?: number | null;             // A list's todos, or null for personal todos only
+  dueFrom?: string;                   // UTC ISO, inclusive
+  dueBefore?: string;                 // UTC ISO, exclusive
+}
+
+export interface TodoPageOptions extends TodoFilterOptions {
+  sort?: TodoSort;                    // Default: priority (incomplete first, then priority, then due date)
+  order?: SortOrder;                  // Default: asc
+  limit?: number;                     // Default: no limit
+  after?: unknown[];                  // Sort key of the last todo on the previous page
+  filter?: (todo: TodoWithRelations) => boolean; // Applied after the SQL filters, before paging
+}
+
+export interface TodoPage {
+  todos: TodoWithRelations[];
+  total: number;                      // Todos matching the filters, across all pages
+  nextKey: unknown[] | null;          // Pass as `after` for the next page
+}
+
+// A full-text search match; highlights wrap matched terms in SEARCH_MARK_START/END
+export interface TodoSearchRow extends Todo {
+  rank: number;                       // bm25 score, lower is better
+  title_highlight: string;
+  description_snippet: string;
+  subtasks_snippet: string;           // Subtask titles, joined with ' · '
+  tags_highlight: string;             // Tag names, joined with ' · '
+}
+
+export interface List {
+  id: number;
+  name: string;
+  created_at: string;
+}
+
+export interface ListWithRole extends List {
+  role: ListRole;                     // The current user's role
+  member_count: number;
+  members?: ListMember[];             // Included by GET /api/lists, for picking assignees
+}
+
+export interface ListMember {
+  list_id: number;
+  user_id: number;
+  role: ListRole;
+  username: string;
+  display_name: string;
+  created_at: string;
+}
+
+export interface ListInvite {
+  id: number;
+  list_id: number;
+  token: string;                      // Secret part of the invite link
+  role: ListRole;                     // 'editor' or 'viewer'
+  created_by: number;
+  expires_at: string;
+  accepted_by: number | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface Comment {
+  id: number;
+  todo_id: number;
+  user_id: number;
+  body: string;                       // Markdown, may contain @mentions
+  created_at: string;                 // UTC ISO
+  updated_at: string | null;          // Set when the author edits it
+}
+
+export interface CommentWithAuthor extends Comment {
+  username: string;
+  display_name: string;
+}
+
+export interface Attachment {
+  id: number;
+  todo_id: number;
+  user_id: number;                    // Uploader
+  filename: string;                   // Original name, shown and used for downloads
+  mime_type: string;
+  size: number;                       // Bytes
+  storage_key: string;                // Where the storage backend keeps the file
+  created_at: string;                 // UTC ISO
+}
+
+export interface AttachmentWithUploader extends Attachment {
+  username: string;
+}
+
+export type EventEntity = 'todo' | 'subtask' | 'tag' | 'template';
+export type EventAction = 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+
+export interface TodoEvent {
+  id: number;
+  user_id: number | null;             // Who made the change (null for the system)
+  entity_type: EventEntity;
+  entity_id: number;
+  todo_id: number | null;             // Todo affected, also for subtask and tag-assignment events
+  list_id: number | null;             // Shared list the todo was in
+  action: EventAction;
+  field: string | null;               // Changed field, for 'updated'
+  old_value: unknown;                 // Parsed JSON; snapshot of the record for 'deleted' and 'purged'
+  new_value: unknown;                 // Parsed JSON; snapshot of the record for 'created'
+  summary: string;                    // Title or name at the time, readable after deletion
+  created_at: string;                 // UTC ISO
+  username?: string | null;           // Joined from users
+}
+
+export type TodoEventInput = Omit<TodoEvent, 'id' | 'created_at' | 'username'>;
+
+export interface TodoReminder {
+  id: number;
+  todo_id: number;
+  offset_minutes: number | null;      // Relative: minutes before the due date
+  remind_at: string | null;           // Absolute: UTC time (exactly one of the two is set)
+  snoozed_until: string | null;       // UTC; fires again at this time
+  sent_at: string | null;             // UTC time this reminder last fired
+  created_at: string;
+}
+
+// A reminder as submitted by the client (one of the two fields)
+export interface ReminderInput {
+  offset_minutes?: number | null;
+  remind_at?: string | null;
+}
+
+export interface DueReminder extends TodoReminder {
+  fire_at: string;                    // UTC ISO time the reminder was due to fire
+}
+
 export interface Subtask {
   id: number;
   todo_id: number;
   title: string;
   completed: number;
   position: number;
+  assignee_id: number | null;
+  assignee_username?: string | null;  // Joined from users by findByTodo
   created_at: string;
 }
 
@@ -138,6 +300,59 @@ export interface Holiday {
   created_at: string;
 }
 
+export type NotificationType = 'reminder' | 'digest' | 'mention';
+export type NotificationStatus = 'pending' | 'delivered' | 'failed';
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  todo_id: number | null;
+  type: NotificationType;
+  channel: string;                    // Delivery channel name, e.g. 'in_app'
+  title: string;
+  body: string;
+  reminder_id: number | null;         // todo_reminders row that produced it (reminders only)
+  scheduled_for: string;              // UTC time the reminder was due to fire
+  status: NotificationStatus;
+  attempts: number;
+  error: string | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface PushSubscription {
+  id: number;
+  user_id: number;
+  endpoint: string;
+  p256dh: string;                     // Browser's public key (base64url)
+  auth: string;                       // Auth secret (base64url)
+  user_agent: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface EmailSettings {
+  user_id: number;
+  email: string | null;
+  reminders_enabled: number;          // 0 or 1
+  digest_enabled: number;             // 0 or 1
+  digest_hour: number;                // Hour of day (0-23) in the user's timezone
+  last_digest_date: string | null;    // yyyy-MM-dd in the user's timezone
+  updated_at: string | null;
+}
+
+// A saved search; filters and search_options are stored as JSON
+export interface SmartList {
+  id: number;
+  user_id: number;
+  name: string;
+  filters: FilterState;
+  search_options: SavedSearchOptions;
+  position: number;                   // 0-based order in the user's sidebar
+  created_at: string;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -173,6 +388,7 @@ export { RECURRENCE_CONFIGS } from './constants';
 
 /**
  * Validate recurrence pattern and return valid RecurrencePattern or null
+ * (custom RRULE strings are validated with normalizeRRule from lib/rrule.ts)
  */
 export function validateRecurrence(pattern?: string | null): RecurrencePattern | null {
   const valid: RecurrencePattern[] = ['daily', 'weekly', 'monthly', 'yearly'];
@@ -191,176 +407,39 @@ export type { ReminderOption } from './constants';
 export { REMINDER_OPTIONS } from './constants';
 
 /**
- * Validate reminder minutes and return valid value or null
+ * Validate a reminder offset (any whole number of minutes, not just the presets)
+ * and return valid value or null
  */
 export function validateReminderMinutes(minutes?: number | null): number | null {
   if (minutes === null || minutes === undefined) return null;
-  
-  const validOptions = [15, 30, 60, 120, 1440, 2880, 10080];
-  if (!validOptions.includes(minutes)) {
-    return null;
-  }
-  
-  return minutes;
+  return isValidReminderOffset(minutes) ? minutes : null;
 }
 
 // ============================================================================
 // Database Schema Initialization
 // ============================================================================
 
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    username TEXT NOT NULL UNIQUE,
-    display_name TEXT NOT NULL,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS authenticators (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    credential_id TEXT NOT NULL UNIQUE,
-    public_key TEXT NOT NULL,
-    counter INTEGER NOT NULL DEFAULT 0,
-    transports TEXT,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-  );
-
-  CREATE TABLE IF NOT EXISTS todos (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    title TEXT NOT NULL,
-    due_date TEXT NOT NULL,
-    priority TEXT NOT NULL DEFAULT 'medium',
-    completed INTEGER DEFAULT 0,
-    completed_at TEXT,
-    recurrence_pattern TEXT,
-    reminder_minutes INTEGER,
-    last_notification_sent TEXT,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-  );
-
-  CREATE TABLE IF NOT EXISTS subtasks (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    todo_id INTEGER NOT NULL,
-    title TEXT NOT NULL,
-    completed INTEGER DEFAULT 0,
-    position INTEGER NOT NULL DEFAULT 0,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE
-  );
-
-  CREATE TABLE IF NOT EXISTS tags (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    name TEXT NOT NULL,
-    color TEXT NOT NULL DEFAULT '#3B82F6',
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-    UNIQUE(user_id, name)
-  );
-
-  CREATE TABLE IF NOT EXISTS todo_tags (
-    todo_id INTEGER NOT NULL,
-    tag_id INTEGER NOT NULL,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    PRIMARY KEY (todo_id, tag_id),
-    FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE,
-    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-  );
-
-  CREATE TABLE IF NOT EXISTS templates (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    name TEXT NOT NULL,
-    category TEXT,
-    title TEXT NOT NULL,
-    priority TEXT NOT NULL DEFAULT 'medium',
-    due_offset_days INTEGER NOT NULL DEFAULT 0,
-    subtasks_json TEXT,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-  );
-
-  CREATE TABLE IF NOT EXISTS holidays (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    date TEXT NOT NULL UNIQUE,
-    name TEXT NOT NULL,
-    is_recurring INTEGER DEFAULT 0,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP
-  );
-`);
-
-// Create indexes for better performance
-try {
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_todos_user_id ON todos(user_id);
-    CREATE INDEX IF NOT EXISTS idx_todos_due_date ON todos(due_date);
-    CREATE INDEX IF NOT EXISTS idx_todos_completed ON todos(completed);
-    CREATE INDEX IF NOT EXISTS idx_subtasks_todo_id ON subtasks(todo_id);
-    CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
-    CREATE INDEX IF NOT EXISTS idx_todo_tags_todo_id ON todo_tags(todo_id);
-    CREATE INDEX IF NOT EXISTS idx_todo_tags_tag_id ON todo_tags(tag_id);
-    CREATE INDEX IF NOT EXISTS idx_authenticators_user_id ON authenticators(user_id);
-    CREATE INDEX IF NOT EXISTS idx_authenticators_credential_id ON authenticators(credential_id);
-    CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id);
-    CREATE INDEX IF NOT EXISTS idx_templates_category ON templates(category);
-  `);
-} catch (error) {
-  // Indexes might already exist
-}
+// Schema is managed by numbered migrations in lib/migrations/.
+// Refuses to boot if the database was migrated by a newer build.
+runMigrations(db).applied.forEach(m => {
+  console.log(`Applied migration ${m.version}: ${m.name}`);
+});
 
 // ============================================================================
-// Database Migrations (PRP-07: Template System)
+// Prepared Statement Cache
 // ============================================================================
 
-// Migrate templates table from old schema to new schema
-try {
-  // Check if old column exists
-  const columns = db.prepare("PRAGMA table_info(templates)").all() as any[];
-  const hasOldSchema = columns.some((col: any) => col.name === 'title_template');
-  
-  if (hasOldSchema) {
-    console.log('Migrating templates table to new schema...');
-    
-    // SQLite doesn't support renaming columns directly, so we need to recreate the table
-    db.exec(`
-      -- Create new templates table with correct schema
-      CREATE TABLE templates_new (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        category TEXT,
-        title TEXT NOT NULL,
-        priority TEXT NOT NULL DEFAULT 'medium',
-        due_offset_days INTEGER NOT NULL DEFAULT 0,
-        subtasks_json TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      );
-      
-      -- Copy data from old table, renaming columns
-      INSERT INTO templates_new (id, user_id, name, category, title, priority, due_offset_days, subtasks_json, created_at)
-      SELECT id, user_id, name, NULL as category, title_template as title, priority, due_date_offset_days as due_offset_days, subtasks_json, created_at
-      FROM templates;
-      
-      -- Drop old table
-      DROP TABLE templates;
-      
-      -- Rename new table
-      ALTER TABLE templates_new RENAME TO templates;
-      
-      -- Recreate indexes
-      CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id);
-      CREATE INDEX IF NOT EXISTS idx_templates_category ON templates(category);
-    `);
-    
-    console.log('Migration completed successfully');
+// Compiling a statement costs more than running a small one, so queries on
+// hot paths (loading todos and their relations) are compiled once per SQL text
+const statementCache = new Map<string, Statement>();
+
+function cached(sql: string): Statement {
+  let stmt = statementCache.get(sql);
+  if (!stmt) {
+    stmt = db.prepare(sql);
+    statementCache.set(sql, stmt);
   }
-} catch (error) {
-  console.error('Migration error (may be already migrated):', error);
+  return stmt;
 }
 
 // ============================================================================
@@ -396,6 +475,49 @@ export const userDB = {
     return stmt.get(username) as User | null;
   },
 
+  /**
+   * Get a user's timezone (falls back to the default for unknown users)
+   */
+  getTimezone(id: number): string {
+    const row = db.prepare('SELECT timezone FROM users WHERE id = ?').get(id) as { timezone: string } | undefined;
+    return row?.timezone || DEFAULT_TIMEZONE;
+  },
+
+  /**
+   * Update a user's timezone preference
+   */
+  updateTimezone(id: number, timezone: string): User | null {
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+    db.prepare('UPDATE users SET timezone = ? WHERE id = ?').run(timezone, id);
+    return this.findById(id);
+  },
+
+  /**
+   * Get the key bindings a user has changed from the defaults
+   */
+  getShortcuts(id: number): Partial<ShortcutMap> {
+    const row = db.prepare('SELECT keyboard_shortcuts FROM users WHERE id = ?').get(id) as
+      { keyboard_shortcuts: string } | undefined;
+    return row ? JSON.parse(row.keyboard_shortcuts) : {};
+  },
+
+  /**
+   * Replace a user's key bindings (validated with parseShortcutOverrides())
+   */
+  updateShortcuts(id: number, shortcuts: Partial<ShortcutMap>): void {
+    db.prepare('UPDATE users SET keyboard_shortcuts = ? WHERE id = ?').run(JSON.stringify(shortcuts), id);
+  },
+
+  /**
+   * Check whether a user may access /api/admin routes
+   */
+  isAdmin(id: number): boolean {
+    const row = db.prepare('SELECT is_admin FROM users WHERE id = ?').get(id) as { is_admin: number } | undefined;
+    return row?.is_admin === 1;
+  },
+
   /**
    * Get all users
    */
@@ -487,43 +609,204 @@ export const authenticatorDB = {
 // Todo CRUD Operations
 // ============================================================================
 
+// Todos a user can see: their personal ones plus those in lists they belong to.
+// Binds the user ID twice.
+export const ACCESSIBLE_TODO_SQL = `
+  ((t.user_id = ? AND t.list_id IS NULL)
+    OR t.list_id IN (SELECT list_id FROM list_members WHERE user_id = ?))
+`;
+
+const PRIORITY_RANK_SQL = `CASE t.priority WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END`;
+
+// Columns each sort orders by; t.id is appended to break ties
+const TODO_SORT_COLUMNS: Record<TodoSort, string[]> = {
+  priority: ['t.completed', PRIORITY_RANK_SQL, 't.due_date'],
+  due_date: ['t.due_date'],
+  created_at: ['t.created_at'],
+  title: ['lower(t.title)'],
+};
+
+/**
+ * WHERE clause (with joins) for the todos a user can see, narrowed by filters
+ */
+function buildTodoFilter(userId: number, options: TodoFilterOptions): { sql: string; params: any[] } {
+  let sql = '';
+  const params: any[] = [];
+
+  // Join with tags if filtering by tag
+  if (options.tagId) {
+    sql += ' INNER JOIN todo_tags tt ON t.id = tt.todo_id';
+    sql += ` WHERE ${ACCESSIBLE_TODO_SQL} AND tt.tag_id = ?`;
+    params.push(userId, userId, options.tagId);
+  } else {
+    sql += ` WHERE ${ACCESSIBLE_TODO_SQL}`;
+    params.push(userId, userId);
+  }
+  sql += ' AND t.deleted_at IS NULL';
+
+  // Filter by list
+  if (options.listId === null) {
+    sql += ' AND t.list_id IS NULL';
+  } else if (options.listId !== undefined) {
+    sql += ' AND t.list_id = ?';
+    params.push(options.listId);
+  }
+
+  // Filter by completion status
+  if (options.completed === 'complete') {
+    sql += ' AND t.completed = 1';
+  } else if (options.completed !== 'all') {
+    sql += ' AND t.completed = 0';
+  }
+
+  // Filter by priority
+  if (options.priority) {
+    sql += ' AND t.priority = ?';
+    params.push(options.priority);
+  }
+
+  // Filter by due date
+  if (options.dueFrom) {
+    sql += ' AND t.due_date >= ?';
+    params.push(options.dueFrom);
+  }
+  if (options.dueBefore) {
+    sql += ' AND t.due_date < ?';
+    params.push(options.dueBefore);
+  }
+
+  return { sql, params };
+}
+
+/**
+ * Compare two sort keys the way SQLite orders them (numbers before text)
+ */
+function compareSortKeys(a: unknown[], b: unknown[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] as string | number;
+    const y = b[i] as string | number;
+    if (x === y) continue;
+    if (typeof x !== typeof y) return typeof x === 'number' ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Group rows by their todo_id
+ */
+function groupByTodo<T extends { todo_id: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  rows.forEach(row => {
+    const group = groups.get(row.todo_id);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(row.todo_id, [row]);
+    }
+  });
+  return groups;
+}
+
 export const todoDB = {
   /**
    * Create a new todo
    */
   create(data: {
     user_id: number;
+    list_id?: number | null;
+    assignee_id?: number | null;
     title: string;
+    description?: string;
     due_date: string;
     priority?: Priority;
     recurrence_pattern?: RecurrencePattern | null;
-    reminder_minutes?: number | null;
+    recurrence_rule?: string | null;
+    recurrence_index?: number;
   }): Todo {
     const stmt = db.prepare(`
-      INSERT INTO todos (user_id, title, due_date, priority, recurrence_pattern, reminder_minutes)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO todos (user_id, list_id, assignee_id, title, description, due_date, priority, recurrence_pattern, recurrence_rule, recurrence_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       data.user_id,
+      data.list_id ?? null,
+      data.assignee_id ?? null,
       data.title.trim(),
+      data.description ?? '',
       data.due_date,
       data.priority || 'medium',
       data.recurrence_pattern || null,
-      data.reminder_minutes || null
+      data.recurrence_rule || null,
+      data.recurrence_index ?? 1
     );
     return this.findById(result.lastInsertRowid as number)!;
   },
 
   /**
-   * Find todo by ID
+   * Find todo by ID (todos in the trash are treated as missing)
    */
   findById(id: number): Todo | null {
+    const stmt = cached('SELECT * FROM todos WHERE id = ? AND deleted_at IS NULL');
+    return stmt.get(id) as Todo | null;
+  },
+
+  /**
+   * Find todo by ID, including one in the trash
+   */
+  findByIdIncludingDeleted(id: number): Todo | null {
     const stmt = db.prepare('SELECT * FROM todos WHERE id = ?');
     return stmt.get(id) as Todo | null;
   },
 
   /**
-   * Find all todos for a user with optional filters
+   * The user's role for a todo: 'owner' of their personal todos, their
+   * membership role for a shared list's todos, or null if they have no access
+   */
+  getRole(todo: Pick<Todo, 'user_id' | 'list_id'>, userId: number): ListRole | null {
+    if (todo.list_id === null) {
+      return todo.user_id === userId ? 'owner' : null;
+    }
+    return listDB.getRole(todo.list_id, userId);
+  },
+
+  /**
+   * Whether a user can be assigned a todo (or one of its subtasks): only its
+   * owner for personal todos, any owner or editor for a shared list's
+   */
+  canAssign(todo: Pick<Todo, 'user_id' | 'list_id'>, userId: number): boolean {
+    return canEditTodos(this.getRole(todo, userId));
+  },
+
+  /**
+   * Whether a user may take a todo out of its shared list (to their personal
+   * todos or another list), which hides it from the list's other members:
+   * only the list owner or the todo's creator. Personal todos can always move.
+   */
+  canMoveFromList(todo: Pick<Todo, 'user_id' | 'list_id'>, userId: number): boolean {
+    if (todo.list_id === null) return todo.user_id === userId;
+    return todo.user_id === userId || listDB.getRole(todo.list_id, userId) === 'owner';
+  },
+
+  /**
+   * Clear assignees who can no longer be assigned, e.g. after a move to another list
+   */
+  unassignIneligible(todoId: number): void {
+    const todo = this.findById(todoId);
+    if (!todo) return;
+
+    if (todo.assignee_id !== null && !this.canAssign(todo, todo.assignee_id)) {
+      db.prepare('UPDATE todos SET assignee_id = NULL WHERE id = ?').run(todoId);
+    }
+    subtaskDB.findByTodo(todoId).forEach(subtask => {
+      if (subtask.assignee_id !== null && !this.canAssign(todo, subtask.assignee_id)) {
+        subtaskDB.update(subtask.id, { assignee_id: null });
+      }
+    });
+  },
+
+  /**
+   * Find all todos a user can see (personal and shared lists) with optional filters
    */
   findByUser(
     userId: number,
@@ -531,51 +814,104 @@ export const todoDB = {
       includeCompleted?: boolean;
       priority?: Priority;
       tagId?: number;
+      listId?: number | null;         // A list's todos, or null for personal todos only
     }
   ): TodoWithRelations[] {
-    let query = 'SELECT DISTINCT t.* FROM todos t';
-    const params: any[] = [userId];
+    return this.findPage(userId, {
+      ...options,
+      completed: options?.includeCompleted ? 'all' : 'incomplete',
+    }).todos;
+  },
 
-    // Join with tags if filtering by tag
-    if (options?.tagId) {
-      query += ' INNER JOIN todo_tags tt ON t.id = tt.todo_id';
-      query += ' WHERE t.user_id = ? AND tt.tag_id = ?';
-      params.push(options.tagId);
-    } else {
-      query += ' WHERE t.user_id = ?';
+  /**
+   * One page of the todos a user can see, in sort order, with the total
+   * across all pages. Pages are keyset-based: pass the previous page's
+   * nextKey as `after`, so todos added or removed meanwhile don't shift them.
+   * @throws RangeError if `after` came from a different sort
+   */
+  findPage(userId: number, options: TodoPageOptions = {}): TodoPage {
+    const { sql: filterSql, params } = buildTodoFilter(userId, options);
+    const direction = options.order === 'desc' ? 'DESC' : 'ASC';
+    const keyColumns = [...TODO_SORT_COLUMNS[options.sort ?? 'priority'], 't.id'];
+    if (options.after && options.after.length !== keyColumns.length) {
+      throw new RangeError('Page key does not match the sort');
     }
 
-    // Filter by completion status
-    if (!options?.includeCompleted) {
-      query += ' AND t.completed = 0';
+    const selectSql = `
+      SELECT DISTINCT t.*, u.username AS assignee_username,
+        (SELECT COUNT(*) FROM comments c WHERE c.todo_id = t.id) AS comment_count,
+        (SELECT COUNT(*) FROM attachments a WHERE a.todo_id = t.id) AS attachment_count,
+        json_array(${keyColumns.join(', ')}) AS sort_key
+      FROM todos t
+      LEFT JOIN users u ON u.id = t.assignee_id
+      ${filterSql}
+    `;
+    const orderSql = ` ORDER BY ${keyColumns.map(column => `${column} ${direction}`).join(', ')}`;
+
+    const toPage = (rows: any[], hasMore: boolean, total: number): TodoPage => {
+      const keys = rows.map(row => JSON.parse(row.sort_key) as unknown[]);
+      const todos = rows.map(({ sort_key, ...todo }) => todo as TodoWithRelations);
+      return {
+        todos,
+        total,
+        nextKey: hasMore && keys.length > 0 ? keys[keys.length - 1] : null,
+      };
+    };
+
+    // A filter that runs in JS needs every matching todo, with relations,
+    // before it can count or page them
+    if (options.filter) {
+      const rows = this.withRelations(cached(selectSql + orderSql).all(...params) as TodoWithRelations[])
+        .filter(options.filter);
+      const after = options.after;
+      const sign = direction === 'DESC' ? -1 : 1;
+      const start = after
+        ? rows.findIndex(row => sign * compareSortKeys(JSON.parse((row as any).sort_key), after) > 0)
+        : 0;
+      const remaining = start === -1 ? [] : rows.slice(start);
+      const limit = options.limit ?? remaining.length;
+      return toPage(remaining.slice(0, limit), remaining.length > limit, rows.length);
     }
 
-    // Filter by priority
-    if (options?.priority) {
-      query += ' AND t.priority = ?';
-      params.push(options.priority);
+    const { total } = cached(`SELECT COUNT(DISTINCT t.id) AS total FROM todos t ${filterSql}`)
+      .get(...params) as { total: number };
+
+    let pageSql = selectSql;
+    const pageParams = [...params];
+    if (options.after) {
+      // Row values compare column by column, like the ORDER BY
+      pageSql += ` AND (${keyColumns.join(', ')}) ${direction === 'DESC' ? '<' : '>'} (${keyColumns.map(() => '?').join(', ')})`;
+      pageParams.push(...options.after);
+    }
+    pageSql += orderSql;
+    if (options.limit !== undefined) {
+      // One extra row tells whether there's a next page
+      pageSql += ' LIMIT ?';
+      pageParams.push(options.limit + 1);
     }
 
-    // Sort: incomplete first, then by priority (high→medium→low), then by due date
-    query += ` 
-      ORDER BY 
-        t.completed ASC,
-        CASE t.priority 
-          WHEN 'high' THEN 1 
-          WHEN 'medium' THEN 2 
-          WHEN 'low' THEN 3 
-        END ASC,
-        t.due_date ASC
-    `;
+    const rows = cached(pageSql).all(...pageParams) as any[];
+    const hasMore = options.limit !== undefined && rows.length > options.limit;
+    const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+    const page = toPage(pageRows, hasMore, total);
+    return { ...page, todos: this.withRelations(page.todos) };
+  },
 
-    const stmt = db.prepare(query);
-    const todos = stmt.all(...params) as Todo[];
+  /**
+   * Attach subtasks, tags and reminders to todos, loading each relation for
+   * the whole set in one query rather than one per todo
+   */
+  withRelations<T extends Todo>(todos: T[]): (T & Required<Pick<TodoWithRelations, 'subtasks' | 'tags' | 'reminders'>>)[] {
+    const ids = todos.map(todo => todo.id);
+    const subtasks = subtaskDB.findByTodos(ids);
+    const tags = this.getTagsByTodos(ids);
+    const reminders = todoReminderDB.findByTodos(ids);
 
-    // Attach subtasks and tags
     return todos.map(todo => ({
       ...todo,
-      subtasks: subtaskDB.findByTodo(todo.id),
-      tags: this.getTags(todo.id),
+      subtasks: subtasks.get(todo.id) ?? [],
+      tags: tags.get(todo.id) ?? [],
+      reminders: reminders.get(todo.id) ?? [],
     }));
   },
 
@@ -585,14 +921,17 @@ export const todoDB = {
   update(
     id: number,
     data: Partial<{
+      user_id: number;
+      list_id: number | null;
+      assignee_id: number | null;
       title: string;
+      description: string;
       due_date: string;
       priority: Priority;
       completed: number;
       completed_at: string | null;
       recurrence_pattern: RecurrencePattern | null;
-      reminder_minutes: number | null;
-      last_notification_sent: string | null;
+      recurrence_rule: string | null;
     }>
   ): Todo | null {
     const fields: string[] = [];
@@ -613,18 +952,60 @@ export const todoDB = {
   },
 
   /**
-   * Delete a todo (cascades to subtasks and tag relationships)
+   * Move a todo to the trash. Its subtasks, tags, reminders and attachments
+   * are kept so restore() brings it back whole.
    */
-  delete(id: number): void {
+  delete(id: number, deletedBy: number): void {
+    const stmt = db.prepare('UPDATE todos SET deleted_at = ?, deleted_by = ? WHERE id = ? AND deleted_at IS NULL');
+    stmt.run(new Date().toISOString(), deletedBy, id);
+  },
+
+  /**
+   * Take a todo out of the trash
+   */
+  restore(id: number): Todo | null {
+    db.prepare('UPDATE todos SET deleted_at = NULL, deleted_by = NULL WHERE id = ?').run(id);
+    return this.findById(id);
+  },
+
+  /**
+   * Delete a todo for good (cascades to subtasks, tag relationships,
+   * reminders, comments and attachment records)
+   */
+  purge(id: number): void {
     const stmt = db.prepare('DELETE FROM todos WHERE id = ?');
     stmt.run(id);
   },
 
+  /**
+   * Todos in the trash that a user can see, most recently deleted first
+   */
+  findTrash(userId: number): TrashedTodo[] {
+    const stmt = db.prepare(`
+      SELECT t.*, u.username AS deleted_by_username, l.name AS list_name,
+        (SELECT COUNT(*) FROM subtasks s WHERE s.todo_id = t.id) AS subtask_count
+      FROM todos t
+      LEFT JOIN users u ON u.id = t.deleted_by
+      LEFT JOIN lists l ON l.id = t.list_id
+      WHERE ${ACCESSIBLE_TODO_SQL} AND t.deleted_at IS NOT NULL
+      ORDER BY t.deleted_at DESC, t.id DESC
+    `);
+    return stmt.all(userId, userId) as TrashedTodo[];
+  },
+
+  /**
+   * Todos that went into the trash before a cutoff (due for purging)
+   */
+  findDeletedBefore(cutoff: Date): Todo[] {
+    const stmt = db.prepare('SELECT * FROM todos WHERE deleted_at IS NOT NULL AND deleted_at < ? ORDER BY id');
+    return stmt.all(cutoff.toISOString()) as Todo[];
+  },
+
   /**
    * Get tags for a todo
    */
   getTags(todoId: number): Tag[] {
-    const stmt = db.prepare(`
+    const stmt = cached(`
       SELECT t.* FROM tags t
       INNER JOIN todo_tags tt ON t.id = tt.tag_id
       WHERE tt.todo_id = ?
@@ -633,6 +1014,25 @@ export const todoDB = {
     return stmt.all(todoId) as Tag[];
   },
 
+  /**
+   * Tags of many todos in one query, by todo ID (todos without tags are left out)
+   */
+  getTagsByTodos(todoIds: number[]): Map<number, Tag[]> {
+    if (todoIds.length === 0) return new Map();
+    const rows = cached(`
+      SELECT tt.todo_id, t.* FROM tags t
+      INNER JOIN todo_tags tt ON t.id = tt.tag_id
+      WHERE tt.todo_id IN (SELECT value FROM json_each(?))
+      ORDER BY t.name
+    `).all(JSON.stringify(todoIds)) as (Tag & { todo_id: number })[];
+
+    const tags = new Map<number, Tag[]>();
+    groupByTodo(rows).forEach((group, todoId) => {
+      tags.set(todoId, group.map(({ todo_id, ...tag }) => tag));
+    });
+    return tags;
+  },
+
   /**
    * Add a tag to a todo
    */
@@ -652,48 +1052,53 @@ export const todoDB = {
     stmt.run(todoId, tagId);
   },
 
-  /**
-   * Get todos due for reminder notification
-   */
-  getDueForReminder(): Todo[] {
-    const now = formatSingaporeDate(getSingaporeNow());
-    const stmt = db.prepare(`
-      SELECT * FROM todos 
-      WHERE completed = 0 
-        AND reminder_minutes IS NOT NULL
-        AND (last_notification_sent IS NULL OR last_notification_sent < datetime('now', '-1 hour'))
-        AND datetime(due_date, '-' || reminder_minutes || ' minutes') <= ?
-      ORDER BY due_date ASC
-    `);
-    return stmt.all(now) as Todo[];
-  },
-
   /**
    * Create next recurring instance
    * Copies tags and subtasks from parent
+   * Returns null when a custom rule's end condition (COUNT/UNTIL) has been reached
    */
-  createRecurringInstance(parentTodo: Todo): Todo {
-    if (!parentTodo.recurrence_pattern) {
+  createRecurringInstance(parentTodo: Todo): Todo | null {
+    if (!parentTodo.recurrence_pattern && !parentTodo.recurrence_rule) {
       throw new Error('Todo is not recurring');
     }
 
-    // Import calculateNextDueDate dynamically to avoid circular dependency
-    const { calculateNextDueDate } = require('./recurrence');
-    const nextDueDate = calculateNextDueDate(
-      parentTodo.due_date,
-      parentTodo.recurrence_pattern
-    );
+    // Import recurrence helpers dynamically to avoid circular dependency
+    const { calculateNextDueDate, calculateNextRuleDueDate } = require('./recurrence');
+    // Repeat on the owner's wall clock so DST changes don't shift the time of day
+    const timeZone = userDB.getTimezone(parentTodo.user_id);
+    const nextDueDate: string | null = parentTodo.recurrence_rule
+      ? calculateNextRuleDueDate(parentTodo.due_date, parentTodo.recurrence_rule, parentTodo.recurrence_index ?? 1, timeZone)
+      : calculateNextDueDate(parentTodo.due_date, parentTodo.recurrence_pattern, timeZone);
+
+    if (!nextDueDate) {
+      return null;
+    }
 
     // Create next todo
     const nextTodo = this.create({
       user_id: parentTodo.user_id,
+      list_id: parentTodo.list_id,
+      assignee_id: parentTodo.assignee_id,
       title: parentTodo.title,
+      description: parentTodo.description,
       due_date: nextDueDate,
       priority: parentTodo.priority,
       recurrence_pattern: parentTodo.recurrence_pattern,
-      reminder_minutes: parentTodo.reminder_minutes ?? null,
+      recurrence_rule: parentTodo.recurrence_rule ?? null,
+      recurrence_index: (parentTodo.recurrence_index ?? 1) + 1,
     });
 
+    // Copy reminders; absolute ones move with the due date
+    const shiftMs = new Date(nextDueDate).getTime() - new Date(parentTodo.due_date).getTime();
+    todoReminderDB.replaceForTodo(
+      nextTodo.id,
+      todoReminderDB.findByTodo(parentTodo.id).map(reminder => (
+        reminder.remind_at
+          ? { remind_at: new Date(new Date(reminder.remind_at).getTime() + shiftMs).toISOString() }
+          : { offset_minutes: reminder.offset_minutes }
+      ))
+    );
+
     // Copy tags (many-to-many)
     const copyTagsStmt = db.prepare(`
       INSERT INTO todo_tags (todo_id, tag_id)
@@ -708,6 +1113,7 @@ export const todoDB = {
         todo_id: nextTodo.id,
         title: subtask.title,
         position: subtask.position,
+        assignee_id: subtask.assignee_id,
       });
     });
 
@@ -721,8 +1127,9 @@ export const todoDB = {
     const stmt = db.prepare(`
       SELECT * FROM todos 
       WHERE user_id = ? 
-        AND recurrence_pattern IS NOT NULL
+        AND (recurrence_pattern IS NOT NULL OR recurrence_rule IS NOT NULL)
         AND completed = 0
+        AND deleted_at IS NULL
       ORDER BY due_date ASC
     `);
     return stmt.all(userId) as Todo[];
@@ -730,57 +1137,205 @@ export const todoDB = {
 };
 
 // ============================================================================
-// Subtask CRUD Operations
+// Todo Reminder CRUD Operations
 // ============================================================================
 
-export const subtaskDB = {
+// When a reminder is due: its own time, or later if snoozed past it
+const REMINDER_FIRE_AT_SQL = `
+  max(
+    CASE WHEN r.remind_at IS NOT NULL THEN datetime(r.remind_at)
+      ELSE datetime(t.due_date, '-' || r.offset_minutes || ' minutes') END,
+    COALESCE(datetime(r.snoozed_until), '')
+  )
+`;
+
+export const todoReminderDB = {
   /**
-   * Create a new subtask
+   * Find reminder by ID
    */
-  create(data: {
-    todo_id: number;
-    title: string;
-    position: number;
-  }): Subtask {
-    const stmt = db.prepare(`
-      INSERT INTO subtasks (todo_id, title, position)
-      VALUES (?, ?, ?)
+  findById(id: number): TodoReminder | null {
+    const stmt = db.prepare('SELECT * FROM todo_reminders WHERE id = ?');
+    return stmt.get(id) as TodoReminder | null;
+  },
+
+  /**
+   * Find all reminders for a todo, relative ones first (largest offset first)
+   */
+  findByTodo(todoId: number): TodoReminder[] {
+    const stmt = cached(`
+      SELECT * FROM todo_reminders
+      WHERE todo_id = ?
+      ORDER BY remind_at IS NOT NULL, offset_minutes DESC, remind_at ASC
     `);
-    const result = stmt.run(data.todo_id, data.title.trim(), data.position);
-    return this.findById(result.lastInsertRowid as number)!;
+    return stmt.all(todoId) as TodoReminder[];
   },
 
   /**
-   * Find subtask by ID
+   * Reminders of many todos in one query, by todo ID (same order as findByTodo)
    */
-  findById(id: number): Subtask | null {
-    const stmt = db.prepare('SELECT * FROM subtasks WHERE id = ?');
-    return stmt.get(id) as Subtask | null;
+  findByTodos(todoIds: number[]): Map<number, TodoReminder[]> {
+    if (todoIds.length === 0) return new Map();
+    const rows = cached(`
+      SELECT * FROM todo_reminders
+      WHERE todo_id IN (SELECT value FROM json_each(?))
+      ORDER BY remind_at IS NOT NULL, offset_minutes DESC, remind_at ASC
+    `).all(JSON.stringify(todoIds)) as TodoReminder[];
+    return groupByTodo(rows);
   },
 
   /**
-   * Find all subtasks for a todo
+   * Set a todo's reminders. Reminders whose timing is unchanged keep their
+   * sent/snooze state, so re-saving a todo doesn't re-send them.
    */
-  findByTodo(todoId: number): Subtask[] {
+  replaceForTodo(todoId: number, reminders: ReminderInput[]): TodoReminder[] {
+    const wanted = new Map(reminders.map(r => [reminderKey(r), r]));
+
+    db.transaction(() => {
+      this.findByTodo(todoId).forEach(existing => {
+        const key = reminderKey(existing);
+        if (wanted.has(key)) {
+          wanted.delete(key);
+        } else {
+          db.prepare('DELETE FROM todo_reminders WHERE id = ?').run(existing.id);
+        }
+      });
+
+      const insert = db.prepare('INSERT INTO todo_reminders (todo_id, offset_minutes, remind_at) VALUES (?, ?, ?)');
+      wanted.forEach(reminder => {
+        insert.run(
+          todoId,
+          reminder.remind_at ? null : reminder.offset_minutes ?? null,
+          reminder.remind_at ?? null
+        );
+      });
+    })();
+
+    return this.findByTodo(todoId);
+  },
+
+  /**
+   * Reminders whose time has come but that haven't fired for it yet.
+   * A relative reminder only fires while its todo is still upcoming (unless
+   * snoozed); moving the due date or snoozing re-arms a reminder that already fired.
+   */
+  findDue(now: Date = new Date()): DueReminder[] {
     const stmt = db.prepare(`
-      SELECT * FROM subtasks 
-      WHERE todo_id = ? 
-      ORDER BY position ASC, created_at ASC
+      SELECT * FROM (
+        SELECT r.*, ${REMINDER_FIRE_AT_SQL} AS fire_at
+        FROM todo_reminders r
+        INNER JOIN todos t ON t.id = r.todo_id
+        WHERE t.completed = 0 AND t.deleted_at IS NULL
+          AND (r.offset_minutes IS NULL OR r.snoozed_until IS NOT NULL OR datetime(t.due_date) > datetime(?))
+      )
+      WHERE fire_at <= datetime(?)
+        AND (sent_at IS NULL OR datetime(sent_at) < fire_at)
+      ORDER BY fire_at ASC, id ASC
     `);
-    return stmt.all(todoId) as Subtask[];
+    const nowIso = now.toISOString();
+    const rows = stmt.all(nowIso, nowIso) as DueReminder[];
+    // SQLite datetime() drops the timezone designator; hand back ISO strings
+    return rows.map(row => ({ ...row, fire_at: new Date(row.fire_at.replace(' ', 'T') + 'Z').toISOString() }));
   },
 
   /**
-   * Update a subtask
+   * Add a single reminder to a todo
    */
-  update(
-    id: number,
-    data: Partial<{
-      title: string;
-      completed: number;
-      position: number;
-    }>
-  ): Subtask | null {
+  create(todoId: number, reminder: ReminderInput): TodoReminder {
+    const result = db.prepare('INSERT INTO todo_reminders (todo_id, offset_minutes, remind_at) VALUES (?, ?, ?)').run(
+      todoId,
+      reminder.remind_at ? null : reminder.offset_minutes ?? null,
+      reminder.remind_at ?? null
+    );
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Record that a reminder fired
+   */
+  markSent(id: number, sentAt: Date = new Date()): void {
+    db.prepare('UPDATE todo_reminders SET sent_at = ? WHERE id = ?').run(sentAt.toISOString(), id);
+  },
+
+  /**
+   * Snooze a reminder until the given time
+   */
+  snooze(id: number, until: Date): TodoReminder | null {
+    db.prepare('UPDATE todo_reminders SET snoozed_until = ? WHERE id = ?').run(until.toISOString(), id);
+    return this.findById(id);
+  },
+};
+
+// ============================================================================
+// Subtask CRUD Operations
+// ============================================================================
+
+export const subtaskDB = {
+  /**
+   * Create a new subtask
+   */
+  create(data: {
+    todo_id: number;
+    title: string;
+    position: number;
+    assignee_id?: number | null;
+  }): Subtask {
+    const stmt = db.prepare(`
+      INSERT INTO subtasks (todo_id, title, position, assignee_id)
+      VALUES (?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.todo_id, data.title.trim(), data.position, data.assignee_id ?? null);
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Find subtask by ID
+   */
+  findById(id: number): Subtask | null {
+    const stmt = db.prepare('SELECT * FROM subtasks WHERE id = ?');
+    return stmt.get(id) as Subtask | null;
+  },
+
+  /**
+   * Find all subtasks for a todo, with their assignee's username
+   */
+  findByTodo(todoId: number): Subtask[] {
+    const stmt = cached(`
+      SELECT s.*, u.username AS assignee_username
+      FROM subtasks s
+      LEFT JOIN users u ON u.id = s.assignee_id
+      WHERE s.todo_id = ? 
+      ORDER BY s.position ASC, s.created_at ASC
+    `);
+    return stmt.all(todoId) as Subtask[];
+  },
+
+  /**
+   * Subtasks of many todos in one query, by todo ID (same order as findByTodo)
+   */
+  findByTodos(todoIds: number[]): Map<number, Subtask[]> {
+    if (todoIds.length === 0) return new Map();
+    const rows = cached(`
+      SELECT s.*, u.username AS assignee_username
+      FROM subtasks s
+      LEFT JOIN users u ON u.id = s.assignee_id
+      WHERE s.todo_id IN (SELECT value FROM json_each(?))
+      ORDER BY s.position ASC, s.created_at ASC
+    `).all(JSON.stringify(todoIds)) as Subtask[];
+    return groupByTodo(rows);
+  },
+
+  /**
+   * Update a subtask
+   */
+  update(
+    id: number,
+    data: Partial<{
+      title: string;
+      completed: number;
+      position: number;
+      assignee_id: number | null;
+    }>
+  ): Subtask | null {
     const fields: string[] = [];
     const values: any[] = [];
 
@@ -866,9 +1421,10 @@ export const tagDB = {
     const stmt = db.prepare(`
       SELECT 
         tags.*,
-        COUNT(todo_tags.todo_id) as usage_count
+        COUNT(todos.id) as usage_count
       FROM tags
       LEFT JOIN todo_tags ON tags.id = todo_tags.tag_id
+      LEFT JOIN todos ON todos.id = todo_tags.todo_id AND todos.deleted_at IS NULL
       WHERE tags.user_id = ?
       GROUP BY tags.id
       ORDER BY tags.name ASC
@@ -914,6 +1470,14 @@ export const tagDB = {
     return this.findById(id);
   },
 
+  /**
+   * IDs of the todos a tag is on
+   */
+  getTodoIds(tagId: number): number[] {
+    const rows = db.prepare('SELECT todo_id FROM todo_tags WHERE tag_id = ?').all(tagId) as { todo_id: number }[];
+    return rows.map(row => row.todo_id);
+  },
+
   /**
    * Delete a tag (removes all todo associations)
    */
@@ -1102,8 +1666,872 @@ export const holidayDB = {
   },
 };
 
+// ============================================================================
+// Notification CRUD Operations
+// ============================================================================
+
+export const notificationDB = {
+  /**
+   * Record a notification for delivery on a channel
+   */
+  create(data: {
+    user_id: number;
+    todo_id?: number | null;
+    reminder_id?: number | null;
+    type?: NotificationType;
+    channel: string;
+    title: string;
+    body: string;
+    scheduled_for: string;
+  }): Notification {
+    const stmt = db.prepare(`
+      INSERT INTO notifications (user_id, todo_id, reminder_id, type, channel, title, body, scheduled_for)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.user_id,
+      data.todo_id ?? null,
+      data.reminder_id ?? null,
+      data.type || 'reminder',
+      data.channel,
+      data.title,
+      data.body,
+      data.scheduled_for
+    );
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Find notification by ID
+   */
+  findById(id: number): Notification | null {
+    const stmt = db.prepare('SELECT * FROM notifications WHERE id = ?');
+    return stmt.get(id) as Notification | null;
+  },
+
+  /**
+   * Find a user's notifications on a channel, newest first
+   */
+  findByUser(
+    userId: number,
+    options: { channel?: string; unreadOnly?: boolean; limit?: number } = {}
+  ): Notification[] {
+    let query = 'SELECT * FROM notifications WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (options.channel) {
+      query += ' AND channel = ?';
+      params.push(options.channel);
+    }
+
+    if (options.unreadOnly) {
+      query += " AND read_at IS NULL AND status = 'delivered'";
+    }
+
+    query += ' ORDER BY scheduled_for DESC, id DESC LIMIT ?';
+    params.push(options.limit ?? 50);
+
+    return db.prepare(query).all(...params) as Notification[];
+  },
+
+  /**
+   * Notifications still waiting for delivery (new, or failed with retries left)
+   */
+  findPending(maxAttempts: number): Notification[] {
+    const stmt = db.prepare(`
+      SELECT * FROM notifications
+      WHERE status = 'pending' OR (status = 'failed' AND attempts < ?)
+      ORDER BY id ASC
+    `);
+    return stmt.all(maxAttempts) as Notification[];
+  },
+
+  /**
+   * Mark a notification as delivered
+   */
+  markDelivered(id: number): void {
+    db.prepare(`
+      UPDATE notifications
+      SET status = 'delivered', attempts = attempts + 1, error = NULL, delivered_at = ?
+      WHERE id = ?
+    `).run(new Date().toISOString(), id);
+  },
+
+  /**
+   * Record a failed delivery attempt
+   */
+  markFailed(id: number, error: string): void {
+    db.prepare(`
+      UPDATE notifications
+      SET status = 'failed', attempts = attempts + 1, error = ?
+      WHERE id = ?
+    `).run(error, id);
+  },
+
+  /**
+   * Mark notifications as read (only the user's own)
+   * @returns Number of notifications updated
+   */
+  markRead(userId: number, ids: number[]): number {
+    if (ids.length === 0) return 0;
+    const placeholders = ids.map(() => '?').join(', ');
+    const result = db.prepare(`
+      UPDATE notifications
+      SET read_at = ?
+      WHERE user_id = ? AND read_at IS NULL AND id IN (${placeholders})
+    `).run(new Date().toISOString(), userId, ...ids);
+    return result.changes;
+  },
+
+  /**
+   * Mark all of a user's notifications about a todo as read (on every channel)
+   */
+  markReadForTodo(userId: number, todoId: number): number {
+    const result = db.prepare(`
+      UPDATE notifications SET read_at = ? WHERE user_id = ? AND todo_id = ? AND read_at IS NULL
+    `).run(new Date().toISOString(), userId, todoId);
+    return result.changes;
+  },
+
+  /**
+   * Mark all of a user's notifications as read
+   */
+  markAllRead(userId: number): number {
+    const result = db.prepare(`
+      UPDATE notifications SET read_at = ? WHERE user_id = ? AND read_at IS NULL
+    `).run(new Date().toISOString(), userId);
+    return result.changes;
+  },
+};
+
+// ============================================================================
+// Push Subscription CRUD Operations
+// ============================================================================
+
+export const pushSubscriptionDB = {
+  /**
+   * Save a subscription (re-subscribing the same endpoint updates its keys and owner)
+   */
+  upsert(data: {
+    user_id: number;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    user_agent?: string | null;
+  }): PushSubscription {
+    db.prepare(`
+      INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(endpoint) DO UPDATE SET
+        user_id = excluded.user_id,
+        p256dh = excluded.p256dh,
+        auth = excluded.auth,
+        user_agent = excluded.user_agent
+    `).run(data.user_id, data.endpoint, data.p256dh, data.auth, data.user_agent ?? null);
+    return this.findByEndpoint(data.endpoint)!;
+  },
+
+  /**
+   * Find subscription by endpoint URL
+   */
+  findByEndpoint(endpoint: string): PushSubscription | null {
+    const stmt = db.prepare('SELECT * FROM push_subscriptions WHERE endpoint = ?');
+    return stmt.get(endpoint) as PushSubscription | null;
+  },
+
+  /**
+   * Find all subscriptions (devices) for a user
+   */
+  findByUser(userId: number): PushSubscription[] {
+    const stmt = db.prepare('SELECT * FROM push_subscriptions WHERE user_id = ? ORDER BY created_at DESC');
+    return stmt.all(userId) as PushSubscription[];
+  },
+
+  /**
+   * Check whether a user has any push subscriptions
+   */
+  hasAny(userId: number): boolean {
+    const stmt = db.prepare('SELECT 1 FROM push_subscriptions WHERE user_id = ? LIMIT 1');
+    return stmt.get(userId) !== undefined;
+  },
+
+  /**
+   * Record a successful push to a subscription
+   */
+  touch(id: number): void {
+    db.prepare('UPDATE push_subscriptions SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  },
+
+  /**
+   * Delete a user's subscription by endpoint
+   * @returns True if a subscription was removed
+   */
+  deleteByEndpoint(userId: number, endpoint: string): boolean {
+    const result = db.prepare('DELETE FROM push_subscriptions WHERE user_id = ? AND endpoint = ?').run(userId, endpoint);
+    return result.changes > 0;
+  },
+
+  /**
+   * Delete a subscription (e.g. once the push service reports it expired)
+   */
+  delete(id: number): void {
+    db.prepare('DELETE FROM push_subscriptions WHERE id = ?').run(id);
+  },
+};
+
+// ============================================================================
+// Email Settings CRUD Operations
+// ============================================================================
+
+export const emailSettingsDB = {
+  /**
+   * Get a user's email settings (defaults, with everything off, if never saved)
+   */
+  get(userId: number): EmailSettings {
+    const stmt = db.prepare('SELECT * FROM email_settings WHERE user_id = ?');
+    const row = stmt.get(userId) as EmailSettings | undefined;
+    return row ?? {
+      user_id: userId,
+      email: null,
+      reminders_enabled: 0,
+      digest_enabled: 0,
+      digest_hour: 8,
+      last_digest_date: null,
+      updated_at: null,
+    };
+  },
+
+  /**
+   * Save a user's email settings (unspecified fields keep their current value)
+   */
+  update(
+    userId: number,
+    data: Partial<{
+      email: string | null;
+      reminders_enabled: number;
+      digest_enabled: number;
+      digest_hour: number;
+    }>
+  ): EmailSettings {
+    const merged = { ...this.get(userId), ...data };
+    db.prepare(`
+      INSERT INTO email_settings (user_id, email, reminders_enabled, digest_enabled, digest_hour, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(user_id) DO UPDATE SET
+        email = excluded.email,
+        reminders_enabled = excluded.reminders_enabled,
+        digest_enabled = excluded.digest_enabled,
+        digest_hour = excluded.digest_hour,
+        updated_at = excluded.updated_at
+    `).run(userId, merged.email, merged.reminders_enabled, merged.digest_enabled, merged.digest_hour);
+    return this.get(userId);
+  },
+
+  /**
+   * Users who have the daily digest turned on and an address to send it to
+   */
+  findDigestSubscribers(): (EmailSettings & { timezone: string })[] {
+    const stmt = db.prepare(`
+      SELECT es.*, u.timezone FROM email_settings es
+      INNER JOIN users u ON u.id = es.user_id
+      WHERE es.digest_enabled = 1 AND es.email IS NOT NULL
+    `);
+    return stmt.all() as (EmailSettings & { timezone: string })[];
+  },
+
+  /**
+   * Record the day (in the user's timezone) a digest was queued
+   */
+  markDigestQueued(userId: number, date: string): void {
+    db.prepare('UPDATE email_settings SET last_digest_date = ? WHERE user_id = ?').run(date, userId);
+  },
+};
+
+// ============================================================================
+// App Settings (key/value)
+// ============================================================================
+
+export const settingsDB = {
+  /**
+   * Get a setting value
+   */
+  get(key: string): string | null {
+    const row = db.prepare('SELECT value FROM app_settings WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  },
+
+  /**
+   * Set a setting value
+   */
+  set(key: string, value: string): void {
+    db.prepare(`
+      INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(key, value);
+  },
+};
+
+// ============================================================================
+// Shared List CRUD Operations
+// ============================================================================
+
+/**
+ * Unassign a user from a list's todos and their subtasks
+ */
+function unassignFromList(listId: number, userId: number): void {
+  db.prepare('UPDATE todos SET assignee_id = NULL WHERE list_id = ? AND assignee_id = ?').run(listId, userId);
+  db.prepare(`
+    UPDATE subtasks SET assignee_id = NULL
+    WHERE assignee_id = ? AND todo_id IN (SELECT id FROM todos WHERE list_id = ?)
+  `).run(userId, listId);
+}
+
+export const listDB = {
+  /**
+   * Create a list with the given user as its owner
+   */
+  create(name: string, ownerId: number): List {
+    return db.transaction(() => {
+      const result = db.prepare('INSERT INTO lists (name) VALUES (?)').run(name.trim());
+      const listId = result.lastInsertRowid as number;
+      db.prepare(`INSERT INTO list_members (list_id, user_id, role) VALUES (?, ?, 'owner')`).run(listId, ownerId);
+      return this.findById(listId)!;
+    })();
+  },
+
+  /**
+   * Find list by ID
+   */
+  findById(id: number): List | null {
+    const stmt = db.prepare('SELECT * FROM lists WHERE id = ?');
+    return stmt.get(id) as List | null;
+  },
+
+  /**
+   * All lists a user belongs to, with their role
+   */
+  findByUser(userId: number): ListWithRole[] {
+    const stmt = db.prepare(`
+      SELECT l.*, m.role,
+        (SELECT COUNT(*) FROM list_members WHERE list_id = l.id) AS member_count
+      FROM lists l
+      INNER JOIN list_members m ON m.list_id = l.id
+      WHERE m.user_id = ?
+      ORDER BY l.name COLLATE NOCASE ASC
+    `);
+    return stmt.all(userId) as ListWithRole[];
+  },
+
+  /**
+   * Rename a list
+   */
+  update(id: number, name: string): List | null {
+    db.prepare('UPDATE lists SET name = ? WHERE id = ?').run(name.trim(), id);
+    return this.findById(id);
+  },
+
+  /**
+   * Delete a list (cascades to its todos, members and invites)
+   */
+  delete(id: number): void {
+    db.prepare('DELETE FROM lists WHERE id = ?').run(id);
+  },
+
+  /**
+   * A user's role in a list, or null if they aren't a member
+   */
+  getRole(listId: number, userId: number): ListRole | null {
+    const row = db.prepare('SELECT role FROM list_members WHERE list_id = ? AND user_id = ?').get(listId, userId) as { role: ListRole } | undefined;
+    return row?.role ?? null;
+  },
+
+  /**
+   * Members of a list, owner first
+   */
+  getMembers(listId: number): ListMember[] {
+    const stmt = db.prepare(`
+      SELECT m.list_id, m.user_id, m.role, m.created_at, u.username, u.display_name
+      FROM list_members m
+      INNER JOIN users u ON u.id = m.user_id
+      WHERE m.list_id = ?
+      ORDER BY CASE m.role WHEN 'owner' THEN 1 WHEN 'editor' THEN 2 ELSE 3 END, u.username ASC
+    `);
+    return stmt.all(listId) as ListMember[];
+  },
+
+  /**
+   * Add a member; an existing member keeps their current role
+   */
+  addMember(listId: number, userId: number, role: ListRole): void {
+    db.prepare('INSERT OR IGNORE INTO list_members (list_id, user_id, role) VALUES (?, ?, ?)').run(listId, userId, role);
+  },
+
+  /**
+   * Change a member's role; viewers can't be assigned todos, so theirs are unassigned
+   */
+  updateMemberRole(listId: number, userId: number, role: ListRole): void {
+    db.transaction(() => {
+      db.prepare('UPDATE list_members SET role = ? WHERE list_id = ? AND user_id = ?').run(role, listId, userId);
+      if (!canEditTodos(role)) {
+        unassignFromList(listId, userId);
+      }
+    })();
+  },
+
+  /**
+   * Remove a member (their todos in the list stay with the list, unassigned)
+   */
+  removeMember(listId: number, userId: number): void {
+    db.transaction(() => {
+      db.prepare('DELETE FROM list_members WHERE list_id = ? AND user_id = ?').run(listId, userId);
+      unassignFromList(listId, userId);
+    })();
+  },
+};
+
+// ============================================================================
+// List Invite Operations
+// ============================================================================
+
+export const listInviteDB = {
+  /**
+   * Create a single-use invite link that expires after INVITE_TTL_DAYS
+   */
+  create(listId: number, role: ListRole, createdBy: number): ListInvite {
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const result = db.prepare(`
+      INSERT INTO list_invites (list_id, token, role, created_by, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(listId, token, role, createdBy, expiresAt);
+    return db.prepare('SELECT * FROM list_invites WHERE id = ?').get(result.lastInsertRowid) as ListInvite;
+  },
+
+  /**
+   * Find invite by its token
+   */
+  findByToken(token: string): ListInvite | null {
+    const stmt = db.prepare('SELECT * FROM list_invites WHERE token = ?');
+    return stmt.get(token) as ListInvite | null;
+  },
+
+  /**
+   * Unused, unexpired invites for a list
+   */
+  findPendingByList(listId: number, now: Date = new Date()): ListInvite[] {
+    const stmt = db.prepare(`
+      SELECT * FROM list_invites
+      WHERE list_id = ? AND accepted_at IS NULL AND expires_at > ?
+      ORDER BY created_at DESC, id DESC
+    `);
+    return stmt.all(listId, now.toISOString()) as ListInvite[];
+  },
+
+  /**
+   * Whether an invite can still be accepted
+   */
+  isUsable(invite: ListInvite, now: Date = new Date()): boolean {
+    return invite.accepted_at === null && new Date(invite.expires_at) > now;
+  },
+
+  /**
+   * Use up an invite and add the user to its list
+   */
+  accept(invite: ListInvite, userId: number): void {
+    db.transaction(() => {
+      db.prepare('UPDATE list_invites SET accepted_by = ?, accepted_at = ? WHERE id = ?')
+        .run(userId, new Date().toISOString(), invite.id);
+      listDB.addMember(invite.list_id, userId, invite.role);
+    })();
+  },
+
+  /**
+   * Revoke an invite
+   */
+  delete(id: number): void {
+    db.prepare('DELETE FROM list_invites WHERE id = ?').run(id);
+  },
+};
+
+// ============================================================================
+// Comment Operations
+// ============================================================================
+
+const COMMENT_WITH_AUTHOR_SQL = `
+  SELECT c.*, u.username, u.display_name
+  FROM comments c
+  JOIN users u ON u.id = c.user_id
+`;
+
+export const commentDB = {
+  /**
+   * Add a comment to a todo
+   */
+  create(todoId: number, userId: number, body: string): CommentWithAuthor {
+    const result = db.prepare(
+      'INSERT INTO comments (todo_id, user_id, body, created_at) VALUES (?, ?, ?, ?)'
+    ).run(todoId, userId, body, new Date().toISOString());
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Find comment by ID, with its author
+   */
+  findById(id: number): CommentWithAuthor | null {
+    return db.prepare(`${COMMENT_WITH_AUTHOR_SQL} WHERE c.id = ?`).get(id) as CommentWithAuthor | null;
+  },
+
+  /**
+   * A todo's comments, oldest first
+   */
+  findByTodo(todoId: number): CommentWithAuthor[] {
+    return db.prepare(
+      `${COMMENT_WITH_AUTHOR_SQL} WHERE c.todo_id = ? ORDER BY c.created_at ASC, c.id ASC`
+    ).all(todoId) as CommentWithAuthor[];
+  },
+
+  /**
+   * Replace a comment's body and mark it edited
+   */
+  update(id: number, body: string): CommentWithAuthor | null {
+    db.prepare('UPDATE comments SET body = ?, updated_at = ? WHERE id = ?').run(body, new Date().toISOString(), id);
+    return this.findById(id);
+  },
+
+  /**
+   * Delete a comment
+   */
+  delete(id: number): void {
+    db.prepare('DELETE FROM comments WHERE id = ?').run(id);
+  },
+};
+
+// ============================================================================
+// Attachment Operations
+// ============================================================================
+
+const ATTACHMENT_WITH_UPLOADER_SQL = `
+  SELECT a.*, u.username
+  FROM attachments a
+  JOIN users u ON u.id = a.user_id
+`;
+
+export const attachmentDB = {
+  /**
+   * Record a file that has been written to storage
+   */
+  create(data: Omit<Attachment, 'id' | 'created_at'>): AttachmentWithUploader {
+    const result = db.prepare(`
+      INSERT INTO attachments (todo_id, user_id, filename, mime_type, size, storage_key, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(data.todo_id, data.user_id, data.filename, data.mime_type, data.size, data.storage_key, new Date().toISOString());
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Find attachment by ID, with its uploader
+   */
+  findById(id: number): AttachmentWithUploader | null {
+    return db.prepare(`${ATTACHMENT_WITH_UPLOADER_SQL} WHERE a.id = ?`).get(id) as AttachmentWithUploader | null;
+  },
+
+  /**
+   * A todo's attachments, oldest first
+   */
+  findByTodo(todoId: number): AttachmentWithUploader[] {
+    return db.prepare(
+      `${ATTACHMENT_WITH_UPLOADER_SQL} WHERE a.todo_id = ? ORDER BY a.created_at ASC, a.id ASC`
+    ).all(todoId) as AttachmentWithUploader[];
+  },
+
+  /**
+   * Storage keys of a todo's files (collect before deleting the todo)
+   */
+  findStorageKeysByTodo(todoId: number): string[] {
+    const rows = db.prepare('SELECT storage_key FROM attachments WHERE todo_id = ?').all(todoId) as { storage_key: string }[];
+    return rows.map(row => row.storage_key);
+  },
+
+  /**
+   * Storage keys of every file in a list (collect before deleting the list)
+   */
+  findStorageKeysByList(listId: number): string[] {
+    const rows = db.prepare(`
+      SELECT a.storage_key FROM attachments a
+      JOIN todos t ON t.id = a.todo_id
+      WHERE t.list_id = ?
+    `).all(listId) as { storage_key: string }[];
+    return rows.map(row => row.storage_key);
+  },
+
+  /**
+   * Delete an attachment's record (the stored file is removed separately)
+   */
+  delete(id: number): void {
+    db.prepare('DELETE FROM attachments WHERE id = ?').run(id);
+  },
+};
+
+// ============================================================================
+// Todo Event Operations (audit log)
+// ============================================================================
+
+const TODO_EVENT_SQL = `
+  SELECT e.*, u.username
+  FROM todo_events e
+  LEFT JOIN users u ON u.id = e.user_id
+`;
+
+function parseEventRow(row: any): TodoEvent {
+  return {
+    ...row,
+    old_value: row.old_value === null ? null : JSON.parse(row.old_value),
+    new_value: row.new_value === null ? null : JSON.parse(row.new_value),
+  };
+}
+
+export const todoEventDB = {
+  /**
+   * Append events (one transaction, so a change is recorded whole or not at all)
+   */
+  createMany(events: TodoEventInput[]): void {
+    const stmt = db.prepare(`
+      INSERT INTO todo_events
+        (user_id, entity_type, entity_id, todo_id, list_id, action, field, old_value, new_value, summary, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const createdAt = new Date().toISOString();
+    db.transaction(() => {
+      for (const event of events) {
+        stmt.run(
+          event.user_id,
+          event.entity_type,
+          event.entity_id,
+          event.todo_id,
+          event.list_id,
+          event.action,
+          event.field,
+          event.old_value === undefined ? null : JSON.stringify(event.old_value),
+          event.new_value === undefined ? null : JSON.stringify(event.new_value),
+          event.summary,
+          createdAt
+        );
+      }
+    })();
+  },
+
+  /**
+   * A todo's history (including its subtasks and tags), newest first, limited
+   * to what the viewer could see at the time: their own changes and changes
+   * made in shared lists they belong to. Private edits from before a todo was
+   * moved into a shared list stay private.
+   * @param before Only events with a smaller id (for paging)
+   */
+  findByTodo(
+    todoId: number,
+    viewerId: number,
+    options: { before?: number; limit?: number } = {}
+  ): TodoEvent[] {
+    const rows = db.prepare(`
+      ${TODO_EVENT_SQL}
+      WHERE e.todo_id = ?
+        AND (e.user_id = ? OR e.list_id IN (SELECT list_id FROM list_members WHERE user_id = ?))
+        AND e.id < ?
+      ORDER BY e.id DESC
+      LIMIT ?
+    `).all(todoId, viewerId, viewerId, options.before ?? Number.MAX_SAFE_INTEGER, options.limit ?? 100);
+    return rows.map(parseEventRow);
+  },
+
+  /**
+   * A user's activity feed, newest first: their own changes and changes to
+   * todos in shared lists they belong to
+   * @param before Only events with a smaller id (for paging)
+   */
+  findFeedForUser(userId: number, options: { before?: number; limit?: number } = {}): TodoEvent[] {
+    const rows = db.prepare(`
+      ${TODO_EVENT_SQL}
+      WHERE (e.user_id = ? OR e.list_id IN (SELECT list_id FROM list_members WHERE user_id = ?))
+        AND e.id < ?
+      ORDER BY e.id DESC
+      LIMIT ?
+    `).all(userId, userId, options.before ?? Number.MAX_SAFE_INTEGER, options.limit ?? 50);
+    return rows.map(parseEventRow);
+  },
+};
+
+// ============================================================================
+// Full-Text Search
+// ============================================================================
+
+// Column weights for bm25(): title, description, subtasks, tags
+const SEARCH_RANK_SQL = 'bm25(todo_search, 10.0, 2.0, 4.0, 6.0)';
+
+export const todoSearchDB = {
+  /**
+   * Todos a user can see that match an FTS5 query (see toFtsQuery() in
+   * lib/search.ts), best match first, with the total number of matches
+   */
+  search(
+    userId: number,
+    query: string,
+    options: { limit: number; offset: number; includeCompleted?: boolean }
+  ): { rows: TodoSearchRow[]; total: number } {
+    const where = `
+      todo_search MATCH ? AND ${ACCESSIBLE_TODO_SQL} AND t.deleted_at IS NULL
+      ${options.includeCompleted === false ? 'AND t.completed = 0' : ''}
+    `;
+
+    const { total } = db.prepare(`
+      SELECT COUNT(*) AS total FROM todo_search
+      JOIN todos t ON t.id = todo_search.rowid
+      WHERE ${where}
+    `).get(query, userId, userId) as { total: number };
+
+    const marks = [SEARCH_MARK_START, SEARCH_MARK_END];
+    const rows = db.prepare(`
+      SELECT t.*, ${SEARCH_RANK_SQL} AS rank,
+        highlight(todo_search, 0, ?, ?) AS title_highlight,
+        snippet(todo_search, 1, ?, ?, '…', 16) AS description_snippet,
+        snippet(todo_search, 2, ?, ?, '…', 16) AS subtasks_snippet,
+        highlight(todo_search, 3, ?, ?) AS tags_highlight
+      FROM todo_search
+      JOIN todos t ON t.id = todo_search.rowid
+      WHERE ${where}
+      ORDER BY rank, t.id
+      LIMIT ? OFFSET ?
+    `).all(...marks, ...marks, ...marks, ...marks, query, userId, userId, options.limit, options.offset) as TodoSearchRow[];
+
+    return { rows, total };
+  },
+};
+
+// ============================================================================
+// Smart List Operations
+// ============================================================================
+
+function parseSmartListRow(row: any): SmartList {
+  return {
+    ...row,
+    filters: JSON.parse(row.filters),
+    search_options: JSON.parse(row.search_options),
+  };
+}
+
+export const smartListDB = {
+  /**
+   * Save a smart list at the end of the user's sidebar
+   */
+  create(data: {
+    user_id: number;
+    name: string;
+    filters: FilterState;
+    search_options: SavedSearchOptions;
+  }): SmartList {
+    const result = db.prepare(`
+      INSERT INTO smart_lists (user_id, name, filters, search_options, position)
+      VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM smart_lists WHERE user_id = ?))
+    `).run(
+      data.user_id,
+      data.name.trim(),
+      JSON.stringify(data.filters),
+      JSON.stringify(data.search_options),
+      data.user_id
+    );
+    return this.findById(result.lastInsertRowid as number)!;
+  },
+
+  /**
+   * Find smart list by ID
+   */
+  findById(id: number): SmartList | null {
+    const row = db.prepare('SELECT * FROM smart_lists WHERE id = ?').get(id);
+    return row ? parseSmartListRow(row) : null;
+  },
+
+  /**
+   * A user's smart lists in sidebar order
+   */
+  findByUser(userId: number): SmartList[] {
+    const rows = db.prepare('SELECT * FROM smart_lists WHERE user_id = ? ORDER BY position ASC, id ASC').all(userId);
+    return rows.map(parseSmartListRow);
+  },
+
+  /**
+   * Rename a smart list or replace its filters
+   */
+  update(
+    id: number,
+    data: Partial<{
+      name: string;
+      filters: FilterState;
+      search_options: SavedSearchOptions;
+    }>
+  ): SmartList | null {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      fields.push('name = ?');
+      values.push(data.name.trim());
+    }
+    if (data.filters !== undefined) {
+      fields.push('filters = ?');
+      values.push(JSON.stringify(data.filters));
+    }
+    if (data.search_options !== undefined) {
+      fields.push('search_options = ?');
+      values.push(JSON.stringify(data.search_options));
+    }
+
+    if (fields.length === 0) return this.findById(id);
+
+    values.push(id);
+    db.prepare(`UPDATE smart_lists SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+
+    return this.findById(id);
+  },
+
+  /**
+   * Move a smart list to a new position, shifting the ones in between
+   */
+  move(id: number, newPosition: number): void {
+    db.transaction(() => {
+      const list = this.findById(id);
+      if (!list || list.position === newPosition) return;
+
+      if (list.position < newPosition) {
+        db.prepare(`
+          UPDATE smart_lists SET position = position - 1
+          WHERE user_id = ? AND position > ? AND position <= ?
+        `).run(list.user_id, list.position, newPosition);
+      } else {
+        db.prepare(`
+          UPDATE smart_lists SET position = position + 1
+          WHERE user_id = ? AND position >= ? AND position < ?
+        `).run(list.user_id, newPosition, list.position);
+      }
+      db.prepare('UPDATE smart_lists SET position = ? WHERE id = ?').run(newPosition, id);
+    })();
+  },
+
+  /**
+   * Delete a smart list, closing the gap it leaves in the order
+   */
+  delete(id: number): void {
+    db.transaction(() => {
+      const list = this.findById(id);
+      if (!list) return;
+
+      db.prepare('DELETE FROM smart_lists WHERE id = ?').run(id);
+      db.prepare('UPDATE smart_lists SET position = position - 1 WHERE user_id = ? AND position > ?')
+        .run(list.user_id, list.position);
+    })();
+  },
+};
+
 // ============================================================================
 // Export Database Instance (for advanced queries)
 // ============================================================================
 
-export { db };
+export { db, dbConfig };
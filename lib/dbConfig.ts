@@ -0,0 +1,141 @@
+/**
+ * Database Configuration
+ *
+ * Resolves where and how the SQLite database is opened from environment
+ * variables, so deployments can point it at persistent storage.
+ *
+ *   DATABASE_PATH             File path, or ':memory:' (default: todos.db, or
+ *                             $RAILWAY_VOLUME_MOUNT_PATH/todos.db when a Railway
+ *                             volume is attached)
+ *   DATABASE_IN_MEMORY        'true' to use a throwaway in-memory database (tests)
+ *   DATABASE_WAL              'false' to disable write-ahead logging (default: on)
+ *   DATABASE_BUSY_TIMEOUT_MS  How long to wait on a locked database (default: 5000)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export interface DatabaseConfig {
+  path: string;
+  inMemory: boolean;
+  walMode: boolean;
+  busyTimeoutMs: number;
+}
+
+const IN_MEMORY_PATH = ':memory:';
+const DEFAULT_FILENAME = 'todos.db';
+const DEFAULT_BUSY_TIMEOUT_MS = 5000;
+
+// Locations that are wiped on reboot or container redeploy
+const EPHEMERAL_PREFIXES = ['/tmp', '/var/tmp', '/dev/shm'];
+
+/**
+ * Parse a boolean environment variable ('true'/'1'/'yes' and 'false'/'0'/'no')
+ */
+function parseBoolean(name: string, value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value.trim() === '') return fallback;
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+  throw new Error(`${name} must be true or false (got "${value}")`);
+}
+
+/**
+ * Build the database configuration from environment variables
+ */
+export function loadDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  const busyTimeoutRaw = env.DATABASE_BUSY_TIMEOUT_MS;
+  const busyTimeoutMs = busyTimeoutRaw ? Number(busyTimeoutRaw) : DEFAULT_BUSY_TIMEOUT_MS;
+  if (!Number.isInteger(busyTimeoutMs) || busyTimeoutMs < 0) {
+    throw new Error(`DATABASE_BUSY_TIMEOUT_MS must be a non-negative integer (got "${busyTimeoutRaw}")`);
+  }
+
+  const inMemory =
+    parseBoolean('DATABASE_IN_MEMORY', env.DATABASE_IN_MEMORY, false) ||
+    env.DATABASE_PATH === IN_MEMORY_PATH;
+
+  if (inMemory) {
+    // WAL is not supported for in-memory databases
+    return { path: IN_MEMORY_PATH, inMemory: true, walMode: false, busyTimeoutMs };
+  }
+
+  let dbPath = env.DATABASE_PATH?.trim();
+  if (!dbPath) {
+    dbPath = env.RAILWAY_VOLUME_MOUNT_PATH
+      ? path.join(env.RAILWAY_VOLUME_MOUNT_PATH, DEFAULT_FILENAME)
+      : DEFAULT_FILENAME;
+  }
+
+  return {
+    path: path.resolve(dbPath),
+    inMemory: false,
+    walMode: parseBoolean('DATABASE_WAL', env.DATABASE_WAL, true),
+    busyTimeoutMs,
+  };
+}
+
+/**
+ * Check whether a database path lives on storage that does not survive a redeploy
+ */
+export function isEphemeralPath(dbPath: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (dbPath === IN_MEMORY_PATH) return true;
+
+  const resolved = path.resolve(dbPath);
+  const prefixes = [...EPHEMERAL_PREFIXES, os.tmpdir()];
+  if (prefixes.some(prefix => resolved === prefix || resolved.startsWith(prefix + path.sep))) {
+    return true;
+  }
+
+  // On Railway the container filesystem is rebuilt on every deploy; only volumes persist
+  if (env.RAILWAY_ENVIRONMENT && env.RAILWAY_VOLUME_MOUNT_PATH) {
+    const volume = path.resolve(env.RAILWAY_VOLUME_MOUNT_PATH);
+    return !(resolved === volume || resolved.startsWith(volume + path.sep));
+  }
+  return Boolean(env.RAILWAY_ENVIRONMENT);
+}
+
+/**
+ * Print a prominent warning when production data would be lost on redeploy
+ */
+export function warnIfEphemeral(config: DatabaseConfig, env: NodeJS.ProcessEnv = process.env): void {
+  if (config.inMemory) {
+    if (env.NODE_ENV === 'production') {
+      console.warn('WARNING: Using an in-memory database in production. All data is lost on restart.');
+    }
+    return;
+  }
+
+  if (!isEphemeralPath(config.path, env)) return;
+
+  const line = '='.repeat(78);
+  console.warn(
+    [
+      line,
+      'WARNING: DATABASE IS ON EPHEMERAL STORAGE',
+      `  ${config.path}`,
+      '  This location is wiped on restart or redeploy and ALL DATA WILL BE LOST.',
+      '  Set DATABASE_PATH to a persistent volume (e.g. /data/todos.db).',
+      line,
+    ].join('\n')
+  );
+}
+
+/**
+ * Open a database connection using the given configuration
+ */
+export function openDatabase(config: DatabaseConfig): Database.Database {
+  if (!config.inMemory) {
+    fs.mkdirSync(path.dirname(config.path), { recursive: true });
+  }
+
+  const db = new Database(config.path, { timeout: config.busyTimeoutMs });
+
+  if (config.walMode) {
+    db.pragma('journal_mode = WAL');
+  }
+  db.pragma('foreign_keys = ON');
+
+  return db;
+}
@@ -0,0 +1,299 @@
+/**
+ * Email Delivery & Daily Digest
+ *
+ * Registered as the 'email' notification channel (see lib/notifications.ts)
+ * for users who turn on reminder emails, and queues an optional morning digest
+ * of due, overdue and upcoming recurring todos. Any SMTP server works; for
+ * local development point it at MailHog (SMTP_HOST=localhost SMTP_PORT=1025).
+ *
+ *   SMTP_HOST                 SMTP server; email is disabled when unset
+ *   SMTP_PORT                 Default: 587 (465 with SMTP_SECURE)
+ *   SMTP_SECURE               'true' for implicit TLS
+ *   SMTP_USER / SMTP_PASS     Credentials, if the server requires them
+ *   EMAIL_FROM                Sender (default: Todo App <todo@localhost>)
+ *   DIGEST_INTERVAL_SECONDS   How often to check for digests to queue, 0 disables (default: 300)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { db, emailSettingsDB, notificationDB, todoDB, userDB, Notification, Todo } from './db';
+import { NotificationChannel, registerChannel } from './notifications';
+import { calculateNextDueDate, calculateNextRuleDueDate } from './recurrence';
+import { takeRateLimitSlot } from './rateLimit';
+import { formatInZone } from './timezone';
+import { renderDigestEmail, renderReminderEmail } from './emailTemplates';
+
+export const EMAIL_CHANNEL = 'email';
+
+// How far ahead the digest looks for recurring instances
+export const DIGEST_UPCOMING_DAYS = 7;
+
+// Test emails go to an unverified address, so each user may only send a few
+export const TEST_EMAIL_LIMIT = 3;
+const TEST_EMAIL_WINDOW_MS = 60 * 60 * 1000;
+
+const DEFAULT_DIGEST_INTERVAL_SECONDS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops a long-overdue daily todo from being stepped forward indefinitely
+const MAX_RECURRENCE_STEPS = 400;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestInstance {
+  todo: Todo;
+  due_date: string;                   // UTC due date of this occurrence
+}
+
+export interface Digest {
+  date: string;                       // yyyy-MM-dd in the user's timezone
+  timeZone: string;
+  dueToday: Todo[];
+  overdue: Todo[];
+  upcoming: DigestInstance[];
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForEmail = globalThis as unknown as {
+  emailTransporter?: Transporter;
+  digestTimer?: NodeJS.Timeout;
+};
+
+/**
+ * Whether an SMTP server has been configured
+ */
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+function getTransporter(): Transporter {
+  if (!globalForEmail.emailTransporter) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    globalForEmail.emailTransporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : secure ? 465 : 587,
+      secure,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return globalForEmail.emailTransporter;
+}
+
+/**
+ * Send an email through the configured SMTP server
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!isEmailConfigured()) {
+    throw new Error('Email is not configured (set SMTP_HOST)');
+  }
+
+  await getTransporter().sendMail({
+    from: process.env.EMAIL_FROM || 'Todo App <todo@localhost>',
+    ...message,
+  });
+}
+
+/**
+ * Count a test email against the user's hourly limit
+ * @returns 0 if the email may be sent, otherwise the seconds until it may
+ */
+export function takeTestEmailSlot(userId: number, now: number = Date.now()): number {
+  return takeRateLimitSlot(`test-email:${userId}`, TEST_EMAIL_LIMIT, TEST_EMAIL_WINDOW_MS, now);
+}
+
+/**
+ * Occurrences of a recurring todo after today and within the digest window,
+ * starting from its current due date
+ */
+function getUpcomingInstances(todo: Todo, today: string, horizon: number, timeZone: string): DigestInstance[] {
+  const instances: DigestInstance[] = [];
+  let dueDate: string | null = todo.due_date;
+  let index = todo.recurrence_index ?? 1;
+
+  for (let step = 0; dueDate && step < MAX_RECURRENCE_STEPS; step++) {
+    if (new Date(dueDate).getTime() > horizon) break;
+    if (formatInZone(dueDate, timeZone, 'yyyy-MM-dd') > today) {
+      instances.push({ todo, due_date: dueDate });
+    }
+
+    dueDate = todo.recurrence_rule
+      ? calculateNextRuleDueDate(dueDate, todo.recurrence_rule, index, timeZone)
+      : calculateNextDueDate(dueDate, todo.recurrence_pattern!, timeZone);
+    index++;
+  }
+
+  return instances;
+}
+
+/**
+ * Build a user's digest: todos due later today, overdue todos, and recurring
+ * instances over the next DIGEST_UPCOMING_DAYS days
+ */
+export function buildDigest(userId: number, now: Date = new Date()): Digest {
+  const timeZone = userDB.getTimezone(userId);
+  const today = formatInZone(now, timeZone, 'yyyy-MM-dd');
+  const horizon = now.getTime() + DIGEST_UPCOMING_DAYS * DAY_MS;
+  const byDueDate = (a: { due_date: string }, b: { due_date: string }) => a.due_date.localeCompare(b.due_date);
+
+  const digest: Digest = { date: today, timeZone, dueToday: [], overdue: [], upcoming: [] };
+
+  todoDB.findByUser(userId).forEach(todo => {
+    if (new Date(todo.due_date).getTime() < now.getTime()) {
+      digest.overdue.push(todo);
+    } else if (formatInZone(todo.due_date, timeZone, 'yyyy-MM-dd') === today) {
+      digest.dueToday.push(todo);
+    }
+
+    if (todo.recurrence_pattern) {
+      digest.upcoming.push(...getUpcomingInstances(todo, today, horizon, timeZone));
+    }
+  });
+
+  digest.dueToday.sort(byDueDate);
+  digest.overdue.sort(byDueDate);
+  digest.upcoming.sort(byDueDate);
+  return digest;
+}
+
+/**
+ * Whether a digest has anything to report
+ */
+export function isDigestEmpty(digest: Digest): boolean {
+  return digest.dueToday.length === 0 && digest.overdue.length === 0 && digest.upcoming.length === 0;
+}
+
+/**
+ * One-line summary of a digest, e.g. "2 due today, 1 overdue, 3 upcoming"
+ */
+export function summarizeDigest(digest: Digest): string {
+  return `${digest.dueToday.length} due today, ${digest.overdue.length} overdue, ${digest.upcoming.length} upcoming`;
+}
+
+/**
+ * Queue a digest for every subscriber whose digest hour has arrived today
+ * (in their timezone) and who hasn't had one yet today
+ * @returns Notifications created (digests with nothing to report are skipped)
+ */
+export function enqueueDueDigests(now: Date = new Date()): Notification[] {
+  if (!isEmailConfigured()) return [];
+
+  const created: Notification[] = [];
+
+  const enqueue = db.transaction(() => {
+    emailSettingsDB.findDigestSubscribers().forEach(settings => {
+      const today = formatInZone(now, settings.timezone, 'yyyy-MM-dd');
+      const hour = Number(formatInZone(now, settings.timezone, 'H'));
+      if (settings.last_digest_date === today || hour < settings.digest_hour) return;
+
+      emailSettingsDB.markDigestQueued(settings.user_id, today);
+
+      const digest = buildDigest(settings.user_id, now);
+      if (isDigestEmpty(digest)) return;
+
+      created.push(notificationDB.create({
+        user_id: settings.user_id,
+        type: 'digest',
+        channel: EMAIL_CHANNEL,
+        title: `Your todos for ${formatInZone(now, settings.timezone, 'EEE, d MMM')}`,
+        body: summarizeDigest(digest),
+        scheduled_for: now.toISOString(),
+      }));
+    });
+  });
+
+  enqueue();
+  return created;
+}
+
+/**
+ * Notification channel that delivers reminders and digests by email
+ */
+export const emailChannel: NotificationChannel = {
+  name: EMAIL_CHANNEL,
+
+  // Digests are queued directly; this only governs reminders
+  types: ['reminder', 'digest'],
+
+  isEnabledFor(userId) {
+    if (!isEmailConfigured()) return false;
+    const settings = emailSettingsDB.get(userId);
+    return Boolean(settings.email) && settings.reminders_enabled === 1;
+  },
+
+  async deliver(notification: Notification) {
+    const settings = emailSettingsDB.get(notification.user_id);
+    if (!settings.email) {
+      throw new Error('No email address on file');
+    }
+
+    const timeZone = userDB.getTimezone(notification.user_id);
+    // Digests are rebuilt at send time so todos completed since queueing drop out
+    const message = notification.type === 'digest'
+      ? renderDigestEmail(buildDigest(notification.user_id))
+      : renderReminderEmail(
+          notification,
+          notification.todo_id ? todoDB.findById(notification.todo_id) : null,
+          timeZone
+        );
+
+    await sendEmail({ to: settings.email, ...message });
+  },
+};
+
+/**
+ * Add email to the reminder delivery channels (called from instrumentation.ts)
+ */
+export function registerEmailChannel(): void {
+  registerChannel(emailChannel);
+}
+
+function getDigestIntervalSeconds(): number {
+  const raw = process.env.DIGEST_INTERVAL_SECONDS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_DIGEST_INTERVAL_SECONDS;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`DIGEST_INTERVAL_SECONDS must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Start queueing daily digests (called once from instrumentation.ts).
+ * Queued digests are sent by the reminder scheduler's delivery pass.
+ */
+export function startDigestScheduler(): void {
+  if (globalForEmail.digestTimer) return;
+
+  if (!isEmailConfigured()) {
+    console.log('Email digest disabled (SMTP_HOST not set)');
+    return;
+  }
+
+  const intervalSeconds = getDigestIntervalSeconds();
+  if (intervalSeconds === 0) {
+    console.log('Email digest scheduler disabled');
+    return;
+  }
+
+  const tick = () => {
+    try {
+      const queued = enqueueDueDigests();
+      if (queued.length > 0) {
+        console.log(`Email digest: ${queued.length} queued`);
+      }
+    } catch (error) {
+      console.error('Email digest pass failed:', error);
+    }
+  };
+
+  globalForEmail.digestTimer = setInterval(tick, intervalSeconds * 1000);
+  globalForEmail.digestTimer.unref();
+  tick();
+
+  console.log(`Email digest scheduler checking every ${intervalSeconds} seconds`);
+}
@@ -0,0 +1,149 @@
+/**
+ * Email Templates
+ * HTML and plain-text versions of reminder and digest emails. The HTML uses
+ * inline styles and tables only, since most mail clients ignore stylesheets.
+ */
+
+import type { Notification, Todo } from './db';
+import type { Digest } from './email';
+import { escapeHtml } from './html';
+import { formatInZone } from './timezone';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const PRIORITY_COLORS: Record<string, string> = {
+  high: '#dc2626',
+  medium: '#d97706',
+  low: '#2563eb',
+};
+
+/**
+ * Base URL for links back to the app
+ */
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_ORIGIN || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function todoUrl(todoId: number): string {
+  return `${getAppUrl()}/#todo-${todoId}`;
+}
+
+function formatDue(dueDate: string, timeZone: string): string {
+  return formatInZone(dueDate, timeZone, 'EEE, d MMM yyyy, h:mm a');
+}
+
+function layout(heading: string, content: string): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f1f5f9;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0;">
+    <tr><td align="center">
+      <table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#ffffff;border-radius:8px;padding:24px;">
+        <tr><td>
+          <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h1>
+          ${content}
+          <p style="margin:24px 0 0;font-size:12px;color:#64748b;">
+            You're receiving this because email is turned on in your
+            <a href="${getAppUrl()}/" style="color:#64748b;">Todo App</a> settings.
+          </p>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function todoRow(todo: Todo, dueDate: string, timeZone: string): string {
+  const color = PRIORITY_COLORS[todo.priority] || PRIORITY_COLORS.medium;
+  return `<tr>
+    <td style="padding:8px 0;border-bottom:1px solid #e2e8f0;">
+      <span style="display:inline-block;width:8px;height:8px;border-radius:4px;background:${color};margin-right:8px;"></span>
+      <a href="${todoUrl(todo.id)}" style="color:#0f172a;text-decoration:none;font-weight:600;">${escapeHtml(todo.title)}</a>
+      <div style="margin-left:16px;font-size:13px;color:#64748b;">${escapeHtml(formatDue(dueDate, timeZone))}</div>
+    </td>
+  </tr>`;
+}
+
+function htmlSection(title: string, rows: string[]): string {
+  if (rows.length === 0) return '';
+  return `<h2 style="margin:20px 0 4px;font-size:15px;color:#334155;">${escapeHtml(title)} (${rows.length})</h2>
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows.join('')}</table>`;
+}
+
+function textSection(title: string, lines: string[]): string {
+  if (lines.length === 0) return '';
+  return `${title} (${lines.length})\n${lines.join('\n')}`;
+}
+
+/**
+ * Reminder email for a notification
+ * @param todo - The todo, or null if it was deleted after the reminder was queued
+ */
+export function renderReminderEmail(
+  notification: Notification,
+  todo: Todo | null,
+  timeZone: string
+): RenderedEmail {
+  const subject = todo ? `Reminder: ${todo.title}` : notification.title;
+
+  const text = [
+    notification.body,
+    todo ? `Due: ${formatDue(todo.due_date, timeZone)}` : '',
+    todo ? `Open: ${todoUrl(todo.id)}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  const html = layout(
+    notification.title,
+    `<p style="margin:0 0 16px;font-size:15px;">${escapeHtml(notification.body)}</p>
+    ${todo ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${todoRow(todo, todo.due_date, timeZone)}</table>` : ''}`
+  );
+
+  return { subject, text, html };
+}
+
+/**
+ * Daily digest email
+ */
+export function renderDigestEmail(digest: Digest): RenderedEmail {
+  const { timeZone } = digest;
+  const dayLabel = formatInZone(`${digest.date}T12:00:00`, timeZone, 'EEEE, d MMMM');
+  const subject = `Your todos for ${formatInZone(`${digest.date}T12:00:00`, timeZone, 'EEE, d MMM')}`;
+
+  const sections = [
+    { title: 'Overdue', items: digest.overdue.map(todo => ({ todo, due_date: todo.due_date })) },
+    { title: 'Due today', items: digest.dueToday.map(todo => ({ todo, due_date: todo.due_date })) },
+    { title: 'Upcoming recurring', items: digest.upcoming },
+  ];
+
+  const isEmpty = sections.every(section => section.items.length === 0);
+
+  const text = [
+    `Your todos for ${dayLabel}`,
+    ...(isEmpty
+      ? ['Nothing due today and nothing overdue.']
+      : sections.map(section => textSection(
+          section.title,
+          section.items.map(({ todo, due_date }) => `- ${todo.title} (${formatDue(due_date, timeZone)})`)
+        ))),
+    `Open Todo App: ${getAppUrl()}/`,
+  ].filter(Boolean).join('\n\n');
+
+  const html = layout(
+    `Your todos for ${dayLabel}`,
+    isEmpty
+      ? '<p style="margin:0;font-size:15px;">Nothing due today and nothing overdue.</p>'
+      : sections
+          .map(section => htmlSection(
+            section.title,
+            section.items.map(({ todo, due_date }) => todoRow(todo, due_date, timeZone))
+          ))
+          .join('')
+  );
+
+  return { subject, text, html };
+}
@@ -0,0 +1,259 @@
+/**
+ * Change History
+ *
+ * Records todo_events, the append-only audit log. Routes snapshot a record
+ * before changing it and again afterwards; recordChanges() writes one event
+ * per field that differs. Snapshots hold readable values (list and assignee
+ * names, tag names) so the history still makes sense after those change.
+ *
+ * A todo's snapshot covers its own fields, tags and reminders; subtasks have
+ * their own events (linked to the todo by todo_id).
+ */
+
+import {
+  listDB,
+  subtaskDB,
+  tagDB,
+  templateDB,
+  todoDB,
+  todoEventDB,
+  todoReminderDB,
+  userDB,
+  parseTemplateSubtasks,
+  EventEntity,
+  TodoEventInput,
+} from './db';
+import { reminderKey, toReminderInputs } from './reminders';
+
+export interface RecordSnapshot {
+  entity_type: EventEntity;
+  entity_id: number;
+  todo_id: number | null;
+  list_id: number | null;
+  summary: string;                    // Title or name
+  values: Record<string, unknown>;    // Field name -> readable value
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function usernameOf(userId: number | null): string | null {
+  return userId ? userDB.findById(userId)?.username ?? null : null;
+}
+
+/**
+ * A todo's current state (also while in the trash), or null if it doesn't exist
+ */
+export function snapshotTodo(todoId: number): RecordSnapshot | null {
+  const todo = todoDB.findByIdIncludingDeleted(todoId);
+  if (!todo) return null;
+
+  return {
+    entity_type: 'todo',
+    entity_id: todo.id,
+    todo_id: todo.id,
+    list_id: todo.list_id,
+    summary: todo.title,
+    values: {
+      title: todo.title,
+      description: todo.description,
+      due_date: todo.due_date,
+      priority: todo.priority,
+      completed: Boolean(todo.completed),
+      recurrence: todo.recurrence_rule ?? todo.recurrence_pattern,
+      list: todo.list_id ? listDB.findById(todo.list_id)?.name ?? null : null,
+      assignee: usernameOf(todo.assignee_id),
+      tags: todoDB.getTags(todo.id).map(tag => tag.name).sort(),
+      reminders: toReminderInputs(todoReminderDB.findByTodo(todo.id))
+        .sort((a, b) => reminderKey(a).localeCompare(reminderKey(b))),
+    },
+  };
+}
+
+/**
+ * A subtask's current state, or null if it doesn't exist
+ */
+export function snapshotSubtask(subtaskId: number): RecordSnapshot | null {
+  const subtask = subtaskDB.findById(subtaskId);
+  if (!subtask) return null;
+
+  return {
+    entity_type: 'subtask',
+    entity_id: subtask.id,
+    todo_id: subtask.todo_id,
+    list_id: todoDB.findByIdIncludingDeleted(subtask.todo_id)?.list_id ?? null,
+    summary: subtask.title,
+    values: {
+      title: subtask.title,
+      completed: Boolean(subtask.completed),
+      position: subtask.position,
+      assignee: usernameOf(subtask.assignee_id),
+    },
+  };
+}
+
+/**
+ * A tag's current state, or null if it doesn't exist
+ */
+export function snapshotTag(tagId: number): RecordSnapshot | null {
+  const tag = tagDB.findById(tagId);
+  if (!tag) return null;
+
+  return {
+    entity_type: 'tag',
+    entity_id: tag.id,
+    todo_id: null,
+    list_id: null,
+    summary: tag.name,
+    values: { name: tag.name, color: tag.color },
+  };
+}
+
+/**
+ * A template's current state, or null if it doesn't exist
+ */
+export function snapshotTemplate(templateId: number): RecordSnapshot | null {
+  const template = templateDB.findById(templateId);
+  if (!template) return null;
+
+  return {
+    entity_type: 'template',
+    entity_id: template.id,
+    todo_id: null,
+    list_id: null,
+    summary: template.name,
+    values: {
+      name: template.name,
+      category: template.category,
+      title: template.title,
+      priority: template.priority,
+      due_offset_days: template.due_offset_days,
+      subtasks: parseTemplateSubtasks(template).subtasks.map(subtask => subtask.title),
+    },
+  };
+}
+
+const SNAPSHOTS: Record<EventEntity, (id: number) => RecordSnapshot | null> = {
+  todo: snapshotTodo,
+  subtask: snapshotSubtask,
+  tag: snapshotTag,
+  template: snapshotTemplate,
+};
+
+/**
+ * Snapshots of every todo in a shared list and of their subtasks, for changes
+ * that touch the whole list (deleting it, removing a member)
+ * @param userId - A member of the list
+ */
+export function snapshotListTodos(listId: number, userId: number): RecordSnapshot[] {
+  return todoDB.findByUser(userId, { listId, includeCompleted: true }).flatMap(todo => [
+    snapshotTodo(todo.id),
+    ...subtaskDB.findByTodo(todo.id).map(subtask => snapshotSubtask(subtask.id)),
+  ]).filter((snapshot): snapshot is RecordSnapshot => snapshot !== null);
+}
+
+function toEvent(
+  actorId: number | null,
+  snapshot: RecordSnapshot,
+  fields: Pick<TodoEventInput, 'action' | 'field' | 'old_value' | 'new_value'>
+): TodoEventInput {
+  return {
+    user_id: actorId,
+    entity_type: snapshot.entity_type,
+    entity_id: snapshot.entity_id,
+    todo_id: snapshot.todo_id,
+    list_id: snapshot.list_id,
+    summary: snapshot.summary,
+    ...fields,
+  };
+}
+
+/**
+ * Record that something was created (the event holds its initial state)
+ */
+export function recordCreated(actorId: number | null, after: RecordSnapshot | null): void {
+  if (!after) return;
+  todoEventDB.createMany([
+    toEvent(actorId, after, { action: 'created', field: null, old_value: null, new_value: after.values }),
+  ]);
+}
+
+/**
+ * Record each field that differs between two snapshots of the same record
+ */
+export function recordChanges(actorId: number | null, before: RecordSnapshot, after: RecordSnapshot | null): void {
+  if (!after) return;
+
+  // A todo moved out of a shared list stays visible to that list's members
+  const context = { ...after, list_id: after.list_id ?? before.list_id };
+  const events = Object.keys(after.values)
+    .filter(field => JSON.stringify(before.values[field]) !== JSON.stringify(after.values[field]))
+    .map(field => toEvent(actorId, context, {
+      action: 'updated',
+      field,
+      old_value: before.values[field] ?? null,
+      new_value: after.values[field] ?? null,
+    }));
+
+  if (events.length > 0) todoEventDB.createMany(events);
+}
+
+/**
+ * Record what has happened to each record since it was snapshotted: changed
+ * fields, or deletion. Subtasks deleted along with their todo aren't recorded
+ * separately.
+ */
+export function recordChangesSince(actorId: number | null, befores: RecordSnapshot[]): void {
+  befores.forEach(before => {
+    const after = SNAPSHOTS[before.entity_type](before.entity_id);
+    if (after) {
+      recordChanges(actorId, before, after);
+    } else if (before.entity_type !== 'subtask' || (before.todo_id && todoDB.findByIdIncludingDeleted(before.todo_id))) {
+      recordDeleted(actorId, before);
+    }
+  });
+}
+
+/**
+ * Record that something was deleted (the event holds its last state). For
+ * todos this means moved to the trash.
+ */
+export function recordDeleted(actorId: number | null, before: RecordSnapshot | null): void {
+  if (!before) return;
+  todoEventDB.createMany([
+    toEvent(actorId, before, { action: 'deleted', field: null, old_value: before.values, new_value: null }),
+  ]);
+}
+
+/**
+ * Record that a todo came back out of the trash
+ */
+export function recordRestored(actorId: number | null, after: RecordSnapshot | null): void {
+  if (!after) return;
+  todoEventDB.createMany([
+    toEvent(actorId, after, { action: 'restored', field: null, old_value: null, new_value: after.values }),
+  ]);
+}
+
+/**
+ * Record that a todo was emptied from the trash for good (actor null when
+ * the retention period ran out)
+ */
+export function recordPurged(actorId: number | null, before: RecordSnapshot | null): void {
+  if (!before) return;
+  todoEventDB.createMany([
+    toEvent(actorId, before, { action: 'purged', field: null, old_value: before.values, new_value: null }),
+  ]);
+}
+
+/**
+ * Paging options from ?before=<event id>&limit=<n> (newest first)
+ */
+export function readEventPage(searchParams: URLSearchParams): { before?: number; limit: number } {
+  const before = Number(searchParams.get('before'));
+  const limit = Number(searchParams.get('limit'));
+  return {
+    before: Number.isInteger(before) && before > 0 ? before : undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  };
+}
@@ -1,14 +1,40 @@
-import { useEffect, useState } from 'react';
-import { Todo } from '@/lib/db';
+import { useEffect, useRef, useState } from 'react';
+import { Notification as ReminderRecord, Todo } from '@/lib/db';
+import { NOTIFICATION_ACTIONS } from '@/lib/constants';
 
 interface ReminderNotification {
+  notification: ReminderRecord;
   todo: Todo;
   minutesUntilDue: number;
 }
 
-export function useNotifications() {
+function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window;
+}
+
+/**
+ * Convert a base64url VAPID key to the byte array PushManager expects
+ */
+function urlBase64ToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+interface UseNotificationsOptions {
+  /** Called after a notification action (mark done, snooze) changed todos */
+  onTodosChanged?: () => void;
+}
+
+export function useNotifications(options: UseNotificationsOptions = {}) {
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const [isPolling, setIsPolling] = useState(false);
+  const [isPushSubscribed, setIsPushSubscribed] = useState(false);
+  const onTodosChangedRef = useRef(options.onTodosChanged);
+  onTodosChangedRef.current = options.onTodosChanged;
 
   // Request notification permission
   async function requestPermission() {
@@ -30,7 +56,82 @@ export function useNotifications() {
     }
   }, []);
 
-  // Poll for reminders every 60 seconds
+  // Subscribe this browser to Web Push so reminders arrive with the app closed
+  async function subscribeToPush(): Promise<boolean> {
+    if (!isPushSupported() || Notification.permission !== 'granted') return false;
+
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      let subscription = await registration.pushManager.getSubscription();
+
+      if (!subscription) {
+        const res = await fetch('/api/push/vapid-public-key');
+        if (!res.ok) return false;
+        const { publicKey } = await res.json();
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        });
+      }
+
+      // Always re-send: the server may have dropped an expired subscription
+      const saveRes = await fetch('/api/push/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      setIsPushSubscribed(saveRes.ok);
+      return saveRes.ok;
+    } catch (error) {
+      console.error('Failed to subscribe to push:', error);
+      return false;
+    }
+  }
+
+  // Stop push on this browser (in-app reminders still show while the app is open)
+  async function unsubscribeFromPush(): Promise<void> {
+    if (!isPushSupported()) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch('/api/push/unsubscribe', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setIsPushSubscribed(false);
+    } catch (error) {
+      console.error('Failed to unsubscribe from push:', error);
+    }
+  }
+
+  // Keep the push subscription registered whenever notifications are allowed
+  useEffect(() => {
+    if (permission === 'granted') {
+      subscribeToPush();
+    }
+  }, [permission]);
+
+  // The service worker applies notification actions; refresh when it reports one
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    function handleMessage(event: MessageEvent) {
+      if (event.data?.type === 'notification-action') {
+        onTodosChangedRef.current?.();
+      }
+    }
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Reminders are queued by the server-side scheduler; while the app is open,
+  // pick up unread in-app ones every 60 seconds and show them as desktop notifications
   useEffect(() => {
     if (permission !== 'granted') return;
 
@@ -43,9 +144,17 @@ export function useNotifications() {
 
         const data = await res.json();
         
+        const reminders: ReminderNotification[] = data.reminders;
+        if (reminders.length === 0) return;
+
         // Show notification for each reminder
-        data.reminders.forEach((reminder: ReminderNotification) => {
-          showNotification(reminder);
+        reminders.forEach(showNotification);
+
+        // Acknowledge so they aren't shown again
+        await fetch('/api/notifications/read', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: reminders.map(r => r.notification.id) }),
         });
       } catch (error) {
         console.error('Failed to check reminders:', error);
@@ -65,15 +174,31 @@ export function useNotifications() {
     };
   }, [permission]);
 
-  function showNotification(reminder: ReminderNotification) {
-    const { todo, minutesUntilDue } = reminder;
+  async function showNotification(reminder: ReminderNotification) {
+    const { notification: record, todo } = reminder;
+
+    // Action buttons only work on service worker notifications (handled in public/sw.js)
+    const registration = isPushSupported()
+      ? await navigator.serviceWorker.getRegistration('/sw.js')
+      : undefined;
+    const isReminder = record.type === 'reminder';
+    if (registration) {
+      await registration.showNotification(record.title, {
+        body: record.body,
+        icon: '/icon-192.png',
+        badge: '/icon-192.png',
+        tag: isReminder ? `todo-${todo.id}` : `notification-${record.id}`,
+        data: { notificationId: record.id, todoId: todo.id, url: `/#todo-${todo.id}` },
+        actions: isReminder ? NOTIFICATION_ACTIONS : undefined,
+      } as NotificationOptions);
+      return;
+    }
 
-    const timeStr = formatMinutes(minutesUntilDue);
-    const notification = new Notification('📋 Todo Reminder', {
-      body: `${todo.title} is due in ${timeStr}`,
+    const notification = new Notification(record.title, {
+      body: record.body,
       icon: '/icon-192.png',
       badge: '/icon-192.png',
-      tag: `todo-${todo.id}`,  // Prevents duplicate notifications
+      tag: isReminder ? `todo-${todo.id}` : `notification-${record.id}`,  // Prevents duplicate notifications
       requireInteraction: false,
     });
 
@@ -88,18 +213,14 @@ export function useNotifications() {
     };
   }
 
-  function formatMinutes(minutes: number): string {
-    if (minutes < 60) return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''}`;
-    const days = Math.floor(hours / 24);
-    return `${days} day${days !== 1 ? 's' : ''}`;
-  }
-
   return {
     permission,
     requestPermission,
     isPolling,
+    isPushSubscribed,
+    subscribeToPush,
+    unsubscribeFromPush,
     isSupported: typeof window !== 'undefined' && 'Notification' in window,
+    isPushSupported: isPushSupported(),
   };
 }
@@ -0,0 +1,18 @@
+/**
+ * HTML Utilities
+ *
+ * Used by the email templates and search highlighting. Safe to import from
+ * client components.
+ */
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,355 @@
+/**
+ * Markdown Parsing
+ *
+ * A small markdown subset for comments and todo descriptions: paragraphs,
+ * headings (#, ##, ###), bullet and numbered lists, - [ ] checklists,
+ * > quotes, ``` code blocks, **bold**, *italic*, ~~strikethrough~~, `code`,
+ * [links](https://…) and @mentions.
+ *
+ * Text is parsed into nodes rather than HTML, so rendering (components/Markdown.tsx)
+ * never injects markup. Safe to import from client components.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; username: string }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'code_block'; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'rule' };
+
+export interface ListItem {
+  checked: boolean | null;            // Checklist items ("- [ ]", "- [x]"); null for plain items
+  children: InlineNode[];
+}
+
+// Usernames may contain dots and dashes, but not end with them ("@bob." mentions bob)
+const MENTION_PATTERN = /^@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/;
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^```/;
+const RULE_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+// A checklist line in the source, possibly inside a quote; group 2 is the box
+const TASK_LINE_PATTERN = /^((?:>\s?)*\s*[-*+]\s+\[)([ xX])(\]\s)/;
+
+// Paired delimiters, longest first so ** wins over *
+const EMPHASIS: { marker: string; type: 'strong' | 'em' | 'strike' }[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'em' },
+  { marker: '_', type: 'em' },
+];
+
+/**
+ * Whether a link target is safe to render (no javascript: or data: URLs)
+ */
+export function isSafeLink(href: string): boolean {
+  return SAFE_LINK_PATTERN.test(href.trim());
+}
+
+/**
+ * Parse inline markdown (one paragraph, list item or heading)
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const ch = text[i];
+
+    // Backslash escapes the next character
+    if (ch === '\\' && i + 1 < text.length && /[\\`*_~[\]()@#>-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest);
+      if (link && isSafeLink(link[2])) {
+        flush();
+        nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    // Not part of a word or email address ("me@example.com" isn't a mention)
+    if (ch === '@' && (i === 0 || !/[A-Za-z0-9_.]/.test(text[i - 1]))) {
+      const mention = MENTION_PATTERN.exec(rest);
+      if (mention) {
+        flush();
+        nodes.push({ type: 'mention', username: mention[1] });
+        i += mention[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(({ marker }) => rest.startsWith(marker));
+    // Underscores inside words (snake_case) aren't emphasis
+    const midWord = ch === '_' && i > 0 && /[A-Za-z0-9]/.test(text[i - 1]);
+    if (emphasis && !midWord) {
+      const { marker, type } = emphasis;
+      const end = text.indexOf(marker, i + marker.length);
+      // Needs content that doesn't start or end with a space ("2 * 3 * 4" stays text)
+      const inner = end > i + marker.length ? text.slice(i + marker.length, end) : '';
+      if (inner && inner.trim() === inner) {
+        flush();
+        nodes.push({ type, children: parseInline(inner) });
+        i = end + marker.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse markdown into blocks
+ */
+export function parseMarkdown(markdown: string): BlockNode[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of text)
+      blocks.push({ type: 'code_block', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2].trim()),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoted.push(QUOTE_PATTERN.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listPattern = BULLET_PATTERN.test(line) ? BULLET_PATTERN : ORDERED_PATTERN.test(line) ? ORDERED_PATTERN : null;
+    if (listPattern) {
+      const items: ListItem[] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        const text = listPattern.exec(lines[i])![1];
+        const task = listPattern === BULLET_PATTERN ? TASK_PATTERN.exec(text) : null;
+        items.push(task
+          ? { checked: task[1] !== ' ', children: parseInline(task[2]) }
+          : { checked: null, children: parseInline(text) });
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED_PATTERN, items });
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block starts
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !(paragraph.length > 0 && startsBlock(lines[i]))
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return [FENCE_PATTERN, HEADING_PATTERN, QUOTE_PATTERN, BULLET_PATTERN, ORDERED_PATTERN, RULE_PATTERN]
+    .some(pattern => pattern.test(line));
+}
+
+/**
+ * Usernames @mentioned in markdown, in order of first mention (code is ignored)
+ */
+export function extractMentions(markdown: string): string[] {
+  const usernames = new Set<string>();
+
+  const visitInline = (nodes: InlineNode[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'mention') usernames.add(node.username);
+      if ('children' in node) visitInline(node.children);
+    });
+  };
+  const visitBlocks = (blocks: BlockNode[]) => {
+    blocks.forEach(block => {
+      if (block.type === 'paragraph' || block.type === 'heading') visitInline(block.children);
+      if (block.type === 'list') block.items.forEach(item => visitInline(item.children));
+      if (block.type === 'quote') visitBlocks(block.children);
+    });
+  };
+
+  visitBlocks(parseMarkdown(markdown));
+  return [...usernames];
+}
+
+/**
+ * Plain-text version of markdown, e.g. for notification bodies
+ */
+export function toPlainText(markdown: string): string {
+  const inlineText = (nodes: InlineNode[]): string =>
+    nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'mention':
+          return `@${node.username}`;
+        case 'break':
+          return ' ';
+        default:
+          return inlineText(node.children);
+      }
+    }).join('');
+
+  const blockText = (blocks: BlockNode[]): string[] =>
+    blocks.flatMap(block => {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          return [inlineText(block.children)];
+        case 'code_block':
+          return [block.text];
+        case 'quote':
+          return blockText(block.children);
+        case 'list':
+          return block.items.map(item => inlineText(item.children));
+        case 'rule':
+          return [];
+      }
+    });
+
+  return blockText(parseMarkdown(markdown)).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Tick or untick the nth checklist item (0-based, in document order)
+ * @returns The updated markdown, unchanged if there is no such item
+ */
+export function toggleTaskItem(markdown: string, index: number): string {
+  const lines = markdown.split('\n');
+  let inCode = false;
+  let seen = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+
+    const task = TASK_LINE_PATTERN.exec(lines[i]);
+    if (!task) continue;
+    if (seen++ === index) {
+      const box = task[2] === ' ' ? 'x' : ' ';
+      lines[i] = task[1] + box + task[3] + lines[i].slice(task[0].length);
+      return lines.join('\n');
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * Checklist progress, e.g. { done: 2, total: 5 }
+ */
+export function countTaskItems(markdown: string): { done: number; total: number } {
+  let done = 0;
+  let total = 0;
+
+  const visit = (blocks: BlockNode[]) => {
+    blocks.forEach(block => {
+      if (block.type === 'quote') visit(block.children);
+      if (block.type !== 'list') return;
+      block.items.forEach(item => {
+        if (item.checked === null) return;
+        total++;
+        if (item.checked) done++;
+      });
+    });
+  };
+
+  visit(parseMarkdown(markdown));
+  return { done, total };
+}
@@ -0,0 +1,177 @@
+/**
+ * Schema Migration Runner
+ *
+ * Applies the numbered migrations in lib/migrations/ in order and records each
+ * one in the `schema_migrations` table. Every migration runs inside its own
+ * transaction, so a failing up-step leaves the database at the previous version.
+ *
+ * Used by lib/db.ts at startup and by scripts/migrate.ts from the command line.
+ */
+
+import type Database from 'better-sqlite3';
+import { migrations } from './migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+export interface MigrationResult {
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; name: string }>;
+}
+
+// Thrown inside the dry-run transaction to force a rollback
+class DryRunRollback extends Error {}
+
+/**
+ * Create the schema_migrations bookkeeping table if missing
+ */
+export function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+/**
+ * Validate that the migration list is strictly increasing with unique versions
+ */
+function getOrderedMigrations(): Migration[] {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Migrations must have strictly increasing versions (found ${migration.version} after ${previous})`
+      );
+    }
+    previous = migration.version;
+  }
+  return migrations;
+}
+
+/**
+ * Highest migration version known to this build of the code
+ */
+export function getLatestVersion(): number {
+  const ordered = getOrderedMigrations();
+  return ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+}
+
+/**
+ * Get all migrations recorded as applied in the database
+ */
+export function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  // Read-only: a database that predates the framework simply has no rows yet
+  const table = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+    .get();
+  if (!table) return [];
+
+  const stmt = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC');
+  return stmt.all() as AppliedMigration[];
+}
+
+/**
+ * Report the current and pending migrations without changing anything
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus {
+  const applied = getAppliedMigrations(db);
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const pending = getOrderedMigrations()
+    .filter(m => !appliedVersions.has(m.version))
+    .map(m => ({ version: m.version, name: m.name }));
+
+  return {
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+    latestVersion: getLatestVersion(),
+    applied,
+    pending,
+  };
+}
+
+/**
+ * Refuse to continue if the database was migrated by a newer build.
+ * Running old code against a newer schema can silently corrupt data.
+ */
+export function assertSchemaNotAhead(db: Database.Database): void {
+  const { currentVersion, latestVersion } = getMigrationStatus(db);
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is ahead of this build (latest known migration is ${latestVersion}). ` +
+      'Deploy a newer version of the app or restore a matching backup.'
+    );
+  }
+}
+
+/**
+ * Apply all pending migrations in order.
+ * With dryRun, the pending migrations are executed and then rolled back,
+ * which verifies they apply cleanly without changing the database.
+ * Nothing is logged here; callers report `applied` however suits them.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: { dryRun?: boolean } = {}
+): MigrationResult {
+  const dryRun = options.dryRun ?? false;
+
+  assertSchemaNotAhead(db);
+
+  const status = getMigrationStatus(db);
+  const pendingVersions = new Set(status.pending.map(m => m.version));
+  const pending = getOrderedMigrations().filter(m => pendingVersions.has(m.version));
+
+  const result: MigrationResult = {
+    dryRun,
+    fromVersion: status.currentVersion,
+    toVersion: status.currentVersion,
+    applied: [],
+  };
+
+  if (pending.length === 0) return result;
+
+  const apply = (migration: Migration) => {
+    ensureMigrationsTable(db);
+    migration.up(db);
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)')
+      .run(migration.version, migration.name);
+  };
+
+  if (dryRun) {
+    // Run everything in one transaction so later migrations see earlier ones
+    try {
+      db.transaction(() => {
+        pending.forEach(apply);
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+  } else {
+    pending.forEach(migration => db.transaction(() => apply(migration))());
+  }
+
+  result.applied = pending.map(m => ({ version: m.version, name: m.name }));
+  result.toVersion = pending[pending.length - 1].version;
+  return result;
+}
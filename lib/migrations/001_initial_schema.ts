@@ -0,0 +1,110 @@
+/**
+ * Migration 001 - Initial schema
+ *
+ * Baseline tables for users, authenticators, todos, subtasks, tags, templates
+ * and holidays. Uses IF NOT EXISTS so databases created before the migration
+ * framework existed are adopted without changes.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration001: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE,
+        display_name TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS authenticators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        credential_id TEXT NOT NULL UNIQUE,
+        public_key TEXT NOT NULL,
+        counter INTEGER NOT NULL DEFAULT 0,
+        transports TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS todos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        due_date TEXT NOT NULL,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        completed INTEGER DEFAULT 0,
+        completed_at TEXT,
+        recurrence_pattern TEXT,
+        reminder_minutes INTEGER,
+        last_notification_sent TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS subtasks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        todo_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        completed INTEGER DEFAULT 0,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL DEFAULT '#3B82F6',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(user_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS todo_tags (
+        todo_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (todo_id, tag_id),
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        category TEXT,
+        title TEXT NOT NULL,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        due_offset_days INTEGER NOT NULL DEFAULT 0,
+        subtasks_json TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS holidays (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        is_recurring INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_todos_user_id ON todos(user_id);
+      CREATE INDEX IF NOT EXISTS idx_todos_due_date ON todos(due_date);
+      CREATE INDEX IF NOT EXISTS idx_todos_completed ON todos(completed);
+      CREATE INDEX IF NOT EXISTS idx_subtasks_todo_id ON subtasks(todo_id);
+      CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+      CREATE INDEX IF NOT EXISTS idx_todo_tags_todo_id ON todo_tags(todo_id);
+      CREATE INDEX IF NOT EXISTS idx_todo_tags_tag_id ON todo_tags(tag_id);
+      CREATE INDEX IF NOT EXISTS idx_authenticators_user_id ON authenticators(user_id);
+      CREATE INDEX IF NOT EXISTS idx_authenticators_credential_id ON authenticators(credential_id);
+    `);
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Migration 002 - Templates schema (PRP-07: Template System)
+ *
+ * Early builds stored templates with `title_template` and
+ * `due_date_offset_days` and no category. SQLite can't rename those columns in
+ * place, so the table is rebuilt. Template indexes live here rather than in
+ * 001 because the category index can only be created after the rebuild.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration002: Migration = {
+  version: 2,
+  name: 'templates_new_schema',
+  up(db) {
+    const columns = db.prepare('PRAGMA table_info(templates)').all() as Array<{ name: string }>;
+    const hasOldSchema = columns.some(col => col.name === 'title_template');
+
+    if (hasOldSchema) {
+      db.exec(`
+        CREATE TABLE templates_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          category TEXT,
+          title TEXT NOT NULL,
+          priority TEXT NOT NULL DEFAULT 'medium',
+          due_offset_days INTEGER NOT NULL DEFAULT 0,
+          subtasks_json TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        INSERT INTO templates_new (id, user_id, name, category, title, priority, due_offset_days, subtasks_json, created_at)
+        SELECT id, user_id, name, NULL as category, title_template as title, priority, due_date_offset_days as due_offset_days, subtasks_json, created_at
+        FROM templates;
+
+        DROP TABLE templates;
+
+        ALTER TABLE templates_new RENAME TO templates;
+      `);
+    }
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id);
+      CREATE INDEX IF NOT EXISTS idx_templates_category ON templates(category);
+    `);
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * Migration 003 - Custom recurrence rules
+ *
+ * Adds an RFC 5545 RRULE string to todos alongside the legacy fixed
+ * `recurrence_pattern`, plus the 1-based position of each instance in its
+ * series so COUNT end conditions can be enforced.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration003: Migration = {
+  version: 3,
+  name: 'todo_recurrence_rules',
+  up(db) {
+    db.exec(`
+      ALTER TABLE todos ADD COLUMN recurrence_rule TEXT;
+      ALTER TABLE todos ADD COLUMN recurrence_index INTEGER NOT NULL DEFAULT 1;
+    `);
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Migration 004 - Per-user timezones
+ *
+ * Adds an IANA timezone preference to users and moves todo timestamps to UTC.
+ * Until now due dates were stored as Singapore wall-clock strings
+ * ("2026-11-05T09:00"), so naive values are shifted by Singapore's fixed
+ * +08:00 offset. Values that already carry a Z or offset (e.g. from an
+ * import) are only normalised. Everything ends up in toISOString() format
+ * so stored timestamps sort and compare as plain strings.
+ */
+
+import type { Migration } from '../migrate';
+
+const UTC_COLUMNS = ['due_date', 'completed_at', 'last_notification_sent'];
+
+export const migration004: Migration = {
+  version: 4,
+  name: 'user_timezones',
+  up(db) {
+    db.exec(`ALTER TABLE users ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Asia/Singapore';`);
+
+    UTC_COLUMNS.forEach(column => {
+      db.exec(`
+        UPDATE todos
+        SET ${column} = CASE
+          WHEN ${column} GLOB '*[+-][0-9][0-9]:[0-9][0-9]'
+            THEN strftime('%Y-%m-%dT%H:%M:%fZ', ${column})
+          ELSE strftime('%Y-%m-%dT%H:%M:%fZ', ${column}, '-8 hours')
+        END
+        WHERE ${column} IS NOT NULL
+          AND ${column} NOT LIKE '%Z'
+          AND strftime('%s', ${column}) IS NOT NULL;
+      `);
+    });
+  },
+};
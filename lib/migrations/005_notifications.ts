@@ -0,0 +1,40 @@
+/**
+ * Migration 005 - Notifications
+ *
+ * One row per delivery of a notification on a channel (in-app, push, email...),
+ * written by the server-side reminder scheduler. Doubles as the in-app inbox
+ * (read_at) and as the delivery log (status, attempts, error).
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration005: Migration = {
+  version: 5,
+  name: 'notifications',
+  up(db) {
+    db.exec(`
+      CREATE TABLE notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        todo_id INTEGER,
+        type TEXT NOT NULL DEFAULT 'reminder',
+        channel TEXT NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        scheduled_for TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        delivered_at TEXT,
+        read_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_notifications_user_channel ON notifications(user_id, channel, read_at);
+      CREATE INDEX idx_notifications_status ON notifications(status);
+      CREATE INDEX idx_notifications_todo ON notifications(todo_id);
+    `);
+  },
+};
@@ -0,0 +1,37 @@
+/**
+ * Migration 006 - Web Push subscriptions
+ *
+ * One row per browser/device a user has enabled push on. Also adds a small
+ * key/value settings table, used to persist generated VAPID keys when they
+ * aren't provided through the environment.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration006: Migration = {
+  version: 6,
+  name: 'push_subscriptions',
+  up(db) {
+    db.exec(`
+      CREATE TABLE push_subscriptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        user_agent TEXT,
+        last_used_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+      CREATE TABLE app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Migration 007 - Email notification settings
+ *
+ * Per-user opt-in for reminder emails and the daily digest. last_digest_date
+ * (a calendar day in the user's timezone) keeps the digest to once a day.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration007: Migration = {
+  version: 7,
+  name: 'email_settings',
+  up(db) {
+    db.exec(`
+      CREATE TABLE email_settings (
+        user_id INTEGER PRIMARY KEY,
+        email TEXT,
+        reminders_enabled INTEGER NOT NULL DEFAULT 0,
+        digest_enabled INTEGER NOT NULL DEFAULT 0,
+        digest_hour INTEGER NOT NULL DEFAULT 8,
+        last_digest_date TEXT,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * Migration 008 - Multiple reminders per todo
+ *
+ * Moves reminders out of todos.reminder_minutes / last_notification_sent into
+ * a todo_reminders child table. A reminder is either relative (offset_minutes
+ * before the due date) or absolute (remind_at, UTC), and tracks its own
+ * sent_at and snoozed_until. Notifications record which reminder produced them.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration008: Migration = {
+  version: 8,
+  name: 'todo_reminders',
+  up(db) {
+    db.exec(`
+      CREATE TABLE todo_reminders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        todo_id INTEGER NOT NULL,
+        offset_minutes INTEGER,
+        remind_at TEXT,
+        snoozed_until TEXT,
+        sent_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE,
+        CHECK ((offset_minutes IS NULL) <> (remind_at IS NULL))
+      );
+
+      CREATE INDEX idx_todo_reminders_todo ON todo_reminders(todo_id);
+
+      INSERT INTO todo_reminders (todo_id, offset_minutes, sent_at)
+      SELECT id, reminder_minutes, last_notification_sent
+      FROM todos
+      WHERE reminder_minutes IS NOT NULL AND reminder_minutes > 0;
+
+      ALTER TABLE todos DROP COLUMN reminder_minutes;
+      ALTER TABLE todos DROP COLUMN last_notification_sent;
+
+      ALTER TABLE notifications
+        ADD COLUMN reminder_id INTEGER REFERENCES todo_reminders(id) ON DELETE SET NULL;
+    `);
+  },
+};
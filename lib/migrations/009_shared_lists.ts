@@ -0,0 +1,55 @@
+/**
+ * Migration 009 - Shared lists
+ *
+ * Lists group todos that several users work on together. Each member has a
+ * role (owner, editor, viewer); invites are single-use links that add the
+ * person who accepts them with the invite's role. Todos with a NULL list_id
+ * stay personal to their user_id, as before.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration009: Migration = {
+  version: 9,
+  name: 'shared_lists',
+  up(db) {
+    db.exec(`
+      CREATE TABLE lists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE list_members (
+        list_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (list_id, user_id),
+        FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_list_members_user ON list_members(user_id);
+
+      CREATE TABLE list_invites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        list_id INTEGER NOT NULL,
+        token TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+        created_by INTEGER NOT NULL,
+        expires_at TEXT NOT NULL,
+        accepted_by INTEGER,
+        accepted_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (accepted_by) REFERENCES users(id) ON DELETE SET NULL
+      );
+
+      ALTER TABLE todos ADD COLUMN list_id INTEGER REFERENCES lists(id) ON DELETE CASCADE;
+
+      CREATE INDEX idx_todos_list ON todos(list_id);
+    `);
+  },
+};
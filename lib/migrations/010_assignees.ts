@@ -0,0 +1,23 @@
+/**
+ * Migration 010 - Assignees
+ *
+ * A todo or an individual subtask can be assigned to a user who can edit it
+ * (for shared lists, an owner or editor of the list). Assignees get the
+ * todo's reminders.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration010: Migration = {
+  version: 10,
+  name: 'assignees',
+  up(db) {
+    db.exec(`
+      ALTER TABLE todos ADD COLUMN assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+      ALTER TABLE subtasks ADD COLUMN assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+      CREATE INDEX idx_todos_assignee ON todos(assignee_id);
+      CREATE INDEX idx_subtasks_assignee ON subtasks(assignee_id);
+    `);
+  },
+};
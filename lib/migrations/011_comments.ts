@@ -0,0 +1,30 @@
+/**
+ * Migration 011 - Comments
+ *
+ * A discussion thread on each todo. Comment bodies are markdown and may
+ * @mention other users who can see the todo. updated_at is set when the
+ * author edits a comment.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration011: Migration = {
+  version: 11,
+  name: 'comments',
+  up(db) {
+    db.exec(`
+      CREATE TABLE comments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        todo_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT,
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_comments_todo ON comments(todo_id, created_at);
+    `);
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Migration 012 - Todo descriptions
+ *
+ * Long-form notes on a todo, in markdown (checklists, links, formatting).
+ * Existing todos get an empty description.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration012: Migration = {
+  version: 12,
+  name: 'todo_descriptions',
+  up(db) {
+    db.exec(`
+      ALTER TABLE todos ADD COLUMN description TEXT NOT NULL DEFAULT '';
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Migration 013 - Attachments
+ *
+ * Files (PDFs, screenshots) attached to todos. Only metadata lives here; the
+ * bytes are kept by the storage backend (lib/storage.ts) under storage_key.
+ * Rows cascade with their todo, and the routes that delete todos remove the
+ * stored files.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration013: Migration = {
+  version: 13,
+  name: 'attachments',
+  up(db) {
+    db.exec(`
+      CREATE TABLE attachments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        todo_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        storage_key TEXT NOT NULL UNIQUE,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (todo_id) REFERENCES todos(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_attachments_todo ON attachments(todo_id, created_at);
+    `);
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * Migration 014 - Todo Events
+ *
+ * Append-only audit log of changes to todos, subtasks, tags and templates:
+ * who changed which field from what to what. Values are JSON. Rows have no
+ * foreign keys so the history outlives whatever it describes, and triggers
+ * reject updates and deletes.
+ *
+ * todo_id is the todo affected (also for subtask and tag-assignment events)
+ * and list_id the shared list it was in, which decides who sees the event
+ * in their activity feed.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration014: Migration = {
+  version: 14,
+  name: 'todo_events',
+  up(db) {
+    db.exec(`
+      CREATE TABLE todo_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('todo', 'subtask', 'tag', 'template')),
+        entity_id INTEGER NOT NULL,
+        todo_id INTEGER,
+        list_id INTEGER,
+        action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+        field TEXT,
+        old_value TEXT,
+        new_value TEXT,
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_todo_events_todo ON todo_events(todo_id, id);
+      CREATE INDEX idx_todo_events_user ON todo_events(user_id, id);
+      CREATE INDEX idx_todo_events_list ON todo_events(list_id, id);
+
+      CREATE TRIGGER todo_events_no_update BEFORE UPDATE ON todo_events
+      BEGIN
+        SELECT RAISE(ABORT, 'todo_events is append-only');
+      END;
+
+      CREATE TRIGGER todo_events_no_delete BEFORE DELETE ON todo_events
+      BEGIN
+        SELECT RAISE(ABORT, 'todo_events is append-only');
+      END;
+    `);
+  },
+};
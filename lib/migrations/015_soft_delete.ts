@@ -0,0 +1,61 @@
+/**
+ * Migration 015 - Soft Delete
+ *
+ * Deleting a todo now moves it to the trash: deleted_at/deleted_by are set and
+ * its subtasks, tags, reminders and attachments stay in place so it can be
+ * restored. Trashed todos are purged for good after a retention period.
+ *
+ * todo_events gains the 'restored' and 'purged' actions. SQLite can't alter a
+ * CHECK constraint, so the table is rebuilt (dropping it doesn't fire the
+ * append-only triggers, which are recreated afterwards).
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration015: Migration = {
+  version: 15,
+  name: 'soft_delete',
+  up(db) {
+    db.exec(`
+      ALTER TABLE todos ADD COLUMN deleted_at TEXT;
+      ALTER TABLE todos ADD COLUMN deleted_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+      CREATE INDEX idx_todos_deleted_at ON todos(deleted_at);
+
+      CREATE TABLE todo_events_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('todo', 'subtask', 'tag', 'template')),
+        entity_id INTEGER NOT NULL,
+        todo_id INTEGER,
+        list_id INTEGER,
+        action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'restored', 'purged')),
+        field TEXT,
+        old_value TEXT,
+        new_value TEXT,
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      INSERT INTO todo_events_new SELECT * FROM todo_events;
+
+      DROP TABLE todo_events;
+
+      ALTER TABLE todo_events_new RENAME TO todo_events;
+
+      CREATE INDEX idx_todo_events_todo ON todo_events(todo_id, id);
+      CREATE INDEX idx_todo_events_user ON todo_events(user_id, id);
+      CREATE INDEX idx_todo_events_list ON todo_events(list_id, id);
+
+      CREATE TRIGGER todo_events_no_update BEFORE UPDATE ON todo_events
+      BEGIN
+        SELECT RAISE(ABORT, 'todo_events is append-only');
+      END;
+
+      CREATE TRIGGER todo_events_no_delete BEFORE DELETE ON todo_events
+      BEGIN
+        SELECT RAISE(ABORT, 'todo_events is append-only');
+      END;
+    `);
+  },
+};
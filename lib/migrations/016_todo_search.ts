@@ -0,0 +1,74 @@
+/**
+ * Migration 016 - Full-Text Search
+ *
+ * todo_search is an FTS5 index with one row per todo (rowid = todos.id)
+ * holding its title, description, subtask titles and tag names. The porter
+ * tokenizer stems words ("meetings" finds "meeting") and the prefix indexes
+ * keep prefix queries ("meet*") fast.
+ *
+ * Triggers on todos, subtasks, todo_tags and tags rebuild a todo's row
+ * whenever any of those change, so the index never needs a separate sync
+ * step. Trashed todos stay indexed; searches filter them out.
+ */
+
+import type { Migration } from '../migrate';
+
+/**
+ * SQL that rebuilds the index rows of the todos whose IDs `ids` yields
+ * (a single expression or a subquery)
+ */
+function reindex(ids: string): string {
+  return `
+    DELETE FROM todo_search WHERE rowid IN (${ids});
+    INSERT INTO todo_search (rowid, title, description, subtasks, tags)
+    SELECT t.id, t.title, t.description,
+      COALESCE((SELECT group_concat(s.title, ' · ') FROM subtasks s WHERE s.todo_id = t.id), ''),
+      COALESCE((SELECT group_concat(g.name, ' · ') FROM todo_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.todo_id = t.id), '')
+    FROM todos t WHERE t.id IN (${ids});
+  `;
+}
+
+export const migration016: Migration = {
+  version: 16,
+  name: 'todo_search',
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE todo_search USING fts5(
+        title, description, subtasks, tags,
+        tokenize = 'porter unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      );
+
+      ${reindex('SELECT id FROM todos')}
+
+      CREATE TRIGGER todo_search_todo_insert AFTER INSERT ON todos
+      BEGIN ${reindex('new.id')} END;
+
+      CREATE TRIGGER todo_search_todo_update AFTER UPDATE OF title, description ON todos
+      BEGIN ${reindex('new.id')} END;
+
+      CREATE TRIGGER todo_search_todo_delete AFTER DELETE ON todos
+      BEGIN
+        DELETE FROM todo_search WHERE rowid = old.id;
+      END;
+
+      CREATE TRIGGER todo_search_subtask_insert AFTER INSERT ON subtasks
+      BEGIN ${reindex('new.todo_id')} END;
+
+      CREATE TRIGGER todo_search_subtask_update AFTER UPDATE OF title, todo_id ON subtasks
+      BEGIN ${reindex('old.todo_id, new.todo_id')} END;
+
+      CREATE TRIGGER todo_search_subtask_delete AFTER DELETE ON subtasks
+      BEGIN ${reindex('old.todo_id')} END;
+
+      CREATE TRIGGER todo_search_tag_link_insert AFTER INSERT ON todo_tags
+      BEGIN ${reindex('new.todo_id')} END;
+
+      CREATE TRIGGER todo_search_tag_link_delete AFTER DELETE ON todo_tags
+      BEGIN ${reindex('old.todo_id')} END;
+
+      CREATE TRIGGER todo_search_tag_update AFTER UPDATE OF name ON tags
+      BEGIN ${reindex('SELECT todo_id FROM todo_tags WHERE tag_id = new.id')} END;
+    `);
+  },
+};
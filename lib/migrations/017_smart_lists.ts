@@ -0,0 +1,30 @@
+/**
+ * Migration 017 - Smart Lists
+ *
+ * Saved searches: a named set of filters (FilterState) and search options
+ * from lib/search.ts, stored as JSON. Each user orders their smart lists by
+ * position, starting at 0.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration017: Migration = {
+  version: 17,
+  name: 'smart_lists',
+  up(db) {
+    db.exec(`
+      CREATE TABLE smart_lists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        filters TEXT NOT NULL,
+        search_options TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_smart_lists_user ON smart_lists(user_id, position);
+    `);
+  },
+};
@@ -0,0 +1,17 @@
+/**
+ * Migration 018 - Keyboard Shortcuts
+ *
+ * Per-user key bindings, stored as JSON mapping shortcut actions to keys
+ * (see lib/shortcuts.ts). Only the bindings a user has changed are kept;
+ * every other action uses its default from SHORTCUT_CONFIGS.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration018: Migration = {
+  version: 18,
+  name: 'keyboard_shortcuts',
+  up(db) {
+    db.exec(`ALTER TABLE users ADD COLUMN keyboard_shortcuts TEXT NOT NULL DEFAULT '{}';`);
+  },
+};
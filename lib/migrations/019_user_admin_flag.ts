@@ -0,0 +1,17 @@
+/**
+ * Migration 019 - Admin Flag
+ *
+ * Admin rights are stored on the account (granted with scripts/admin.ts)
+ * instead of being matched by username, so registering a freed-up or
+ * not-yet-taken username never grants them.
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration019: Migration = {
+  version: 19,
+  name: 'user_admin_flag',
+  up(db) {
+    db.exec(`ALTER TABLE users ADD COLUMN is_admin INTEGER NOT NULL DEFAULT 0;`);
+  },
+};
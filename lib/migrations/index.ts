@@ -0,0 +1,50 @@
+/**
+ * Migration Registry
+ *
+ * Every migration must be listed here in version order. To add a schema change,
+ * create the next numbered file (e.g. 003_add_todo_notes.ts) and append it.
+ * Never edit a migration that has already shipped - add a new one instead.
+ */
+
+import type { Migration } from '../migrate';
+import { migration001 } from './001_initial_schema';
+import { migration002 } from './002_templates_new_schema';
+import { migration003 } from './003_todo_recurrence_rules';
+import { migration004 } from './004_user_timezones';
+import { migration005 } from './005_notifications';
+import { migration006 } from './006_push_subscriptions';
+import { migration007 } from './007_email_settings';
+import { migration008 } from './008_todo_reminders';
+import { migration009 } from './009_shared_lists';
+import { migration010 } from './010_assignees';
+import { migration011 } from './011_comments';
+import { migration012 } from './012_todo_descriptions';
+import { migration013 } from './013_attachments';
+import { migration014 } from './014_todo_events';
+import { migration015 } from './015_soft_delete';
+import { migration016 } from './016_todo_search';
+import { migration017 } from './017_smart_lists';
+import { migration018 } from './018_keyboard_shortcuts';
+import { migration019 } from './019_user_admin_flag';
+
+export const migrations: Migration[] = [
+  migration001,
+  migration002,
+  migration003,
+  migration004,
+  migration005,
+  migration006,
+  migration007,
+  migration008,
+  migration009,
+  migration010,
+  migration011,
+  migration012,
+  migration013,
+  migration014,
+  migration015,
+  migration016,
+  migration017,
+  migration018,
+  migration019,
+];
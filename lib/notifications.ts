@@ -0,0 +1,356 @@
+/**
+ * Reminder Scheduler & Delivery Channels
+ *
+ * Runs on the server, so reminders fire whether or not anyone has the app open.
+ * Every tick the scheduler:
+ *   1. picks up reminders whose time has passed (todoReminderDB.findDue),
+ *   2. records one notification per recipient and enabled channel, and marks
+ *      the reminder as sent (see getReminderRecipients),
+ *   3. hands pending notifications to their channel, retrying failures.
+ *
+ * Channels are pluggable: register one with registerChannel() and it receives
+ * every notification for users it is enabled for. The built-in in-app channel
+ * makes notifications available to the browser via /api/notifications.
+ *
+ * Reminder notifications carry actions (mark done, snooze) that are applied
+ * with applyNotificationAction(); snoozes are stored on the reminder itself.
+ * Other notifications (e.g. comment @mentions) are queued with notifyUser().
+ *
+ *   REMINDER_INTERVAL_SECONDS  How often to check for due reminders, 0 disables (default: 60)
+ */
+
+import { db, notificationDB, subtaskDB, todoDB, todoReminderDB, userDB, DueReminder, Notification, NotificationType, Todo, TodoReminder } from './db';
+import { NotificationAction, SNOOZE_MINUTES, SNOOZE_TOMORROW_HOUR } from './constants';
+import { recordChanges, recordCreated, snapshotTodo } from './history';
+import { formatInZone, toUTC } from './timezone';
+
+export interface NotificationChannel {
+  /** Stored in notifications.channel, e.g. 'in_app' */
+  name: string;
+  /** Whether this user should get notifications on this channel (default: everyone) */
+  isEnabledFor?(userId: number): boolean;
+  /** Notification types this channel delivers (default: all) */
+  types?: NotificationType[];
+  /** Deliver one notification; throw to have it retried on a later tick */
+  deliver(notification: Notification): Promise<void>;
+}
+
+export const IN_APP_CHANNEL = 'in_app';
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+/**
+ * In-app inbox: the notification row itself is the delivery; the open app
+ * fetches unread ones from /api/notifications and shows them
+ */
+const inAppChannel: NotificationChannel = {
+  name: IN_APP_CHANNEL,
+  async deliver() {},
+};
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForNotifications = globalThis as unknown as {
+  notificationChannels?: Map<string, NotificationChannel>;
+  reminderTimer?: NodeJS.Timeout;
+  reminderTickRunning?: boolean;
+};
+
+const channels =
+  globalForNotifications.notificationChannels ??
+  (globalForNotifications.notificationChannels = new Map([[inAppChannel.name, inAppChannel]]));
+
+/**
+ * Add (or replace) a delivery channel
+ */
+export function registerChannel(channel: NotificationChannel): void {
+  channels.set(channel.name, channel);
+}
+
+/**
+ * Remove a delivery channel
+ */
+export function unregisterChannel(name: string): void {
+  channels.delete(name);
+}
+
+/**
+ * All registered delivery channels
+ */
+export function getChannels(): NotificationChannel[] {
+  return [...channels.values()];
+}
+
+/**
+ * Human-readable time until due, e.g. "15 minutes", "2 hours", "1 day"
+ */
+export function formatMinutesUntil(minutes: number): string {
+  if (minutes < 60) return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Build the reminder notification text for a todo
+ */
+export function buildReminderMessage(todo: Todo, now: Date = new Date()): { title: string; body: string } {
+  const minutesUntilDue = Math.round((new Date(todo.due_date).getTime() - now.getTime()) / 60000);
+  return {
+    title: '📋 Todo Reminder',
+    // Absolute and snoozed reminders can fire after the due date
+    body: minutesUntilDue < 0
+      ? `${todo.title} is overdue`
+      : `${todo.title} is due in ${formatMinutesUntil(minutesUntilDue)}`,
+  };
+}
+
+/**
+ * When a snooze action should fire again: in SNOOZE_MINUTES, or at
+ * SNOOZE_TOMORROW_HOUR tomorrow on the user's wall clock
+ */
+export function getSnoozeUntil(
+  action: Exclude<NotificationAction, 'done'>,
+  timeZone: string,
+  now: Date = new Date()
+): Date {
+  if (action === 'snooze-10m') {
+    return new Date(now.getTime() + SNOOZE_MINUTES * 60000);
+  }
+
+  const [y, m, d] = formatInZone(now, timeZone, 'yyyy-MM-dd').split('-').map(Number);
+  const tomorrow = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+  const hour = String(SNOOZE_TOMORROW_HOUR).padStart(2, '0');
+  return new Date(toUTC(`${tomorrow}T${hour}:00`, timeZone));
+}
+
+export interface NotificationActionResult {
+  todo: Todo;
+  next_todo?: Todo | null;            // Next instance, when completing a recurring todo
+  reminder?: TodoReminder;            // The snoozed reminder
+}
+
+/**
+ * Act on a reminder notification: complete its todo or snooze its reminder.
+ * The todo's other unread notifications are marked read either way.
+ * @throws Error if the notification isn't about a todo
+ */
+export function applyNotificationAction(
+  notification: Notification,
+  action: NotificationAction,
+  now: Date = new Date()
+): NotificationActionResult {
+  const todo = notification.todo_id ? todoDB.findById(notification.todo_id) : null;
+  if (!todo) {
+    throw new Error('Notification has no todo to act on');
+  }
+
+  return db.transaction((): NotificationActionResult => {
+    notificationDB.markReadForTodo(notification.user_id, todo.id);
+    const before = snapshotTodo(todo.id)!;
+
+    if (action === 'done') {
+      // Already done (e.g. from another device) - nothing more to do
+      if (todo.completed) return { todo };
+
+      const updated = todoDB.update(todo.id, { completed: 1, completed_at: now.toISOString() })!;
+      const nextTodo = todo.recurrence_pattern || todo.recurrence_rule
+        ? todoDB.createRecurringInstance(todo)
+        : null;
+      recordChanges(notification.user_id, before, snapshotTodo(todo.id));
+      if (nextTodo) recordCreated(notification.user_id, snapshotTodo(nextTodo.id));
+      return { todo: updated, next_todo: nextTodo };
+    }
+
+    // "Tomorrow 9am" on the wall clock of whoever snoozed it (may be an assignee)
+    const until = getSnoozeUntil(action, userDB.getTimezone(notification.user_id), now);
+    const existing = notification.reminder_id ? todoReminderDB.findById(notification.reminder_id) : null;
+    // The reminder may have been removed since it fired; snooze with a one-off reminder instead
+    const reminder = existing
+      ? todoReminderDB.snooze(existing.id, until)!
+      : todoReminderDB.create(todo.id, { remind_at: until.toISOString() });
+    recordChanges(notification.user_id, before, snapshotTodo(todo.id));
+
+    return { todo, reminder };
+  })();
+}
+
+/**
+ * Channels that deliver a type of notification to a user
+ */
+function getChannelsFor(userId: number, type: NotificationType): NotificationChannel[] {
+  return getChannels().filter(channel =>
+    (!channel.types || channel.types.includes(type)) &&
+    (!channel.isEnabledFor || channel.isEnabledFor(userId))
+  );
+}
+
+/**
+ * Queue a notification for a user on every channel that delivers its type;
+ * sent on the scheduler's next delivery pass
+ * @returns Notifications created
+ */
+export function notifyUser(
+  userId: number,
+  message: { type: NotificationType; todo_id?: number | null; title: string; body: string },
+  now: Date = new Date()
+): Notification[] {
+  return getChannelsFor(userId, message.type).map(channel =>
+    notificationDB.create({
+      user_id: userId,
+      todo_id: message.todo_id ?? null,
+      type: message.type,
+      channel: channel.name,
+      title: message.title,
+      body: message.body,
+      scheduled_for: now.toISOString(),
+    })
+  );
+}
+
+/**
+ * Who a todo's reminders go to: its assignee (or its creator when unassigned)
+ * plus whoever is assigned one of its unfinished subtasks
+ */
+export function getReminderRecipients(todo: Todo): number[] {
+  const recipients = new Set([todo.assignee_id ?? todo.user_id]);
+  subtaskDB.findByTodo(todo.id).forEach(subtask => {
+    if (subtask.assignee_id !== null && !subtask.completed) {
+      recipients.add(subtask.assignee_id);
+    }
+  });
+  return [...recipients];
+}
+
+/**
+ * Record notifications for every reminder that is due
+ * @returns Notifications created
+ */
+export function enqueueDueReminders(now: Date = new Date()): Notification[] {
+  const created: Notification[] = [];
+
+  const enqueue = db.transaction((reminders: DueReminder[]) => {
+    reminders.forEach(reminder => {
+      const todo = todoDB.findById(reminder.todo_id)!;
+      const { title, body } = buildReminderMessage(todo, now);
+
+      getReminderRecipients(todo).forEach(userId => {
+        getChannelsFor(userId, 'reminder').forEach(channel => {
+          created.push(notificationDB.create({
+            user_id: userId,
+            todo_id: todo.id,
+            reminder_id: reminder.id,
+            type: 'reminder',
+            channel: channel.name,
+            title,
+            body,
+            scheduled_for: reminder.fire_at,
+          }));
+        });
+      });
+
+      // Until its time changes (new due date, snooze), the reminder isn't picked up again
+      todoReminderDB.markSent(reminder.id, now);
+    });
+  });
+
+  enqueue(todoReminderDB.findDue(now));
+  return created;
+}
+
+/**
+ * Hand pending notifications to their channels
+ * @returns Number delivered and failed on this pass
+ */
+export async function deliverPendingNotifications(): Promise<{ delivered: number; failed: number }> {
+  let delivered = 0;
+  let failed = 0;
+
+  for (const notification of notificationDB.findPending(MAX_DELIVERY_ATTEMPTS)) {
+    const channel = channels.get(notification.channel);
+    if (!channel) {
+      notificationDB.markFailed(notification.id, `Unknown channel: ${notification.channel}`);
+      failed++;
+      continue;
+    }
+
+    // The user may have been deleted since the notification was queued
+    if (!userDB.findById(notification.user_id)) continue;
+
+    try {
+      await channel.deliver(notification);
+      notificationDB.markDelivered(notification.id);
+      delivered++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Notification ${notification.id} failed on ${notification.channel}:`, message);
+      notificationDB.markFailed(notification.id, message);
+      failed++;
+    }
+  }
+
+  return { delivered, failed };
+}
+
+/**
+ * One scheduler pass: queue due reminders, then deliver everything pending
+ */
+export async function processReminders(now: Date = new Date()): Promise<void> {
+  // A slow channel must not cause overlapping passes to double-deliver
+  if (globalForNotifications.reminderTickRunning) return;
+  globalForNotifications.reminderTickRunning = true;
+
+  try {
+    const queued = enqueueDueReminders(now);
+    const { delivered, failed } = await deliverPendingNotifications();
+    if (queued.length > 0 || failed > 0) {
+      console.log(`Reminders: ${queued.length} queued, ${delivered} delivered, ${failed} failed`);
+    }
+  } finally {
+    globalForNotifications.reminderTickRunning = false;
+  }
+}
+
+/**
+ * Run a scheduler pass now rather than on the next tick, e.g. right after
+ * queueing a mention. Skipped if a pass is already running.
+ */
+export function processRemindersSoon(): void {
+  processReminders().catch(error => {
+    console.error('Reminder scheduler pass failed:', error);
+  });
+}
+
+function getIntervalSeconds(): number {
+  const raw = process.env.REMINDER_INTERVAL_SECONDS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_INTERVAL_SECONDS;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`REMINDER_INTERVAL_SECONDS must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Start checking for due reminders (called once from instrumentation.ts)
+ */
+export function startReminderScheduler(): void {
+  if (globalForNotifications.reminderTimer) return;
+
+  const intervalSeconds = getIntervalSeconds();
+  if (intervalSeconds === 0) {
+    console.log('Reminder scheduler disabled');
+    return;
+  }
+
+  const tick = processRemindersSoon;
+
+  globalForNotifications.reminderTimer = setInterval(tick, intervalSeconds * 1000);
+  globalForNotifications.reminderTimer.unref();
+
+  // Catch up on anything that came due while the server was down
+  tick();
+
+  console.log(`Reminder scheduler checking every ${intervalSeconds} seconds`);
+}
@@ -0,0 +1,202 @@
+/**
+ * Web Push Delivery
+ *
+ * Sends reminders to the service worker (public/sw.js) of every browser or
+ * device a user has subscribed, so they arrive even with the app closed.
+ * Registered as the 'push' notification channel (see lib/notifications.ts).
+ *
+ *   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY  Application server keys (generated and
+ *                                         stored in app_settings when unset)
+ *   VAPID_SUBJECT                         Contact for push services (default: mailto:admin@localhost)
+ *
+ * The server POSTs to whatever endpoint a browser hands it, so only the
+ * browsers' own push services are accepted (plus local http mocks outside
+ * production) - anything else would let users make it call internal hosts.
+ */
+
+import webpush from 'web-push';
+import { pushSubscriptionDB, settingsDB, Notification } from './db';
+import { NotificationChannel, registerChannel } from './notifications';
+import { takeRateLimitSlot } from './rateLimit';
+import { NOTIFICATION_ACTIONS, NotificationActionOption } from './constants';
+
+export const PUSH_CHANNEL = 'push';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  data?: Record<string, unknown>;
+  actions?: NotificationActionOption[];
+}
+
+export interface PushResult {
+  sent: number;
+  failed: number;
+  removed: number;
+}
+
+// Push services hold undelivered messages for offline devices up to this long
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Chrome (FCM), Firefox (Mozilla autopush), Safari (APNs) and Edge (WNS),
+// including their subdomains
+const PUSH_SERVICE_DOMAINS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com',
+];
+
+// Test pushes are sent on demand, so each user may only send a few
+export const TEST_PUSH_LIMIT = 3;
+const TEST_PUSH_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Application server (VAPID) keys: from env, or generated once and persisted
+ */
+export function getVapidKeys(): { publicKey: string; privateKey: string } {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+  if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+    return { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+  }
+
+  const stored = {
+    publicKey: settingsDB.get('vapid_public_key'),
+    privateKey: settingsDB.get('vapid_private_key'),
+  };
+  if (stored.publicKey && stored.privateKey) {
+    return { publicKey: stored.publicKey, privateKey: stored.privateKey };
+  }
+
+  // Changing keys invalidates every existing subscription, so keep the generated pair
+  const generated = webpush.generateVAPIDKeys();
+  settingsDB.set('vapid_public_key', generated.publicKey);
+  settingsDB.set('vapid_private_key', generated.privateKey);
+  console.log('Generated VAPID keys for Web Push (set VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY to manage them yourself)');
+  return generated;
+}
+
+/**
+ * Check that a subscription endpoint is somewhere we're willing to POST to
+ */
+export function isAllowedEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol === 'https:') {
+    const host = url.hostname.toLowerCase();
+    return PUSH_SERVICE_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`));
+  }
+  if (url.protocol !== 'http:') return false;
+
+  // Local mock push services for development and tests
+  const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  return isLocal && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Count a test push against the user's hourly limit
+ * @returns 0 if the push may be sent, otherwise the seconds until it may
+ */
+export function takeTestPushSlot(userId: number, now: number = Date.now()): number {
+  return takeRateLimitSlot(`test-push:${userId}`, TEST_PUSH_LIMIT, TEST_PUSH_WINDOW_MS, now);
+}
+
+/**
+ * Push a message to every device a user has subscribed.
+ * Subscriptions the push service reports as gone (404/410) are removed.
+ */
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<PushResult> {
+  const { publicKey, privateKey } = getVapidKeys();
+  const vapidDetails = {
+    subject: process.env.VAPID_SUBJECT || 'mailto:admin@localhost',
+    publicKey,
+    privateKey,
+  };
+
+  const result: PushResult = { sent: 0, failed: 0, removed: 0 };
+
+  for (const subscription of pushSubscriptionDB.findByUser(userId)) {
+    try {
+      // web-push encrypts and signs; the request itself goes through fetch so
+      // plain-http mock push services work in development and tests
+      const details = webpush.generateRequestDetails(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify(payload),
+        { vapidDetails, TTL: PUSH_TTL_SECONDS }
+      );
+      const response = await fetch(details.endpoint, {
+        method: details.method,
+        headers: details.headers as Record<string, string>,
+        body: details.body ? new Uint8Array(details.body) : undefined,
+      });
+
+      if (response.ok) {
+        pushSubscriptionDB.touch(subscription.id);
+        result.sent++;
+      } else if (response.status === 404 || response.status === 410) {
+        // Unsubscribed or expired on the push service's side
+        pushSubscriptionDB.delete(subscription.id);
+        result.removed++;
+      } else {
+        console.error(`Push to subscription ${subscription.id} failed: HTTP ${response.status}`);
+        result.failed++;
+      }
+    } catch (error) {
+      console.error(`Push to subscription ${subscription.id} failed:`, error instanceof Error ? error.message : error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Notification channel that delivers reminders as Web Push messages
+ */
+export const pushChannel: NotificationChannel = {
+  name: PUSH_CHANNEL,
+
+  isEnabledFor(userId) {
+    return pushSubscriptionDB.hasAny(userId);
+  },
+
+  async deliver(notification: Notification) {
+    const result = await sendPushToUser(notification.user_id, {
+      title: notification.title,
+      body: notification.body,
+      // Same tag as the in-app notification, so an open tab doesn't show it twice
+      tag: notification.type === 'reminder' && notification.todo_id
+        ? `todo-${notification.todo_id}`
+        : `notification-${notification.id}`,
+      data: {
+        notificationId: notification.id,
+        todoId: notification.todo_id,
+        url: notification.todo_id ? `/#todo-${notification.todo_id}` : '/',
+      },
+      // Handled by the service worker via POST /api/notifications/[id]/action
+      actions: notification.type === 'reminder' && notification.todo_id ? NOTIFICATION_ACTIONS : undefined,
+    });
+
+    // Retry later only if no device got it and some failure might be transient
+    if (result.sent === 0 && result.failed > 0) {
+      throw new Error(`Push failed for all ${result.failed} subscription(s)`);
+    }
+  },
+};
+
+/**
+ * Add Web Push to the reminder delivery channels (called from instrumentation.ts)
+ */
+export function registerPushChannel(): void {
+  registerChannel(pushChannel);
+}
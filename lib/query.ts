@@ -0,0 +1,385 @@
+/**
+ * Search Query Language
+ *
+ * The advanced search syntax, e.g. `tag:work priority:high due:<7d`:
+ *
+ *   word, "a phrase"    Text in the title, description, tags or subtasks
+ *   tag:work            Has the tag (quote names with spaces: tag:"deep work")
+ *   priority:high       high, medium or low
+ *   due:today           Due that day: today, tomorrow, yesterday, 2026-11-01,
+ *                       or days/weeks from today (7d, -2w)
+ *   due:<7d             Before/after a day with <, <=, > or >=
+ *   is:overdue          Also is:recurring, is:completed, is:open
+ *   has:reminder        Also has:subtasks, has:notes, has:attachment, has:comment
+ *   -term, -(...)       Not
+ *   a OR b, (a b) OR c  Terms are ANDed, OR binds looser, parentheses group
+ *
+ * Words with an unknown prefix (like "10:30") are plain text. parseQuery()
+ * builds an AST and reports the first syntax error with its position;
+ * createQueryMatcher() evaluates the AST, in searchTodos() on the client or
+ * in GET /api/todos?q= on the server. Due days are calendar days in the
+ * user's timezone.
+ */
+
+import type { Priority, TodoWithRelations } from './db';
+import { formatInZone } from './timezone';
+
+export type DueComparison = '=' | '<' | '<=' | '>' | '>=';
+export type QueryState = 'overdue' | 'recurring' | 'completed' | 'open';
+export type QueryRelation = 'reminder' | 'subtasks' | 'notes' | 'attachment' | 'comment';
+
+// A calendar date, or a number of days from today
+export type QueryDay = { date: string } | { offsetDays: number };
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'tag'; name: string }
+  | { type: 'priority'; priority: Priority }
+  | { type: 'due'; comparison: DueComparison; day: QueryDay }
+  | { type: 'is'; state: QueryState }
+  | { type: 'has'; relation: QueryRelation };
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+const STATES: QueryState[] = ['overdue', 'recurring', 'completed', 'open'];
+const RELATIONS: Record<string, QueryRelation> = {
+  reminder: 'reminder',
+  reminders: 'reminder',
+  subtask: 'subtasks',
+  subtasks: 'subtasks',
+  notes: 'notes',
+  description: 'notes',
+  attachment: 'attachment',
+  attachments: 'attachment',
+  comment: 'comment',
+  comments: 'comment',
+};
+const NAMED_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+interface Token {
+  kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'word' | 'phrase';
+  value: string;
+  position: number;
+}
+
+/**
+ * Read a double-quoted string starting at `start` (the opening quote)
+ * @returns The unquoted text and the index after the closing quote
+ */
+function readQuoted(text: string, start: number): { value: string; end: number } {
+  const close = text.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError('Missing closing quote', start);
+  return { value: text.slice(start + 1, close), end: close + 1 };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+    } else if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+      tokens.push({ kind: 'not', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(text, i);
+      tokens.push({ kind: 'phrase', value, position: i });
+      i = end;
+    } else {
+      // A word runs to whitespace or a parenthesis; a quote right after
+      // "field:" quotes the value
+      const start = i;
+      let value = '';
+      while (i < text.length && !/[\s()]/.test(text[i])) {
+        if (text[i] === '"') {
+          if (!value.endsWith(':')) break;
+          const quoted = readQuoted(text, i);
+          value += quoted.value;
+          i = quoted.end;
+          break;
+        }
+        value += text[i++];
+      }
+
+      const kind = value === 'OR' ? 'or' : value === 'AND' ? 'and' : 'word';
+      tokens.push({ kind, value, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function parseDay(value: string, position: number): QueryDay {
+  const lower = value.toLowerCase();
+  if (lower in NAMED_DAYS) return { offsetDays: NAMED_DAYS[lower] };
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!isNaN(date.getTime()) && date.toISOString().startsWith(value)) return { date: value };
+  }
+
+  const relative = lower.match(/^([+-]?\d+)([dw])$/);
+  if (relative) {
+    return { offsetDays: Number(relative[1]) * (relative[2] === 'w' ? 7 : 1) };
+  }
+
+  throw new QuerySyntaxError(
+    `Invalid due date "${value}" (use today, tomorrow, YYYY-MM-DD or a number of days like 7d)`,
+    position
+  );
+}
+
+/**
+ * A word: a field filter like priority:high, or plain text
+ */
+function parseWord(token: Token): QueryNode {
+  const match = token.value.match(/^([a-z]+):(.*)$/i);
+  const field = match?.[1].toLowerCase();
+  if (!match || !['tag', 'priority', 'due', 'is', 'has'].includes(field!)) {
+    return { type: 'text', value: token.value };
+  }
+
+  const value = match[2];
+  const valuePosition = token.position + field!.length + 1;
+  if (!value) throw new QuerySyntaxError(`Expected a value after "${field}:"`, valuePosition);
+  const lower = value.toLowerCase();
+
+  switch (field) {
+    case 'tag':
+      return { type: 'tag', name: value };
+    case 'priority':
+      if (!PRIORITIES.includes(lower as Priority)) {
+        throw new QuerySyntaxError(`Unknown priority "${value}" (use high, medium or low)`, valuePosition);
+      }
+      return { type: 'priority', priority: lower as Priority };
+    case 'due': {
+      const [, comparison = '=', day] = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+      if (!day) throw new QuerySyntaxError(`Expected a date after "due:${comparison}"`, valuePosition + comparison.length);
+      return { type: 'due', comparison: comparison as DueComparison, day: parseDay(day, valuePosition) };
+    }
+    case 'is':
+      if (!STATES.includes(lower as QueryState)) {
+        throw new QuerySyntaxError(`Unknown "is:${value}" (use ${STATES.map(s => `is:${s}`).join(', ')})`, valuePosition);
+      }
+      return { type: 'is', state: lower as QueryState };
+    default:
+      if (!(lower in RELATIONS)) {
+        throw new QuerySyntaxError(
+          `Unknown "has:${value}" (use has:reminder, has:subtasks, has:notes, has:attachment or has:comment)`,
+          valuePosition
+        );
+      }
+      return { type: 'has', relation: RELATIONS[lower] };
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private positionOfNext(): number {
+    return this.peek()?.position ?? this.length;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new QuerySyntaxError('Unexpected ")"', extra.position);
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      children.push(this.parseAnd('OR'));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(after?: string): QueryNode {
+    const children: QueryNode[] = [];
+
+    for (let token = this.peek(); token && token.kind !== 'rparen' && token.kind !== 'or'; token = this.peek()) {
+      if (token.kind === 'and') {
+        this.index++;
+        after = 'AND';
+        continue;
+      }
+      children.push(this.parseUnary());
+      after = undefined;
+    }
+
+    if (after || children.length === 0) {
+      const next = this.peek();
+      if (after) throw new QuerySyntaxError(`Expected a term after ${after}`, this.positionOfNext());
+      if (next?.kind === 'or') throw new QuerySyntaxError('Expected a term before OR', next.position);
+      throw new QuerySyntaxError(next ? 'Expected a term before ")"' : 'Expected a term', this.positionOfNext());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.kind !== 'not') return this.parsePrimary();
+
+    this.index++;
+    const next = this.peek();
+    if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+      throw new QuerySyntaxError('Expected a term after "-"', this.positionOfNext());
+    }
+    return { type: 'not', child: this.parseUnary() };
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek()!;
+    this.index++;
+
+    if (token.kind === 'lparen') {
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+      }
+      this.index++;
+      return node;
+    }
+    if (token.kind === 'phrase') return { type: 'text', value: token.value };
+    return parseWord(token);
+  }
+}
+
+/**
+ * Parse a query into an AST
+ * @returns null for a blank query
+ * @throws QuerySyntaxError at the first problem
+ */
+export function parseQuery(text: string): QueryNode | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, text.length).parse();
+}
+
+/**
+ * The query's syntax error, if it has one
+ */
+export function validateQuery(text: string): QuerySyntaxError | null {
+  try {
+    parseQuery(text);
+    return null;
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export interface QueryMatchOptions {
+  now?: Date;
+  timeZone?: string;                  // Zone due days are counted in (default: Asia/Singapore)
+  // How text terms match (default: case-insensitive substring of the title,
+  // description, tag names or subtask titles)
+  matchText?: (todo: TodoWithRelations, text: string) => boolean;
+}
+
+function defaultMatchText(todo: TodoWithRelations, text: string): boolean {
+  const term = text.toLowerCase();
+  return todo.title.toLowerCase().includes(term) ||
+    todo.description.toLowerCase().includes(term) ||
+    Boolean(todo.tags?.some(tag => tag.name.toLowerCase().includes(term))) ||
+    Boolean(todo.subtasks?.some(subtask => subtask.title.toLowerCase().includes(term)));
+}
+
+function compare(value: string, comparison: DueComparison, target: string): boolean {
+  switch (comparison) {
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    default: return value === target;
+  }
+}
+
+/**
+ * A predicate that tells whether a todo matches a parsed query
+ */
+export function createQueryMatcher(
+  query: QueryNode,
+  options: QueryMatchOptions = {}
+): (todo: TodoWithRelations) => boolean {
+  const now = options.now ?? new Date();
+  const matchText = options.matchText ?? defaultMatchText;
+  const today = formatInZone(now.toISOString(), options.timeZone, 'yyyy-MM-dd');
+
+  const resolveDay = (day: QueryDay): string =>
+    'date' in day
+      ? day.date
+      : new Date(new Date(`${today}T00:00:00Z`).getTime() + day.offsetDays * DAY_MS).toISOString().slice(0, 10);
+
+  const matches = (todo: TodoWithRelations, node: QueryNode): boolean => {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => matches(todo, child));
+      case 'or':
+        return node.children.some(child => matches(todo, child));
+      case 'not':
+        return !matches(todo, node.child);
+      case 'text':
+        return matchText(todo, node.value);
+      case 'tag':
+        return Boolean(todo.tags?.some(tag => tag.name.toLowerCase() === node.name.toLowerCase()));
+      case 'priority':
+        return todo.priority === node.priority;
+      case 'due':
+        return compare(formatInZone(todo.due_date, options.timeZone, 'yyyy-MM-dd'), node.comparison, resolveDay(node.day));
+      case 'is':
+        switch (node.state) {
+          case 'overdue': return !todo.completed && new Date(todo.due_date) < now;
+          case 'recurring': return Boolean(todo.recurrence_pattern || todo.recurrence_rule);
+          case 'completed': return Boolean(todo.completed);
+          default: return !todo.completed;
+        }
+      case 'has':
+        switch (node.relation) {
+          case 'reminder': return (todo.reminders?.length ?? 0) > 0;
+          case 'subtasks': return (todo.subtasks?.length ?? 0) > 0;
+          case 'notes': return todo.description.trim() !== '';
+          case 'attachment': return (todo.attachment_count ?? 0) > 0;
+          default: return (todo.comment_count ?? 0) > 0;
+        }
+    }
+  };
+
+  return todo => matches(todo, query);
+}
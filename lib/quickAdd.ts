@@ -0,0 +1,365 @@
+/**
+ * Quick Add
+ *
+ * Pulls a todo's fields out of one line of text, e.g.
+ *   "Pay rent every month on the 1st #finance !high"
+ *   "Call the dentist tomorrow 5pm remind 30m before"
+ *
+ *   today, tonight, tomorrow     Due day; also Friday / on Fri / next Fri,
+ *   in 3 days, next week         next month, Mar 3, 3rd of March, 2026-11-05
+ *   5pm, 9:30am, at 17:00, noon  Due time (9:00 AM when only a day is given);
+ *                                "in 2 hours" sets both
+ *   every weekday, every 2 weeks Recurrence; also every Mon and Thu, every
+ *   every month on the 1st       weekend, every other day, every 15th
+ *   !high, !med, !low            Priority
+ *   #work                        Tag (POST /api/todos creates missing ones)
+ *   remind 30m before            Reminder: m, h, d or w before the due date
+ *
+ * Whatever isn't recognised is the title. A recurring todo without a day is
+ * due on the rule's first day; a time without a day is today, or tomorrow if
+ * it has passed. Everything is worked out on the user's wall clock (like
+ * lib/recurrence.ts, wall-clock times are held in the UTC fields of a Date),
+ * with no external service. Safe to import from client components.
+ */
+
+import type { Priority } from './db';
+import { MAX_REMINDERS_PER_TODO } from './constants';
+import { RRule, RRuleWeekday, RRULE_WEEKDAYS, formatRRule } from './rrule';
+import { isValidReminderOffset } from './reminders';
+import { formatInZone } from './timezone';
+
+export interface QuickAddResult {
+  title: string;
+  due_date: string | null;        // Wall clock in the user's timezone, e.g. "2026-11-05T17:00"
+  recurrence_rule: string | null; // Canonical RRULE, e.g. "FREQ=MONTHLY;BYMONTHDAY=1"
+  priority: Priority | null;
+  tags: string[];
+  reminders: number[];            // Minutes before the due date
+  matched: string[];              // The recognised pieces of the text, in order
+}
+
+export interface QuickAddOptions {
+  timeZone: string;
+  now?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_TIME = 9 * 60;      // 9:00 AM, like the add form's default
+const TONIGHT_TIME = 20 * 60;
+const MAX_TAG_LENGTH = 30;
+
+// Longest spellings first so alternations match whole words
+const WEEKDAY_NAMES: [string, RRuleWeekday][] = [
+  ['monday', 'MO'], ['mon', 'MO'],
+  ['tuesday', 'TU'], ['tues', 'TU'], ['tue', 'TU'],
+  ['wednesday', 'WE'], ['wed', 'WE'],
+  ['thursday', 'TH'], ['thurs', 'TH'], ['thur', 'TH'], ['thu', 'TH'],
+  ['friday', 'FR'], ['fri', 'FR'],
+  ['saturday', 'SA'], ['sat', 'SA'],
+  ['sunday', 'SU'], ['sun', 'SU'],
+];
+const MONTH_NAMES: [string, number][] = [
+  ['january', 1], ['jan', 1], ['february', 2], ['feb', 2], ['march', 3], ['mar', 3],
+  ['april', 4], ['apr', 4], ['may', 5], ['june', 6], ['jun', 6], ['july', 7], ['jul', 7],
+  ['august', 8], ['aug', 8], ['september', 9], ['sept', 9], ['sep', 9],
+  ['october', 10], ['oct', 10], ['november', 11], ['nov', 11], ['december', 12], ['dec', 12],
+];
+const PRIORITY_NAMES: Record<string, Priority> = {
+  high: 'high', h: 'high', medium: 'medium', med: 'medium', m: 'medium', low: 'low', l: 'low',
+};
+const FREQUENCIES: Record<string, RRule['freq']> = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 1440, w: 10080 };
+
+const WEEKDAY = WEEKDAY_NAMES.map(([name]) => name).join('|');
+const MONTH = MONTH_NAMES.map(([name]) => name).join('|');
+const ORDINAL = '(\\d{1,2})(?:st|nd|rd|th)';
+const WEEKDAY_LIST = `(?:${WEEKDAY})s?(?:(?:\\s*,\\s*|\\s*&\\s*|\\s+and\\s+)(?:${WEEKDAY})s?)*`;
+
+// ============================================================================
+// Wall-Clock Dates
+// ============================================================================
+
+function day(date: Date, days = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+function weekdayOf(date: Date): RRuleWeekday {
+  return RRULE_WEEKDAYS[(date.getUTCDay() + 6) % 7];
+}
+
+function lastDayOfMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * A calendar date, or null if it doesn't exist (Feb 30)
+ */
+function calendarDate(year: number, month: number, dayOfMonth: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, dayOfMonth));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === dayOfMonth ? date : null;
+}
+
+/**
+ * The next time a month and day come round, today included
+ */
+function nextAnniversary(today: Date, month: number, dayOfMonth: number): Date | null {
+  const thisYear = calendarDate(today.getUTCFullYear(), month, dayOfMonth);
+  if (thisYear && thisYear >= today) return thisYear;
+  // Feb 29 may be a few years off
+  for (let year = today.getUTCFullYear() + 1; year <= today.getUTCFullYear() + 8; year++) {
+    const date = calendarDate(year, month, dayOfMonth);
+    if (date) return date;
+  }
+  return null;
+}
+
+function addMonthsClamped(date: Date, months: number): Date {
+  const first = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  return day(first, Math.min(date.getUTCDate(), lastDayOfMonth(first)) - 1);
+}
+
+/**
+ * Whether a day is one of the days a rule made here repeats on
+ */
+function isRuleDay(rule: RRule, date: Date): boolean {
+  if (rule.byDay?.length) return rule.byDay.some(d => d.weekday === weekdayOf(date));
+  if (rule.byMonthDay?.length) {
+    const dayOfMonth = date.getUTCDate();
+    return rule.byMonthDay.some(n => (n > 0 ? n === dayOfMonth : lastDayOfMonth(date) + n + 1 === dayOfMonth));
+  }
+  return true;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Text being parsed: recognised pieces are blanked out of `rest` as they're
+ * taken, so later patterns can't match them again and what's left is the title
+ */
+class QuickAddText {
+  rest: string;
+  private pieces: { index: number; text: string }[] = [];
+
+  constructor(private text: string) {
+    this.rest = text;
+  }
+
+  /**
+   * Offer every match of a pattern to `accept`; the accepted ones are taken
+   */
+  take(pattern: string, accept: (match: RegExpExecArray) => boolean): void {
+    // A piece is whole words: not preceded or followed by a letter or digit
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}_#!])(?:${pattern})(?![\\p{L}\\p{N}_])`, 'giu');
+    for (const match of [...this.rest.matchAll(regex)]) {
+      if (accept(match as RegExpExecArray)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        this.pieces.push({ index: start, text: this.text.slice(start, end).trim() });
+        this.rest = this.rest.slice(0, start) + ' '.repeat(end - start) + this.rest.slice(end);
+      }
+    }
+  }
+
+  get matched(): string[] {
+    return [...this.pieces].sort((a, b) => a.index - b.index).map(piece => piece.text);
+  }
+
+  get title(): string {
+    return this.rest.replace(/\s+/g, ' ').trim();
+  }
+}
+
+function weekdayFromName(name: string): RRuleWeekday {
+  const word = name.toLowerCase().replace(/s$/, '');
+  return (WEEKDAY_NAMES.find(([n]) => n === word) ?? WEEKDAY_NAMES.find(([n]) => n === `${word}s`))![1];
+}
+
+function monthFromName(name: string): number {
+  return MONTH_NAMES.find(([n]) => n === name.toLowerCase())![1];
+}
+
+function parseAmount(value: string): number {
+  return /^an?$/i.test(value) ? 1 : Number(value);
+}
+
+function parseRecurrence(text: QuickAddText): RRule | null {
+  let rule: RRule | null = null;
+  const once = (next: RRule | null) => {
+    if (rule || !next) return false;
+    rule = next;
+    return true;
+  };
+
+  text.take('every\\s+(weekday|workday|weekend)s?', m => once({
+    freq: 'WEEKLY',
+    interval: 1,
+    byDay: (m[1].toLowerCase() === 'weekend' ? ['SA', 'SU'] : ['MO', 'TU', 'WE', 'TH', 'FR'])
+      .map(weekday => ({ weekday: weekday as RRuleWeekday })),
+  }));
+  text.take(`every\\s+(?:(other|\\d+)\\s+)?months?\\s+on\\s+the\\s+(?:${ORDINAL}|(last)(?:\\s+day)?)|every\\s+${ORDINAL}`, m => {
+    const dayOfMonth = m[4] ? Number(m[4]) : m[3] ? -1 : Number(m[2]);
+    if (dayOfMonth === 0 || dayOfMonth > 31) return false;
+    const interval = m[1] === undefined ? 1 : m[1].toLowerCase() === 'other' ? 2 : Number(m[1]);
+    return interval >= 1 && once({ freq: 'MONTHLY', interval, byMonthDay: [dayOfMonth] });
+  });
+  text.take(`every\\s+(other\\s+)?(${WEEKDAY_LIST})`, m => {
+    const names = m[2].split(/\s*,\s*|\s*&\s*|\s+and\s+/i);
+    const days = [...new Set(names.map(weekdayFromName))];
+    return once({
+      freq: 'WEEKLY',
+      interval: m[1] ? 2 : 1,
+      byDay: RRULE_WEEKDAYS.filter(d => days.includes(d)).map(weekday => ({ weekday })),
+    });
+  });
+  text.take('every\\s+(?:(other|\\d+)\\s+)?(day|week|month|year)s?', m => {
+    const interval = m[1] === undefined ? 1 : m[1].toLowerCase() === 'other' ? 2 : Number(m[1]);
+    return interval >= 1 && interval <= 1000 && once({ freq: FREQUENCIES[m[2].toLowerCase()], interval });
+  });
+
+  return rule;
+}
+
+/**
+ * The due day, and for "in 2 hours" the exact time
+ */
+function parseDay(text: QuickAddText, now: Date, today: Date): { date: Date; time?: number; tonight?: boolean } | null {
+  let found: { date: Date; time?: number; tonight?: boolean } | null = null;
+  const once = (date: Date | null, extra: { time?: number; tonight?: boolean } = {}) => {
+    if (found || !date) return false;
+    found = { date, ...extra };
+    return true;
+  };
+
+  text.take('in\\s+(\\d+|an?)\\s+(?:(min|minute|hr|hour)s?|(h|m))', m => {
+    const unit = (m[2] ?? m[3]).toLowerCase().startsWith('h') ? 60 : 1;
+    const minutes = parseAmount(m[1]) * unit;
+    if (minutes < 1) return false;
+    const at = new Date(Math.ceil((now.getTime() + minutes * MINUTE_MS) / MINUTE_MS) * MINUTE_MS);
+    return once(day(at), { time: at.getUTCHours() * 60 + at.getUTCMinutes() });
+  });
+  text.take('in\\s+(\\d+|an?)\\s+(day|week|month)s?', m => {
+    const amount = parseAmount(m[1]);
+    const unit = m[2].toLowerCase();
+    return once(unit === 'month' ? addMonthsClamped(today, amount) : day(today, amount * (unit === 'week' ? 7 : 1)));
+  });
+  text.take('(?:on\\s+)?(\\d{4})-(\\d{2})-(\\d{2})', m => once(calendarDate(Number(m[1]), Number(m[2]), Number(m[3]))));
+  text.take(`(?:on\\s+)?(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`, m => once(m[3]
+    ? calendarDate(Number(m[3]), monthFromName(m[1]), Number(m[2]))
+    : nextAnniversary(today, monthFromName(m[1]), Number(m[2]))));
+  text.take(`(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})(?:,?\\s+(\\d{4}))?`, m => once(m[3]
+    ? calendarDate(Number(m[3]), monthFromName(m[2]), Number(m[1]))
+    : nextAnniversary(today, monthFromName(m[2]), Number(m[1]))));
+  text.take('today|tonight|tomorrow|tmrw', m => {
+    const word = m[0].toLowerCase();
+    return once(day(today, word === 'today' || word === 'tonight' ? 0 : 1), { tonight: word === 'tonight' });
+  });
+  text.take('next\\s+(week|month)', m => once(m[1].toLowerCase() === 'week'
+    ? day(today, 7 - (today.getUTCDay() + 6) % 7)
+    : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1))));
+  text.take(`(?:(next|this|on)\\s+)?(${WEEKDAY})`, m => {
+    // Short names on their own are too often words ("sun", "wed"), so they need a prefix
+    if (!m[1] && m[2].length < 6) return false;
+    const target = weekdayFromName(m[2]);
+    // "Fri" is the coming Friday (today if it's Friday), "next Fri" the one after today
+    const start = m[1]?.toLowerCase() === 'next' ? 1 : 0;
+    for (let i = start; i < start + 7; i++) {
+      if (weekdayOf(day(today, i)) === target) return once(day(today, i));
+    }
+    return false;
+  });
+
+  return found;
+}
+
+function parseTime(text: QuickAddText): number | null {
+  let time: number | null = null;
+  const once = (hours: number, minutes: number) => {
+    if (time !== null || hours > 23 || minutes > 59) return false;
+    time = hours * 60 + minutes;
+    return true;
+  };
+
+  text.take('(?:at\\s+|@\\s*)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)', m => {
+    const hour = Number(m[1]);
+    if (hour < 1 || hour > 12) return false;
+    const pm = m[3].toLowerCase().startsWith('p');
+    return once((hour % 12) + (pm ? 12 : 0), Number(m[2] ?? 0));
+  });
+  text.take('(?:at\\s+|@\\s*)?(\\d{1,2}):(\\d{2})', m => once(Number(m[1]), Number(m[2])));
+  text.take('(?:at\\s+)?(?:noon|midday)', () => once(12, 0));
+
+  return time;
+}
+
+/**
+ * Parse a quick-add line
+ * @param input - What the user typed
+ * @param options.timeZone - The user's IANA timezone, for "today" and times
+ * @param options.now - The current time (for tests)
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions): QuickAddResult {
+  const text = new QuickAddText(input);
+  const local = formatInZone(options.now ?? new Date(), options.timeZone, "yyyy-MM-dd'T'HH:mm");
+  const now = new Date(`${local}:00.000Z`);
+  const today = day(now);
+
+  const tags: string[] = [];
+  text.take('#([\\p{L}_][\\p{L}\\p{N}_\\-/]*)', m => {
+    if (m[1].length > MAX_TAG_LENGTH) return false;
+    if (!tags.some(tag => tag.toLowerCase() === m[1].toLowerCase())) tags.push(m[1]);
+    return true;
+  });
+
+  let priority: Priority | null = null;
+  text.take('!(high|medium|med|low|h|m|l)', m => {
+    if (priority) return false;
+    priority = PRIORITY_NAMES[m[1].toLowerCase()];
+    return true;
+  });
+
+  const reminders: number[] = [];
+  text.take('remind(?:\\s+me)?\\s+(\\d+|an?)\\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)\\s+before', m => {
+    const minutes = parseAmount(m[1]) * UNIT_MINUTES[m[2][0].toLowerCase()];
+    if (!isValidReminderOffset(minutes) || reminders.length >= MAX_REMINDERS_PER_TODO) return false;
+    if (!reminders.includes(minutes)) reminders.push(minutes);
+    return true;
+  });
+
+  const rule = parseRecurrence(text);
+  const found = parseDay(text, now, today);
+  const time = found?.time ?? parseTime(text);
+
+  let date = found?.date ?? null;
+  if (!date && rule) {
+    // The rule's first day, starting tomorrow if today's time has passed
+    const from = time !== null && today.getTime() + time * MINUTE_MS <= now.getTime() ? 1 : 0;
+    for (let i = from; i < from + 366 && !date; i++) {
+      if (isRuleDay(rule, day(today, i))) date = day(today, i);
+    }
+  } else if (!date && time !== null) {
+    date = today.getTime() + time * MINUTE_MS > now.getTime() ? today : day(today, 1);
+  }
+
+  let dueDate: string | null = null;
+  if (date) {
+    let minutes = time ?? (found?.tonight ? TONIGHT_TIME : DEFAULT_TIME);
+    // "today" without a time, once 9:00 AM has passed: the next whole hour
+    if (time === null && date.getTime() + minutes * MINUTE_MS <= now.getTime()) {
+      minutes = Math.min(now.getUTCHours() * 60 + 60, 23 * 60 + 59);
+    }
+    dueDate = new Date(date.getTime() + minutes * MINUTE_MS).toISOString().slice(0, 16);
+  }
+
+  return {
+    title: text.title,
+    due_date: dueDate,
+    recurrence_rule: rule ? formatRRule(rule) : null,
+    priority,
+    tags,
+    reminders,
+    matched: text.matched,
+  };
+}
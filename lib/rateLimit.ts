@@ -0,0 +1,30 @@
+/**
+ * Per-User Rate Limits
+ *
+ * Sliding-window limits for endpoints that make the server contact someone
+ * else on a user's behalf (test emails, test pushes). Kept in memory, so
+ * they reset when the server restarts.
+ */
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitHits?: Map<string, number[]>;
+};
+
+/**
+ * Count one use of a rate-limited action
+ * @param key - Action and user, e.g. `test-email:42`
+ * @returns 0 if the action may go ahead, otherwise the seconds until it may
+ */
+export function takeRateLimitSlot(key: string, limit: number, windowMs: number, now: number = Date.now()): number {
+  const hits = (globalForRateLimit.rateLimitHits ??= new Map<string, number[]>());
+  const recent = (hits.get(key) ?? []).filter(at => at > now - windowMs);
+
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return Math.ceil((recent[0] + windowMs - now) / 1000);
+  }
+
+  hits.set(key, [...recent, now]);
+  return 0;
+}
@@ -1,55 +1,141 @@
-import { addDays, addWeeks, addMonths, addYears } from 'date-fns';
-import { toZonedTime, format } from 'date-fns-tz';
 import { RecurrencePattern } from './db';
+import { getNextOccurrence, parseRRule } from './rrule';
+import { DEFAULT_TIMEZONE, formatInZone, toUTC } from './timezone';
 
-const SINGAPORE_TZ = 'Asia/Singapore';
+/**
+ * Recurrence Calculations
+ *
+ * Due dates are stored in UTC but repeat on the user's wall clock: a todo due
+ * at 09:00 in Europe/London stays at 09:00 local time across DST changes.
+ * Calculations convert to the user's zone, step the wall-clock date (held in
+ * the UTC fields of a Date, so the host's own zone never interferes) and
+ * convert back to UTC.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wall-clock date/time of a stored due date in the given timezone
+ */
+function toWallClock(dueDate: string, timeZone: string): Date {
+  const local = formatInZone(dueDate, timeZone, "yyyy-MM-dd'T'HH:mm:ss");
+  const [datePart, timePart] = local.split('T');
+  const [y, mo, d] = datePart.split('-').map(Number);
+  const [h, mi, s] = timePart.split(':').map(Number);
+  return new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+}
+
+/**
+ * UTC timestamp of a wall-clock date/time in the given timezone
+ */
+function fromWallClock(wallClock: Date, timeZone: string): string {
+  return toUTC(wallClock.toISOString().slice(0, 19), timeZone);
+}
+
+/**
+ * Add months to a wall-clock date, clamping to the end of shorter months (Jan 31 -> Feb 28)
+ */
+function addMonthsClamped(date: Date, months: number): Date {
+  const monthIndex = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year, month, Math.min(date.getUTCDate(), lastDay),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+  ));
+}
+
+/**
+ * Move a due date by whole days, keeping its time of day on the user's wall clock
+ * @param days - Days to move by (negative for earlier)
+ * @returns Shifted due date as a UTC ISO string
+ */
+export function shiftDueDate(
+  dueDate: string,
+  days: number,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const current = toWallClock(dueDate, timeZone);
+  return fromWallClock(new Date(current.getTime() + days * DAY_MS), timeZone);
+}
 
 /**
  * Calculate the next due date based on recurrence pattern
- * All calculations maintain Singapore timezone
+ * @param timeZone - User's IANA timezone (the wall clock the todo repeats on)
+ * @returns Next due date as a UTC ISO string
  */
 export function calculateNextDueDate(
   currentDueDate: string,
-  pattern: RecurrencePattern
+  pattern: RecurrencePattern,
+  timeZone: string = DEFAULT_TIMEZONE
 ): string {
-  const current = toZonedTime(new Date(currentDueDate), SINGAPORE_TZ);
+  const current = toWallClock(currentDueDate, timeZone);
   let next: Date;
 
   switch (pattern) {
     case 'daily':
-      next = addDays(current, 1);
+      next = new Date(current.getTime() + DAY_MS);
       break;
     case 'weekly':
-      next = addWeeks(current, 1);
+      next = new Date(current.getTime() + 7 * DAY_MS);
       break;
     case 'monthly':
-      next = addMonths(current, 1);
+      next = addMonthsClamped(current, 1);
       break;
     case 'yearly':
-      next = addYears(current, 1);
+      next = addMonthsClamped(current, 12);
       break;
     default:
       throw new Error(`Invalid recurrence pattern: ${pattern}`);
   }
 
-  return format(toZonedTime(next, SINGAPORE_TZ), 'yyyy-MM-dd HH:mm:ss', {
-    timeZone: SINGAPORE_TZ,
-  });
+  return fromWallClock(next, timeZone);
+}
+
+/**
+ * Calculate the next due date from an RRULE string
+ * @param occurrenceIndex - 1-based position of the current due date in the series (for COUNT)
+ * @param timeZone - User's IANA timezone (BYDAY, UNTIL etc. are evaluated on this wall clock)
+ * @returns Next due date as a UTC ISO string, or null when the series has ended (COUNT or UNTIL reached)
+ */
+export function calculateNextRuleDueDate(
+  currentDueDate: string,
+  rule: string,
+  occurrenceIndex: number = 1,
+  timeZone: string = DEFAULT_TIMEZONE
+): string | null {
+  const parsed = parseRRule(rule);
+  if (parsed.count !== undefined && occurrenceIndex >= parsed.count) {
+    return null;
+  }
+
+  const next = getNextOccurrence(parsed, toWallClock(currentDueDate, timeZone));
+  return next ? fromWallClock(next, timeZone) : null;
 }
 
 /**
- * Calculate the next N occurrences for preview
+ * Calculate the next N occurrences for preview (as UTC ISO strings)
+ * With a rule, fewer than N are returned if the series ends first
  */
 export function calculateNextOccurrences(
   startDate: string,
   pattern: RecurrencePattern,
-  count: number = 5
+  count: number = 5,
+  rule?: string | null,
+  timeZone: string = DEFAULT_TIMEZONE
 ): string[] {
-  const occurrences: string[] = [startDate];
-  let current = startDate;
+  let current = toUTC(startDate, timeZone);
+  const occurrences: string[] = [current];
 
   for (let i = 0; i < count - 1; i++) {
-    current = calculateNextDueDate(current, pattern);
+    if (rule) {
+      const next = calculateNextRuleDueDate(current, rule, i + 1, timeZone);
+      if (!next) break;
+      current = next;
+    } else {
+      current = calculateNextDueDate(current, pattern, timeZone);
+    }
     occurrences.push(current);
   }
 
@@ -0,0 +1,120 @@
+/**
+ * Reminder Helpers
+ *
+ * A todo can have several reminders, each either relative (offset_minutes
+ * before the due date) or absolute (remind_at). Safe to import from client
+ * components; storage lives in todoReminderDB (lib/db.ts).
+ */
+
+import type { ReminderInput, TodoReminder } from './db';
+import { MAX_REMINDER_OFFSET_MINUTES, MAX_REMINDERS_PER_TODO, REMINDER_OPTIONS } from './constants';
+import { toUTC } from './timezone';
+
+/**
+ * Check that an offset is a whole number of minutes within the allowed range
+ */
+export function isValidReminderOffset(minutes: unknown): minutes is number {
+  return Number.isInteger(minutes) && (minutes as number) > 0 && (minutes as number) <= MAX_REMINDER_OFFSET_MINUTES;
+}
+
+/**
+ * Short label for an offset, e.g. "15 min", "1 hr", "3 days", "2 wk"
+ */
+export function formatReminderOffset(minutes: number): string {
+  const preset = REMINDER_OPTIONS.find(opt => opt.value === minutes);
+  if (preset) return preset.description;
+
+  if (minutes % 10080 === 0) return `${minutes / 10080} wk`;
+  if (minutes % 1440 === 0) return `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return `${minutes / 60} hrs`;
+  return `${minutes} min`;
+}
+
+/**
+ * Identity of a reminder's timing, used to match submitted reminders to stored ones
+ */
+export function reminderKey(reminder: ReminderInput): string {
+  return reminder.remind_at
+    ? `at:${new Date(reminder.remind_at).toISOString()}`
+    : `offset:${reminder.offset_minutes}`;
+}
+
+/**
+ * When a reminder fires (ignoring snooze), as a UTC ISO string
+ */
+export function getReminderTime(reminder: ReminderInput, dueDate: string): string {
+  if (reminder.remind_at) return new Date(reminder.remind_at).toISOString();
+  return new Date(new Date(dueDate).getTime() - (reminder.offset_minutes ?? 0) * 60000).toISOString();
+}
+
+/**
+ * Reminder timings of stored reminders, in the shape the API accepts
+ */
+export function toReminderInputs(reminders: TodoReminder[] = []): ReminderInput[] {
+  return reminders.map(r => (r.remind_at ? { remind_at: r.remind_at } : { offset_minutes: r.offset_minutes }));
+}
+
+/**
+ * Validate reminders submitted to the API
+ * @param raw - Array of { offset_minutes } or { remind_at }; remind_at may be
+ *              wall-clock time in timeZone (e.g. from datetime-local)
+ * @returns Normalized, de-duplicated reminders
+ * @throws Error describing the first invalid entry
+ */
+export function normalizeReminderInputs(raw: unknown, timeZone: string): ReminderInput[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Reminders must be an array');
+  }
+
+  const byKey = new Map<string, ReminderInput>();
+
+  raw.forEach(item => {
+    const hasOffset = item?.offset_minutes !== undefined && item?.offset_minutes !== null;
+    const hasTime = item?.remind_at !== undefined && item?.remind_at !== null && item?.remind_at !== '';
+    if (hasOffset === hasTime) {
+      throw new Error('Each reminder needs either offset_minutes or remind_at');
+    }
+
+    let reminder: ReminderInput;
+    if (hasOffset) {
+      if (!isValidReminderOffset(item.offset_minutes)) {
+        throw new Error(`Reminder offset must be a whole number of minutes up to ${MAX_REMINDER_OFFSET_MINUTES}`);
+      }
+      reminder = { offset_minutes: item.offset_minutes };
+    } else {
+      try {
+        reminder = { remind_at: toUTC(String(item.remind_at), timeZone) };
+      } catch {
+        throw new Error('Invalid reminder time');
+      }
+    }
+
+    byKey.set(reminderKey(reminder), reminder);
+  });
+
+  if (byKey.size > MAX_REMINDERS_PER_TODO) {
+    throw new Error(`A todo can have at most ${MAX_REMINDERS_PER_TODO} reminders`);
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * Reminders from a todo create/update request body: `reminders`, or the older
+ * single `reminder_minutes` field (null clears all reminders)
+ * @returns undefined when the body doesn't mention reminders
+ * @throws Error describing the first invalid entry
+ */
+export function readRemindersFromBody(
+  body: { reminders?: unknown; reminder_minutes?: unknown },
+  timeZone: string
+): ReminderInput[] | undefined {
+  if (body.reminders !== undefined) {
+    return normalizeReminderInputs(body.reminders ?? [], timeZone);
+  }
+  if (body.reminder_minutes !== undefined) {
+    const legacy = body.reminder_minutes === null ? [] : [{ offset_minutes: Number(body.reminder_minutes) }];
+    return normalizeReminderInputs(legacy, timeZone);
+  }
+  return undefined;
+}
@@ -0,0 +1,471 @@
+/**
+ * Recurrence Rules (RFC 5545 RRULE subset)
+ *
+ * Parses, formats, describes and evaluates RRULE strings such as
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH
+ *   FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1   (last weekday of the month)
+ *   FREQ=MONTHLY;INTERVAL=3;COUNT=4
+ *
+ * Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with
+ * ordinals for MONTHLY/YEARLY), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL
+ * and WKST=MO. Occurrences are computed on wall-clock date/times, keeping the
+ * time of day of the current occurrence.
+ *
+ * This file has no database or server-only dependencies (safe for client components).
+ */
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  ordinal?: number; // e.g. 1 = first, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: string; // RFC 5545 DATE (20261231) or DATE-TIME (20261231T170000)
+}
+
+export const RRULE_FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Monday-first, matching the RFC 5545 default week start (WKST=MO)
+export const RRULE_WEEKDAYS: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<RRuleWeekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const WORKWEEK: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+// Upper bound on periods scanned when looking for the next occurrence, so
+// impossible rules (e.g. BYMONTH=2;BYMONTHDAY=30) end instead of looping
+const MAX_PERIODS = 2000;
+
+// ============================================================================
+// Parsing & Formatting
+// ============================================================================
+
+function parseIntList(key: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(part => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid ${key} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * @throws Error describing the first invalid or unsupported part
+ */
+export function parseRRule(input: string): RRule {
+  const text = input.trim().replace(/^RRULE:/i, '');
+  if (!text) throw new Error('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  text.split(';').forEach(segment => {
+    const [rawKey, rawValue] = segment.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const value = rawValue?.trim().toUpperCase();
+    if (!key || !value) throw new Error(`Malformed rule part: ${segment}`);
+    if (parts.has(key)) throw new Error(`Duplicate rule part: ${key}`);
+    parts.set(key, value);
+  });
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !RRULE_FREQUENCIES.includes(freq)) {
+    throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > 1000) {
+          throw new Error('INTERVAL must be a whole number between 1 and 1000');
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(part => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(part);
+          if (!match) throw new Error(`Invalid BYDAY value: ${part}`);
+          const day: RRuleByDay = { weekday: match[2] as RRuleWeekday };
+          if (match[1] !== undefined) {
+            const ordinal = Number(match[1]);
+            if (ordinal === 0 || Math.abs(ordinal) > 53) throw new Error(`Invalid BYDAY ordinal: ${part}`);
+            if (freq !== 'MONTHLY' && freq !== 'YEARLY') {
+              throw new Error('BYDAY ordinals are only allowed with MONTHLY or YEARLY');
+            }
+            day.ordinal = ordinal;
+          }
+          return day;
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(key, value, 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(key, value, 1, 12);
+        if (rule.byMonth.some(m => m < 0)) throw new Error('BYMONTH values must be positive');
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(key, value, 1, 366);
+        break;
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) throw new Error('COUNT must be a positive whole number');
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL':
+        if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) {
+          throw new Error('UNTIL must be a date (YYYYMMDD) or date-time (YYYYMMDDTHHMMSS)');
+        }
+        rule.until = value;
+        break;
+      case 'WKST':
+        if (value !== 'MO') throw new Error('Only WKST=MO is supported');
+        break;
+      default:
+        throw new Error(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+    throw new Error('BYSETPOS requires BYDAY, BYMONTHDAY or BYMONTH');
+  }
+
+  return rule;
+}
+
+/**
+ * Format a rule as a canonical RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until}`);
+  return parts.join(';');
+}
+
+/**
+ * Validate a rule string and return it in canonical form (or null for empty input)
+ * @throws Error if the rule is invalid
+ */
+export function normalizeRRule(input?: string | null): string | null {
+  if (input === null || input === undefined || input.trim() === '') return null;
+  return formatRRule(parseRRule(input));
+}
+
+/**
+ * Equivalent rule for one of the legacy fixed recurrence patterns
+ */
+export function patternToRRule(pattern: 'daily' | 'weekly' | 'monthly' | 'yearly'): RRule {
+  return { freq: pattern.toUpperCase() as RRuleFrequency, interval: 1 };
+}
+
+/**
+ * Legacy pattern with the same frequency, kept on the todo for badges and filters
+ */
+export function rruleToPattern(rule: RRule): 'daily' | 'weekly' | 'monthly' | 'yearly' {
+  return rule.freq.toLowerCase() as 'daily' | 'weekly' | 'monthly' | 'yearly';
+}
+
+// ============================================================================
+// Description
+// ============================================================================
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinalLabel(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function describeWeekdays(days: RRuleWeekday[]): string {
+  const sorted = RRULE_WEEKDAYS.filter(d => days.includes(d));
+  if (sorted.length === 5 && WORKWEEK.every(d => sorted.includes(d))) return 'weekday';
+  if (sorted.length === 7) return 'day';
+  return sorted.map(d => WEEKDAY_LABELS[d]).join(', ');
+}
+
+/**
+ * Format an UNTIL value for display (e.g. "Dec 31, 2026")
+ */
+function describeUntil(until: string): string {
+  const month = MONTH_LABELS[Number(until.slice(4, 6)) - 1];
+  return `${month} ${Number(until.slice(6, 8))}, ${until.slice(0, 4)}`;
+}
+
+/**
+ * Human-readable description, e.g. "Every 2 weeks on Mon, Thu, 10 times"
+ */
+export function describeRRule(rule: RRule): string {
+  const units: Record<RRuleFrequency, [string, string]> = {
+    DAILY: ['Daily', 'days'],
+    WEEKLY: ['Weekly', 'weeks'],
+    MONTHLY: ['Monthly', 'months'],
+    YEARLY: ['Yearly', 'years'],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`;
+
+  if (rule.byMonth?.length) {
+    text += ` in ${rule.byMonth.map(m => MONTH_LABELS[m - 1]).join(', ')}`;
+  }
+
+  if (rule.byDay?.length) {
+    const plain = rule.byDay.filter(d => d.ordinal === undefined).map(d => d.weekday);
+    const ordinal = rule.byDay.filter(d => d.ordinal !== undefined);
+
+    if (rule.bySetPos?.length && plain.length > 0) {
+      const positions = rule.bySetPos.map(ordinalLabel).join(' and ');
+      text += ` on the ${positions} ${describeWeekdays(plain)}`;
+    } else if (plain.length > 0) {
+      const days = describeWeekdays(plain);
+      text += days === 'weekday' ? ' on weekdays' : days === 'day' ? '' : ` on ${days}`;
+    }
+    if (ordinal.length > 0) {
+      text += ` on the ${ordinal.map(d => `${ordinalLabel(d.ordinal!)} ${WEEKDAY_LABELS[d.weekday]}`).join(', ')}`;
+    }
+  }
+
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay.map(d => (d === -1 ? 'the last day' : d < 0 ? `the ${ordinalLabel(d)} day` : `day ${d}`));
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  } else if (rule.until) {
+    text += `, until ${describeUntil(rule.until)}`;
+  }
+
+  return text;
+}
+
+// ============================================================================
+// Occurrence Calculation
+// Dates below are "wall-clock" values held in Date objects via their UTC
+// fields, so no local or DST offsets are applied during arithmetic.
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function weekdayIndex(date: Date): number {
+  // 0 = Monday ... 6 = Sunday
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function atTime(year: number, month: number, day: number, time: Date): Date {
+  return new Date(Date.UTC(
+    year, month - 1, day,
+    time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()
+  ));
+}
+
+/**
+ * Parse an UNTIL value into a wall-clock Date (DATE values include the whole day)
+ */
+function parseUntil(until: string): Date {
+  const year = Number(until.slice(0, 4));
+  const month = Number(until.slice(4, 6));
+  const day = Number(until.slice(6, 8));
+  if (until.length === 8) {
+    return new Date(Date.UTC(year, month - 1, day, 23, 59, 59));
+  }
+  return new Date(Date.UTC(
+    year, month - 1, day,
+    Number(until.slice(9, 11)), Number(until.slice(11, 13)), Number(until.slice(13, 15))
+  ));
+}
+
+/**
+ * Days of a month selected by BYMONTHDAY / BYDAY (or the anchor's day if neither)
+ */
+function expandMonth(rule: RRule, year: number, month: number, anchorDay: number): number[] {
+  const total = daysInMonth(year, month);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map(d => (d > 0 ? d : total + d + 1))
+      .filter(d => d >= 1 && d <= total);
+  }
+
+  if (rule.byDay?.length) {
+    const selected = new Set<number>();
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+      const target = RRULE_WEEKDAYS.indexOf(weekday);
+      const matches: number[] = [];
+      for (let d = 1; d <= total; d++) {
+        if (weekdayIndex(new Date(Date.UTC(year, month - 1, d))) === target) matches.push(d);
+      }
+      if (ordinal === undefined) {
+        matches.forEach(d => selected.add(d));
+      } else {
+        const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (pick !== undefined) selected.add(pick);
+      }
+    });
+    days = days ? days.filter(d => selected.has(d)) : [...selected];
+  }
+
+  if (!days) {
+    days = anchorDay <= total ? [anchorDay] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Days of a year selected by BYDAY when no BYMONTH/BYMONTHDAY narrows it
+ * (ordinals count within the year, e.g. 20MO = 20th Monday)
+ */
+function expandYearByDay(rule: RRule, year: number, time: Date): Date[] {
+  const start = Date.UTC(year, 0, 1);
+  const total = (Date.UTC(year + 1, 0, 1) - start) / DAY_MS;
+  const result: Date[] = [];
+
+  rule.byDay!.forEach(({ weekday, ordinal }) => {
+    const target = RRULE_WEEKDAYS.indexOf(weekday);
+    const matches: Date[] = [];
+    for (let i = 0; i < total; i++) {
+      const date = new Date(start + i * DAY_MS);
+      if (weekdayIndex(date) === target) {
+        matches.push(atTime(year, date.getUTCMonth() + 1, date.getUTCDate(), time));
+      }
+    }
+    if (ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (pick) result.push(pick);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * All candidate occurrences in the k-th period after the anchor's period
+ */
+function candidatesForPeriod(rule: RRule, anchor: Date, k: number): Date[] {
+  const step = k * rule.interval;
+  let candidates: Date[] = [];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(anchor.getTime() + step * DAY_MS);
+      const weekdays = rule.byDay?.map(d => d.weekday);
+      const monthDays = rule.byMonthDay
+        ? expandMonth({ ...rule, byDay: undefined }, day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate())
+        : null;
+      const matches =
+        (!weekdays || weekdays.includes(RRULE_WEEKDAYS[weekdayIndex(day)])) &&
+        (!monthDays || monthDays.includes(day.getUTCDate()));
+      if (matches) candidates = [day];
+      break;
+    }
+    case 'WEEKLY': {
+      const weekStart = anchor.getTime() - weekdayIndex(anchor) * DAY_MS + step * 7 * DAY_MS;
+      const offsets = rule.byDay?.length
+        ? rule.byDay.map(d => RRULE_WEEKDAYS.indexOf(d.weekday))
+        : [weekdayIndex(anchor)];
+      candidates = offsets.map(offset => new Date(weekStart + offset * DAY_MS));
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = anchor.getUTCFullYear() * 12 + anchor.getUTCMonth() + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      candidates = expandMonth(rule, year, month, anchor.getUTCDate())
+        .map(day => atTime(year, month, day, anchor));
+      break;
+    }
+    case 'YEARLY': {
+      const year = anchor.getUTCFullYear() + step;
+      if (rule.byDay?.length && !rule.byMonth?.length && !rule.byMonthDay?.length) {
+        candidates = expandYearByDay(rule, year, anchor);
+      } else {
+        const months = rule.byMonth?.length ? rule.byMonth : [anchor.getUTCMonth() + 1];
+        months.forEach(month => {
+          expandMonth(rule, year, month, anchor.getUTCDate())
+            .forEach(day => candidates.push(atTime(year, month, day, anchor)));
+        });
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth?.length && rule.freq !== 'YEARLY') {
+    candidates = candidates.filter(c => rule.byMonth!.includes(c.getUTCMonth() + 1));
+  }
+
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+
+  if (rule.bySetPos?.length) {
+    const picked = rule.bySetPos
+      .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+      .filter((c): c is Date => c !== undefined);
+    candidates = [...new Map(picked.map(c => [c.getTime(), c])).values()]
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  return candidates;
+}
+
+/**
+ * Next occurrence strictly after `current`, or null when UNTIL has passed or
+ * the rule can never match again. COUNT is not applied here - callers track
+ * how many occurrences have happened.
+ * @param current - Wall-clock date/time of the current occurrence (UTC fields)
+ */
+export function getNextOccurrence(rule: RRule, current: Date): Date | null {
+  const until = rule.until ? parseUntil(rule.until) : null;
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    const next = candidatesForPeriod(rule, current, k).find(c => c.getTime() > current.getTime());
+    if (next) {
+      return until && next.getTime() > until.getTime() ? null : next;
+    }
+  }
+
+  return null;
+}
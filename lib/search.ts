@@ -1,9 +1,15 @@
 /**
  * Search & Filter Utilities
- * Client-side search and filtering for todos
+ * Client-side search and filtering for todos, plus the query and highlight
+ * helpers for server-side full-text search (GET /api/search), and the
+ * conversions that save filters in smart lists and share them in URLs
  */
 
 import { Priority, RecurrencePattern, TodoWithRelations } from './db';
+import { PRIORITY_CONFIGS, SEARCH_MARK_END, SEARCH_MARK_START } from './constants';
+import { escapeHtml } from './html';
+import { createQueryMatcher, parseQuery, validateQuery } from './query';
+import { formatInZone } from './timezone';
 
 // Re-export for convenience
 export type { TodoWithRelations, Priority, RecurrencePattern };
@@ -17,6 +23,7 @@ export interface FilterState {
   priority: Priority | null;
   tagId: number | null;
   completed: 'all' | 'incomplete' | 'complete';
+  assignedToMe: boolean; // Todos or subtasks assigned to SearchOptions.currentUserId
   dateRange?: {
     start: string;
     end: string;
@@ -30,8 +37,16 @@ export interface SearchOptions {
   caseSensitive: boolean;
   exactMatch: boolean;
   searchInSubtasks: boolean;
+  timeZone?: string; // Zone that date range days are counted in (default: Asia/Singapore)
+  currentUserId?: number; // Needed for the assignedToMe filter
 }
 
+/**
+ * The search options a smart list saves; timeZone and currentUserId belong
+ * to whoever is viewing it
+ */
+export type SavedSearchOptions = Pick<SearchOptions, 'caseSensitive' | 'exactMatch' | 'searchInSubtasks'>;
+
 /**
  * Default filter state
  */
@@ -41,6 +56,7 @@ export const defaultFilters: FilterState = {
   priority: null,
   tagId: null,
   completed: 'incomplete', // Show incomplete by default
+  assignedToMe: false,
 };
 
 /**
@@ -52,6 +68,29 @@ export const defaultSearchOptions: SearchOptions = {
   searchInSubtasks: true,
 };
 
+/**
+ * Whether a todo contains search text: in its title, or in advanced mode
+ * also its description, tags and (optionally) subtasks
+ */
+function matchesSearchText(
+  todo: TodoWithRelations,
+  text: string,
+  mode: FilterState['searchMode'],
+  options: SearchOptions
+): boolean {
+  const normalize = (value: string) => (options.caseSensitive ? value : value.toLowerCase());
+  const searchTerm = normalize(text);
+  const matches = (value: string) =>
+    options.exactMatch ? normalize(value) === searchTerm : normalize(value).includes(searchTerm);
+
+  if (matches(todo.title)) return true;
+  if (mode === 'simple') return false;
+
+  return matches(todo.description ?? '') ||
+    Boolean(todo.tags?.some((tag) => matches(tag.name))) ||
+    Boolean(options.searchInSubtasks && todo.subtasks?.some((subtask) => matches(subtask.title)));
+}
+
 /**
  * Search and filter todos based on criteria
  */
@@ -62,44 +101,21 @@ export function searchTodos(
 ): TodoWithRelations[] {
   let results = [...todos];
 
-  // Apply search text filter
+  // Apply search text filter: a title search in simple mode, a query
+  // (lib/query.ts) over all fields in advanced mode
   if (filters.searchText) {
-    const searchTerm = options.caseSensitive
-      ? filters.searchText
-      : filters.searchText.toLowerCase();
-
-    results = results.filter((todo) => {
-      // Search in title
-      const title = options.caseSensitive ? todo.title : todo.title.toLowerCase();
-      const titleMatch = options.exactMatch
-        ? title === searchTerm
-        : title.includes(searchTerm);
-
-      if (filters.searchMode === 'simple') {
-        return titleMatch;
+    if (filters.searchMode === 'simple') {
+      results = results.filter((todo) => matchesSearchText(todo, filters.searchText, 'simple', options));
+    } else {
+      // An invalid query leaves the list alone; SearchBar shows the error
+      const query = validateQuery(filters.searchText) ? null : parseQuery(filters.searchText);
+      if (query) {
+        results = results.filter(createQueryMatcher(query, {
+          timeZone: options.timeZone,
+          matchText: (todo, text) => matchesSearchText(todo, text, 'advanced', options),
+        }));
       }
-
-      // Advanced search: include tags
-      const tagMatch = todo.tags?.some((tag) => {
-        const tagName = options.caseSensitive ? tag.name : tag.name.toLowerCase();
-        return options.exactMatch ? tagName === searchTerm : tagName.includes(searchTerm);
-      });
-
-      // Search in subtasks
-      let subtaskMatch = false;
-      if (options.searchInSubtasks && todo.subtasks) {
-        subtaskMatch = todo.subtasks.some((subtask) => {
-          const subtaskTitle = options.caseSensitive
-            ? subtask.title
-            : subtask.title.toLowerCase();
-          return options.exactMatch
-            ? subtaskTitle === searchTerm
-            : subtaskTitle.includes(searchTerm);
-        });
-      }
-
-      return titleMatch || tagMatch || subtaskMatch;
-    });
+    }
   }
 
   // Apply priority filter
@@ -119,16 +135,24 @@ export function searchTodos(
     results = results.filter((todo) => todo.completed);
   }
 
+  // Apply assignee filter: the todo itself or any of its subtasks
+  if (filters.assignedToMe && options.currentUserId !== undefined) {
+    const userId = options.currentUserId;
+    results = results.filter((todo) =>
+      todo.assignee_id === userId ||
+      todo.subtasks?.some((subtask) => subtask.assignee_id === userId)
+    );
+  }
+
   // Apply date range filter
   if (filters.dateRange && filters.dateRange.start && filters.dateRange.end) {
-    const start = new Date(filters.dateRange.start);
-    const end = new Date(filters.dateRange.end);
-    // Set end date to end of day
-    end.setHours(23, 59, 59, 999);
+    const start = filters.dateRange.start.slice(0, 10);
+    const end = filters.dateRange.end.slice(0, 10);
 
+    // Compare calendar days in the user's timezone (end date is inclusive)
     results = results.filter((todo) => {
-      const dueDate = new Date(todo.due_date);
-      return dueDate >= start && dueDate <= end;
+      const dueDay = formatInZone(todo.due_date, options.timeZone, 'yyyy-MM-dd');
+      return dueDay >= start && dueDay <= end;
     });
   }
 
@@ -144,6 +168,7 @@ export function hasActiveFilters(filters: FilterState): boolean {
     filters.priority !== null ||
     filters.tagId !== null ||
     filters.completed !== 'incomplete' || // 'incomplete' is the default
+    filters.assignedToMe ||
     (filters.dateRange !== undefined &&
       filters.dateRange.start !== '' &&
       filters.dateRange.end !== '')
@@ -159,6 +184,170 @@ export function getActiveFilterCount(filters: FilterState): number {
   if (filters.priority) count++;
   if (filters.tagId) count++;
   if (filters.completed !== 'incomplete') count++;
+  if (filters.assignedToMe) count++;
   if (filters.dateRange?.start && filters.dateRange?.end) count++;
   return count;
 }
+
+/**
+ * Turn typed search text into an FTS5 query: every word must match, as a
+ * prefix ("meet" finds "meeting"), and "quoted phrases" match as written.
+ * Punctuation and FTS5 operators are ignored, so any input is a valid query.
+ * @returns null when there's nothing to search for
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of text.matchAll(/"([^"]*)"|[^\s"]+/g)) {
+    const isPhrase = match[1] !== undefined;
+    const words = (isPhrase ? match[1] : match[0]).match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length === 0) continue;
+    terms.push(isPhrase ? `"${words.join(' ')}"` : words.map(word => `"${word}"*`).join(' '));
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * HTML for an FTS5 highlight or snippet: the text escaped, matches in <mark>
+ */
+export function highlightToHtml(text: string): string {
+  return escapeHtml(text)
+    .split(SEARCH_MARK_START).join('<mark>')
+    .split(SEARCH_MARK_END).join('</mark>');
+}
+
+/**
+ * Whether an FTS5 highlight or snippet contains a match
+ */
+export function hasHighlight(text: string): boolean {
+  return text.includes(SEARCH_MARK_START);
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPriority(value: unknown): value is Priority {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PRIORITY_CONFIGS, value);
+}
+
+/**
+ * Check filters from a request body; missing fields get their defaults
+ * @returns null if any field is invalid
+ */
+export function parseFilterState(value: unknown): FilterState | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const input = { ...defaultFilters, ...value } as Record<string, unknown>;
+
+  if (typeof input.searchText !== 'string') return null;
+  if (input.searchMode !== 'simple' && input.searchMode !== 'advanced') return null;
+  if (input.priority !== null && !isPriority(input.priority)) return null;
+  if (input.tagId !== null && !Number.isInteger(input.tagId)) return null;
+  if (!['all', 'incomplete', 'complete'].includes(input.completed as string)) return null;
+  if (typeof input.assignedToMe !== 'boolean') return null;
+
+  const filters: FilterState = {
+    searchText: input.searchText,
+    searchMode: input.searchMode,
+    priority: input.priority as Priority | null,
+    tagId: input.tagId as number | null,
+    completed: input.completed as FilterState['completed'],
+    assignedToMe: input.assignedToMe,
+  };
+
+  if (input.dateRange !== undefined && input.dateRange !== null) {
+    const { start, end } = input.dateRange as Record<string, unknown>;
+    if (typeof start !== 'string' || typeof end !== 'string') return null;
+    if (start || end) {
+      if (!DAY_PATTERN.test(start.slice(0, 10)) || !DAY_PATTERN.test(end.slice(0, 10))) return null;
+      filters.dateRange = { start: start.slice(0, 10), end: end.slice(0, 10) };
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Check search options from a request body; missing fields get their defaults
+ * @returns null if any field is invalid
+ */
+export function parseSavedSearchOptions(value: unknown): SavedSearchOptions | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const input = { ...defaultSearchOptions, ...value } as Record<string, unknown>;
+
+  if (typeof input.caseSensitive !== 'boolean' ||
+      typeof input.exactMatch !== 'boolean' ||
+      typeof input.searchInSubtasks !== 'boolean') {
+    return null;
+  }
+
+  return {
+    caseSensitive: input.caseSensitive,
+    exactMatch: input.exactMatch,
+    searchInSubtasks: input.searchInSubtasks,
+  };
+}
+
+// URL query parameters that carry filters, e.g. /?q=report&priority=high&status=all
+const FILTER_PARAMS = ['q', 'mode', 'priority', 'tag', 'status', 'assigned', 'from', 'to', 'case', 'exact', 'subtasks'];
+
+/**
+ * URL query parameters for filters and search options, leaving out defaults
+ * so a URL only names what was changed
+ */
+export function filtersToSearchParams(filters: FilterState, options: SavedSearchOptions): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.searchText) params.set('q', filters.searchText);
+  if (filters.searchMode === 'advanced') params.set('mode', 'advanced');
+  if (filters.priority) params.set('priority', filters.priority);
+  if (filters.tagId) params.set('tag', String(filters.tagId));
+  if (filters.completed !== 'incomplete') params.set('status', filters.completed);
+  if (filters.assignedToMe) params.set('assigned', 'me');
+  if (filters.dateRange?.start && filters.dateRange?.end) {
+    params.set('from', filters.dateRange.start.slice(0, 10));
+    params.set('to', filters.dateRange.end.slice(0, 10));
+  }
+  if (options.caseSensitive) params.set('case', '1');
+  if (options.exactMatch) params.set('exact', '1');
+  if (!options.searchInSubtasks) params.set('subtasks', '0');
+
+  return params;
+}
+
+/**
+ * Filters and search options from URL query parameters (see
+ * filtersToSearchParams); unrecognized values fall back to the defaults
+ * @returns null if the URL doesn't carry any filters
+ */
+export function filtersFromSearchParams(
+  params: URLSearchParams
+): { filters: FilterState; options: SavedSearchOptions } | null {
+  if (!FILTER_PARAMS.some((name) => params.has(name))) return null;
+
+  const priority = params.get('priority');
+  const tagId = Number(params.get('tag'));
+  const status = params.get('status');
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+
+  const filters: FilterState = {
+    searchText: params.get('q') ?? '',
+    searchMode: params.get('mode') === 'advanced' ? 'advanced' : 'simple',
+    priority: isPriority(priority) ? priority : null,
+    tagId: Number.isInteger(tagId) && tagId > 0 ? tagId : null,
+    completed: status === 'all' || status === 'complete' ? status : 'incomplete',
+    assignedToMe: params.get('assigned') === 'me',
+  };
+  if (DAY_PATTERN.test(from) && DAY_PATTERN.test(to)) {
+    filters.dateRange = { start: from, end: to };
+  }
+
+  return {
+    filters,
+    options: {
+      caseSensitive: params.get('case') === '1',
+      exactMatch: params.get('exact') === '1',
+      searchInSubtasks: params.get('subtasks') !== '0',
+    },
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Keyboard Shortcuts
+ *
+ * A shortcut is written as optional modifiers and one character:
+ * "mod+k" (Ctrl on Windows/Linux, Cmd on macOS), "alt+n", "j", "#", "?".
+ * The character is the one the key types, so shift shows in it: letters are
+ * case-sensitive ("X" is Shift+X) and "#" is Shift+3 on a US keyboard.
+ * Users can rebind any action (stored in users.keyboard_shortcuts, migration
+ * 018); the rest use their defaults from SHORTCUT_CONFIGS. Safe to import
+ * from client components.
+ */
+
+import { SHORTCUT_CONFIGS, ShortcutAction } from './constants';
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+const SHORTCUT_PATTERN = /^(mod\+)?(alt\+)?(\S)$/u;
+const MODIFIER_ALIASES: Record<string, string> = {
+  mod: 'mod', ctrl: 'mod', control: 'mod', cmd: 'mod', command: 'mod', meta: 'mod',
+  alt: 'alt', option: 'alt',
+};
+
+/**
+ * Canonical form of a shortcut ("Ctrl+k" -> "mod+k", "shift+x" -> "X"), or
+ * null if it isn't one
+ */
+export function normalizeShortcut(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim();
+  // The key is the last character ("mod++" binds the plus key), before it the modifiers
+  const key = [...value].pop();
+  if (!key) return null;
+  const prefix = value.slice(0, value.length - key.length);
+  if (prefix && !prefix.endsWith('+')) return null;
+
+  const modifiers = new Set<string>();
+  let shift = false;
+  for (const part of prefix ? prefix.slice(0, -1).split('+') : []) {
+    if (part.toLowerCase() === 'shift') {
+      shift = true;
+      continue;
+    }
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+  // Shift only combines with letters; for symbols, bind the one it types
+  if (shift && !/^[a-z]$/i.test(key)) return null;
+
+  const shortcut = `${modifiers.has('mod') ? 'mod+' : ''}${modifiers.has('alt') ? 'alt+' : ''}${shift ? key.toUpperCase() : key}`;
+  return SHORTCUT_PATTERN.test(shortcut) ? shortcut : null;
+}
+
+/**
+ * The shortcut a key press makes, or null for presses that can't be one
+ * (modifier keys on their own, Enter, arrows and other named keys)
+ */
+export function shortcutFromEvent(event: KeyboardEvent): string | null {
+  let key = event.key;
+  // Option+letter types a symbol on macOS; bind the letter instead
+  if (event.altKey && /^(Key[A-Z]|Digit[0-9])$/.test(event.code)) {
+    const base = event.code.slice(-1);
+    key = event.shiftKey ? base : base.toLowerCase();
+  }
+  if ([...key].length !== 1 || key === ' ') return null;
+
+  const mod = event.ctrlKey || event.metaKey ? 'mod+' : '';
+  const alt = event.altKey ? 'alt+' : '';
+  return `${mod}${alt}${key}`;
+}
+
+/**
+ * Validate the shortcuts a user submitted: { action: shortcut }, where null
+ * (or leaving the action out) means its default
+ * @returns The bindings that differ from the defaults, or null if the input isn't valid
+ */
+export function parseShortcutOverrides(raw: unknown): Partial<ShortcutMap> | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+
+  const overrides: Partial<ShortcutMap> = {};
+  for (const [action, value] of Object.entries(raw)) {
+    const config = SHORTCUT_CONFIGS.find(c => c.action === action);
+    if (!config) return null;
+    if (value === null) continue;
+    const shortcut = normalizeShortcut(value);
+    if (!shortcut) return null;
+    if (shortcut !== config.defaultKey) {
+      overrides[config.action] = shortcut;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Every action's shortcut: the user's own bindings over the defaults
+ */
+export function resolveShortcuts(overrides: Partial<ShortcutMap> = {}): ShortcutMap {
+  return Object.fromEntries(
+    SHORTCUT_CONFIGS.map(config => [config.action, overrides[config.action] ?? config.defaultKey])
+  ) as ShortcutMap;
+}
+
+/**
+ * Two actions bound to the same shortcut, if any
+ */
+export function findShortcutConflict(shortcuts: ShortcutMap): [ShortcutAction, ShortcutAction] | null {
+  const seen = new Map<string, ShortcutAction>();
+  for (const config of SHORTCUT_CONFIGS) {
+    const other = seen.get(shortcuts[config.action]);
+    if (other) return [other, config.action];
+    seen.set(shortcuts[config.action], config.action);
+  }
+  return null;
+}
+
+/**
+ * The action bound to a shortcut, if any
+ */
+export function findShortcutAction(shortcuts: ShortcutMap, shortcut: string): ShortcutAction | null {
+  return SHORTCUT_CONFIGS.find(config => shortcuts[config.action] === shortcut)?.action ?? null;
+}
+
+/**
+ * Whether a shortcut has a Ctrl/Cmd or Alt modifier (those work while typing)
+ */
+export function hasModifier(shortcut: string): boolean {
+  return shortcut.startsWith('mod+') || shortcut.startsWith('alt+');
+}
+
+/**
+ * Shortcut as shown to the user, e.g. "Ctrl+K" or "⌘K", "J", "Shift+X" or "⇧X", "#"
+ */
+export function formatShortcut(shortcut: string, isMac: boolean): string {
+  const match = SHORTCUT_PATTERN.exec(shortcut);
+  if (!match) return shortcut;
+  const [, mod, alt, key] = match;
+  const shift = /^[A-Z]$/.test(key);
+
+  if (isMac) {
+    return `${mod ? '⌘' : ''}${alt ? '⌥' : ''}${shift ? '⇧' : ''}${key.toUpperCase()}`;
+  }
+  return `${mod ? 'Ctrl+' : ''}${alt ? 'Alt+' : ''}${shift ? 'Shift+' : ''}${key.toUpperCase()}`;
+}
+
+/**
+ * Whether the browser is on macOS (Cmd rather than Ctrl)
+ */
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+}
+
+/**
+ * Whether a key press is going into a text field, where single-key
+ * shortcuts would get in the way of typing
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
@@ -0,0 +1,261 @@
+/**
+ * Attachment Storage
+ *
+ * Where the bytes of todo attachments live. Routes only talk to the
+ * StorageBackend interface; the backend is chosen from the environment.
+ * Local disk is the default. The S3 backend works with AWS S3 and with
+ * S3-compatible servers such as MinIO (for local development:
+ * ATTACHMENT_STORAGE=s3 S3_ENDPOINT=http://localhost:9000).
+ *
+ *   ATTACHMENT_STORAGE        'local' (default) or 's3'
+ *   ATTACHMENTS_DIR           Local storage directory (default: attachments/ next to the database)
+ *   S3_BUCKET                 Bucket name (required for s3)
+ *   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY  Credentials (required for s3)
+ *   S3_REGION                 Signing region (default: us-east-1)
+ *   S3_ENDPOINT               Server URL (default: https://s3.<region>.amazonaws.com);
+ *                             buckets are addressed path-style (<endpoint>/<bucket>/<key>)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { loadDatabaseConfig } from './dbConfig';
+
+export interface StorageBackend {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** The stored bytes, or null if nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove a file; deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Keys are generated by the app (see lib/attachments.ts), never taken from uploads
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(?:\/[A-Za-z0-9_.-]+)*$/;
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForStorage = globalThis as unknown as {
+  attachmentStorage?: StorageBackend;
+};
+
+function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+}
+
+// ============================================================================
+// Local Disk
+// ============================================================================
+
+/**
+ * Store files under a directory on local disk
+ */
+export function createLocalStorage(dir: string): StorageBackend {
+  const root = path.resolve(dir);
+  const resolve = (key: string) => {
+    assertValidKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename, so a crash never leaves a half-written file under the key
+      const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    },
+
+    async get(key) {
+      try {
+        return await fs.promises.readFile(resolve(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+// ============================================================================
+// S3-Compatible
+// ============================================================================
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding, as AWS Signature Version 4 expects
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * @returns The headers to send, including Authorization
+ */
+export function signS3Request(
+  config: S3StorageConfig,
+  request: { method: string; url: URL; payload: Buffer; headers?: Record<string, string> },
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''); // 20261019T080300Z
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const payloadHash = sha256Hex(request.payload);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+  );
+
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    signedHeaderNames.map(name => `${name}:${lowerHeaders[name]}\n`).join(''),
+    signedHeaderNames.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Store files in an S3 bucket (or any S3-compatible server)
+ */
+export function createS3Storage(config: S3StorageConfig): StorageBackend {
+  const objectUrl = (key: string) => {
+    assertValidKey(key);
+    const base = config.endpoint.replace(/\/+$/, '');
+    return new URL(`${base}/${encodeRfc3986(config.bucket)}/${key.split('/').map(encodeRfc3986).join('/')}`);
+  };
+
+  async function send(method: string, key: string, payload: Buffer = Buffer.alloc(0), headers?: Record<string, string>) {
+    const url = objectUrl(key);
+    return fetch(url, {
+      method,
+      headers: signS3Request(config, { method, url, payload, headers }),
+      body: payload.length > 0 ? new Uint8Array(payload) : undefined,
+    });
+  }
+
+  async function fail(operation: string, key: string, response: Response): Promise<never> {
+    const detail = (await response.text()).slice(0, 200);
+    throw new Error(`S3 ${operation} of "${key}" failed with ${response.status}: ${detail}`);
+  }
+
+  return {
+    name: 's3',
+
+    async put(key, data, contentType) {
+      const response = await send('PUT', key, data, { 'content-type': contentType });
+      if (!response.ok) await fail('upload', key, response);
+    },
+
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('download', key, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) await fail('delete', key, response);
+    },
+  };
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Directory used by the local backend
+ */
+export function getAttachmentsDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.ATTACHMENTS_DIR) return path.resolve(env.ATTACHMENTS_DIR);
+  const dbConfig = loadDatabaseConfig(env);
+  const base = dbConfig.inMemory ? process.cwd() : path.dirname(dbConfig.path);
+  return path.join(base, 'attachments');
+}
+
+/**
+ * Build the storage backend described by environment variables
+ */
+export function createStorageFromEnv(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const kind = (env.ATTACHMENT_STORAGE || 'local').trim().toLowerCase();
+
+  if (kind === 'local') {
+    return createLocalStorage(getAttachmentsDir(env));
+  }
+
+  if (kind === 's3') {
+    const missing = ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(name => !env[name]);
+    if (missing.length > 0) {
+      throw new Error(`ATTACHMENT_STORAGE=s3 requires ${missing.join(', ')}`);
+    }
+    const region = env.S3_REGION || 'us-east-1';
+    return createS3Storage({
+      endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: env.S3_BUCKET!,
+      region,
+      accessKeyId: env.S3_ACCESS_KEY_ID!,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+    });
+  }
+
+  throw new Error(`ATTACHMENT_STORAGE must be 'local' or 's3' (got "${env.ATTACHMENT_STORAGE}")`);
+}
+
+/**
+ * The app's storage backend (created on first use)
+ */
+export function getStorage(): StorageBackend {
+  if (!globalForStorage.attachmentStorage) {
+    globalForStorage.attachmentStorage = createStorageFromEnv();
+  }
+  return globalForStorage.attachmentStorage;
+}
@@ -1,61 +1,117 @@
 /**
- * Singapore Timezone Utilities
- * 
- * All date/time operations in this app MUST use Singapore timezone (Asia/Singapore).
- * These utilities ensure consistent timezone handling across the application.
+ * Timezone Utilities
+ *
+ * Timestamps (due dates, completion and notification times) are stored in UTC
+ * as ISO 8601 strings ("2026-11-05T01:00:00.000Z") and rendered in each user's
+ * IANA timezone preference (users.timezone). Wall-clock input such as a
+ * datetime-local value ("2026-11-05T09:00") is interpreted in the user's zone.
+ *
+ * Safe to import from client components.
  */
 
-import { toZonedTime, format } from 'date-fns-tz';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
 
-const SINGAPORE_TZ = 'Asia/Singapore';
+/**
+ * Timezone for users who haven't chosen one (the app's original zone)
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Singapore';
+
+// Explicit UTC designator or offset, e.g. "...Z", "...+08:00", "...-0500"
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Wall-clock date with optional time, e.g. "2026-11-05", "2026-11-05T09:00", "2026-11-05 09:00:00"
+const WALL_CLOCK_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/;
 
 /**
- * Get the current date/time in Singapore timezone
- * Always use this instead of `new Date()` for timezone-aware operations
+ * Check whether a string is an IANA timezone the runtime knows about
  */
-export function getSingaporeNow(): Date {
-  return toZonedTime(new Date(), SINGAPORE_TZ);
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.trim() === '') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * All IANA timezones supported by the runtime (for pickers)
+ */
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [DEFAULT_TIMEZONE, 'UTC'];
+}
+
+/**
+ * The browser's (or server's) own timezone
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Convert a date input to a UTC ISO string for storage
+ * @param input - ISO string with Z/offset, wall-clock string (interpreted in timeZone) or Date
+ * @param timeZone - IANA timezone for wall-clock input
+ * @throws Error if the input is not a recognisable date
+ */
+export function toUTC(input: Date | string, timeZone: string = DEFAULT_TIMEZONE): string {
+  let date: Date;
+  if (input instanceof Date) {
+    date = input;
+  } else {
+    const value = input.trim();
+    if (OFFSET_PATTERN.test(value)) {
+      date = new Date(value);
+    } else if (WALL_CLOCK_PATTERN.test(value)) {
+      // fromZonedTime resolves DST gaps/overlaps for the given zone
+      date = fromZonedTime(value.replace(' ', 'T'), timeZone);
+    } else {
+      date = new Date(NaN);
+    }
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(input)}`);
+  }
+  return date.toISOString();
 }
 
 /**
- * Format a date in Singapore timezone
- * @param date - Date object or ISO string to format
- * @param formatStr - Format string (default: 'yyyy-MM-dd HH:mm:ss')
- * @returns Formatted date string in Singapore timezone
+ * Format a UTC timestamp in a timezone
+ * @param date - Date object or stored UTC string
+ * @param timeZone - IANA timezone
+ * @param formatStr - date-fns format string (default: 'yyyy-MM-dd HH:mm:ss')
  */
-export function formatSingaporeDate(
-  date: Date | string, 
+export function formatInZone(
+  date: Date | string,
+  timeZone: string = DEFAULT_TIMEZONE,
   formatStr: string = 'yyyy-MM-dd HH:mm:ss'
 ): string {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  return format(toZonedTime(d, SINGAPORE_TZ), formatStr, { timeZone: SINGAPORE_TZ });
+  const d = typeof date === 'string' ? new Date(toUTC(date, timeZone)) : date;
+  return formatInTimeZone(d, timeZone, formatStr);
 }
 
 /**
- * Parse a date string and convert to Singapore timezone
- * @param dateStr - ISO date string to parse
- * @returns Date object in Singapore timezone
+ * Value for a datetime-local input showing a stored UTC timestamp in the user's zone
  */
-export function parseSingaporeDate(dateStr: string): Date {
-  return toZonedTime(new Date(dateStr), SINGAPORE_TZ);
+export function toDateTimeLocal(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): string {
+  return formatInZone(date, timeZone, "yyyy-MM-dd'T'HH:mm");
 }
 
 /**
- * Check if a date is in the past (Singapore time)
- * @param date - Date to check
- * @returns True if the date is before current Singapore time
+ * Today's date (yyyy-MM-dd) in a timezone
  */
-export function isPastDate(date: Date | string): boolean {
-  const d = parseSingaporeDate(typeof date === 'string' ? date : date.toISOString());
-  const now = getSingaporeNow();
-  return d < now;
+export function getTodayInZone(timeZone: string = DEFAULT_TIMEZONE): string {
+  return formatInTimeZone(new Date(), timeZone, 'yyyy-MM-dd');
 }
 
 /**
- * Get ISO string for a date in Singapore timezone
- * @param date - Date to convert
- * @returns ISO 8601 string
+ * Check if a date is in the past
+ * @param date - Date, UTC string, or wall-clock string interpreted in timeZone
+ * @returns True if the date is before the current instant
  */
-export function toSingaporeISO(date: Date): string {
-  return toZonedTime(date, SINGAPORE_TZ).toISOString();
+export function isPastDate(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): boolean {
+  return new Date(toUTC(date, timeZone)).getTime() < Date.now();
 }
@@ -0,0 +1,95 @@
+/**
+ * Trash
+ *
+ * Deleting a todo moves it to the trash (todos.deleted_at) with its subtasks,
+ * tags, reminders and attachments intact. From there it can be restored, or
+ * purged for good: by hand, or automatically once it has been in the trash
+ * longer than the retention period.
+ *
+ *   TRASH_RETENTION_DAYS   Days a todo stays in the trash, 0 keeps it until emptied by hand (default: 30)
+ */
+
+import { attachmentDB, todoDB, Todo } from './db';
+import { deleteStoredFiles } from './attachments';
+import { recordPurged, snapshotTodo } from './history';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many days trashed todos are kept (0 = until emptied by hand)
+ */
+export function getTrashRetentionDays(): number {
+  const raw = process.env.TRASH_RETENTION_DAYS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_RETENTION_DAYS;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`TRASH_RETENTION_DAYS must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Delete trashed todos for good, along with their stored files
+ * @param actorId - Who emptied them, or null for the retention purge
+ */
+export async function purgeTodos(actorId: number | null, todos: Todo[]): Promise<void> {
+  const storageKeys: string[] = [];
+
+  todos.forEach(todo => {
+    storageKeys.push(...attachmentDB.findStorageKeysByTodo(todo.id));
+    const before = snapshotTodo(todo.id);
+    todoDB.purge(todo.id);
+    recordPurged(actorId, before);
+  });
+
+  await deleteStoredFiles(storageKeys);
+}
+
+/**
+ * Purge todos that have been in the trash longer than the retention period
+ * @returns The number of todos purged
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === 0) return 0;
+
+  const expired = todoDB.findDeletedBefore(new Date(now.getTime() - retentionDays * DAY_MS));
+  await purgeTodos(null, expired);
+  return expired.length;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForTrash = globalThis as unknown as { trashTimer?: NodeJS.Timeout };
+
+/**
+ * Start purging expired trash every hour (called once from instrumentation.ts)
+ */
+export function startTrashPurgeScheduler(): void {
+  if (globalForTrash.trashTimer) return;
+
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === 0) {
+    console.log('Automatic trash purging disabled');
+    return;
+  }
+
+  const tick = () => {
+    purgeExpiredTrash()
+      .then(purged => {
+        if (purged > 0) {
+          console.log(`Trash: purged ${purged} todo${purged === 1 ? '' : 's'}`);
+        }
+      })
+      .catch(error => {
+        console.error('Trash purge failed:', error);
+      });
+  };
+
+  globalForTrash.trashTimer = setInterval(tick, PURGE_INTERVAL_MS);
+  globalForTrash.trashTimer.unref();
+  tick();
+
+  console.log(`Purging todos after ${retentionDays} days in the trash`);
+}
@@ -11,7 +11,8 @@ export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/api/auth/register-options', '/api/auth/register-verify', '/api/auth/login-options', '/api/auth/login-verify'];
+  // (the service worker script must load even after the session expires)
+  const publicRoutes = ['/login', '/sw.js', '/api/auth/register-options', '/api/auth/register-verify', '/api/auth/login-options', '/api/auth/login-verify'];
   
   // Check if the current path is public
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
@@ -24,8 +25,11 @@ export async function middleware(request: NextRequest) {
   const session = await getSessionFromRequest(request);
 
   if (!session) {
-    // Redirect to login if not authenticated
+    // Redirect to login if not authenticated; invite links resume after signing in
     const loginUrl = new URL('/login', request.url);
+    if (pathname.startsWith('/invite/')) {
+      loginUrl.searchParams.set('next', pathname);
+    }
     return NextResponse.redirect(loginUrl);
   }
 
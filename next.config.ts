@@ -3,6 +3,11 @@ import type { NextConfig } from 'next';
 const nextConfig: NextConfig = {
   // Empty turbopack config to silence warning - using webpack for better-sqlite3 compatibility
   turbopack: {},
+  experimental: {
+    // Middleware buffers request bodies; leave room for a maximum-size
+    // attachment (MAX_ATTACHMENT_SIZE_BYTES) plus its multipart envelope
+    proxyClientMaxBodySize: '11mb',
+  },
   webpack: (config, { isServer }) => {
     if (isServer) {
       // Handle better-sqlite3 native module
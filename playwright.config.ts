@@ -1,7 +1,9 @@
 import { defineConfig, devices } from '@playwright/test';
+import { MOCK_SMTP_PORT } from './tests/mock-smtp';
 
 export default defineConfig({
   testDir: './tests',
+  globalSetup: './tests/global-setup.ts',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
@@ -30,5 +32,13 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
+    env: {
+      // Run background jobs often so specs can wait for them (SCHEDULER_INTERVAL_MS in tests/helpers.ts)
+      REMINDER_INTERVAL_SECONDS: '2',
+      DIGEST_INTERVAL_SECONDS: '2',
+      // Mock SMTP server started by tests/global-setup.ts
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(MOCK_SMTP_PORT),
+    },
   },
 });
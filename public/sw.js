@@ -0,0 +1,75 @@
+/**
+ * Service Worker - Web Push reminders
+ *
+ * Shows reminders pushed by the server (lib/push.ts) even when no tab is open,
+ * and focuses/opens the app when a notification is clicked. Action buttons
+ * (mark done, snooze) are sent to /api/notifications/[id]/action without
+ * opening the app; open tabs are told to refresh.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || '📋 Todo Reminder';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      tag: payload.tag,
+      data: payload.data || {},
+      actions: payload.actions || [],
+    })
+  );
+});
+
+async function applyAction(notificationId, action) {
+  const response = await fetch(`/api/notifications/${notificationId}/action`, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action }),
+  });
+  if (!response.ok) {
+    throw new Error(`Notification action failed: HTTP ${response.status}`);
+  }
+
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'notification-action', action }));
+}
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const url = data.url || '/';
+
+  if (event.action && data.notificationId) {
+    // If the session has expired the action can't be applied; open the app instead
+    event.waitUntil(applyAction(data.notificationId, event.action).catch(() => self.clients.openWindow(url)));
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app if there is one
+      for (const client of windows) {
+        if (new URL(client.url).origin === self.location.origin && 'focus' in client) {
+          client.navigate(url);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,63 @@
+/**
+ * Admin Account CLI
+ *
+ * Usage:
+ *   npx tsx scripts/admin.ts                    # list admin accounts
+ *   npx tsx scripts/admin.ts grant <username>   # allow a user to use /api/admin
+ *   npx tsx scripts/admin.ts revoke <username>  # take admin rights away again
+ *
+ * Admin rights live on the user row (users.is_admin), never on the username:
+ * registration is open, so anyone could claim a name that hasn't been
+ * registered yet or whose account was deleted. Only someone with access to
+ * the database can grant them. Like scripts/migrate.ts, this opens the
+ * database directly and never applies migrations itself.
+ */
+
+import { loadDatabaseConfig, openDatabase } from '../lib/dbConfig';
+import { getMigrationStatus } from '../lib/migrate';
+
+const [command = 'list', username] = process.argv.slice(2);
+
+function main(): number {
+  const db = openDatabase(loadDatabaseConfig());
+
+  try {
+    if (getMigrationStatus(db).pending.length > 0) {
+      console.error('Database has pending migrations. Run npm run db:migrate first.');
+      return 1;
+    }
+
+    if (command === 'list') {
+      const admins = db.prepare('SELECT username FROM users WHERE is_admin = 1 ORDER BY username')
+        .all() as Array<{ username: string }>;
+      if (admins.length === 0) console.log('No admin accounts');
+      admins.forEach(a => console.log(a.username));
+      return 0;
+    }
+
+    if (command !== 'grant' && command !== 'revoke') {
+      console.error(`Unknown command: ${command}`);
+      return 1;
+    }
+    if (!username) {
+      console.error(`Usage: scripts/admin.ts ${command} <username>`);
+      return 1;
+    }
+
+    const result = db.prepare('UPDATE users SET is_admin = ? WHERE username = ?')
+      .run(command === 'grant' ? 1 : 0, username);
+    if (result.changes === 0) {
+      console.error(`No user named ${username}`);
+      return 1;
+    }
+    console.log(`${command === 'grant' ? 'Granted' : 'Revoked'} admin rights for ${username}`);
+    return 0;
+  } catch (error) {
+    console.error('Admin command failed:', error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    db.close();
+  }
+}
+
+process.exit(main());
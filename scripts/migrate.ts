@@ -0,0 +1,69 @@
+/**
+ * Database Migration CLI
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts            # apply pending migrations
+ *   npx tsx scripts/migrate.ts status     # show applied and pending migrations
+ *   npx tsx scripts/migrate.ts --dry-run  # run pending migrations, then roll back
+ *
+ * Uses the same DATABASE_* settings as the app (lib/dbConfig.ts) but opens the
+ * database directly (not through lib/db.ts) so that status and
+ * dry-run never apply migrations as a side effect of importing the module.
+ */
+
+import { loadDatabaseConfig, openDatabase } from '../lib/dbConfig';
+import { getMigrationStatus, runMigrations } from '../lib/migrate';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const command = args.find(arg => !arg.startsWith('--')) ?? 'up';
+
+const dbConfig = loadDatabaseConfig();
+const dbPath = dbConfig.path;
+
+function main(): number {
+  const db = openDatabase(dbConfig);
+
+  try {
+    if (command === 'status') {
+      const status = getMigrationStatus(db);
+      console.log(`Database: ${dbPath}`);
+      console.log(`Current version: ${status.currentVersion} (latest: ${status.latestVersion})`);
+      status.applied.forEach(m => {
+        console.log(`  [x] ${String(m.version).padStart(3, '0')} ${m.name} (applied ${m.applied_at})`);
+      });
+      status.pending.forEach(m => {
+        console.log(`  [ ] ${String(m.version).padStart(3, '0')} ${m.name}`);
+      });
+      if (status.currentVersion > status.latestVersion) {
+        console.error('Database is ahead of this build.');
+        return 1;
+      }
+      return 0;
+    }
+
+    if (command !== 'up') {
+      console.error(`Unknown command: ${command}`);
+      return 1;
+    }
+
+    const result = runMigrations(db, { dryRun });
+    if (result.applied.length === 0) {
+      console.log(`Database is up to date (version ${result.fromVersion})`);
+    } else {
+      const verb = dryRun ? 'Would apply' : 'Applied';
+      result.applied.forEach(m => {
+        console.log(`${verb} ${String(m.version).padStart(3, '0')} ${m.name}`);
+      });
+      console.log(`Version ${result.fromVersion} -> ${result.toVersion}${dryRun ? ' (dry run, rolled back)' : ''}`);
+    }
+    return 0;
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    db.close();
+  }
+}
+
+process.exit(main());
@@ -187,6 +187,30 @@ test.describe('Todo CRUD Operations', () => {
     await expect(titleElement).toHaveClass(/line-through/, { timeout: 1000 });
   });
 
+  test('should add notes with markdown checklists', async ({ page }) => {
+    await page.request.post('/api/todos', {
+      data: { title: 'Todo with notes', due_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() },
+    });
+    await page.reload();
+
+    await page.click('button:has-text("+ Add notes")');
+    await page.fill('textarea[aria-label="Description"]', 'See **agenda**\n- [ ] Book room\n- [ ] Send invite');
+    await page.click('button:has-text("Save Notes")');
+
+    await expect(page.locator('strong:has-text("agenda")')).toBeVisible();
+    await expect(page.locator('text=0/2 checklist items')).toBeVisible();
+
+    // Ticking a checklist item saves the notes
+    await page.check('input[aria-label="Checklist item 1"]');
+    await expect(page.locator('text=1/2 checklist items')).toBeVisible();
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    expect(todos[0].description).toBe('See **agenda**\n- [x] Book room\n- [ ] Send invite');
+
+    // Long descriptions are rejected
+    const tooLong = await page.request.put(`/api/todos/${todos[0].id}`, { data: { description: 'x'.repeat(10001) } });
+    expect(tooLong.status()).toBe(400);
+  });
+
   test('should persist todos after page reload', async ({ page }) => {
     const todoTitle = 'Persistent task';
 
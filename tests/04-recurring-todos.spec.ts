@@ -243,4 +243,77 @@ test.describe('Recurring Todos (PRP-03)', () => {
     const allTodos = page.locator('text=Recurring task');
     await expect(allTodos).toHaveCount(2);
   });
+
+  test('should create custom recurrence on selected weekdays', async ({ page }) => {
+    await page.fill('input[placeholder*="What needs to be done"]', 'Gym session');
+    await page.fill('input[type="datetime-local"]', '2026-02-10T07:00');
+
+    await page.click('button:has-text("Advanced Options")');
+    await page.selectOption('select[aria-label="Recurrence"]', 'custom');
+
+    // Every 2 weeks on Tuesday and Thursday
+    await page.fill('input[aria-label="Repeat interval"]', '2');
+    await page.click('[aria-label="Repeat on"] button:has-text("Tue")');
+    await page.click('[aria-label="Repeat on"] button:has-text("Thu")');
+
+    // Preview follows the rule: Feb 10, Feb 12, then two weeks later
+    await expect(page.locator('text=12 Feb')).toBeVisible();
+    await expect(page.locator('text=24 Feb')).toBeVisible();
+
+    await page.click('button:has-text("Add Todo")');
+
+    await expect(page.locator('text=Gym session')).toBeVisible();
+    await expect(page.locator('.bg-purple-100:has-text("Every 2 weeks on Tue, Thu")')).toBeVisible();
+  });
+
+  test('should create next instance from custom rule when completed', async ({ page }) => {
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Month-end close',
+        due_date: '2026-01-30T17:00',
+        recurrence_rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      },
+    });
+    expect(res.ok()).toBeTruthy();
+    await page.reload();
+
+    await page.click('input[type="checkbox"]');
+
+    // Last weekday of February 2026 is Friday the 27th
+    await expect(page.locator('text=Next instance created')).toBeVisible({ timeout: 3000 });
+    await expect(page.locator('text=27 Feb')).toBeVisible();
+  });
+
+  test('should stop custom recurrence after COUNT occurrences', async ({ page }) => {
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Two-step task',
+        due_date: '2026-02-10T10:00',
+        recurrence_rule: 'FREQ=DAILY;COUNT=2',
+      },
+    });
+    expect(res.ok()).toBeTruthy();
+    await page.reload();
+
+    // First completion creates the second (and last) occurrence
+    await page.locator('input[type="checkbox"]').first().click();
+    await expect(page.locator('text=Next instance created')).toBeVisible({ timeout: 3000 });
+    await expect(page.locator('text=Two-step task')).toHaveCount(2);
+
+    // Completing the last occurrence ends the series
+    await page.locator('input[type="checkbox"]:not(:checked)').click();
+    await expect(page.locator('text=last occurrence in the series')).toBeVisible({ timeout: 3000 });
+    await expect(page.locator('text=Two-step task')).toHaveCount(2);
+  });
+
+  test('should reject invalid recurrence rule', async ({ page }) => {
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Bad rule',
+        due_date: '2026-02-10T10:00',
+        recurrence_rule: 'FREQ=HOURLY',
+      },
+    });
+    expect(res.status()).toBe(400);
+  });
 });
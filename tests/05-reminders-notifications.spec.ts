@@ -1,9 +1,25 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, Page } from '@playwright/test';
 import { TestHelpers } from './helpers';
 
 test.describe('Reminders and Notifications (PRP-04)', () => {
   let helper: TestHelpers;
 
+  /**
+   * Create a todo due in 10 minutes whose 1-hour reminder is already due
+   */
+  async function createDueTodo(page: Page, data: Record<string, unknown> = {}) {
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Due reminder',
+        due_date: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+        reminders: [{ offset_minutes: 60 }],
+        ...data,
+      },
+    });
+    expect(res.status()).toBe(201);
+    return (await res.json()).todo;
+  }
+
   test.beforeEach(async ({ page, context }) => {
     helper = new TestHelpers(page);
     
@@ -239,4 +255,228 @@ test.describe('Reminders and Notifications (PRP-04)', () => {
       await expect(banner).not.toBeVisible();
     }
   });
+
+  test('should not change reminder state when checking', async ({ page }) => {
+    const todo = await createDueTodo(page);
+    await helper.waitForNotification(todo.id);
+
+    const first = await (await page.request.get('/api/notifications/check')).json();
+    const second = await (await page.request.get('/api/notifications/check')).json();
+
+    // GET is read-only; reminders are only acknowledged via POST /api/notifications/read
+    expect(first.reminders.map((r: any) => r.todo.id)).toEqual([todo.id]);
+    expect(second.reminders).toEqual(first.reminders);
+  });
+
+  test('should notify in-app exactly once when a reminder is due', async ({ page }) => {
+    const todo = await createDueTodo(page);
+
+    const notification = await helper.waitForNotification(todo.id);
+    expect(notification).toMatchObject({
+      todo_id: todo.id,
+      reminder_id: todo.reminders[0].id,
+      type: 'reminder',
+      channel: 'in_app',
+      status: 'delivered',
+    });
+
+    const { notifications: inbox } = await (await page.request.get('/api/notifications?unread=true')).json();
+    expect(inbox.map((n: any) => n.id)).toEqual([notification.id]);
+
+    // The reminder was marked sent, so later passes don't notify again
+    await helper.waitForSchedulerPasses();
+    const { notifications } = await (await page.request.get('/api/notifications')).json();
+    expect(notifications).toHaveLength(1);
+  });
+
+  test('should list notifications and validate mark-as-read', async ({ page }) => {
+    const listResponse = await page.request.get('/api/notifications?unread=true');
+    expect(listResponse.ok()).toBe(true);
+    const data = await listResponse.json();
+    expect(Array.isArray(data.notifications)).toBe(true);
+
+    const badResponse = await page.request.post('/api/notifications/read', {
+      data: { ids: 'not-an-array' },
+    });
+    expect(badResponse.status()).toBe(400);
+
+    const allResponse = await page.request.post('/api/notifications/read', {
+      data: { all: true },
+    });
+    expect(allResponse.ok()).toBe(true);
+  });
+
+  test('should store several reminders per todo with custom offsets', async ({ page }) => {
+    const dueDate = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString();
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Multi reminder',
+        due_date: dueDate,
+        reminders: [{ offset_minutes: 1440 }, { offset_minutes: 45 }, { offset_minutes: 45 }],
+      },
+    });
+    expect(res.status()).toBe(201);
+    const { todo } = await res.json();
+
+    // Duplicates collapse into one reminder
+    expect(todo.reminders.map((r: any) => r.offset_minutes)).toEqual([1440, 45]);
+
+    await page.reload();
+    await expect(page.locator('.bg-blue-100:has-text("1 day")')).toBeVisible();
+    await expect(page.locator('.bg-blue-100:has-text("45 min")')).toBeVisible();
+  });
+
+  test('should support reminders at an absolute time', async ({ page }) => {
+    const res = await page.request.post('/api/todos', {
+      data: {
+        title: 'Absolute reminder',
+        due_date: '2030-01-15T12:00',
+        // Wall-clock time in the user's timezone (Singapore, UTC+8)
+        reminders: [{ remind_at: '2030-01-14T20:00' }],
+      },
+    });
+    const { todo } = await res.json();
+    expect(todo.reminders[0].remind_at).toBe('2030-01-14T12:00:00.000Z');
+    expect(todo.reminders[0].offset_minutes).toBeNull();
+  });
+
+  test('should keep reminders when other fields are updated', async ({ page }) => {
+    const createRes = await page.request.post('/api/todos', {
+      data: {
+        title: 'Keep my reminders',
+        due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
+        reminders: [{ offset_minutes: 60 }, { offset_minutes: 15 }],
+      },
+    });
+    const { todo } = await createRes.json();
+
+    const updateRes = await page.request.put(`/api/todos/${todo.id}`, {
+      data: { title: 'Renamed' },
+    });
+    const updated = (await updateRes.json()).todo;
+    expect(updated.reminders.map((r: any) => r.id)).toEqual(todo.reminders.map((r: any) => r.id));
+
+    // The legacy single-reminder field replaces them all
+    const legacyRes = await page.request.put(`/api/todos/${todo.id}`, {
+      data: { reminder_minutes: null },
+    });
+    expect((await legacyRes.json()).todo.reminders).toEqual([]);
+  });
+
+  test('should reject invalid reminders', async ({ page }) => {
+    const dueDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    const badOffset = await page.request.post('/api/todos', {
+      data: { title: 'Bad', due_date: dueDate, reminders: [{ offset_minutes: -5 }] },
+    });
+    expect(badOffset.status()).toBe(400);
+
+    const both = await page.request.post('/api/todos', {
+      data: { title: 'Bad', due_date: dueDate, reminders: [{ offset_minutes: 5, remind_at: '2030-01-01T00:00' }] },
+    });
+    expect(both.status()).toBe(400);
+
+    const tooMany = await page.request.post('/api/todos', {
+      data: {
+        title: 'Bad',
+        due_date: dueDate,
+        reminders: [1, 2, 3, 4, 5, 6].map(n => ({ offset_minutes: n * 10 })),
+      },
+    });
+    expect(tooMany.status()).toBe(400);
+  });
+
+  test('should add a second, custom reminder from the form', async ({ page }) => {
+    await page.fill('input[placeholder="Add a new todo..."]', 'Two reminders');
+    const dueDate = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    await page.fill('input[type="datetime-local"]', dueDate.toISOString().slice(0, 16));
+
+    await page.click('button:has-text("Advanced Options")');
+    await page.selectOption('select[aria-label="Reminder"]', '1440');
+    await page.click('button:has-text("Add another reminder")');
+    await page.selectOption('select[aria-label="Reminder 2"]', 'custom');
+    await page.fill('input[aria-label="Custom reminder amount"]', '3');
+    await page.selectOption('select[aria-label="Custom reminder unit"]', '60');
+    await page.click('button[type="submit"]:has-text("Add")');
+
+    await expect(page.locator('.bg-blue-100:has-text("1 day")')).toBeVisible();
+    await expect(page.locator('.bg-blue-100:has-text("3 hrs")')).toBeVisible();
+  });
+
+  test('should validate notification actions', async ({ page }) => {
+    const missing = await page.request.post('/api/notifications/999999/action', {
+      data: { action: 'done' },
+    });
+    expect(missing.status()).toBe(404);
+
+    const badId = await page.request.post('/api/notifications/abc/action', {
+      data: { action: 'snooze-10m' },
+    });
+    expect(badId.status()).toBe(400);
+  });
+
+  test('should complete a recurring todo from its notification', async ({ page }) => {
+    const todo = await createDueTodo(page, { recurrence_pattern: 'daily' });
+    const notification = await helper.waitForNotification(todo.id);
+
+    const res = await page.request.post(`/api/notifications/${notification.id}/action`, {
+      data: { action: 'done' },
+    });
+    expect(res.ok()).toBe(true);
+    const result = await res.json();
+    expect(result.todo.id).toBe(todo.id);
+    expect(result.todo.completed).toBeTruthy();
+
+    // The next instance is due a day later and keeps the reminder
+    expect(result.next_todo.title).toBe(todo.title);
+    expect(result.next_todo.completed).toBeFalsy();
+    const minutesLater = (new Date(result.next_todo.due_date).getTime() - new Date(todo.due_date).getTime()) / 60000;
+    expect(Math.round(minutesLater)).toBe(24 * 60);
+
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    const next = todos.find((t: any) => t.id === result.next_todo.id);
+    expect(next.reminders.map((r: any) => r.offset_minutes)).toEqual([60]);
+
+    const { notifications } = await (await page.request.get('/api/notifications?unread=true')).json();
+    expect(notifications).toEqual([]);
+  });
+
+  test('should snooze a reminder for 10 minutes', async ({ page }) => {
+    const todo = await createDueTodo(page);
+    const notification = await helper.waitForNotification(todo.id);
+
+    const before = Date.now();
+    const res = await page.request.post(`/api/notifications/${notification.id}/action`, {
+      data: { action: 'snooze-10m' },
+    });
+    expect(res.ok()).toBe(true);
+    const { reminder } = await res.json();
+    expect(reminder.id).toBe(notification.reminder_id);
+
+    const snoozedUntil = new Date(reminder.snoozed_until).getTime();
+    expect(snoozedUntil).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
+    expect(snoozedUntil).toBeLessThanOrEqual(Date.now() + 10 * 60 * 1000);
+
+    // The scheduler doesn't pick it up again while it is snoozed
+    await helper.waitForSchedulerPasses();
+    const { notifications } = await (await page.request.get('/api/notifications')).json();
+    expect(notifications.map((n: any) => n.id)).toEqual([notification.id]);
+  });
+
+  test('should snooze a reminder until 9am tomorrow in the user\'s timezone', async ({ page }) => {
+    // Tokyo is UTC+9 all year, so 9:00 AM there is midnight UTC
+    await page.request.put('/api/preferences', { data: { timezone: 'Asia/Tokyo' } });
+    const todo = await createDueTodo(page);
+    const notification = await helper.waitForNotification(todo.id);
+
+    const res = await page.request.post(`/api/notifications/${notification.id}/action`, {
+      data: { action: 'snooze-tomorrow' },
+    });
+    expect(res.ok()).toBe(true);
+    const { reminder } = await res.json();
+
+    const tokyoToday = new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const expected = new Date(new Date(`${tokyoToday}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000);
+    expect(reminder.snoozed_until).toBe(expected.toISOString());
+  });
 });
@@ -234,6 +234,24 @@ test.describe('Search & Filtering', () => {
     await expect(page.locator('text=Shopping List')).toBeVisible();
   });
 
+  test('should search in descriptions (advanced mode)', async ({ page }) => {
+    await page.request.post('/api/todos', {
+      data: { title: 'Trip prep', due_date: '2026-03-21T10:00', description: 'Pack the **passport** and charger' },
+    });
+    await page.reload();
+
+    // Simple mode - titles only
+    await helpers.setSearchMode('simple');
+    await helpers.searchTodos('passport');
+    await expect(page.locator('text=Trip prep')).not.toBeVisible();
+
+    // Advanced mode - will find the description
+    await helpers.setSearchMode('advanced');
+    await helpers.searchTodos('passport');
+    await page.waitForTimeout(400);
+    await expect(page.locator('text=Trip prep')).toBeVisible();
+  });
+
   test('should maintain filter state when adding new todo', async ({ page }) => {
     await helpers.filterByPriorityAdvanced('high');
     
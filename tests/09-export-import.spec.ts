@@ -498,4 +498,25 @@ test.describe('PRP-09: Export & Import', () => {
     // Verify todo is imported (notification reset is internal)
     await expect(page.locator('text=Reminder Todo')).toBeVisible();
   });
+
+  test('should export and import todo descriptions', async ({ page }) => {
+    await page.request.post('/api/todos', {
+      data: {
+        title: 'Described Todo',
+        due_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        description: '- [ ] First step\n- [x] Done step',
+      },
+    });
+
+    const exported = await (await page.request.get('/api/todos/export')).json();
+    expect(exported.data.todos[0].description).toBe('- [ ] First step\n- [x] Done step');
+
+    // Remove the original, then restore it from the export
+    await page.request.delete(`/api/todos/${exported.data.todos[0].id}`);
+    const importRes = await page.request.post('/api/todos/import', { data: exported });
+    expect(importRes.ok()).toBe(true);
+
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    expect(todos[0].description).toBe('- [ ] First step\n- [x] Done step');
+  });
 });
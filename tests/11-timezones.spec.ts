@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Per-User Timezones', () => {
+  let helper: TestHelpers;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+    await page.goto('/');
+  });
+
+  test('should default to Singapore timezone', async ({ page }) => {
+    const res = await page.request.get('/api/preferences');
+    const data = await res.json();
+    expect(data.preferences.timezone).toBe('Asia/Singapore');
+    await expect(page.locator('select[aria-label="Timezone"]')).toHaveValue('Asia/Singapore');
+  });
+
+  test('should reject an invalid timezone', async ({ page }) => {
+    const res = await page.request.put('/api/preferences', {
+      data: { timezone: 'Mars/Olympus_Mons' },
+    });
+    expect(res.status()).toBe(400);
+  });
+
+  test('should store due dates in UTC from the user wall clock', async ({ page }) => {
+    await page.request.put('/api/preferences', { data: { timezone: 'Europe/London' } });
+
+    const res = await page.request.post('/api/todos', {
+      data: { title: 'London meeting', due_date: '2027-01-15T09:00' },
+    });
+    const { todo } = await res.json();
+
+    // GMT in January
+    expect(todo.due_date).toBe('2027-01-15T09:00:00.000Z');
+  });
+
+  test('should keep recurring time of day across DST change', async ({ page }) => {
+    await page.request.put('/api/preferences', { data: { timezone: 'Europe/London' } });
+
+    // London clocks go back on 2027-10-31
+    const res = await page.request.post('/api/todos', {
+      data: { title: 'Daily standup', due_date: '2027-10-30T09:00', recurrence_pattern: 'daily' },
+    });
+    const { todo } = await res.json();
+    expect(todo.due_date).toBe('2027-10-30T08:00:00.000Z');
+
+    const completeRes = await page.request.put(`/api/todos/${todo.id}`, {
+      data: { completed: 1 },
+    });
+    const { next_todo } = await completeRes.json();
+
+    // Still 09:00 local, now GMT
+    expect(next_todo.due_date).toBe('2027-10-31T09:00:00.000Z');
+  });
+
+  test('should show due dates in the selected timezone', async ({ page }) => {
+    await page.request.post('/api/todos', {
+      data: { title: 'Zone display', due_date: '2027-01-15T01:00:00.000Z' },
+    });
+
+    await page.selectOption('select[aria-label="Timezone"]', 'America/New_York');
+    await expect(page.locator('text=Timezone set to America/New_York')).toBeVisible();
+
+    // 01:00 UTC is 20:00 the previous evening in New York
+    await expect(page.locator('text=14 Jan 2027')).toBeVisible();
+  });
+});
@@ -0,0 +1,154 @@
+import { test, expect } from '@playwright/test';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { TestHelpers } from './helpers';
+
+// TEST_PUSH_LIMIT in lib/push.ts
+const TEST_PUSH_LIMIT = 3;
+
+/**
+ * Local stand-in for a browser push service: records every push it receives
+ * and answers with a configurable status code
+ */
+async function startMockPushService() {
+  const received: { url: string; headers: http.IncomingHttpHeaders; bytes: number }[] = [];
+  let status = 201;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ url: req.url || '', headers: req.headers, bytes: Buffer.concat(chunks).length });
+      res.statusCode = status;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    received,
+    endpoint: (id: string) => `http://127.0.0.1:${port}/push/${id}`,
+    setStatus: (code: number) => { status = code; },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Subscription keys as a browser would generate them
+ */
+function createSubscriptionKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  };
+}
+
+test.describe('Web Push', () => {
+  let helper: TestHelpers;
+  let pushService: Awaited<ReturnType<typeof startMockPushService>>;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+    pushService = await startMockPushService();
+  });
+
+  test.afterEach(async () => {
+    await pushService.close();
+  });
+
+  test('should expose a VAPID public key', async ({ page }) => {
+    const res = await page.request.get('/api/push/vapid-public-key');
+    expect(res.ok()).toBe(true);
+    const { publicKey } = await res.json();
+
+    // Uncompressed P-256 point, base64url encoded
+    expect(Buffer.from(publicKey, 'base64url')).toHaveLength(65);
+  });
+
+  test('should deliver an encrypted push to a subscribed device', async ({ page }) => {
+    const subscribeRes = await page.request.post('/api/push/subscribe', {
+      data: { subscription: { endpoint: pushService.endpoint('device-1'), keys: createSubscriptionKeys() } },
+    });
+    expect(subscribeRes.status()).toBe(201);
+
+    const testRes = await page.request.post('/api/push/test');
+    expect(await testRes.json()).toEqual({ sent: 1, failed: 0, removed: 0 });
+
+    expect(pushService.received).toHaveLength(1);
+    const [push] = pushService.received;
+    expect(push.url).toBe('/push/device-1');
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers['authorization']).toMatch(/^vapid t=/);
+    expect(push.headers['ttl']).toBeDefined();
+    expect(push.bytes).toBeGreaterThan(0);
+  });
+
+  test('should remove subscriptions the push service reports as gone', async ({ page }) => {
+    await page.request.post('/api/push/subscribe', {
+      data: { subscription: { endpoint: pushService.endpoint('expired'), keys: createSubscriptionKeys() } },
+    });
+
+    pushService.setStatus(410);
+    const first = await (await page.request.post('/api/push/test')).json();
+    expect(first.removed).toBe(1);
+
+    const second = await (await page.request.post('/api/push/test')).json();
+    expect(second).toEqual({ sent: 0, failed: 0, removed: 0 });
+  });
+
+  test('should stop pushing after unsubscribe', async ({ page }) => {
+    const endpoint = pushService.endpoint('device-2');
+    await page.request.post('/api/push/subscribe', {
+      data: { subscription: { endpoint, keys: createSubscriptionKeys() } },
+    });
+
+    const unsubscribeRes = await page.request.post('/api/push/unsubscribe', { data: { endpoint } });
+    expect((await unsubscribeRes.json()).removed).toBe(true);
+
+    await page.request.post('/api/push/test');
+    expect(pushService.received).toHaveLength(0);
+  });
+
+  test('should reject invalid subscriptions', async ({ page }) => {
+    const missingKeys = await page.request.post('/api/push/subscribe', {
+      data: { subscription: { endpoint: pushService.endpoint('x') } },
+    });
+    expect(missingKeys.status()).toBe(400);
+
+    // Only the browsers' push services, so the server can't be pointed at other hosts
+    const endpoints = [
+      'http://example.com/push',
+      'https://example.com/push',
+      'https://127.0.0.1/push',
+      'https://10.0.0.1/push',
+      'https://fcm.googleapis.com.example.com/push',
+    ];
+    for (const endpoint of endpoints) {
+      const res = await page.request.post('/api/push/subscribe', {
+        data: { subscription: { endpoint, keys: createSubscriptionKeys() } },
+      });
+      expect(res.status()).toBe(400);
+    }
+
+    const fcm = await page.request.post('/api/push/subscribe', {
+      data: { subscription: { endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys: createSubscriptionKeys() } },
+    });
+    expect(fcm.status()).toBe(201);
+  });
+
+  test('should rate-limit test pushes', async ({ page }) => {
+    for (let i = 0; i < TEST_PUSH_LIMIT; i++) {
+      expect((await page.request.post('/api/push/test')).ok()).toBe(true);
+    }
+
+    const limited = await page.request.post('/api/push/test');
+    expect(limited.status()).toBe(429);
+    expect(Number(limited.headers()['retry-after'])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,150 @@
+import { test, expect } from '@playwright/test';
+import { SCHEDULER_INTERVAL_MS, TestHelpers } from './helpers';
+import { getEmails, getPart } from './mock-smtp';
+
+// TEST_EMAIL_LIMIT in lib/email.ts
+const TEST_EMAIL_LIMIT = 3;
+
+test.describe('Email Notifications', () => {
+  let helper: TestHelpers;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test('should start with email turned off', async ({ page }) => {
+    const res = await page.request.get('/api/email/settings');
+    const { settings } = await res.json();
+
+    expect(settings).toEqual({
+      email: null,
+      reminders_enabled: false,
+      digest_enabled: false,
+      digest_hour: 8,
+    });
+  });
+
+  test('should save email settings', async ({ page }) => {
+    const res = await page.request.put('/api/email/settings', {
+      data: { email: 'me@example.com', reminders_enabled: true, digest_enabled: true, digest_hour: 7 },
+    });
+    expect(res.ok()).toBe(true);
+
+    const { settings } = await (await page.request.get('/api/email/settings')).json();
+    expect(settings).toEqual({
+      email: 'me@example.com',
+      reminders_enabled: true,
+      digest_enabled: true,
+      digest_hour: 7,
+    });
+  });
+
+  test('should reject invalid email settings', async ({ page }) => {
+    const badEmail = await page.request.put('/api/email/settings', {
+      data: { email: 'not-an-address' },
+    });
+    expect(badEmail.status()).toBe(400);
+
+    const noAddress = await page.request.put('/api/email/settings', {
+      data: { digest_enabled: true },
+    });
+    expect(noAddress.status()).toBe(400);
+
+    const badHour = await page.request.put('/api/email/settings', {
+      data: { email: 'me@example.com', digest_hour: 24 },
+    });
+    expect(badHour.status()).toBe(400);
+  });
+
+  test('should list upcoming recurring instances in the digest', async ({ page }) => {
+    const dueDate = new Date(Date.now() + 26 * 60 * 60 * 1000).toISOString();
+    await page.request.post('/api/todos', {
+      data: { title: 'Water <plants>', due_date: dueDate, recurrence_pattern: 'daily' },
+    });
+
+    const res = await page.request.get('/api/email/digest');
+    const { digest, email } = await res.json();
+
+    expect(digest.overdue).toHaveLength(0);
+    expect(digest.upcoming.length).toBeGreaterThanOrEqual(5);
+    expect(digest.upcoming[0].todo.title).toBe('Water <plants>');
+    expect(email.text).toContain('Upcoming recurring');
+    // Titles are escaped in the HTML version
+    expect(email.html).toContain('Water &lt;plants&gt;');
+  });
+
+  test('should open email settings from the header', async ({ page }) => {
+    await page.goto('/');
+    await page.click('button:has-text("Email")');
+
+    await page.fill('#notification-email', 'me@example.com');
+    await page.check('#digest-enabled');
+    await page.click('button:has-text("Save")');
+
+    await expect(page.locator('text=Email settings saved')).toBeVisible();
+    const { settings } = await (await page.request.get('/api/email/settings')).json();
+    expect(settings.digest_enabled).toBe(true);
+  });
+});
+
+test.describe('Email Delivery', () => {
+  let address: string;
+
+  test.beforeEach(async ({ page }) => {
+    const username = await new TestHelpers(page).setupNewUser();
+    address = `${username}@example.com`;
+  });
+
+  test('should send a test email', async ({ page }) => {
+    await page.request.put('/api/email/settings', { data: { email: address } });
+
+    const res = await page.request.post('/api/email/test');
+    expect(res.ok()).toBe(true);
+
+    const [message] = await getEmails(address);
+    expect(message.from).toBe('todo@localhost');
+    expect(message.data).toMatch(/^Subject: Test email from Todo App$/m);
+    expect(getPart(message.data, 'text/plain')).toContain('Email notifications are working.');
+    expect(getPart(message.data, 'text/html')).toContain('<p>Email notifications are working.</p>');
+  });
+
+  test('should rate-limit test emails', async ({ page }) => {
+    await page.request.put('/api/email/settings', { data: { email: address } });
+
+    for (let i = 0; i < TEST_EMAIL_LIMIT; i++) {
+      expect((await page.request.post('/api/email/test')).ok()).toBe(true);
+    }
+
+    const limited = await page.request.post('/api/email/test');
+    expect(limited.status()).toBe(429);
+    expect(Number(limited.headers()['retry-after'])).toBeGreaterThan(0);
+    expect(await getEmails(address)).toHaveLength(TEST_EMAIL_LIMIT);
+  });
+
+  test('should email the daily digest as plain text and HTML', async ({ page }) => {
+    await page.request.post('/api/todos', {
+      data: {
+        title: 'Water <plants>',
+        due_date: new Date(Date.now() + 26 * 60 * 60 * 1000).toISOString(),
+        recurrence_pattern: 'daily',
+      },
+    });
+    // Hour 0 has always passed, so the server's next digest pass sends it
+    await page.request.put('/api/email/settings', {
+      data: { email: address, digest_enabled: true, digest_hour: 0 },
+    });
+
+    await expect.poll(async () => (await getEmails(address)).length, { timeout: 10 * SCHEDULER_INTERVAL_MS }).toBe(1);
+    const [message] = await getEmails(address);
+    expect(message.data).toMatch(/^Subject: Your todos for /m);
+
+    const text = getPart(message.data, 'text/plain');
+    expect(text).toContain('Upcoming recurring');
+    expect(text).toContain('- Water <plants>');
+
+    const html = getPart(message.data, 'text/html');
+    expect(html).toContain('Water &lt;plants&gt;');
+    expect(html).not.toContain('Water <plants>');
+  });
+});
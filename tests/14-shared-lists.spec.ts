@@ -0,0 +1,227 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Shared Lists', () => {
+  let helper: TestHelpers;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should create a list and add todos to it', async ({ page }) => {
+    const createRes = await page.request.post('/api/lists', { data: { name: 'Team' } });
+    expect(createRes.status()).toBe(201);
+    const { list } = await createRes.json();
+    expect(list.role).toBe('owner');
+
+    const todoRes = await page.request.post('/api/todos', {
+      data: { title: 'Shared work', due_date: dueDate(), list_id: list.id },
+    });
+    expect(todoRes.status()).toBe(201);
+    expect((await todoRes.json()).todo.list_id).toBe(list.id);
+
+    const { todos } = await (await page.request.get(`/api/todos?list_id=${list.id}`)).json();
+    expect(todos.map((t: any) => t.title)).toEqual(['Shared work']);
+
+    const personal = await (await page.request.get('/api/todos?list_id=personal')).json();
+    expect(personal.todos).toHaveLength(0);
+  });
+
+  test('should join a list with an invite link as a viewer', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Read only' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Look but do not touch', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'viewer' },
+    })).json();
+
+    const { page: other } = await helper.setupOtherUser(browser);
+    const preview = await (await other.request.get(`/api/invites/${invite.token}`)).json();
+    expect(preview.list.name).toBe('Read only');
+    expect(preview.invite.role).toBe('viewer');
+
+    const acceptRes = await other.request.post(`/api/invites/${invite.token}`);
+    expect(acceptRes.ok()).toBe(true);
+
+    const { todos } = await (await other.request.get('/api/todos')).json();
+    expect(todos.map((t: any) => t.title)).toContain('Look but do not touch');
+
+    // Viewers can't change the list's todos
+    const updateRes = await other.request.put(`/api/todos/${todo.id}`, { data: { completed: 1 } });
+    expect(updateRes.status()).toBe(403);
+    const subtaskRes = await other.request.post('/api/subtasks', { data: { todo_id: todo.id, title: 'Nope' } });
+    expect(subtaskRes.status()).toBe(403);
+    const createRes = await other.request.post('/api/todos', {
+      data: { title: 'Nope', due_date: dueDate(), list_id: list.id },
+    });
+    expect(createRes.status()).toBe(403);
+
+    // Invites are single-use
+    const reuseRes = await page.request.get(`/api/invites/${invite.token}`);
+    expect(reuseRes.status()).toBe(410);
+  });
+
+  test('should let editors change todos and owners manage members', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Project' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Draft plan', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'editor' },
+    })).json();
+
+    const { page: other } = await helper.setupOtherUser(browser);
+    await other.request.post(`/api/invites/${invite.token}`);
+
+    const updateRes = await other.request.put(`/api/todos/${todo.id}`, { data: { title: 'Final plan' } });
+    expect(updateRes.ok()).toBe(true);
+    expect((await updateRes.json()).todo.title).toBe('Final plan');
+
+    // Editors can't manage the list itself
+    const otherDetails = await (await other.request.get(`/api/lists/${list.id}`)).json();
+    const otherId = otherDetails.current_user_id;
+    expect((await other.request.delete(`/api/lists/${list.id}`)).status()).toBe(403);
+    expect((await other.request.post(`/api/lists/${list.id}/invites`, { data: { role: 'editor' } })).status()).toBe(403);
+
+    // Owner downgrades, then removes the member
+    const roleRes = await page.request.put(`/api/lists/${list.id}/members/${otherId}`, { data: { role: 'viewer' } });
+    expect(roleRes.ok()).toBe(true);
+    expect((await other.request.put(`/api/todos/${todo.id}`, { data: { title: 'Again' } })).status()).toBe(403);
+
+    const removeRes = await page.request.delete(`/api/lists/${list.id}/members/${otherId}`);
+    expect(removeRes.ok()).toBe(true);
+    expect((await other.request.get(`/api/todos/${todo.id}`)).status()).toBe(403);
+    expect((await other.request.get(`/api/lists/${list.id}`)).status()).toBe(404);
+  });
+
+  test('should only let the owner or creator move a todo out of a list', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Keep it here' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Owner todo', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'editor' },
+    })).json();
+
+    const { page: other } = await helper.setupOtherUser(browser);
+    await other.request.post(`/api/invites/${invite.token}`);
+
+    // Moving it to their personal todos would hide it from everyone else
+    const moveRes = await other.request.put(`/api/todos/${todo.id}`, { data: { list_id: null } });
+    expect(moveRes.status()).toBe(403);
+    const bulkRes = await other.request.post('/api/todos/bulk', {
+      data: { ids: [todo.id], action: { type: 'move_to_list', list_id: null } },
+    });
+    expect((await bulkRes.json()).results).toEqual([
+      { id: todo.id, ok: false, error: 'Only the list owner or the todo\'s creator can move it out of this list' },
+    ]);
+    expect((await (await page.request.get(`/api/todos/${todo.id}`)).json()).todo.list_id).toBe(list.id);
+
+    // Editors can still move the todos they created, and owners any todo
+    const { todo: own } = await (await other.request.post('/api/todos', {
+      data: { title: 'Editor todo', due_date: dueDate(), list_id: list.id },
+    })).json();
+    expect((await other.request.put(`/api/todos/${own.id}`, { data: { list_id: null } })).ok()).toBe(true);
+    expect((await page.request.put(`/api/todos/${todo.id}`, { data: { list_id: null } })).ok()).toBe(true);
+  });
+
+  test('should validate lists and invites', async ({ page }) => {
+    expect((await page.request.post('/api/lists', { data: { name: '   ' } })).status()).toBe(400);
+    const badJson = await page.request.post('/api/lists', {
+      headers: { 'Content-Type': 'application/json' },
+      data: '{"name":',
+    });
+    expect(badJson.status()).toBe(400);
+    expect((await badJson.json()).error).toBe('Invalid JSON body');
+
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Mine' } })).json();
+    const badRole = await page.request.post(`/api/lists/${list.id}/invites`, { data: { role: 'owner' } });
+    expect(badRole.status()).toBe(400);
+
+    const missing = await page.request.get('/api/invites/not-a-real-token');
+    expect(missing.status()).toBe(404);
+
+    const details = await (await page.request.get(`/api/lists/${list.id}`)).json();
+    const ownerLeaves = await page.request.delete(`/api/lists/${list.id}/members/${details.current_user_id}`);
+    expect(ownerLeaves.status()).toBe(400);
+  });
+
+  test('should assign todos and subtasks to members who can edit', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Chores' } })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'editor' },
+    })).json();
+
+    const { page: other } = await helper.setupOtherUser(browser);
+    await other.request.post(`/api/invites/${invite.token}`);
+    const otherId = (await (await other.request.get(`/api/lists/${list.id}`)).json()).current_user_id;
+
+    const createRes = await page.request.post('/api/todos', {
+      data: { title: 'Take out bins', due_date: dueDate(), list_id: list.id, assignee_id: otherId },
+    });
+    expect(createRes.status()).toBe(201);
+    const { todo } = await createRes.json();
+    expect(todo.assignee_id).toBe(otherId);
+
+    const { subtask } = await (await page.request.post('/api/subtasks', {
+      data: { todo_id: todo.id, title: 'Recycling' },
+    })).json();
+    const subtaskRes = await page.request.put(`/api/subtasks/${subtask.id}`, { data: { assignee_id: otherId } });
+    expect((await subtaskRes.json()).subtask.assignee_id).toBe(otherId);
+
+    // Personal todos can't be assigned to someone else
+    const personalRes = await page.request.post('/api/todos', {
+      data: { title: 'Mine', due_date: dueDate(), assignee_id: otherId },
+    });
+    expect(personalRes.status()).toBe(400);
+
+    // Viewers can't be assigned, and downgrading an assignee unassigns them
+    await page.request.put(`/api/lists/${list.id}/members/${otherId}`, { data: { role: 'viewer' } });
+    const { todos } = await (await page.request.get(`/api/todos?list_id=${list.id}`)).json();
+    expect(todos[0].assignee_id).toBeNull();
+    expect(todos[0].subtasks[0].assignee_id).toBeNull();
+    const viewerRes = await page.request.put(`/api/todos/${todo.id}`, { data: { assignee_id: otherId } });
+    expect(viewerRes.status()).toBe(400);
+  });
+
+  test('should filter to todos assigned to me', async ({ page }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Errands' } })).json();
+    const details = await (await page.request.get(`/api/lists/${list.id}`)).json();
+    await page.request.post('/api/todos', {
+      data: { title: 'Mine to do', due_date: dueDate(), list_id: list.id, assignee_id: details.current_user_id },
+    });
+    await page.request.post('/api/todos', {
+      data: { title: 'Nobody yet', due_date: dueDate(), list_id: list.id },
+    });
+    await page.reload();
+
+    await expect(page.locator('text=👤 You')).toBeVisible();
+    await page.locator('button', { hasText: /^▶\s*Advanced$/ }).click();
+    await page.check('input[aria-label="Assigned to me"]');
+
+    await expect(page.locator('text=Mine to do')).toBeVisible();
+    await expect(page.locator('text=Nobody yet')).not.toBeVisible();
+  });
+
+  test('should create a list and add a todo to it from the UI', async ({ page }) => {
+    await page.click('button:has-text("Lists")');
+    await page.fill('input[aria-label="New list name"]', 'Household');
+    await page.click('button:has-text("Create List")');
+    await expect(page.locator('button:has-text("Household")')).toBeVisible();
+    await page.click('button[aria-label="Close"]');
+
+    await page.selectOption('select[aria-label="List"]', { label: 'Household' });
+    await page.fill('input[placeholder*="Add a new todo"]', 'Buy groceries');
+    await page.fill('input[type="datetime-local"]', helper.getDateTimeString(1));
+    await page.click('button[type="submit"]:has-text("Add")');
+
+    await expect(page.locator('text=👥 Household')).toBeVisible();
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Comments', () => {
+  let helper: TestHelpers;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should add, edit and delete comments', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Write report', due_date: dueDate() },
+    })).json();
+
+    const createRes = await page.request.post(`/api/todos/${todo.id}/comments`, {
+      data: { body: 'Draft is **halfway** done' },
+    });
+    expect(createRes.status()).toBe(201);
+    const { comment } = await createRes.json();
+    expect(comment.updated_at).toBeNull();
+
+    const editRes = await page.request.put(`/api/todos/${todo.id}/comments/${comment.id}`, {
+      data: { body: 'Draft is done' },
+    });
+    expect((await editRes.json()).comment.updated_at).not.toBeNull();
+
+    const { comments } = await (await page.request.get(`/api/todos/${todo.id}/comments`)).json();
+    expect(comments.map((c: any) => c.body)).toEqual(['Draft is done']);
+
+    const deleteRes = await page.request.delete(`/api/todos/${todo.id}/comments/${comment.id}`);
+    expect(deleteRes.ok()).toBe(true);
+    const after = await (await page.request.get(`/api/todos/${todo.id}/comments`)).json();
+    expect(after.comments).toHaveLength(0);
+  });
+
+  test('should validate comments', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Quiet todo', due_date: dueDate() },
+    })).json();
+
+    expect((await page.request.post(`/api/todos/${todo.id}/comments`, { data: { body: '   ' } })).status()).toBe(400);
+    expect((await page.request.post(`/api/todos/${todo.id}/comments`, { data: { body: 'x'.repeat(5001) } })).status()).toBe(400);
+    expect((await page.request.get('/api/todos/999999/comments')).status()).toBe(404);
+  });
+
+  test('should let list members comment and notify mentions', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Launch' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Ship it', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'viewer' },
+    })).json();
+
+    const other = await helper.setupOtherUser(browser);
+    await other.page.request.post(`/api/invites/${invite.token}`);
+
+    const { comment } = await (await page.request.post(`/api/todos/${todo.id}/comments`, {
+      data: { body: `@${other.username} can you check the release notes?` },
+    })).json();
+
+    // Delivered in the background right after the comment is posted
+    await expect.poll(async () => {
+      const { reminders } = await (await other.page.request.get('/api/notifications/check')).json();
+      return reminders
+        .filter((r: any) => r.notification.type === 'mention')
+        .map((r: any) => [r.todo.id, r.notification.body]);
+    }).toEqual([[todo.id, expect.stringContaining('release notes')]]);
+
+    // Viewers can join the discussion, but not change other people's comments
+    const replyRes = await other.page.request.post(`/api/todos/${todo.id}/comments`, { data: { body: 'On it' } });
+    expect(replyRes.status()).toBe(201);
+    const editRes = await other.page.request.put(`/api/todos/${todo.id}/comments/${comment.id}`, { data: { body: 'Hijacked' } });
+    expect(editRes.status()).toBe(403);
+    expect((await other.page.request.delete(`/api/todos/${todo.id}/comments/${comment.id}`)).status()).toBe(403);
+  });
+
+  test('should show a markdown comment thread in the UI', async ({ page }) => {
+    await page.request.post('/api/todos', { data: { title: 'Plan trip', due_date: dueDate() } });
+    await page.reload();
+
+    await page.click('button[aria-label="Comments"]');
+    await expect(page.locator('text=No comments yet')).toBeVisible();
+
+    await page.fill('textarea[aria-label="Add a comment"]', 'Book **flights** first');
+    await page.click('button:has-text("Comment")');
+
+    await expect(page.locator('strong:has-text("flights")')).toBeVisible();
+    await expect(page.locator('button[aria-label="Comments"]')).toHaveText('💬 1');
+  });
+});
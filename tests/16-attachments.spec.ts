@@ -0,0 +1,206 @@
+import { test, expect } from '@playwright/test';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { TestHelpers } from './helpers';
+import { createS3Storage } from '../lib/storage';
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c489', 'hex');
+
+/**
+ * Local stand-in for MinIO: an in-memory bucket that checks each request is
+ * signed (AWS Signature Version 4) and that the payload hash matches the body
+ */
+async function startMockS3() {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const requests: { method: string; path: string; authorization: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const authorization = String(req.headers.authorization || '');
+      requests.push({ method: req.method || '', path: req.url || '', authorization });
+
+      const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+      if (!authorization.startsWith('AWS4-HMAC-SHA256 Credential=') ||
+          req.headers['x-amz-content-sha256'] !== payloadHash) {
+        res.statusCode = 403;
+        return res.end('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+      }
+
+      const key = req.url || '';
+      if (req.method === 'PUT') {
+        objects.set(key, { body, contentType: req.headers['content-type'] });
+        res.statusCode = 200;
+      } else if (req.method === 'GET') {
+        const object = objects.get(key);
+        res.statusCode = object ? 200 : 404;
+        return res.end(object?.body);
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.statusCode = 204;
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    objects,
+    requests,
+    endpoint: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+test.describe('Attachments', () => {
+  let helper: TestHelpers;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should upload, list, download and delete attachments', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'File expenses', due_date: dueDate() },
+    })).json();
+
+    const uploadRes = await page.request.post(`/api/todos/${todo.id}/attachments`, {
+      multipart: { file: { name: 'receipt.pdf', mimeType: 'application/pdf', buffer: PDF } },
+    });
+    expect(uploadRes.status()).toBe(201);
+    const { attachment } = await uploadRes.json();
+    expect(attachment).toMatchObject({ filename: 'receipt.pdf', mime_type: 'application/pdf', size: PDF.length });
+    expect(attachment.storage_key).not.toContain('receipt');
+
+    const { attachments } = await (await page.request.get(`/api/todos/${todo.id}/attachments`)).json();
+    expect(attachments.map((a: any) => a.filename)).toEqual(['receipt.pdf']);
+
+    const downloadRes = await page.request.get(`/api/todos/${todo.id}/attachments/${attachment.id}`);
+    expect(downloadRes.headers()['content-type']).toBe('application/pdf');
+    expect(downloadRes.headers()['content-disposition']).toContain('attachment; filename="receipt.pdf"');
+    expect(Buffer.compare(await downloadRes.body(), PDF)).toBe(0);
+
+    const deleteRes = await page.request.delete(`/api/todos/${todo.id}/attachments/${attachment.id}`);
+    expect(deleteRes.ok()).toBe(true);
+    expect((await page.request.get(`/api/todos/${todo.id}/attachments/${attachment.id}`)).status()).toBe(404);
+  });
+
+  test('should enforce size and type limits', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Collect screenshots', due_date: dueDate() },
+    })).json();
+    const upload = (name: string, mimeType: string, buffer: Buffer) =>
+      page.request.post(`/api/todos/${todo.id}/attachments`, { multipart: { file: { name, mimeType, buffer } } });
+
+    // The type comes from the content, not the claimed MIME type or extension
+    expect((await upload('notes.pdf', 'application/pdf', Buffer.from('just text'))).status()).toBe(415);
+    expect((await upload('icon.svg', 'image/svg+xml', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).status()).toBe(415);
+    expect((await upload('empty.png', 'image/png', Buffer.alloc(0))).status()).toBe(400);
+
+    const tooBig = Buffer.concat([PDF, Buffer.alloc(10 * 1024 * 1024)]);
+    expect((await upload('huge.pdf', 'application/pdf', tooBig)).status()).toBe(413);
+
+    const screenshot = await upload('../../screen shot.png', 'application/octet-stream', PNG);
+    expect(screenshot.status()).toBe(201);
+    expect((await screenshot.json()).attachment).toMatchObject({ filename: 'screen shot.png', mime_type: 'image/png' });
+  });
+
+  test('should check list roles and remove files with the todo', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Taxes' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Send forms', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { attachment } = await (await page.request.post(`/api/todos/${todo.id}/attachments`, {
+      multipart: { file: { name: 'form.pdf', mimeType: 'application/pdf', buffer: PDF } },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'viewer' },
+    })).json();
+
+    const other = await helper.setupOtherUser(browser);
+    const attachmentUrl = `/api/todos/${todo.id}/attachments/${attachment.id}`;
+
+    // Outsiders can't see the file at all
+    expect((await other.page.request.get(attachmentUrl)).status()).toBe(404);
+
+    // Viewers can download, but not upload or delete
+    await other.page.request.post(`/api/invites/${invite.token}`);
+    expect((await other.page.request.get(attachmentUrl)).ok()).toBe(true);
+    const viewerUpload = await other.page.request.post(`/api/todos/${todo.id}/attachments`, {
+      multipart: { file: { name: 'mine.pdf', mimeType: 'application/pdf', buffer: PDF } },
+    });
+    expect(viewerUpload.status()).toBe(403);
+    expect((await other.page.request.delete(attachmentUrl)).status()).toBe(403);
+
+    // Deleting the todo removes its attachments
+    expect((await page.request.delete(`/api/todos/${todo.id}`)).ok()).toBe(true);
+    expect((await page.request.get(attachmentUrl)).status()).toBe(404);
+  });
+
+  test('should attach a file from the UI', async ({ page }) => {
+    await page.request.post('/api/todos', { data: { title: 'Renew passport', due_date: dueDate() } });
+    await page.reload();
+
+    await page.click('button[aria-label="Attachments"]');
+    await expect(page.locator('text=No attachments')).toBeVisible();
+
+    await page.setInputFiles('input[aria-label="Attach file"]', {
+      name: 'photo.png',
+      mimeType: 'image/png',
+      buffer: PNG,
+    });
+
+    await expect(page.locator('a:has-text("photo.png")')).toBeVisible();
+    await expect(page.locator('button[aria-label="Attachments"]')).toHaveText('📎 1');
+  });
+});
+
+test.describe('S3 attachment storage', () => {
+  let s3: Awaited<ReturnType<typeof startMockS3>>;
+
+  test.beforeEach(async () => {
+    s3 = await startMockS3();
+  });
+
+  test.afterEach(async () => {
+    await s3.close();
+  });
+
+  test('should store, read and delete signed objects', async () => {
+    const storage = createS3Storage({
+      endpoint: s3.endpoint,
+      bucket: 'todo-attachments',
+      region: 'us-east-1',
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'minioadmin',
+    });
+
+    await storage.put('todos/1/abc', PDF, 'application/pdf');
+    expect(s3.objects.get('/todo-attachments/todos/1/abc')?.contentType).toBe('application/pdf');
+    expect(s3.requests[0].authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minioadmin\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+
+    expect(Buffer.compare((await storage.get('todos/1/abc'))!, PDF)).toBe(0);
+    expect(await storage.get('todos/1/missing')).toBeNull();
+
+    await storage.delete('todos/1/abc');
+    expect(s3.objects.size).toBe(0);
+    // Deleting again is not an error
+    await storage.delete('todos/1/abc');
+
+    await expect(storage.put('../escape', PDF, 'application/pdf')).rejects.toThrow('Invalid storage key');
+  });
+});
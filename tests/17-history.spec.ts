@@ -0,0 +1,134 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Change History', () => {
+  let helper: TestHelpers;
+  let username: string;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    username = await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should record who changed which field from what to what', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Draft budget', due_date: dueDate(), priority: 'medium' },
+    })).json();
+    await page.request.put(`/api/todos/${todo.id}`, { data: { title: 'Final budget', priority: 'high' } });
+
+    const { tag } = await (await page.request.post('/api/tags', { data: { name: 'finance' } })).json();
+    await page.request.post(`/api/todos/${todo.id}/tags`, { data: { tag_ids: [tag.id] } });
+
+    const { subtask } = await (await page.request.post('/api/subtasks', {
+      data: { todo_id: todo.id, title: 'Collect receipts' },
+    })).json();
+    await page.request.put(`/api/subtasks/${subtask.id}`, { data: { completed: 1 } });
+
+    const { events } = await (await page.request.get(`/api/todos/${todo.id}/history`)).json();
+    const changes = events.map((e: any) => [e.entity_type, e.action, e.field, e.old_value, e.new_value]);
+
+    expect(changes).toContainEqual(['todo', 'updated', 'title', 'Draft budget', 'Final budget']);
+    expect(changes).toContainEqual(['todo', 'updated', 'priority', 'medium', 'high']);
+    expect(changes).toContainEqual(['todo', 'updated', 'tags', [], ['finance']]);
+    expect(changes).toContainEqual(['subtask', 'updated', 'completed', false, true]);
+    expect(events.every((e: any) => e.username === username)).toBe(true);
+
+    // Newest first, starting with the todo's creation
+    expect(events[events.length - 1]).toMatchObject({ entity_type: 'todo', action: 'created', field: null });
+    expect(events[0].id).toBeGreaterThan(events[events.length - 1].id);
+  });
+
+  test('should keep deleted todos in the activity feed', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Old errand', due_date: dueDate() },
+    })).json();
+    await page.request.delete(`/api/todos/${todo.id}`);
+
+    const reviewTodo = (await (await page.request.post('/api/todos', {
+      data: { title: 'Review week', due_date: dueDate() },
+    })).json()).todo;
+    const { template } = await (await page.request.post('/api/templates', {
+      data: { name: 'Weekly review', todo_id: reviewTodo.id },
+    })).json();
+
+    const { events } = await (await page.request.get('/api/activity')).json();
+    const deleted = events.find((e: any) => e.todo_id === todo.id && e.action === 'deleted');
+    expect(deleted).toMatchObject({ summary: 'Old errand', new_value: null });
+    expect(deleted.old_value).toMatchObject({ title: 'Old errand', completed: false });
+    expect(events).toContainEqual(expect.objectContaining({
+      entity_type: 'template', entity_id: template.id, action: 'created',
+    }));
+
+    // Pages follow next_before
+    const firstPage = await (await page.request.get('/api/activity?limit=1')).json();
+    expect(firstPage.events).toHaveLength(1);
+    const secondPage = await (await page.request.get(`/api/activity?limit=1&before=${firstPage.next_before}`)).json();
+    expect(secondPage.events[0].id).toBeLessThan(firstPage.events[0].id);
+  });
+
+  test('should share list history with members only', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Household' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Fix sink', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'editor' },
+    })).json();
+
+    const other = await helper.setupOtherUser(browser);
+    expect((await other.page.request.get(`/api/todos/${todo.id}/history`)).status()).toBe(404);
+
+    await other.page.request.post(`/api/invites/${invite.token}`);
+    await other.page.request.put(`/api/todos/${todo.id}`, { data: { completed: 1 } });
+
+    // The owner sees the member's change in their feed
+    const { events } = await (await page.request.get('/api/activity')).json();
+    expect(events).toContainEqual(expect.objectContaining({
+      todo_id: todo.id, field: 'completed', new_value: true, username: other.username,
+    }));
+  });
+
+  test('should hide private edits made before a todo was shared', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Party' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Buy a gift', description: 'Something for Sam', due_date: dueDate() },
+    })).json();
+    await page.request.put(`/api/todos/${todo.id}`, { data: { description: 'Ask the team' } });
+    await page.request.put(`/api/todos/${todo.id}`, { data: { list_id: list.id } });
+
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'editor' },
+    })).json();
+    const other = await helper.setupOtherUser(browser);
+    await other.page.request.post(`/api/invites/${invite.token}`);
+    await other.page.request.put(`/api/todos/${todo.id}`, { data: { priority: 'high' } });
+
+    // The member sees the move into the list and everything since
+    const { events } = await (await other.page.request.get(`/api/todos/${todo.id}/history`)).json();
+    expect(events.map((e: any) => e.field)).toEqual(['priority', 'list']);
+    expect(JSON.stringify(events)).not.toContain('Something for Sam');
+
+    // The owner still sees all of it
+    const { events: ownerEvents } = await (await page.request.get(`/api/todos/${todo.id}/history`)).json();
+    expect(ownerEvents.map((e: any) => e.action === 'created' ? 'created' : e.field))
+      .toEqual(['priority', 'list', 'description', 'created']);
+  });
+
+  test('should show the history panel in the UI', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Call plumber', due_date: dueDate(), priority: 'low' },
+    })).json();
+    await page.request.put(`/api/todos/${todo.id}`, { data: { priority: 'high' } });
+    await page.reload();
+
+    await page.click('button[aria-label="History"]');
+    const history = page.locator('ol[aria-label="Change history"]');
+    await expect(history).toContainText('changed priority from low to high');
+    await expect(history).toContainText('created "Call plumber"');
+  });
+});
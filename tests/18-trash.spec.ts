@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Trash', () => {
+  let helper: TestHelpers;
+  let username: string;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    username = await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should restore a deleted todo with its subtasks and tags', async ({ page }) => {
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Pay rent', due_date: dueDate() },
+    })).json();
+    await page.request.post('/api/subtasks', { data: { todo_id: todo.id, title: 'Transfer money' } });
+    const { tag } = await (await page.request.post('/api/tags', { data: { name: 'home' } })).json();
+    await page.request.post(`/api/todos/${todo.id}/tags`, { data: { tag_ids: [tag.id] } });
+
+    expect((await page.request.delete(`/api/todos/${todo.id}`)).ok()).toBe(true);
+    expect((await page.request.get(`/api/todos/${todo.id}`)).status()).toBe(404);
+    const { todos: active } = await (await page.request.get('/api/todos')).json();
+    expect(active.map((t: any) => t.id)).not.toContain(todo.id);
+
+    const trash = await (await page.request.get('/api/todos/trash')).json();
+    expect(trash.retention_days).toBe(30);
+    expect(trash.todos).toHaveLength(1);
+    expect(trash.todos[0]).toMatchObject({
+      id: todo.id, title: 'Pay rent', deleted_by_username: username, subtask_count: 1, can_edit: true,
+    });
+
+    expect((await page.request.post(`/api/todos/${todo.id}/restore`)).ok()).toBe(true);
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    const restored = todos.find((t: any) => t.id === todo.id);
+    expect(restored.deleted_at).toBeNull();
+    expect(restored.subtasks.map((s: any) => s.title)).toEqual(['Transfer money']);
+    expect(restored.tags.map((t: any) => t.name)).toEqual(['home']);
+
+    // Only todos in the trash can be restored
+    expect((await page.request.post(`/api/todos/${todo.id}/restore`)).status()).toBe(404);
+
+    const { events } = await (await page.request.get(`/api/todos/${todo.id}/history`)).json();
+    expect(events.slice(0, 2).map((e: any) => e.action)).toEqual(['restored', 'deleted']);
+  });
+
+  test('should delete todos forever', async ({ page }) => {
+    const create = async (title: string) => (await (await page.request.post('/api/todos', {
+      data: { title, due_date: dueDate() },
+    })).json()).todo;
+    const first = await create('Old draft');
+    const second = await create('Older draft');
+    const kept = await create('Keep me');
+    await page.request.delete(`/api/todos/${first.id}`);
+    await page.request.delete(`/api/todos/${second.id}`);
+
+    // Todos that aren't in the trash can't be purged
+    expect((await page.request.delete(`/api/todos/trash/${kept.id}`)).status()).toBe(404);
+
+    expect((await page.request.delete(`/api/todos/trash/${first.id}`)).ok()).toBe(true);
+    expect((await page.request.post(`/api/todos/${first.id}/restore`)).status()).toBe(404);
+
+    const emptied = await (await page.request.delete('/api/todos/trash')).json();
+    expect(emptied.purged).toBe(1);
+    expect((await (await page.request.get('/api/todos/trash')).json()).todos).toEqual([]);
+
+    const { events } = await (await page.request.get('/api/activity')).json();
+    expect(events.filter((e: any) => e.action === 'purged').map((e: any) => e.summary).sort())
+      .toEqual(['Old draft', 'Older draft']);
+  });
+
+  test('should share a list\'s trash with its members', async ({ page, browser }) => {
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Garden' } })).json();
+    const { todo } = await (await page.request.post('/api/todos', {
+      data: { title: 'Water plants', due_date: dueDate(), list_id: list.id },
+    })).json();
+    const { invite } = await (await page.request.post(`/api/lists/${list.id}/invites`, {
+      data: { role: 'viewer' },
+    })).json();
+
+    const other = await helper.setupOtherUser(browser);
+    await other.page.request.post(`/api/invites/${invite.token}`);
+    await page.request.delete(`/api/todos/${todo.id}`);
+
+    // Viewers see what was deleted but can't bring it back or purge it
+    const { todos } = await (await other.page.request.get('/api/todos/trash')).json();
+    expect(todos).toEqual([expect.objectContaining({ id: todo.id, list_name: 'Garden', can_edit: false })]);
+    expect((await other.page.request.post(`/api/todos/${todo.id}/restore`)).status()).toBe(403);
+    expect((await other.page.request.delete(`/api/todos/trash/${todo.id}`)).status()).toBe(403);
+    expect((await (await other.page.request.delete('/api/todos/trash')).json()).purged).toBe(0);
+  });
+
+  test('should undo a delete from the toast and restore from the Trash view', async ({ page }) => {
+    await helper.createTodo({ title: 'Book dentist' });
+    await helper.deleteTodo('Book dentist');
+
+    await expect(page.locator('text=Todo moved to trash')).toBeVisible();
+    await page.click('button:has-text("Undo")');
+    await expect(page.locator('text=Todo restored')).toBeVisible();
+    await expect(page.locator('text=Book dentist')).toBeVisible();
+
+    await helper.deleteTodo('Book dentist');
+    await page.click('button:has-text("Trash")');
+    const trash = page.locator('ul[aria-label="Deleted todos"]');
+    await expect(trash).toContainText('Book dentist');
+
+    await page.click('button[aria-label="Restore Book dentist"]');
+    await expect(page.locator('text=The trash is empty')).toBeVisible();
+    await page.click('button[aria-label="Close"]');
+    await expect(page.locator('text=Book dentist')).toBeVisible();
+  });
+});
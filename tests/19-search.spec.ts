@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Full-Text Search API', () => {
+  let helper: TestHelpers;
+  const dueDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should match titles, descriptions, subtasks and tags with highlights', async ({ page }) => {
+    const { todo: planning } = await (await page.request.post('/api/todos', {
+      data: { title: 'Quarterly planning', description: 'Review the <budget> & hiring plan', due_date: dueDate() },
+    })).json();
+    const { todo: errands } = await (await page.request.post('/api/todos', {
+      data: { title: 'Errands', due_date: dueDate() },
+    })).json();
+    await page.request.post('/api/subtasks', { data: { todo_id: errands.id, title: 'Pick up budgeting book' } });
+    const { tag } = await (await page.request.post('/api/tags', { data: { name: 'finance' } })).json();
+    await page.request.post(`/api/todos/${errands.id}/tags`, { data: { tag_ids: [tag.id] } });
+
+    // Prefix and stemmed matches across fields
+    const budget = await (await page.request.get('/api/search?q=budg')).json();
+    expect(budget.total).toBe(2);
+    const byId = Object.fromEntries(budget.results.map((r: any) => [r.todo.id, r]));
+    expect(byId[planning.id].highlights.description).toBe('Review the &lt;<mark>budget</mark>&gt; &amp; hiring plan');
+    expect(byId[errands.id].highlights.subtasks).toBe('Pick up <mark>budgeting</mark> book');
+    expect(byId[errands.id].highlights.description).toBeUndefined();
+
+    const finance = await (await page.request.get('/api/search?q=FIN')).json();
+    expect(finance.results.map((r: any) => r.todo.id)).toEqual([errands.id]);
+    expect(finance.results[0].highlights).toEqual({ title: 'Errands', tags: '<mark>finance</mark>' });
+
+    // The index follows renames
+    await page.request.put(`/api/tags/${tag.id}`, { data: { name: 'money' } });
+    expect((await (await page.request.get('/api/search?q=finance')).json()).total).toBe(0);
+    expect((await (await page.request.get('/api/search?q=money')).json()).total).toBe(1);
+  });
+
+  test('should rank title matches first and page through results', async ({ page }) => {
+    for (const title of ['Call the dentist', 'Renew insurance', 'Dentist invoice', 'Book flights']) {
+      await page.request.post('/api/todos', {
+        data: { title, description: title === 'Book flights' ? 'Not before the dentist appointment' : '', due_date: dueDate() },
+      });
+    }
+
+    const first = await (await page.request.get('/api/search?q=dentist&limit=2')).json();
+    expect(first.total).toBe(3);
+    expect(first.next_offset).toBe(2);
+    expect(first.results.map((r: any) => r.todo.title).sort()).toEqual(['Call the dentist', 'Dentist invoice']);
+
+    const second = await (await page.request.get(`/api/search?q=dentist&limit=2&offset=${first.next_offset}`)).json();
+    expect(second.results.map((r: any) => r.todo.title)).toEqual(['Book flights']);
+    expect(second.next_offset).toBeNull();
+
+    // "Quoted phrases" match as written; operators and punctuation are just text
+    const phrase = await (await page.request.get(`/api/search?q=${encodeURIComponent('"call the"')}`)).json();
+    expect(phrase.results.map((r: any) => r.todo.title)).toEqual(['Call the dentist']);
+    const odd = await page.request.get(`/api/search?q=${encodeURIComponent('dentist OR ( NOT* "')}`);
+    expect(odd.ok()).toBe(true);
+  });
+
+  test('should only search todos the user can see', async ({ page, browser }) => {
+    const create = async (title: string) => (await (await page.request.post('/api/todos', {
+      data: { title, due_date: dueDate() },
+    })).json()).todo;
+    const secret = await create('Secret recipe');
+    const old = await create('Old recipe');
+    await page.request.put(`/api/todos/${old.id}`, { data: { completed: 1 } });
+
+    expect((await (await page.request.get('/api/search?q=recipe')).json()).total).toBe(2);
+    expect((await (await page.request.get('/api/search?q=recipe&include_completed=false')).json()).total).toBe(1);
+
+    // Trashed todos drop out of results
+    await page.request.delete(`/api/todos/${secret.id}`);
+    expect((await (await page.request.get('/api/search?q=secret')).json()).total).toBe(0);
+
+    // Other users' todos never match
+    const { page: otherPage } = await helper.setupOtherUser(browser);
+    expect((await (await otherPage.request.get('/api/search?q=recipe')).json()).total).toBe(0);
+
+    const empty = await (await page.request.get('/api/search?q=%20%22%22')).json();
+    expect(empty).toEqual({ results: [], total: 0, next_offset: null });
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Search Query Language', () => {
+  let helper: TestHelpers;
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+
+    const { tag: work } = await (await page.request.post('/api/tags', { data: { name: 'work' } })).json();
+    const create = async (data: Record<string, unknown>, tagIds: number[] = []) => {
+      const { todo } = await (await page.request.post('/api/todos', { data })).json();
+      if (tagIds.length > 0) await page.request.post(`/api/todos/${todo.id}/tags`, { data: { tag_ids: tagIds } });
+      return todo;
+    };
+
+    await create({ title: 'Quarterly report', due_date: inDays(3), priority: 'high' }, [work.id]);
+    await create({ title: 'Team offsite', due_date: inDays(30), priority: 'high', reminder_minutes: 60 }, [work.id]);
+    await create({ title: 'Water plants', due_date: inDays(1), priority: 'low', recurrence_pattern: 'weekly' });
+    await create({ title: 'Dentist', due_date: inDays(10), priority: 'medium' });
+  });
+
+  const titles = async (page: import('@playwright/test').Page, q: string) => {
+    const res = await page.request.get(`/api/todos?q=${encodeURIComponent(q)}`);
+    expect(res.ok()).toBe(true);
+    return (await res.json()).todos.map((t: any) => t.title).sort();
+  };
+
+  test('should filter by tag, priority, due date and state on the server', async ({ page }) => {
+    expect(await titles(page, 'tag:work priority:high due:<7d')).toEqual(['Quarterly report']);
+    expect(await titles(page, '-tag:work')).toEqual(['Dentist', 'Water plants']);
+    expect(await titles(page, 'is:recurring OR has:reminder')).toEqual(['Team offsite', 'Water plants']);
+    expect(await titles(page, 'due:tomorrow')).toEqual(['Water plants']);
+    expect(await titles(page, `due:>=${inDays(10).slice(0, 10)} -priority:high`)).toEqual(['Dentist']);
+    expect(await titles(page, '(report OR dentist) -is:overdue')).toEqual(['Dentist', 'Quarterly report']);
+  });
+
+  test('should report syntax errors with their position', async ({ page }) => {
+    const res = await page.request.get(`/api/todos?q=${encodeURIComponent('tag:work priority:urgent')}`);
+    expect(res.status()).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Unknown priority "urgent" (use high, medium or low)',
+      position: 18,
+    });
+
+    const unclosed = await page.request.get(`/api/todos?q=${encodeURIComponent('(report OR dentist')}`);
+    expect((await unclosed.json()).error).toBe('Missing closing parenthesis');
+  });
+
+  test('should run queries in advanced search and show errors under the search bar', async ({ page }) => {
+    await page.reload();
+    await helper.setSearchMode('advanced');
+
+    await helper.searchTodos('tag:work -has:reminder');
+    await expect(page.locator('text=Quarterly report')).toBeVisible();
+    await expect(page.locator('text=Team offsite')).not.toBeVisible();
+    await expect(page.locator('text=Water plants')).not.toBeVisible();
+
+    await helper.searchTodos('is:recurring OR');
+    await expect(page.locator('#search-error')).toHaveText('Expected a term after OR (at character 16)');
+    // The list isn't filtered while the query is invalid
+    await expect(page.locator('text=Dentist')).toBeVisible();
+
+    await helper.searchTodos('is:recurring OR priority:medium');
+    await expect(page.locator('#search-error')).not.toBeVisible();
+    await expect(page.locator('text=Water plants')).toBeVisible();
+    await expect(page.locator('text=Dentist')).toBeVisible();
+    await expect(page.locator('text=Quarterly report')).not.toBeVisible();
+  });
+});
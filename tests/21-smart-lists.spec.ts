@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Smart Lists', () => {
+  let helper: TestHelpers;
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+
+    for (const [title, priority] of [['Quarterly report', 'high'], ['Team offsite', 'high'], ['Water plants', 'low']]) {
+      await page.request.post('/api/todos', { data: { title, priority, due_date: inDays(3) } });
+    }
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  const save = async (page: import('@playwright/test').Page, name: string, filters: Record<string, unknown>) => {
+    const res = await page.request.post('/api/smart-lists', { data: { name, filters } });
+    expect(res.status()).toBe(201);
+    return (await res.json()).smart_list;
+  };
+
+  test('should save filters with live counts', async ({ page }) => {
+    const urgent = await save(page, 'Urgent', { priority: 'high' });
+    expect(urgent).toMatchObject({
+      name: 'Urgent',
+      position: 0,
+      filters: { priority: 'high', completed: 'incomplete', searchMode: 'simple' },
+      search_options: { caseSensitive: false, exactMatch: false, searchInSubtasks: true },
+    });
+
+    const counts = async () => (await (await page.request.get('/api/smart-lists')).json())
+      .smart_lists.map((s: any) => [s.name, s.count]);
+    expect(await counts()).toEqual([['Urgent', 2]]);
+
+    // Counts follow the todos
+    await page.request.post('/api/todos', { data: { title: 'Renew passport', priority: 'high', due_date: inDays(5) } });
+    expect(await counts()).toEqual([['Urgent', 3]]);
+
+    const invalid = await page.request.post('/api/smart-lists', { data: { name: 'Bad', filters: { priority: 'urgent' } } });
+    expect(invalid.status()).toBe(400);
+  });
+
+  test('should reorder, rename and delete smart lists', async ({ page, browser }) => {
+    const first = await save(page, 'First', { priority: 'high' });
+    await save(page, 'Second', { priority: 'low' });
+    const third = await save(page, 'Third', { completed: 'all' });
+
+    const reorder = await page.request.post('/api/smart-lists/reorder', {
+      data: { smart_list_id: third.id, new_position: 0 },
+    });
+    expect((await reorder.json()).smart_lists.map((s: any) => s.name)).toEqual(['Third', 'First', 'Second']);
+
+    await page.request.put(`/api/smart-lists/${first.id}`, { data: { name: 'Top priority' } });
+    await page.request.delete(`/api/smart-lists/${third.id}`);
+
+    const { smart_lists } = await (await page.request.get('/api/smart-lists')).json();
+    expect(smart_lists.map((s: any) => [s.name, s.position])).toEqual([['Top priority', 0], ['Second', 1]]);
+
+    // Other users can't see or change them
+    const { page: otherPage } = await helper.setupOtherUser(browser);
+    expect((await otherPage.request.delete(`/api/smart-lists/${first.id}`)).status()).toBe(404);
+    expect((await (await otherPage.request.get('/api/smart-lists')).json()).smart_lists).toEqual([]);
+  });
+
+  test('should apply smart lists from the sidebar and the URL', async ({ page }) => {
+    await page.goto('/?priority=high');
+    await expect(page.locator('text=Quarterly report')).toBeVisible();
+    await expect(page.locator('text=Water plants')).not.toBeVisible();
+
+    // Save the filters from the URL
+    await page.click('button:has-text("New smart list")');
+    await page.fill('input[aria-label="Smart list name"]', 'Urgent');
+    await page.click('nav[aria-label="Smart lists"] button:has-text("Save")');
+    const smartList = page.locator('nav[aria-label="Smart lists"] a:has-text("Urgent")');
+    await expect(smartList).toContainText('2');
+    await expect(smartList).toHaveAttribute('aria-current', 'true');
+
+    // Clearing the filters clears the URL; the smart list brings them back
+    await page.click('button:has-text("Clear all filters")');
+    await expect(page.locator('text=Water plants')).toBeVisible();
+    await expect(page).toHaveURL(/\/$/);
+
+    await smartList.click();
+    await expect(page.locator('text=Water plants')).not.toBeVisible();
+    await expect(page).toHaveURL(/\?priority=high$/);
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Todo Pagination & Sorting', () => {
+  let helper: TestHelpers;
+  // Noon in the default timezone (Asia/Singapore), well inside each day
+  const onDay = (day: number) => `2030-01-${String(day).padStart(2, '0')}T04:00:00.000Z`;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+
+    const todos: [string, string, number][] = [
+      ['Book flights', 'medium', 5],
+      ['Answer email', 'low', 2],
+      ['Draft proposal', 'high', 9],
+      ['Call bank', 'high', 3],
+      ['Exercise', 'medium', 7],
+    ];
+    for (const [title, priority, day] of todos) {
+      await page.request.post('/api/todos', { data: { title, priority, due_date: onDay(day) } });
+    }
+  });
+
+  const fetchAll = async (page: import('@playwright/test').Page, query: string) => {
+    const titles: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const res = await page.request.get(`/api/todos?${query}&limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+      expect(res.ok()).toBe(true);
+      const data = await res.json();
+      expect(data.total).toBe(5);
+      expect(data.todos.length).toBeLessThanOrEqual(2);
+      titles.push(...data.todos.map((t: any) => t.title));
+      cursor = data.next_cursor;
+    } while (cursor);
+    return titles;
+  };
+
+  test('should page through todos in each sort order', async ({ page }) => {
+    expect(await fetchAll(page, 'sort=title')).toEqual([
+      'Answer email', 'Book flights', 'Call bank', 'Draft proposal', 'Exercise',
+    ]);
+    expect(await fetchAll(page, 'sort=due_date&order=desc')).toEqual([
+      'Draft proposal', 'Exercise', 'Book flights', 'Call bank', 'Answer email',
+    ]);
+    // Default: priority, then due date
+    expect(await fetchAll(page, 'sort=priority')).toEqual([
+      'Call bank', 'Draft proposal', 'Book flights', 'Exercise', 'Answer email',
+    ]);
+  });
+
+  test('should filter by status and due date on the server', async ({ page }) => {
+    const { todos } = await (await page.request.get('/api/todos?sort=title')).json();
+    const callBank = todos.find((t: any) => t.title === 'Call bank');
+    await page.request.put(`/api/todos/${callBank.id}`, { data: { completed: 1 } });
+
+    const titles = async (query: string) => {
+      const data = await (await page.request.get(`/api/todos?sort=title&${query}`)).json();
+      return [data.total, data.todos.map((t: any) => t.title)];
+    };
+
+    expect(await titles('status=complete')).toEqual([1, ['Call bank']]);
+    expect(await titles('due_from=2030-01-03&due_to=2030-01-07')).toEqual([2, ['Book flights', 'Exercise']]);
+    expect(await titles('status=all&due_from=2030-01-03&due_to=2030-01-07')).toEqual([
+      3, ['Book flights', 'Call bank', 'Exercise'],
+    ]);
+  });
+
+  test('should reject invalid paging parameters', async ({ page }) => {
+    const first = await (await page.request.get('/api/todos?sort=title&limit=2')).json();
+    expect(first.next_cursor).toBeTruthy();
+
+    // A cursor only continues the sort it came from
+    expect((await page.request.get(`/api/todos?sort=due_date&limit=2&cursor=${first.next_cursor}`)).status()).toBe(400);
+    expect((await page.request.get('/api/todos?cursor=garbage')).status()).toBe(400);
+    expect((await page.request.get('/api/todos?sort=color')).status()).toBe(400);
+    expect((await page.request.get('/api/todos?limit=0')).status()).toBe(400);
+    expect((await page.request.get('/api/todos?due_from=tomorrow')).status()).toBe(400);
+  });
+});
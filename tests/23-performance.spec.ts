@@ -0,0 +1,89 @@
+import { test, expect, APIRequestContext, BrowserContext } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+/**
+ * Loading many todos. By default this only checks that pages, subtasks and
+ * tags come back complete on a small dataset; `npm run test:benchmark`
+ * (RUN_BENCHMARKS=true) imports 10k todos and also enforces time budgets.
+ * Budgets are generous for CI machines; a regression to a query per todo
+ * takes several times longer.
+ */
+const BENCHMARK = process.env.RUN_BENCHMARKS === 'true';
+const TODO_COUNT = BENCHMARK ? 10_000 : 120;
+const IMPORT_BATCH_SIZE = 2_500;
+const PAGE_BUDGET_MS = 1_000;
+const FULL_LOAD_BUDGET_MS = 5_000;
+
+/**
+ * An export-format batch of todos: every other one tagged, every third with
+ * two subtasks, every fourth completed
+ */
+function importBatch(start: number) {
+  const todos = Array.from({ length: Math.min(IMPORT_BATCH_SIZE, TODO_COUNT - start) }, (_, i) => {
+    const n = start + i;
+    return {
+      id: n,
+      title: `Benchmark todo ${n}`,
+      priority: ['high', 'medium', 'low'][n % 3],
+      due_date: new Date(Date.UTC(2030, 0, 1 + (n % 365), 4)).toISOString(),
+      completed: n % 4 === 0 ? 1 : 0,
+      subtasks: n % 3 === 0
+        ? [{ title: 'First step', position: 0, completed: 0 }, { title: 'Second step', position: 1, completed: 0 }]
+        : [],
+      tag_ids: n % 2 === 0 ? [1 + (n % 5)] : [],
+    };
+  });
+  const tags = [1, 2, 3, 4, 5].map(id => ({ id, name: `bench-${id}`, color: '#3B82F6' }));
+  return { version: '1.0', exported_at: new Date().toISOString(), data: { todos, tags, templates: [] } };
+}
+
+/**
+ * How long a GET takes once the route has been compiled (the dev server
+ * compiles on first request)
+ */
+async function timeGet(request: APIRequestContext, url: string): Promise<{ ms: number; body: any }> {
+  expect((await request.get(url)).ok()).toBe(true);
+  const started = Date.now();
+  const res = await request.get(url);
+  const ms = Date.now() - started;
+  expect(res.ok()).toBe(true);
+  return { ms, body: await res.json() };
+}
+
+test.describe('Performance', () => {
+  let context: BrowserContext;
+
+  test.beforeAll(async ({ browser }) => {
+    if (BENCHMARK) test.setTimeout(300_000);
+    context = await browser.newContext();
+    await new TestHelpers(await context.newPage()).setupNewUser();
+
+    for (let start = 0; start < TODO_COUNT; start += IMPORT_BATCH_SIZE) {
+      const res = await context.request.post('/api/todos/import', { data: importBatch(start) });
+      expect(res.ok()).toBe(true);
+    }
+  });
+
+  test.afterAll(async () => {
+    await context.close();
+  });
+
+  test('should load every todo with its subtasks', async () => {
+    const page = await timeGet(context.request, '/api/todos?status=all&limit=100');
+    expect(page.body.todos).toHaveLength(100);
+    expect(page.body.total).toBe(TODO_COUNT);
+    if (BENCHMARK) expect(page.ms).toBeLessThan(PAGE_BUDGET_MS);
+
+    const all = await timeGet(context.request, '/api/todos?status=all');
+    expect(all.body.todos).toHaveLength(TODO_COUNT);
+    expect(all.body.todos.filter((t: any) => t.subtasks.length === 2)).toHaveLength(Math.ceil(TODO_COUNT / 3));
+    if (BENCHMARK) expect(all.ms).toBeLessThan(FULL_LOAD_BUDGET_MS);
+  });
+
+  test('should export every todo with its tags', async () => {
+    const { ms, body } = await timeGet(context.request, '/api/todos/export');
+    expect(body.metadata.total_todos).toBe(TODO_COUNT);
+    expect(body.data.todos.filter((t: any) => t.tag_ids.length === 1)).toHaveLength(TODO_COUNT / 2);
+    if (BENCHMARK) expect(ms).toBeLessThan(FULL_LOAD_BUDGET_MS);
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect, Page } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Bulk Operations', () => {
+  let helper: TestHelpers;
+  let ids: number[];
+  // Noon in the default timezone (Asia/Singapore)
+  const dueDate = '2030-01-05T04:00:00.000Z';
+
+  const bulk = (page: Page, todoIds: number[], action: Record<string, unknown>) =>
+    page.request.post('/api/todos/bulk', { data: { ids: todoIds, action } });
+
+  const getTodo = async (page: Page, id: number) =>
+    (await (await page.request.get(`/api/todos/${id}`)).json()).todo;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+
+    ids = [];
+    for (const title of ['Pay rent', 'Renew passport', 'Book dentist', 'Water plants']) {
+      const { todo } = await (await page.request.post('/api/todos', {
+        data: { title, priority: 'low', due_date: dueDate },
+      })).json();
+      ids.push(todo.id);
+    }
+  });
+
+  test.afterEach(async () => {
+    await helper.closeOtherUsers();
+  });
+
+  test('should apply an action to many todos with a result for each', async ({ page, browser }) => {
+    const { tag } = await (await page.request.post('/api/tags', { data: { name: 'home', color: '#10B981' } })).json();
+
+    // Another user's todo fails on its own; the rest are changed
+    const { page: otherPage } = await helper.setupOtherUser(browser);
+    const { todo: othersTodo } = await (await otherPage.request.post('/api/todos', {
+      data: { title: 'Not mine', due_date: dueDate },
+    })).json();
+
+    const res = await bulk(page, [ids[0], ids[1], othersTodo.id], { type: 'set_priority', priority: 'high' });
+    expect(res.ok()).toBe(true);
+    const data = await res.json();
+    expect(data.results).toEqual([
+      { id: ids[0], ok: true },
+      { id: ids[1], ok: true },
+      { id: othersTodo.id, ok: false, error: 'Todo not found' },
+    ]);
+    expect([data.succeeded, data.failed]).toEqual([2, 1]);
+    expect((await getTodo(page, ids[1])).priority).toBe('high');
+    expect((await getTodo(page, ids[2])).priority).toBe('low');
+
+    await bulk(page, ids.slice(0, 3), { type: 'add_tag', tag_id: tag.id });
+    await bulk(page, [ids[0]], { type: 'remove_tag', tag_id: tag.id });
+    const { todos } = await (await page.request.get(`/api/todos?tag_id=${tag.id}&sort=title`)).json();
+    expect(todos.map((t: any) => t.title)).toEqual(['Book dentist', 'Renew passport']);
+
+    // Shifting keeps the time of day
+    await bulk(page, ids.slice(0, 2), { type: 'shift_due', days: -3 });
+    expect((await getTodo(page, ids[0])).due_date).toBe('2030-01-02T04:00:00.000Z');
+    expect((await getTodo(page, ids[3])).due_date).toBe(dueDate);
+
+    // Each change is in the todo's history
+    const { events } = await (await page.request.get(`/api/todos/${ids[0]}/history`)).json();
+    expect(events.map((e: any) => e.field)).toEqual(expect.arrayContaining(['priority', 'tags', 'due_date']));
+  });
+
+  test('should complete, move and delete todos and validate the action', async ({ page }) => {
+    const complete = await (await bulk(page, ids, { type: 'complete' })).json();
+    expect(complete.succeeded).toBe(4);
+    const { todos } = await (await page.request.get('/api/todos?status=complete')).json();
+    expect(todos).toHaveLength(4);
+
+    const { list } = await (await page.request.post('/api/lists', { data: { name: 'Household' } })).json();
+    await bulk(page, [ids[2], ids[3]], { type: 'move_to_list', list_id: list.id });
+    expect((await getTodo(page, ids[3])).list_id).toBe(list.id);
+
+    // Deleted todos go to the trash
+    await bulk(page, [ids[0], ids[1]], { type: 'delete' });
+    expect((await page.request.get(`/api/todos/${ids[0]}`)).status()).toBe(404);
+    const trash = await (await page.request.get('/api/todos/trash')).json();
+    expect(trash.todos).toHaveLength(2);
+
+    expect((await bulk(page, [], { type: 'complete' })).status()).toBe(400);
+    expect((await bulk(page, ids, { type: 'archive' })).status()).toBe(400);
+    expect((await bulk(page, ids, { type: 'set_priority', priority: 'urgent' })).status()).toBe(400);
+    expect((await bulk(page, ids, { type: 'shift_due', days: 1.5 })).status()).toBe(400);
+    expect((await bulk(page, ids, { type: 'add_tag', tag_id: 999999 })).status()).toBe(404);
+    expect((await bulk(page, ids, { type: 'move_to_list', list_id: 999999 })).status()).toBe(404);
+  });
+
+  test('should select a range with shift-click and complete it', async ({ page }) => {
+    await page.goto('/');
+    await page.selectOption('select[aria-label="Sort by"]', 'title');
+    await page.getByRole('button', { name: 'Select', exact: true }).click();
+
+    // Book dentist, Pay rent, Renew passport
+    await page.click('input[aria-label="Select Book dentist"]');
+    await page.click('input[aria-label="Select Renew passport"]', { modifiers: ['Shift'] });
+    const toolbar = page.locator('[role="toolbar"][aria-label="Bulk actions"]');
+    await expect(toolbar).toContainText('3 selected');
+    await expect(page.locator('input[aria-label="Select Pay rent"]')).toBeChecked();
+    await expect(page.locator('input[aria-label="Select Water plants"]')).not.toBeChecked();
+
+    await toolbar.locator('button:has-text("Complete")').click();
+    await expect(page.locator('text=3 todos updated')).toBeVisible();
+
+    const { todos } = await (await page.request.get('/api/todos?status=complete&sort=title')).json();
+    expect(todos.map((t: any) => t.title)).toEqual(['Book dentist', 'Pay rent', 'Renew passport']);
+  });
+});
@@ -0,0 +1,82 @@
+import { test, expect, Page } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Keyboard Shortcuts', () => {
+  let helper: TestHelpers;
+
+  const putShortcuts = (page: Page, shortcuts: unknown) =>
+    page.request.put('/api/preferences', { data: { shortcuts } });
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test('should store rebound shortcuts per user and reject conflicts', async ({ page }) => {
+    const { preferences } = await (await page.request.get('/api/preferences')).json();
+    expect(preferences.shortcuts).toMatchObject({ command_palette: 'mod+k', next_todo: 'j', tag_todo: '#' });
+
+    // Aliases are normalised; Shift+letter is the capital letter
+    const res = await putShortcuts(page, { next_todo: 'alt+j', complete_todo: 'Shift+D', command_palette: 'Cmd+P' });
+    expect(res.ok()).toBe(true);
+    const { preferences: updated } = await res.json();
+    expect(updated.shortcuts).toMatchObject({ next_todo: 'alt+j', complete_todo: 'D', command_palette: 'mod+p' });
+    expect(updated.timezone).toBe(preferences.timezone);
+
+    // Each PUT replaces the custom set; left-out actions go back to their defaults
+    const { preferences: reset } = await (await putShortcuts(page, { edit_todo: 'r' })).json();
+    expect(reset.shortcuts).toMatchObject({ next_todo: 'j', complete_todo: 'x', edit_todo: 'r' });
+
+    const conflict = await putShortcuts(page, { edit_todo: 'j' });
+    expect(conflict.status()).toBe(400);
+    expect((await conflict.json()).error).toContain("can't use the same shortcut");
+
+    expect((await putShortcuts(page, { teleport: 'g' })).status()).toBe(400);
+    expect((await putShortcuts(page, { next_todo: 'ctrl+jj' })).status()).toBe(400);
+    expect((await putShortcuts(page, ['j'])).status()).toBe(400);
+
+    // Nothing was saved by the failed requests
+    const { preferences: after } = await (await page.request.get('/api/preferences')).json();
+    expect(after.shortcuts.edit_todo).toBe('r');
+  });
+
+  test('should create a todo from the command palette', async ({ page }) => {
+    await page.goto('/');
+    await page.keyboard.press('Control+k');
+    const palette = page.getByRole('dialog', { name: 'Command palette' });
+    await expect(palette).toBeVisible();
+
+    await palette.getByRole('combobox', { name: 'Command' }).fill('Call the plumber');
+    await expect(palette.getByRole('option').first()).toHaveText('Create todo "Call the plumber"');
+    await page.keyboard.press('Enter');
+
+    await expect(palette).toBeHidden();
+    await expect(page.locator('text=Call the plumber')).toBeVisible();
+  });
+
+  test('should move between todos with j/k and complete one with x', async ({ page }) => {
+    for (const title of ['First chore', 'Second chore']) {
+      await page.request.post('/api/todos', {
+        data: { title, due_date: '2030-01-05T04:00:00.000Z' },
+      });
+    }
+    await page.goto('/');
+    await page.selectOption('select[aria-label="Sort by"]', 'title');
+    await page.locator('h1').click();
+
+    await page.keyboard.press('j');
+    await page.keyboard.press('j');
+    await page.keyboard.press('k');
+    await expect(page.locator('[aria-current="true"]')).toContainText('First chore');
+
+    await page.keyboard.press('x');
+    await expect.poll(async () => {
+      const { todos } = await (await page.request.get('/api/todos?status=complete')).json();
+      return todos.map((t: any) => t.title);
+    }).toEqual(['First chore']);
+
+    // The cheat sheet lists every shortcut
+    await page.keyboard.press('?');
+    await expect(page.getByRole('table', { name: 'Shortcuts' })).toContainText('Next todo');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers';
+
+test.describe('Quick Add', () => {
+  let helper: TestHelpers;
+
+  test.beforeEach(async ({ page }) => {
+    helper = new TestHelpers(page);
+    await helper.setupNewUser();
+  });
+
+  test('should tag a new todo by name, creating missing tags', async ({ page }) => {
+    await page.request.post('/api/tags', { data: { name: 'Work', color: '#3B82F6' } });
+
+    const res = await page.request.post('/api/todos', {
+      data: { title: 'Write report', due_date: '2030-01-05T04:00:00.000Z', tag_names: ['work', 'urgent', 'URGENT'] },
+    });
+    expect(res.status()).toBe(201);
+    const { todo } = await res.json();
+    expect(todo.tags.map((t: any) => t.name).sort()).toEqual(['Work', 'urgent']);
+
+    const { tags } = await (await page.request.get('/api/tags')).json();
+    expect(tags.map((t: any) => t.name).sort()).toEqual(['Work', 'urgent']);
+
+    const invalid = await page.request.post('/api/todos', {
+      data: { title: 'Bad tags', due_date: '2030-01-05T04:00:00.000Z', tag_names: ['x'.repeat(31)] },
+    });
+    expect(invalid.status()).toBe(400);
+  });
+
+  test('should preview and create a todo from one line', async ({ page }) => {
+    await page.goto('/');
+    await page.fill('input[placeholder="Add a new todo..."]', 'Pay rent every month on the 1st #finance !high remind 1 day before');
+
+    const preview = page.locator('[aria-label="Quick add preview"]');
+    await expect(preview).toContainText('Pay rent');
+    await expect(preview).toContainText('#finance');
+    await expect(preview).toContainText('1 day before');
+
+    await page.click('button[type="submit"]:has-text("Add")');
+    await expect(page.locator('text=Pay rent')).toBeVisible();
+
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    expect(todos).toHaveLength(1);
+    const [todo] = todos;
+    expect(todo.title).toBe('Pay rent');
+    expect(todo.priority).toBe('high');
+    expect(todo.recurrence_rule).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+    expect(todo.tags.map((t: any) => t.name)).toEqual(['finance']);
+    expect(todo.reminders.map((r: any) => r.offset_minutes)).toEqual([1440]);
+    // The 1st of a month, 9:00 AM in the default timezone (Asia/Singapore)
+    const singaporeTime = new Date(new Date(todo.due_date).getTime() + 8 * 60 * 60 * 1000).toISOString();
+    expect(singaporeTime).toMatch(/-01T09:00:00\.000Z$/);
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import Database from 'better-sqlite3';
+import {
+  getLatestVersion,
+  getMigrationStatus,
+  runMigrations,
+} from '../lib/migrate';
+import { migrations } from '../lib/migrations';
+
+test.describe('Schema Migrations', () => {
+  let db: Database.Database;
+
+  test.beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  test.afterEach(() => {
+    db.close();
+  });
+
+  test('should apply every migration once, in version order', () => {
+    const versions = migrations.map(m => m.version);
+    expect(getLatestVersion()).toBe(versions[versions.length - 1]);
+
+    const result = runMigrations(db);
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(getLatestVersion());
+    expect(result.applied.map(m => m.version)).toEqual(versions);
+
+    const status = getMigrationStatus(db);
+    expect(status.applied.map(m => m.version)).toEqual(versions);
+    expect(status.pending).toEqual([]);
+
+    // Later migrations build on earlier ones
+    const columns = db.prepare('PRAGMA table_info(todos)').all() as Array<{ name: string }>;
+    expect(columns.map(c => c.name)).toEqual(expect.arrayContaining(['recurrence_rule', 'deleted_at']));
+
+    // Running again is a no-op
+    const again = runMigrations(db);
+    expect(again.applied).toEqual([]);
+    expect(again.toVersion).toBe(getLatestVersion());
+  });
+
+  test('should only apply the migrations that are pending', () => {
+    db.exec(`
+      CREATE TABLE schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    migrations[0].up(db);
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)')
+      .run(migrations[0].version, migrations[0].name);
+
+    const result = runMigrations(db);
+    expect(result.fromVersion).toBe(migrations[0].version);
+    expect(result.applied.map(m => m.version)).toEqual(migrations.slice(1).map(m => m.version));
+  });
+
+  test('should roll back a dry run', () => {
+    const result = runMigrations(db, { dryRun: true });
+    expect(result.dryRun).toBe(true);
+    expect(result.applied).toHaveLength(migrations.length);
+
+    const status = getMigrationStatus(db);
+    expect(status.currentVersion).toBe(0);
+    expect(status.pending).toHaveLength(migrations.length);
+    const todos = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'todos'").get();
+    expect(todos).toBeUndefined();
+  });
+
+  test('should refuse a database migrated by a newer build', () => {
+    runMigrations(db);
+    const future = getLatestVersion() + 1;
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(future, 'from_the_future');
+
+    expect(() => runMigrations(db)).toThrow(`Database schema version ${future} is ahead of this build`);
+    expect(getMigrationStatus(db).currentVersion).toBe(future);
+  });
+});
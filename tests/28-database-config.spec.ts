@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import path from 'path';
+import { isEphemeralPath, loadDatabaseConfig } from '../lib/dbConfig';
+
+// Only the variables a test sets, instead of the real process environment
+const env = (vars: Record<string, string> = {}) => vars as unknown as NodeJS.ProcessEnv;
+
+test.describe('Database Configuration', () => {
+  test('should default to todos.db with WAL and a 5s busy timeout', () => {
+    expect(loadDatabaseConfig(env())).toEqual({
+      path: path.resolve('todos.db'),
+      inMemory: false,
+      walMode: true,
+      busyTimeoutMs: 5000,
+    });
+  });
+
+  test('should read the path, WAL mode and busy timeout from the environment', () => {
+    const config = loadDatabaseConfig(env({
+      DATABASE_PATH: ' data/app.db ',
+      DATABASE_WAL: 'off',
+      DATABASE_BUSY_TIMEOUT_MS: '250',
+    }));
+    expect(config).toEqual({
+      path: path.resolve('data/app.db'),
+      inMemory: false,
+      walMode: false,
+      busyTimeoutMs: 250,
+    });
+
+    expect(loadDatabaseConfig(env({ DATABASE_WAL: 'YES' })).walMode).toBe(true);
+    expect(loadDatabaseConfig(env({ DATABASE_BUSY_TIMEOUT_MS: '0' })).busyTimeoutMs).toBe(0);
+  });
+
+  test('should put the database on the Railway volume when one is attached', () => {
+    const config = loadDatabaseConfig(env({ RAILWAY_VOLUME_MOUNT_PATH: '/data' }));
+    expect(config.path).toBe(path.resolve('/data/todos.db'));
+
+    // An explicit path still wins
+    const explicit = loadDatabaseConfig(env({
+      RAILWAY_VOLUME_MOUNT_PATH: '/data',
+      DATABASE_PATH: '/srv/todos.db',
+    }));
+    expect(explicit.path).toBe(path.resolve('/srv/todos.db'));
+  });
+
+  test('should use an in-memory database without WAL', () => {
+    const expected = { path: ':memory:', inMemory: true, walMode: false, busyTimeoutMs: 5000 };
+    expect(loadDatabaseConfig(env({ DATABASE_IN_MEMORY: 'true' }))).toEqual(expected);
+    expect(loadDatabaseConfig(env({ DATABASE_PATH: ':memory:', DATABASE_WAL: 'true' }))).toEqual(expected);
+    expect(loadDatabaseConfig(env({ DATABASE_IN_MEMORY: '0' })).inMemory).toBe(false);
+  });
+
+  test('should reject invalid values', () => {
+    expect(() => loadDatabaseConfig(env({ DATABASE_WAL: 'maybe' })))
+      .toThrow('DATABASE_WAL must be true or false (got "maybe")');
+    expect(() => loadDatabaseConfig(env({ DATABASE_IN_MEMORY: 'sometimes' })))
+      .toThrow('DATABASE_IN_MEMORY must be true or false');
+    for (const value of ['-1', '1.5', 'soon']) {
+      expect(() => loadDatabaseConfig(env({ DATABASE_BUSY_TIMEOUT_MS: value })))
+        .toThrow(`DATABASE_BUSY_TIMEOUT_MS must be a non-negative integer (got "${value}")`);
+    }
+  });
+
+  test('should flag paths that are wiped on redeploy', () => {
+    const empty = env();
+    expect(isEphemeralPath(':memory:', empty)).toBe(true);
+    expect(isEphemeralPath('/tmp/todos.db', empty)).toBe(true);
+    expect(isEphemeralPath('/srv/todos.db', empty)).toBe(false);
+
+    const railway = env({ RAILWAY_ENVIRONMENT: 'production', RAILWAY_VOLUME_MOUNT_PATH: '/data' });
+    expect(isEphemeralPath('/data/todos.db', railway)).toBe(false);
+    expect(isEphemeralPath('/app/todos.db', railway)).toBe(true);
+    expect(isEphemeralPath('/app/todos.db', env({ RAILWAY_ENVIRONMENT: 'production' }))).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TestHelpers } from './helpers';
+import { getSnapshotPath, listSnapshots, rotateSnapshots } from '../lib/backup';
+
+const SNAPSHOT_NAME = /^todos-\d{8}T\d{9}Z-(scheduled|manual|pre-restore)\.db$/;
+
+test.describe('Snapshot Rotation', () => {
+  let backupDir: string;
+  let previousBackupDir: string | undefined;
+
+  test.beforeEach(() => {
+    previousBackupDir = process.env.BACKUP_DIR;
+    backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'todo-backups-'));
+    process.env.BACKUP_DIR = backupDir;
+  });
+
+  test.afterEach(() => {
+    if (previousBackupDir === undefined) delete process.env.BACKUP_DIR;
+    else process.env.BACKUP_DIR = previousBackupDir;
+    fs.rmSync(backupDir, { recursive: true, force: true });
+  });
+
+  const writeSnapshot = (name: string) => fs.writeFileSync(path.join(backupDir, name), 'snapshot');
+
+  test('should keep the newest snapshots and never delete kept ones', () => {
+    const names = [
+      'todos-20261001T000000000Z-scheduled.db',
+      'todos-20261002T000000000Z-manual.db',
+      'todos-20261003T000000000Z-pre-restore.db',
+      'todos-20261004T000000000Z-scheduled.db',
+      'todos-20261005T000000000Z-scheduled.db',
+    ];
+    names.forEach(writeSnapshot);
+    // Files that aren't snapshots are left alone
+    writeSnapshot('notes.txt');
+    writeSnapshot('todos-20261006T000000000Z-manual.db.partial');
+
+    expect(listSnapshots().map(s => s.name)).toEqual([...names].reverse());
+
+    const removed = rotateSnapshots(2, [names[0]]);
+    expect(removed.sort()).toEqual([names[1], names[2]]);
+    expect(fs.readdirSync(backupDir).sort()).toEqual([
+      'notes.txt',
+      names[0],
+      names[3],
+      names[4],
+      'todos-20261006T000000000Z-manual.db.partial',
+    ]);
+
+    // A retention of 0 keeps everything
+    expect(rotateSnapshots(0)).toEqual([]);
+    expect(listSnapshots()).toHaveLength(3);
+  });
+
+  test('should only resolve existing snapshot names', () => {
+    writeSnapshot('todos-20261001T000000000Z-manual.db');
+
+    expect(getSnapshotPath('todos-20261001T000000000Z-manual.db'))
+      .toBe(path.join(backupDir, 'todos-20261001T000000000Z-manual.db'));
+    expect(getSnapshotPath('todos-20261002T000000000Z-manual.db')).toBeNull();
+    expect(getSnapshotPath('../todos.db')).toBeNull();
+    expect(getSnapshotPath('todos-20261001T000000000Z-manual.db/../../todos.db')).toBeNull();
+    expect(getSnapshotPath('todos-20261001T000000000Z-other.db')).toBeNull();
+  });
+});
+
+test.describe('Admin Backup API', () => {
+  test('should require a signed-in admin', async ({ page, playwright }) => {
+    const anonymous = await playwright.request.newContext({ baseURL: 'http://localhost:3000' });
+    expect((await anonymous.get('/api/admin/backups')).status()).toBe(401);
+    expect((await anonymous.post('/api/admin/backups')).status()).toBe(401);
+    await anonymous.dispose();
+
+    await new TestHelpers(page).setupNewUser();
+    const requests = [
+      page.request.get('/api/admin/backups'),
+      page.request.post('/api/admin/backups'),
+      page.request.get('/api/admin/backups/todos-20261001T000000000Z-manual.db'),
+      page.request.post('/api/admin/backups/todos-20261001T000000000Z-manual.db/restore'),
+    ];
+    for (const res of await Promise.all(requests)) {
+      expect(res.status()).toBe(403);
+      expect((await res.json()).error).toBe('Admin access required');
+    }
+  });
+
+  test('should take, download and restore a snapshot', async ({ page }) => {
+    const username = await new TestHelpers(page).setupNewUser();
+    expect((await page.request.get('/api/admin/backups')).status()).toBe(403);
+
+    // Admin rights are granted by an operator, the same way as in production
+    execFileSync('npx', ['--no-install', 'tsx', 'scripts/admin.ts', 'grant', username]);
+    expect((await page.request.get('/api/admin/backups')).status()).toBe(200);
+
+    await page.request.post('/api/todos', {
+      data: { title: 'Before the snapshot', due_date: '2030-01-05T04:00:00.000Z' },
+    });
+
+    const created = await page.request.post('/api/admin/backups');
+    expect(created.status()).toBe(201);
+    const { snapshot } = await created.json();
+    expect(snapshot.name).toMatch(SNAPSHOT_NAME);
+    expect(snapshot.reason).toBe('manual');
+    expect(snapshot.size).toBeGreaterThan(0);
+
+    const { snapshots } = await (await page.request.get('/api/admin/backups')).json();
+    expect(snapshots.map((s: any) => s.name)).toContain(snapshot.name);
+
+    const download = await page.request.get(`/api/admin/backups/${snapshot.name}`);
+    expect(download.status()).toBe(200);
+    expect((await download.body()).subarray(0, 15).toString()).toBe('SQLite format 3');
+
+    // Anything that isn't an existing snapshot name is rejected, including path traversal
+    for (const name of ['..%2Ftodos.db', 'todos.db', `${snapshot.name}.partial`, 'todos-20000101T000000000Z-manual.db']) {
+      expect((await page.request.get(`/api/admin/backups/${name}`)).status()).toBe(404);
+      expect((await page.request.post(`/api/admin/backups/${name}/restore`)).status()).toBe(404);
+    }
+
+    // Restoring replaces the whole database, so keep the window for other specs short
+    await page.request.post('/api/todos', {
+      data: { title: 'After the snapshot', due_date: '2030-01-05T04:00:00.000Z' },
+    });
+    const restore = await page.request.post(`/api/admin/backups/${snapshot.name}/restore`);
+    expect(restore.status()).toBe(200);
+    const result = await restore.json();
+    expect(result.success).toBe(true);
+    expect(result.restored.name).toBe(snapshot.name);
+    expect(result.safetySnapshot.reason).toBe('pre-restore');
+
+    const { todos } = await (await page.request.get('/api/todos')).json();
+    expect(todos.map((t: any) => t.title)).toEqual(['Before the snapshot']);
+
+    // The pre-restore snapshot can undo the restore
+    const { snapshots: after } = await (await page.request.get('/api/admin/backups')).json();
+    expect(after.map((s: any) => s.name)).toEqual(expect.arrayContaining([snapshot.name, result.safetySnapshot.name]));
+  });
+});
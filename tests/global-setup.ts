@@ -0,0 +1,12 @@
+/**
+ * Playwright Global Setup
+ * Starts services the dev server talks to for the whole run, so every spec
+ * can trigger email (the returned function is the global teardown)
+ */
+
+import { startMockSmtp } from './mock-smtp';
+
+export default async function globalSetup() {
+  const smtp = await startMockSmtp();
+  return () => smtp.close();
+}
@@ -3,9 +3,15 @@
  * Reusable methods for E2E tests
  */
 
-import { Page } from '@playwright/test';
+import { Browser, BrowserContext, Page, expect } from '@playwright/test';
+
+// How often the dev server's background jobs run during tests
+// (REMINDER_INTERVAL_SECONDS and DIGEST_INTERVAL_SECONDS in playwright.config.ts)
+export const SCHEDULER_INTERVAL_MS = 2000;
 
 export class TestHelpers {
+  private otherContexts: BrowserContext[] = [];
+
   constructor(private page: Page) {}
 
   /**
@@ -65,6 +71,45 @@ export class TestHelpers {
     await this.page.waitForURL('/', { timeout: 10000 });
   }
 
+  /**
+   * Sign up a second user in their own browser context.
+   * Call closeOtherUsers() in afterEach so the context is closed even if the test fails.
+   */
+  async setupOtherUser(browser: Browser): Promise<{ page: Page; username: string }> {
+    const context = await browser.newContext();
+    this.otherContexts.push(context);
+    const page = await context.newPage();
+    const username = await new TestHelpers(page).setupNewUser();
+    return { page, username };
+  }
+
+  /**
+   * Close the browser contexts opened by setupOtherUser()
+   */
+  async closeOtherUsers() {
+    await Promise.all(this.otherContexts.splice(0).map(context => context.close()));
+  }
+
+  /**
+   * Wait for the server's reminder scheduler to deliver the in-app
+   * notification for a todo, and return it
+   */
+  async waitForNotification(todoId: number) {
+    const find = async () => {
+      const { notifications } = await (await this.page.request.get('/api/notifications')).json();
+      return notifications.find((n: any) => n.todo_id === todoId);
+    };
+    await expect.poll(find, { timeout: 10 * SCHEDULER_INTERVAL_MS }).toBeDefined();
+    return await find();
+  }
+
+  /**
+   * Let a few background job passes run, to check that something doesn't happen
+   */
+  async waitForSchedulerPasses(passes: number = 3) {
+    await this.page.waitForTimeout(passes * SCHEDULER_INTERVAL_MS);
+  }
+
   /**
    * Create a todo via UI
    */
@@ -136,10 +181,8 @@ export class TestHelpers {
    */
   async deleteTodo(title: string) {
     const todoElement = await this.getTodoElement(title);
-    
-    // Handle confirmation dialog
-    this.page.once('dialog', dialog => dialog.accept());
-    
+
+    // No confirmation: deleted todos go to the trash and can be undone
     await todoElement.locator('button:has-text("Delete")').click();
     
     // Wait for todo to disappear
@@ -0,0 +1,148 @@
+/**
+ * Mock SMTP Server
+ * Local stand-in for MailHog, started once for the whole run by
+ * tests/global-setup.ts. The dev server delivers to MOCK_SMTP_PORT
+ * (see playwright.config.ts); specs read what arrived with getEmails().
+ */
+
+import http from 'http';
+import net from 'net';
+
+export const MOCK_SMTP_PORT = 2525;
+// Like MailHog's API, received messages are listed over HTTP so specs
+// running in worker processes can see them
+const MOCK_SMTP_API_PORT = 8025;
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Start a plain-text SMTP server that accepts every message and keeps it in
+ * memory, plus the HTTP API that lists them
+ */
+export async function startMockSmtp() {
+  const messages: ReceivedEmail[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const smtp = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    let buffer = '';
+    let inData = false;
+    let message: ReceivedEmail = { from: '', to: [], data: '' };
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          // Undo dot-stuffing
+          message.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(message);
+          message = { from: '', to: [], data: '' };
+          reply('250 OK');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const address = /<([^>]*)>/.exec(line)?.[1] ?? '';
+
+        switch (line.slice(0, 4).toUpperCase()) {
+          case 'EHLO':
+          case 'HELO':
+            reply('250 localhost');
+            break;
+          case 'MAIL':
+            message.from = address;
+            reply('250 OK');
+            break;
+          case 'RCPT':
+            message.to.push(address);
+            reply('250 OK');
+            break;
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            return;
+          default:
+            reply('250 OK');
+        }
+      }
+    });
+
+    reply('220 localhost Mock SMTP');
+  });
+
+  // GET /messages?to=<address>
+  const api = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://127.0.0.1:${MOCK_SMTP_API_PORT}`);
+    if (url.pathname !== '/messages') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    const to = url.searchParams.get('to');
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(to ? messages.filter(m => m.to.includes(to)) : messages));
+  });
+
+  await new Promise<void>(resolve => smtp.listen(MOCK_SMTP_PORT, '127.0.0.1', resolve));
+  await new Promise<void>(resolve => api.listen(MOCK_SMTP_API_PORT, '127.0.0.1', resolve));
+
+  return {
+    close: async () => {
+      sockets.forEach(socket => socket.destroy());
+      await Promise.all([smtp, api].map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+    },
+  };
+}
+
+/**
+ * Messages the mock SMTP server has received for an address
+ */
+export async function getEmails(address: string): Promise<ReceivedEmail[]> {
+  const res = await fetch(`http://127.0.0.1:${MOCK_SMTP_API_PORT}/messages?to=${encodeURIComponent(address)}`);
+  return await res.json();
+}
+
+/**
+ * Decoded body of one part (text/plain or text/html) of a multipart message
+ */
+export function getPart(raw: string, contentType: string): string {
+  const boundary = /boundary="?([^";\r\n]+)"?/.exec(raw)?.[1];
+  const parts = boundary ? raw.split(`--${boundary}`) : [raw];
+  const part = parts.find(p => new RegExp(`^Content-Type: ${contentType}`, 'im').test(p));
+  if (!part) return '';
+
+  const headerEnd = part.indexOf('\r\n\r\n');
+  const headers = part.slice(0, headerEnd);
+  const body = part.slice(headerEnd + 4);
+
+  switch (/^Content-Transfer-Encoding: (\S+)/im.exec(headers)?.[1].toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body, 'base64').toString('utf8');
+    case 'quoted-printable':
+      return Buffer.from(
+        body.replace(/=\r\n/g, '').replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      ).toString('utf8');
+    default:
+      return body;
+  }
+}